@@ -24,6 +24,22 @@ import {
   type DomesticActionType,
   type DomesticActionResult,
 } from './components/DomesticActionModal';
+import { CampaignModal, type CampaignActionResult } from './components/CampaignModal';
+import { SiegeModal, type SiegeActionResult } from './components/SiegeModal';
+import { PrisonerModal, type PrisonerModalResult } from './components/PrisonerModal';
+import { BattleReplayModal } from './components/BattleReplayModal';
+import { StratagemModal, type StratagemModalResult } from './components/StratagemModal';
+import { DiplomacyModal, type DiplomacyModalResult } from './components/DiplomacyModal';
+import { RelationsModal } from './components/RelationsModal';
+import { TradeModal, type TradeModalResult } from './components/TradeModal';
+import { PersonnelModal, type PersonnelModalResult } from './components/PersonnelModal';
+import { MovementModal, type MovementModalResult } from './components/MovementModal';
+import { GovernorModal, type GovernorModalResult } from './components/GovernorModal';
+import { RankModal, type RankModalResult } from './components/RankModal';
+import {
+  DiplomacyProposalModal,
+  type DiplomacyProposalModalResult,
+} from './components/DiplomacyProposalModal';
 import { SCENARIO_190, createGameStateFromScenario } from './data/scenario190';
 import { storageService } from './services/storageService';
 import {
@@ -31,7 +47,30 @@ import {
   shouldShowLoading,
   type GameLoopController,
 } from './systems/gameLoop';
-import { INITIAL_ACTION_POINTS } from './types/gameState';
+import { createCampaignEvent } from './systems/campaign';
+import {
+  createSiegeBreakEvent,
+  createSiegeStartEvent,
+  createSiegeWithdrawEvent,
+  getCitySiege,
+} from './systems/siege';
+import { createPrisonerEvent } from './systems/prisoners';
+import { createStratagemEvent } from './systems/stratagem';
+import {
+  createDiplomacyEvent,
+  getDiplomacyProposals,
+  resolveDiplomacyProposal,
+} from './systems/diplomacy';
+import { createTradeEvent } from './systems/trade';
+import { createPersonnelEvent } from './systems/loyalty';
+import { createMovementEvent } from './systems/movement';
+import { createGovernorEvent } from './systems/governor';
+import { createRankEvent } from './systems/ranks';
+import { createTalentEvent } from './systems/talent';
+import { getVisibleCityIds, validateScoutOrder } from './systems/intelligence';
+import { calculateLoyaltyDecrease, calculateRecruitmentCost } from './systems/domestic';
+import { addTroopsOfType } from './systems/troops';
+import { AP_COST_MOVEMENT, INITIAL_ACTION_POINTS } from './types/gameState';
 import type { GameState, GamePhase } from './types/gameState';
 import type { GameEvent, DomesticEventData } from './types/events';
 import type { General } from './types/general';
@@ -78,6 +117,26 @@ function GameMain() {
   // 内政对话框状态
   const [showDomesticModal, setShowDomesticModal] = useState(false);
   const [domesticActionType, setDomesticActionType] = useState<DomesticActionType | null>(null);
+  // 出征对话框状态
+  const [showCampaignModal, setShowCampaignModal] = useState(false);
+  // 围城对话框状态
+  const [showSiegeModal, setShowSiegeModal] = useState(false);
+  // 俘虏对话框状态
+  const [showPrisonerModal, setShowPrisonerModal] = useState(false);
+  // 计略对话框状态
+  const [showStratagemModal, setShowStratagemModal] = useState(false);
+  // 外交对话框状态
+  const [showDiplomacyModal, setShowDiplomacyModal] = useState(false);
+  // 贸易对话框状态
+  const [showTradeModal, setShowTradeModal] = useState(false);
+  const [showPersonnelModal, setShowPersonnelModal] = useState(false);
+  const [showMovementModal, setShowMovementModal] = useState(false);
+  const [showGovernorModal, setShowGovernorModal] = useState(false);
+  const [showRankModal, setShowRankModal] = useState(false);
+  // 外交形势对话框状态
+  const [showRelationsModal, setShowRelationsModal] = useState(false);
+  // 战斗回放的事件
+  const [replayEvent, setReplayEvent] = useState<GameEvent | null>(null);
 
   /**
    * 初始化游戏循环控制器
@@ -222,10 +281,21 @@ function GameMain() {
           }
           break;
         case 'campaign':
-          // 出征消耗2AP
-          if (state.actionPoints >= 2) {
-            dispatch({ type: 'DEDUCT_AP', payload: 'campaign' });
-            // TODO: 执行出征逻辑
+          // 出征消耗2AP：打开出征对话框选择目标和武将
+          if (state.actionPoints >= 2 && state.selectedCity) {
+            setShowCampaignModal(true);
+          }
+          break;
+        case 'siege':
+          // 围城、突击与解围消耗2AP（撤围不消耗）
+          if (state.actionPoints >= 2 && state.selectedCity) {
+            setShowSiegeModal(true);
+          }
+          break;
+        case 'prisoners':
+          // 处置俘虏消耗1AP
+          if (state.actionPoints >= 1) {
+            setShowPrisonerModal(true);
           }
           break;
         case 'view_details':
@@ -235,14 +305,63 @@ function GameMain() {
           break;
         case 'stratagem':
           // 计略（消耗1AP）
+          if (state.actionPoints >= 1 && state.selectedCity) {
+            setShowStratagemModal(true);
+          }
+          break;
+        case 'diplomacy':
+          // 外交（消耗1AP）：自所选己方城市遣使
+          if (state.actionPoints >= 1 && state.selectedCity) {
+            setShowDiplomacyModal(true);
+          }
+          break;
+        case 'trade':
+          // 贸易（消耗1AP）：自所选己方城市输送或收取钱粮
+          if (state.actionPoints >= 1 && state.selectedCity) {
+            setShowTradeModal(true);
+          }
+          break;
+        case 'personnel':
+          // 人事（消耗1AP）：自所选己方城市出资赏赐武将或挖角邻城敌将
+          if (state.actionPoints >= 1 && state.selectedCity) {
+            setShowPersonnelModal(true);
+          }
+          break;
+        case 'movement':
+          // 调动（消耗1AP）：自所选己方城市遣武将率部调往其他己方城市
+          if (state.actionPoints >= AP_COST_MOVEMENT && state.selectedCity) {
+            setShowMovementModal(true);
+          }
+          break;
+        case 'governor':
+          // 太守（消耗1AP）：任免所选己方城市的太守并设定委任方针
+          if (state.actionPoints >= 1 && state.selectedCity) {
+            setShowGovernorModal(true);
+          }
+          break;
+        case 'rank':
+          // 授官（消耗1AP）：以功绩为麾下武将晋升官阶
           if (state.actionPoints >= 1) {
+            setShowRankModal(true);
+          }
+          break;
+        case 'scout':
+          // 侦察（消耗1AP）：派出斥候掌握敌城情报
+          if (
+            state.actionPoints >= 1 &&
+            state.selectedCity &&
+            !validateScoutOrder(state, state.selectedCity, state.currentFaction)
+          ) {
             dispatch({ type: 'DEDUCT_AP', payload: 'domestic' });
-            // TODO: 执行计略逻辑
+            dispatch({
+              type: 'SCOUT_CITY',
+              payload: { cityId: state.selectedCity, factionId: state.currentFaction },
+            });
           }
           break;
       }
     },
-    [state.actionPoints, state.selectedCity, dispatch]
+    [state, dispatch]
   );
 
   /**
@@ -344,13 +463,13 @@ function GameMain() {
           break;
         case 'recruit':
           if (result.success && result.value) {
-            const goldCost = result.value * 2;
-            const popCost = result.value;
-            const general = state.generals[result.generalId];
-            const loyaltyDecrease = Math.max(
-              1,
-              5 - Math.floor((general?.attributes.cha || 0) / 20)
+            const troopType = result.troopType ?? 'infantry';
+            const { gold: goldCost, population: popCost } = calculateRecruitmentCost(
+              result.value,
+              troopType
             );
+            const general = state.generals[result.generalId];
+            const loyaltyDecrease = calculateLoyaltyDecrease(general?.attributes.cha || 0);
 
             dispatch({
               type: 'UPDATE_CITY',
@@ -370,18 +489,33 @@ function GameMain() {
               type: 'UPDATE_GENERAL',
               payload: {
                 generalId: result.generalId,
-                updates: {
-                  troops: (state.generals[result.generalId]?.troops || 0) + result.value,
-                },
+                updates: general
+                  ? addTroopsOfType(general, troopType, result.value)
+                  : { troops: result.value },
               },
             });
           }
           break;
         case 'search_talent':
-          // 人才探索成功时，可以添加新武将（简化处理：只添加事件）
+          // 探索发现在野武将，或登用已发现的在野武将
+          if (result.talent) {
+            dispatch({ type: 'APPLY_TALENT', payload: result.talent });
+          }
           break;
       }
 
+      // 登用成功载入武将事件，其余记为内政事件
+      const talentEvent = result.talent
+        ? createTalentEvent(result.talent.order, result.talent.result, state)
+        : null;
+      if (talentEvent) {
+        talentEvent.narrative = result.message;
+        dispatch({ type: 'ADD_EVENT', payload: talentEvent });
+        setShowDomesticModal(false);
+        setDomesticActionType(null);
+        return;
+      }
+
       // 添加事件到日志
       const event: GameEvent = {
         id: `domestic_${Date.now()}`,
@@ -392,6 +526,8 @@ function GameMain() {
           action: result.actionType,
           executor: result.generalId,
           value: result.value || 0,
+          troopType: result.troopType,
+          skills: result.skills,
         } as DomesticEventData,
         narrative: result.message,
       };
@@ -401,16 +537,297 @@ function GameMain() {
       setShowDomesticModal(false);
       setDomesticActionType(null);
     },
-    [state.cities, state.generals, state.currentDate, dispatch]
+    [state, dispatch]
+  );
+
+  /**
+   * 处理出征执行完成
+   */
+  const handleCampaignExecute = useCallback(
+    (campaign: CampaignActionResult) => {
+      if (campaign.result.success) {
+        // 扣除行动力
+        dispatch({ type: 'DEDUCT_AP', payload: 'campaign' });
+
+        // 添加战斗事件（基于出征前的状态生成）
+        const event = createCampaignEvent(campaign.order, campaign.result, state);
+        event.narrative = campaign.message;
+
+        dispatch({
+          type: 'APPLY_CAMPAIGN',
+          payload: { order: campaign.order, result: campaign.result },
+        });
+        dispatch({ type: 'ADD_EVENT', payload: event });
+
+        // 显示战斗指示器
+        setBattleIndicators([
+          {
+            connectionId: [campaign.order.fromCityId, campaign.order.toCityId].sort().join('-'),
+            active: true,
+          },
+        ]);
+        setTimeout(() => setBattleIndicators([]), 2000);
+      }
+
+      // 关闭对话框
+      setShowCampaignModal(false);
+    },
+    [state, dispatch]
+  );
+
+  /**
+   * 处理围城指令执行完成
+   */
+  const handleSiegeExecute = useCallback(
+    (action: SiegeActionResult) => {
+      let event: GameEvent | null = null;
+      let connection: string[] = [];
+
+      switch (action.kind) {
+        case 'begin':
+          dispatch({ type: 'DEDUCT_AP', payload: 'campaign' });
+          event = createSiegeStartEvent(action.order, state);
+          dispatch({ type: 'BEGIN_SIEGE', payload: action.order });
+          connection = [action.order.fromCityId, action.order.toCityId];
+          break;
+        case 'break':
+          if (action.result.success) {
+            const siege = state.sieges?.find((s) => s.id === action.order.siegeId);
+            dispatch({ type: 'DEDUCT_AP', payload: 'campaign' });
+            event = createSiegeBreakEvent(action.order, action.result, state);
+            dispatch({
+              type: 'APPLY_SIEGE_BREAK',
+              payload: { order: action.order, result: action.result },
+            });
+            connection = siege ? [siege.campCityId, siege.targetCityId] : [];
+          }
+          break;
+        case 'withdraw':
+          event = createSiegeWithdrawEvent(action.siege, state);
+          dispatch({ type: 'WITHDRAW_SIEGE', payload: action.siege.id });
+          break;
+      }
+
+      if (event) {
+        event.narrative = action.message;
+        dispatch({ type: 'ADD_EVENT', payload: event });
+      }
+
+      // 显示战斗指示器
+      if (connection.length > 0) {
+        setBattleIndicators([{ connectionId: connection.sort().join('-'), active: true }]);
+        setTimeout(() => setBattleIndicators([]), 2000);
+      }
+
+      // 关闭对话框
+      setShowSiegeModal(false);
+    },
+    [state, dispatch]
+  );
+
+  /**
+   * 处理俘虏处置完成
+   */
+  const handlePrisonerExecute = useCallback(
+    ({ order, result, message }: PrisonerModalResult) => {
+      if (result.success) {
+        dispatch({ type: 'DEDUCT_AP', payload: 'domestic' });
+        const event = createPrisonerEvent(order, result, state);
+        dispatch({ type: 'APPLY_PRISONER_ACTION', payload: { order, result } });
+        if (event) {
+          event.narrative = message;
+          dispatch({ type: 'ADD_EVENT', payload: event });
+        }
+      }
+
+      // 关闭对话框
+      setShowPrisonerModal(false);
+    },
+    [state, dispatch]
+  );
+
+  /**
+   * 处理计略执行完成
+   */
+  const handleStratagemExecute = useCallback(
+    ({ order, result, message }: StratagemModalResult) => {
+      if (result.success) {
+        dispatch({ type: 'DEDUCT_AP', payload: 'domestic' });
+        const event = createStratagemEvent(order, result, state);
+        dispatch({ type: 'APPLY_STRATAGEM', payload: { order, result } });
+        if (event) {
+          event.narrative = message;
+          dispatch({ type: 'ADD_EVENT', payload: event });
+        }
+      }
+
+      // 关闭对话框
+      setShowStratagemModal(false);
+    },
+    [state, dispatch]
+  );
+
+  /**
+   * 处理外交执行完成
+   */
+  const handleDiplomacyExecute = useCallback(
+    ({ order, result, message }: DiplomacyModalResult) => {
+      if (result.success) {
+        dispatch({ type: 'DEDUCT_AP', payload: 'domestic' });
+        const event = createDiplomacyEvent(order, result, state);
+        dispatch({ type: 'APPLY_DIPLOMACY', payload: { order, result } });
+        if (event) {
+          event.narrative = message;
+          dispatch({ type: 'ADD_EVENT', payload: event });
+        }
+      }
+
+      // 关闭对话框
+      setShowDiplomacyModal(false);
+    },
+    [state, dispatch]
+  );
+
+  /**
+   * 处理贸易执行完成
+   */
+  const handleTradeExecute = useCallback(
+    ({ order, result, message }: TradeModalResult) => {
+      if (result.success) {
+        dispatch({ type: 'DEDUCT_AP', payload: 'domestic' });
+        const event = createTradeEvent(order, result, state);
+        dispatch({ type: 'APPLY_TRADE', payload: { order, result } });
+        if (event) {
+          event.narrative = message;
+          dispatch({ type: 'ADD_EVENT', payload: event });
+        }
+      }
+
+      // 关闭对话框
+      setShowTradeModal(false);
+    },
+    [state, dispatch]
+  );
+
+  /**
+   * 处理人事执行完成
+   */
+  const handlePersonnelExecute = useCallback(
+    ({ order, result, message }: PersonnelModalResult) => {
+      if (result.success) {
+        dispatch({ type: 'DEDUCT_AP', payload: 'domestic' });
+        const event = createPersonnelEvent(order, result, state);
+        dispatch({ type: 'APPLY_PERSONNEL', payload: { order, result } });
+        if (event) {
+          event.narrative = message;
+          dispatch({ type: 'ADD_EVENT', payload: event });
+        }
+      }
+
+      // 关闭对话框
+      setShowPersonnelModal(false);
+    },
+    [state, dispatch]
+  );
+
+  /**
+   * 处理调动执行完成
+   */
+  const handleMovementExecute = useCallback(
+    ({ order, result, message }: MovementModalResult) => {
+      if (result.success) {
+        dispatch({ type: 'DEDUCT_AP', payload: 'movement' });
+        const event = createMovementEvent(order, result, state);
+        dispatch({ type: 'APPLY_MOVEMENT', payload: { order, result } });
+        if (event) {
+          event.narrative = message;
+          dispatch({ type: 'ADD_EVENT', payload: event });
+        }
+      }
+
+      // 关闭对话框
+      setShowMovementModal(false);
+    },
+    [state, dispatch]
+  );
+
+  /**
+   * 处理太守任免完成
+   */
+  const handleGovernorExecute = useCallback(
+    ({ order, result, message }: GovernorModalResult) => {
+      if (result.success) {
+        dispatch({ type: 'DEDUCT_AP', payload: 'domestic' });
+        const event = createGovernorEvent(order, result, state);
+        dispatch({ type: 'APPLY_GOVERNOR', payload: { order, result } });
+        if (event) {
+          event.narrative = message;
+          dispatch({ type: 'ADD_EVENT', payload: event });
+        }
+      }
+
+      // 关闭对话框
+      setShowGovernorModal(false);
+    },
+    [state, dispatch]
+  );
+
+  /**
+   * 处理授官完成
+   */
+  const handleRankExecute = useCallback(
+    ({ order, result }: RankModalResult) => {
+      if (result.success) {
+        dispatch({ type: 'DEDUCT_AP', payload: 'domestic' });
+        const event = createRankEvent(order, result, state);
+        dispatch({ type: 'APPLY_RANK', payload: { order, result } });
+        if (event) {
+          dispatch({ type: 'ADD_EVENT', payload: event });
+        }
+      }
+
+      // 关闭对话框
+      setShowRankModal(false);
+    },
+    [state, dispatch]
+  );
+
+  /**
+   * 处理答复AI势力的外交提议
+   */
+  const handleProposalRespond = useCallback(
+    ({ proposal, accepted, message }: DiplomacyProposalModalResult) => {
+      const { event } = resolveDiplomacyProposal(state, proposal.id, accepted);
+      dispatch({
+        type: 'RESOLVE_DIPLOMACY_PROPOSAL',
+        payload: { proposalId: proposal.id, accepted },
+      });
+      if (event) {
+        event.narrative = message;
+        dispatch({ type: 'ADD_EVENT', payload: event });
+      }
+    },
+    [state, dispatch]
   );
 
   const playerFaction = state.factions[state.currentFaction];
+  const pendingProposal =
+    state.phase === 'player'
+      ? getDiplomacyProposals(state).find(p => p.to === state.currentFaction)
+      : undefined;
   const selectedCityData = state.selectedCity ? state.cities[state.selectedCity] : null;
   const selectedCityFaction = selectedCityData
     ? state.factions[selectedCityData.faction]
     : undefined;
   const selectedCityGenerals = selectedCityData ? getCityGenerals(selectedCityData.id) : [];
   const isPlayerCity = selectedCityData ? selectedCityData.faction === state.currentFaction : false;
+  const selectedCitySiege = selectedCityData ? getCitySiege(state, selectedCityData.id) : undefined;
+
+  // 战争迷雾：玩家可见详情的城市
+  const visibleCityIds = useMemo(() => getVisibleCityIds(state, state.currentFaction), [state]);
+  const selectedCityScoutError = selectedCityData
+    ? validateScoutOrder(state, selectedCityData.id, state.currentFaction)
+    : null;
 
   const { totalGold, totalGrain, totalTroops } = useMemo(() => {
     if (!playerFaction) {
@@ -514,6 +931,7 @@ function GameMain() {
               totalGold={totalGold}
               totalFood={totalGrain}
               totalTroops={totalTroops}
+              onShowRelations={() => setShowRelationsModal(true)}
             />
           )}
 
@@ -522,6 +940,10 @@ function GameMain() {
               city={selectedCityData}
               faction={selectedCityFaction}
               generals={selectedCityGenerals}
+              siege={selectedCitySiege}
+              siegeAttacker={selectedCitySiege && state.factions[selectedCitySiege.attackerFaction]}
+              visible={visibleCityIds.has(selectedCityData.id)}
+              intelHint={selectedCityScoutError ?? '可派斥候侦察（1 AP）'}
             />
           )}
 
@@ -542,12 +964,14 @@ function GameMain() {
             factions={state.factions}
             selectedCityId={state.selectedCity}
             battleIndicators={battleIndicators}
+            sieges={state.sieges}
+            visibleCityIds={visibleCityIds}
             onCitySelect={(cityId) => handleCitySelect(cityId)}
           />
         </div>
 
         <div className="right-sidebar">
-          <NewsPanel events={state.eventLog} />
+          <NewsPanel events={state.eventLog} onSelectEvent={setReplayEvent} />
         </div>
       </div>
 
@@ -562,6 +986,7 @@ function GameMain() {
           generals={state.generals}
           playerFactionId={state.currentFaction}
           currentDate={state.currentDate}
+          visibleCityIds={visibleCityIds}
         />
       )}
 
@@ -586,6 +1011,143 @@ function GameMain() {
           actionType={domesticActionType}
           city={state.cities[state.selectedCity]}
           generals={getCityGenerals(state.selectedCity)}
+          gameState={state}
+        />
+      )}
+
+      {/* 出征对话框 */}
+      {showCampaignModal && state.selectedCity && (
+        <CampaignModal
+          isOpen={showCampaignModal}
+          onClose={() => setShowCampaignModal(false)}
+          onExecute={handleCampaignExecute}
+          fromCity={state.cities[state.selectedCity]}
+          gameState={state}
+        />
+      )}
+
+      {/* 围城对话框 */}
+      {showSiegeModal && state.selectedCity && (
+        <SiegeModal
+          isOpen={showSiegeModal}
+          onClose={() => setShowSiegeModal(false)}
+          onExecute={handleSiegeExecute}
+          fromCity={state.cities[state.selectedCity]}
+          gameState={state}
+        />
+      )}
+
+      {/* 俘虏对话框 */}
+      {showPrisonerModal && (
+        <PrisonerModal
+          isOpen={showPrisonerModal}
+          onClose={() => setShowPrisonerModal(false)}
+          onExecute={handlePrisonerExecute}
+          gameState={state}
+        />
+      )}
+
+      {/* 计略对话框 */}
+      {showStratagemModal && selectedCityData && (
+        <StratagemModal
+          isOpen={showStratagemModal}
+          onClose={() => setShowStratagemModal(false)}
+          onExecute={handleStratagemExecute}
+          targetCity={selectedCityData}
+          gameState={state}
+        />
+      )}
+
+      {/* 外交对话框 */}
+      {showDiplomacyModal && selectedCityData && (
+        <DiplomacyModal
+          isOpen={showDiplomacyModal}
+          onClose={() => setShowDiplomacyModal(false)}
+          onExecute={handleDiplomacyExecute}
+          fromCity={selectedCityData}
+          gameState={state}
+        />
+      )}
+
+      {/* 贸易对话框 */}
+      {showTradeModal && selectedCityData && (
+        <TradeModal
+          isOpen={showTradeModal}
+          onClose={() => setShowTradeModal(false)}
+          onExecute={handleTradeExecute}
+          fromCity={selectedCityData}
+          gameState={state}
+        />
+      )}
+
+      {/* 人事对话框 */}
+      {showPersonnelModal && selectedCityData && (
+        <PersonnelModal
+          isOpen={showPersonnelModal}
+          onClose={() => setShowPersonnelModal(false)}
+          onExecute={handlePersonnelExecute}
+          fromCity={selectedCityData}
+          gameState={state}
+        />
+      )}
+
+      {/* 调动对话框 */}
+      {showMovementModal && selectedCityData && (
+        <MovementModal
+          isOpen={showMovementModal}
+          onClose={() => setShowMovementModal(false)}
+          onExecute={handleMovementExecute}
+          fromCity={selectedCityData}
+          gameState={state}
+        />
+      )}
+
+      {/* 太守对话框 */}
+      {showGovernorModal && selectedCityData && (
+        <GovernorModal
+          isOpen={showGovernorModal}
+          onClose={() => setShowGovernorModal(false)}
+          onExecute={handleGovernorExecute}
+          city={selectedCityData}
+          gameState={state}
+        />
+      )}
+
+      {/* 授官对话框 */}
+      {showRankModal && (
+        <RankModal
+          isOpen={showRankModal}
+          onClose={() => setShowRankModal(false)}
+          onExecute={handleRankExecute}
+          gameState={state}
+        />
+      )}
+
+      {/* AI势力遣使来访 */}
+      {pendingProposal && (
+        <DiplomacyProposalModal
+          key={pendingProposal.id}
+          proposal={pendingProposal}
+          onRespond={handleProposalRespond}
+          gameState={state}
+        />
+      )}
+
+      {/* 外交形势对话框 */}
+      <RelationsModal
+        isOpen={showRelationsModal}
+        onClose={() => setShowRelationsModal(false)}
+        gameState={state}
+      />
+
+      {/* 战斗回放对话框 */}
+      {replayEvent && (
+        <BattleReplayModal
+          key={replayEvent.id}
+          isOpen={replayEvent !== null}
+          onClose={() => setReplayEvent(null)}
+          event={replayEvent}
+          gameState={state}
         />
       )}
     </div>
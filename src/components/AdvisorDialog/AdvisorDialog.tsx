@@ -33,6 +33,8 @@ export interface AdvisorDialogProps {
   playerFactionId: string;
   /** 当前日期 */
   currentDate: { year: number; month: number };
+  /** 玩家可见详情的城市（战争迷雾） */
+  visibleCityIds: ReadonlySet<string>;
 }
 
 /**
@@ -47,6 +49,7 @@ export function AdvisorDialog({
   generals,
   playerFactionId,
   currentDate,
+  visibleCityIds,
 }: AdvisorDialogProps) {
   const [advice, setAdvice] = useState<AdvisorResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -70,7 +73,8 @@ export function AdvisorDialog({
         factions,
         generals,
         playerFactionId,
-        currentDate
+        currentDate,
+        visibleCityIds
       );
       setAdvice(response);
     } catch (error) {
@@ -90,6 +94,7 @@ export function AdvisorDialog({
     generals,
     playerFactionId,
     currentDate,
+    visibleCityIds,
     advisorService,
     currentAdvisor.name,
   ]);
@@ -0,0 +1,211 @@
+/**
+ * 战斗回放对话框
+ * 逐回合重现战斗中双方的兵力、士气、伤害与出手武将
+ * @module components/BattleReplayModal
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { GameEvent, BattleRoundRecord } from '../../types/events';
+import type { GameState } from '../../types/gameState';
+import { MORALE_MAX } from '../../systems/morale';
+import { getBattleReplay } from '../../systems/battleReplay';
+import '../DomesticActionModal/DomesticActionModal.css';
+import './BattleReplayModal.css';
+
+/**
+ * 战斗回放对话框属性
+ */
+export interface BattleReplayModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 回放的战斗事件 */
+    event: GameEvent | null;
+    /** 当前游戏状态（用于显示名称） */
+    gameState: GameState;
+}
+
+/** 自动播放每回合间隔（毫秒） */
+const PLAY_INTERVAL = 1000;
+
+const RESULT_LABELS = {
+    win: '攻方获胜',
+    lose: '守方获胜',
+    draw: '不分胜负',
+} as const;
+
+/**
+ * 兵力与士气条
+ */
+function SideBar({
+    label,
+    value,
+    max,
+    kind,
+}: {
+    label: string;
+    value: number;
+    max: number;
+    kind: 'troops' | 'morale';
+}) {
+    const percent = max > 0 ? Math.min(100, (value / max) * 100) : 0;
+    return (
+        <>
+            <div className="replay-bar-label">
+                <span>{label}</span>
+                <span>{value.toLocaleString()}</span>
+            </div>
+            <div className="replay-bar">
+                <div className={`replay-bar-fill ${kind}`} style={{ width: `${percent}%` }} />
+            </div>
+        </>
+    );
+}
+
+/**
+ * 战斗回放对话框组件
+ */
+export function BattleReplayModal({ isOpen, onClose, event, gameState }: BattleReplayModalProps) {
+    const replay = useMemo(() => (event ? getBattleReplay(event) : null), [event]);
+    const [roundIndex, setRoundIndex] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const lastIndex = replay ? replay.rounds.length - 1 : 0;
+
+    // 自动播放：逐回合推进，到达最后一回合时停止
+    useEffect(() => {
+        if (!isPlaying) return;
+        const timer = setTimeout(() => {
+            if (roundIndex + 1 >= lastIndex) setIsPlaying(false);
+            setRoundIndex(Math.min(lastIndex, roundIndex + 1));
+        }, PLAY_INTERVAL);
+        return () => clearTimeout(timer);
+    }, [isPlaying, roundIndex, lastIndex]);
+
+    const handlePrev = useCallback(() => {
+        setIsPlaying(false);
+        setRoundIndex(index => Math.max(0, index - 1));
+    }, []);
+
+    const handleNext = useCallback(() => {
+        setIsPlaying(false);
+        setRoundIndex(index => Math.min(lastIndex, index + 1));
+    }, [lastIndex]);
+
+    const handleTogglePlay = useCallback(() => {
+        // 已在最后一回合时从头播放
+        if (!isPlaying && roundIndex >= lastIndex) setRoundIndex(0);
+        setIsPlaying(playing => !playing);
+    }, [isPlaying, roundIndex, lastIndex]);
+
+    const handleScrub = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        setIsPlaying(false);
+        setRoundIndex(Number(e.target.value));
+    }, []);
+
+    if (!isOpen || !event || !replay) return null;
+
+    const { data, rounds } = replay;
+    const round: BattleRoundRecord = rounds[Math.min(roundIndex, lastIndex)];
+    const generalName = (id: string) => gameState.generals[id]?.name || id || '守军';
+    const factionName = (id: string) => gameState.factions[id]?.name || '无主';
+    const cityId = data.siege?.city ?? data.cityCapture;
+
+    return (
+        <div className="domestic-modal-overlay" onClick={onClose}>
+            <div className="domestic-modal battle-replay-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">📽️</span>
+                    <h2>战斗回放</h2>
+                    <span className="city-name">
+                        - {event.timestamp.year}年{event.timestamp.month}月
+                        {cityId ? ` ${gameState.cities[cityId]?.name || cityId}` : ''}
+                    </span>
+                    <button className="close-btn" onClick={onClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    <div className="replay-sides">
+                        <div className="replay-side">
+                            <div className="replay-side-name">
+                                {factionName(data.attacker)}军 · {generalName(round.attackerGeneral)}
+                            </div>
+                            <SideBar label="兵力" value={round.attackerTroops} max={replay.initialAttackerTroops} kind="troops" />
+                            <SideBar label="士气" value={round.attackerMorale} max={MORALE_MAX} kind="morale" />
+                        </div>
+                        <div className="replay-side">
+                            <div className="replay-side-name">
+                                {factionName(data.defender)}军 · {generalName(round.defenderGeneral)}
+                            </div>
+                            <SideBar label="兵力" value={round.defenderTroops} max={replay.initialDefenderTroops} kind="troops" />
+                            <SideBar label="士气" value={round.defenderMorale} max={MORALE_MAX} kind="morale" />
+                        </div>
+                    </div>
+
+                    {/* 本回合战况 */}
+                    <div className="section replay-round">
+                        <h3>
+                            第 {round.round} / {rounds.length} 回合
+                        </h3>
+                        {round.duel && (
+                            <div className="replay-duel">
+                                {round.duel.instantKill
+                                    ? `${generalName(round.duel.winner || '')}阵前重创敌将，敌将负伤败走！`
+                                    : `两军主将阵前单挑，${generalName(round.duel.winner || '')}获胜`}
+                            </div>
+                        )}
+                        <div className="preview-row">
+                            <span className="label">{generalName(round.attackerGeneral)}出击:</span>
+                            <span className="value gain">
+                                伤害 {round.damageToDefender.toLocaleString()}，敌军伤亡 {round.defenderCasualties.toLocaleString()}
+                                {round.defenderDamageReduced ? '（守将统帅减伤）' : ''}
+                            </span>
+                        </div>
+                        <div className="preview-row">
+                            <span className="label">{generalName(round.defenderGeneral)}反击:</span>
+                            <span className="value cost">
+                                伤害 {round.damageToAttacker.toLocaleString()}，攻方伤亡 {round.attackerCasualties.toLocaleString()}
+                                {round.attackerDamageReduced ? '（攻将统帅减伤）' : ''}
+                            </span>
+                        </div>
+                        {roundIndex >= lastIndex && <div className="replay-outcome">{RESULT_LABELS[data.result]}</div>}
+                    </div>
+
+                    {/* 时间轴 */}
+                    <input
+                        className="replay-scrubber"
+                        type="range"
+                        min={0}
+                        max={lastIndex}
+                        value={Math.min(roundIndex, lastIndex)}
+                        onChange={handleScrub}
+                    />
+                    <div className="replay-controls">
+                        <button className="cancel-btn" onClick={handlePrev} disabled={roundIndex <= 0}>
+                            上一回合
+                        </button>
+                        <button className="execute-btn" onClick={handleTogglePlay}>
+                            {isPlaying ? '暂停' : '播放'}
+                        </button>
+                        <button className="cancel-btn" onClick={handleNext} disabled={roundIndex >= lastIndex}>
+                            下一回合
+                        </button>
+                    </div>
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={onClose}>
+                        关闭
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default BattleReplayModal;
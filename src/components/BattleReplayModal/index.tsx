@@ -0,0 +1,5 @@
+/**
+ * BattleReplayModal 组件导出
+ */
+export { BattleReplayModal } from './BattleReplayModal';
+export type { BattleReplayModalProps } from './BattleReplayModal';
@@ -0,0 +1,521 @@
+/**
+ * 出征对话框
+ * 选择目标城市与出征武将，预览双方战力并执行出征
+ * @module components/CampaignModal
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { GeneralSelector } from '../GeneralSelector';
+import { DuelModal } from '../DuelModal';
+import type { GameState } from '../../types/gameState';
+import type { General } from '../../types/general';
+import type { City } from '../../types/city';
+import type { TroopComposition } from '../../types/troop';
+import { TROOP_TYPES, TROOP_TYPE_ICONS, TROOP_TYPE_LABELS } from '../../types/troop';
+import {
+    calculateCompositionAttackPower,
+    calculateCompositionDefensePower,
+    calculateSiegeCityDefense,
+    type DuelResult,
+} from '../../systems/battle';
+import { forecastBattle, getDefendingForce } from '../../systems/aiSystem';
+import {
+    checkCampaignDuel,
+    executeCampaign,
+    getCampaignComposition,
+    getCampaignTargets,
+    getCampaignLeader,
+    type CampaignOrder,
+    type CampaignResult,
+} from '../../systems/campaign';
+import { getCounterMultiplierAgainst } from '../../systems/troops';
+import { getSieges } from '../../systems/siege';
+import { isGeneralMarching } from '../../systems/movement';
+import { PINCER_MORALE_PENALTY, calculateCityArmyMorale } from '../../systems/morale';
+import { findReinforcements } from '../../systems/reinforcements';
+import '../DomesticActionModal/DomesticActionModal.css';
+import './CampaignModal.css';
+
+/**
+ * 出征执行结果
+ */
+export interface CampaignActionResult {
+    order: CampaignOrder;
+    result: CampaignResult;
+    message: string;
+}
+
+/**
+ * 出征对话框属性
+ */
+export interface CampaignModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 执行完成回调 */
+    onExecute: (result: CampaignActionResult) => void;
+    /** 出发城市 */
+    fromCity: City;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+/**
+ * 格式化兵种构成（省略兵力为0的兵种）
+ */
+function formatComposition(composition: TroopComposition): string {
+    const parts = TROOP_TYPES.filter(type => composition[type] > 0).map(
+        type => `${TROOP_TYPE_ICONS[type]}${TROOP_TYPE_LABELS[type]} ${composition[type].toLocaleString()}`
+    );
+    return parts.length > 0 ? parts.join(' · ') : '无';
+}
+
+/**
+ * 生成出征结果描述
+ */
+function buildResultMessage(
+    result: CampaignResult,
+    leader: General,
+    toCity: City,
+    defenderName: string
+): string {
+    if (result.duel.instantKill) {
+        return result.result === 'win'
+            ? `${leader.name}阵前重创${defenderName}，敌将负伤败走，敌军大溃，攻占${toCity.name}！`
+            : `${leader.name}阵前为${defenderName}所伤，负伤败走，我军大败而归。`;
+    }
+    switch (result.result) {
+        case 'win':
+            return `${leader.name}率军攻破${toCity.name}，斩敌${result.defenderCasualties.toLocaleString()}人（${formatComposition(result.defenderCasualtiesByType)}）${result.routed === 'defender' ? '，守军士气崩溃，溃逃而去' : ''}！`;
+        case 'lose':
+            return `${leader.name}攻打${toCity.name}失利${result.routed === 'attacker' ? '，军心溃散' : ''}，折损${result.attackerCasualties.toLocaleString()}人（${formatComposition(result.attackerCasualtiesByType)}），退回本城。`;
+        case 'draw':
+            return `${leader.name}与${toCity.name}守军相持不下，各自收兵。`;
+    }
+}
+
+/**
+ * 生成败将被俘描述
+ */
+function buildCaptureMessage(result: CampaignResult, gameState: GameState): string {
+    if (!result.captured || result.captured.length === 0) return '';
+    const names = result.captured.map(id => gameState.generals[id]?.name || id).join('、');
+    return result.result === 'win' ? `生擒${names}！` : `${names}力竭被擒。`;
+}
+
+/**
+ * 生成守方援军描述
+ */
+function buildReinforcementMessage(result: CampaignResult, gameState: GameState): string {
+    if (!result.reinforcements || result.reinforcements.length === 0) return '';
+    const names = result.reinforcements.map(r => gameState.generals[r.generalId]?.name || r.generalId).join('、');
+    return `（敌将${names}自邻城驰援）`;
+}
+
+/**
+ * 获取城中可出征的武将（有兵力且未在行军的存活武将；围城中的武将只能强攻所围城市）
+ */
+function getAvailableGenerals(city: City, gameState: GameState, targetCityId: string | null): General[] {
+    const besieging = getSieges(gameState).filter(siege => siege.targetCityId !== targetCityId);
+    return city.stationedGenerals
+        .map(id => gameState.generals[id])
+        .filter(
+            (g): g is General =>
+                g !== undefined &&
+                g.isAlive &&
+                g.troops > 0 &&
+                !isGeneralMarching(gameState, g.id) &&
+                !besieging.some(siege => siege.generalIds.includes(g.id))
+        );
+}
+
+/**
+ * 出征对话框组件
+ */
+export function CampaignModal({ isOpen, onClose, onExecute, fromCity, gameState }: CampaignModalProps) {
+    const [targetCityId, setTargetCityId] = useState<string | null>(null);
+    const [selectedGeneralIds, setSelectedGeneralIds] = useState<string[]>([]);
+    // 两路夹击（可选）
+    const [pincerCityId, setPincerCityId] = useState<string | null>(null);
+    const [pincerGeneralIds, setPincerGeneralIds] = useState<string[]>([]);
+    const [isExecuting, setIsExecuting] = useState(false);
+    // 阵前单挑（触发时由玩家亲自指挥）
+    const [duelSetup, setDuelSetup] = useState<{
+        order: CampaignOrder;
+        attacker: General;
+        defender: General;
+    } | null>(null);
+
+    // 可出征的目标城市
+    const targets = useMemo(() => getCampaignTargets(fromCity, gameState), [fromCity, gameState]);
+
+    // 可出征的武将
+    const availableGenerals = useMemo(
+        () => getAvailableGenerals(fromCity, gameState, targetCityId),
+        [fromCity, gameState, targetCityId]
+    );
+
+    const targetCity = targetCityId ? gameState.cities[targetCityId] : null;
+    const playerFaction = gameState.factions[fromCity.faction];
+
+    // 可发起夹击的城市（与目标相邻的其他己方城市）
+    const pincerCities = useMemo(() => {
+        if (!targetCity) return [];
+        return targetCity.connectedCities
+            .map(id => gameState.cities[id])
+            .filter((city): city is City => !!city && city.faction === fromCity.faction && city.id !== fromCity.id);
+    }, [targetCity, gameState.cities, fromCity]);
+
+    const pincerCity = pincerCityId ? gameState.cities[pincerCityId] : null;
+    const pincerGenerals = useMemo(
+        () => (pincerCity ? getAvailableGenerals(pincerCity, gameState, targetCityId) : []),
+        [pincerCity, gameState, targetCityId]
+    );
+
+    // 切换目标时重置夹击部署
+    const handleSelectTarget = useCallback((cityId: string) => {
+        setTargetCityId(cityId);
+        setPincerCityId(null);
+        setPincerGeneralIds([]);
+    }, []);
+
+    const handleSelectPincerCity = useCallback((cityId: string | null) => {
+        setPincerCityId(cityId);
+        setPincerGeneralIds([]);
+    }, []);
+
+    const isPincer = !!pincerCityId && pincerGeneralIds.length > 0;
+
+    // 战力预览
+    const preview = useMemo(() => {
+        if (!targetCity || selectedGeneralIds.length === 0) return null;
+
+        const attackers = [...selectedGeneralIds, ...(isPincer ? pincerGeneralIds : [])]
+            .map(id => gameState.generals[id])
+            .filter((g): g is General => g !== undefined);
+        const leader = getCampaignLeader(attackers);
+        if (!leader) return null;
+
+        const troops = attackers.reduce((sum, g) => sum + g.troops, 0);
+        const composition = getCampaignComposition(attackers);
+
+        // 守军寡不敌众时邻城援军赶来
+        const reinforcements = findReinforcements(gameState, targetCity.id, fromCity.faction, troops);
+        const defending = getDefendingForce(targetCity, reinforcements, gameState);
+        const defenderTroops = defending.troops;
+        const defenderComposition = defending.composition;
+        const attackPower = calculateCompositionAttackPower(
+            composition,
+            leader.attributes.war,
+            leader.attributes.lead,
+            defenderComposition
+        );
+
+        const defender = defending.commander;
+        const morale = calculateCityArmyMorale(attackers, fromCity, playerFaction);
+        const defenderMorale = Math.max(0, defending.morale - (isPincer ? PINCER_MORALE_PENALTY : 0));
+        const cityDefense = calculateSiegeCityDefense(targetCity.resources.defense, composition);
+        const defensePower = defender
+            ? calculateCompositionDefensePower(
+                  defenderComposition,
+                  defender.attributes.lead,
+                  defender.attributes.int,
+                  cityDefense
+              )
+            : cityDefense;
+
+        // 各兵种对敌军的克制系数
+        const counters = TROOP_TYPES.filter(type => composition[type] > 0).map(type => ({
+            type,
+            multiplier: getCounterMultiplierAgainst(type, defenderComposition),
+        }));
+
+        // 多次模拟战斗预测胜负
+        const forecast = forecastBattle(fromCity, targetCity, attackers, troops, gameState, { pincer: isPincer });
+
+        return {
+            leader,
+            troops,
+            composition,
+            counters,
+            morale,
+            defenderMorale,
+            attackPower: Math.floor(attackPower),
+            defender,
+            defenderTroops,
+            defenderComposition,
+            defensePower: Math.floor(defensePower),
+            reinforcements: reinforcements.map(r => gameState.generals[r.generalId]?.name || r.generalId),
+            forecast,
+            isHostile: playerFaction?.diplomacy[targetCity.faction] === 'hostile',
+        };
+    }, [targetCity, selectedGeneralIds, pincerGeneralIds, isPincer, gameState, fromCity, playerFaction]);
+
+    // 以单挑结果结算出征
+    const finishCampaign = useCallback(
+        (order: CampaignOrder, duel: DuelResult) => {
+            if (!targetCity || !preview) return;
+            const result = executeCampaign(order, gameState, Math.random, duel);
+            const message = result.success
+                ? buildResultMessage(result, preview.leader, targetCity, preview.defender?.name || '守军') +
+                  buildReinforcementMessage(result, gameState) +
+                  buildCaptureMessage(result, gameState)
+                : result.error || '出征失败';
+
+            setIsExecuting(false);
+            setDuelSetup(null);
+            onExecute({ order, result, message });
+        },
+        [targetCity, preview, gameState, onExecute]
+    );
+
+    // 执行出征
+    const handleExecute = useCallback(() => {
+        if (!targetCity || !preview) return;
+
+        setIsExecuting(true);
+
+        // 模拟执行延迟
+        setTimeout(() => {
+            const order: CampaignOrder = {
+                fromCityId: fromCity.id,
+                toCityId: targetCity.id,
+                generalIds: selectedGeneralIds,
+                pincer: isPincer && pincerCityId ? { fromCityId: pincerCityId, generalIds: pincerGeneralIds } : undefined,
+            };
+
+            // 触发单挑时先由玩家亲自应战
+            const duelers = checkCampaignDuel(order, gameState);
+            if (duelers) {
+                setDuelSetup({ order, ...duelers });
+                return;
+            }
+            finishCampaign(order, { triggered: false, instantKill: false });
+        }, 500);
+    }, [targetCity, preview, fromCity.id, selectedGeneralIds, isPincer, pincerCityId, pincerGeneralIds, gameState, finishCampaign]);
+
+    // 关闭时重置状态
+    const handleClose = useCallback(() => {
+        setTargetCityId(null);
+        setSelectedGeneralIds([]);
+        setPincerCityId(null);
+        setPincerGeneralIds([]);
+        onClose();
+    }, [onClose]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="domestic-modal-overlay" onClick={handleClose}>
+            <div className="domestic-modal campaign-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">⚔️</span>
+                    <h2>出征</h2>
+                    <span className="city-name">- {fromCity.name}</span>
+                    <button className="close-btn" onClick={handleClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    {/* 目标选择 */}
+                    <div className="section">
+                        <h3>选择目标城市</h3>
+                        {targets.length === 0 ? (
+                            <div className="no-targets">周边没有可攻打的城市</div>
+                        ) : (
+                            <div className="campaign-targets">
+                                {targets.map(city => (
+                                    <button
+                                        key={city.id}
+                                        className={`campaign-target ${targetCityId === city.id ? 'selected' : ''}`}
+                                        onClick={() => handleSelectTarget(city.id)}
+                                        disabled={isExecuting}
+                                    >
+                                        <span
+                                            className="target-faction-dot"
+                                            style={{ backgroundColor: gameState.factions[city.faction]?.color || '#888' }}
+                                        />
+                                        <span className="target-name">{city.name}</span>
+                                        <span className="target-faction">
+                                            {gameState.factions[city.faction]?.name || '无主'}
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* 武将选择 */}
+                    <div className="section">
+                        <h3>选择出征武将</h3>
+                        <GeneralSelector
+                            generals={availableGenerals}
+                            selectedIds={selectedGeneralIds}
+                            onSelectionChange={setSelectedGeneralIds}
+                            multiSelect={true}
+                            recommendedSort="war"
+                            disabled={isExecuting}
+                        />
+                    </div>
+
+                    {/* 两路夹击 */}
+                    {pincerCities.length > 0 && (
+                        <div className="section">
+                            <h3>两路夹击（可选）</h3>
+                            <div className="campaign-targets">
+                                <button
+                                    className={`campaign-target ${pincerCityId === null ? 'selected' : ''}`}
+                                    onClick={() => handleSelectPincerCity(null)}
+                                    disabled={isExecuting}
+                                >
+                                    <span className="target-name">不夹击</span>
+                                </button>
+                                {pincerCities.map(city => (
+                                    <button
+                                        key={city.id}
+                                        className={`campaign-target ${pincerCityId === city.id ? 'selected' : ''}`}
+                                        onClick={() => handleSelectPincerCity(city.id)}
+                                        disabled={isExecuting}
+                                    >
+                                        <span className="target-name">{city.name}</span>
+                                    </button>
+                                ))}
+                            </div>
+                            {pincerCity && (
+                                <GeneralSelector
+                                    generals={pincerGenerals}
+                                    selectedIds={pincerGeneralIds}
+                                    onSelectionChange={setPincerGeneralIds}
+                                    multiSelect={true}
+                                    recommendedSort="war"
+                                    disabled={isExecuting}
+                                />
+                            )}
+                        </div>
+                    )}
+
+                    {/* 战力预览 */}
+                    {preview && targetCity && (
+                        <div className="section preview-section">
+                            <h3>战力预览</h3>
+                            <div className="preview-content">
+                                <div className="preview-row">
+                                    <span className="label">我方主将:</span>
+                                    <span className="value">{preview.leader.name}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">出征兵力:</span>
+                                    <span className="value">{preview.troops.toLocaleString()}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">我方兵种:</span>
+                                    <span className="value">{formatComposition(preview.composition)}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">兵种克制:</span>
+                                    <span className="value">
+                                        {preview.counters
+                                            .map(c => `${TROOP_TYPE_LABELS[c.type]} ×${c.multiplier.toFixed(2)}`)
+                                            .join(' · ')}
+                                    </span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">我方士气:</span>
+                                    <span className="value">{preview.morale}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">我方攻击力:</span>
+                                    <span className="value gain">{preview.attackPower.toLocaleString()}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">敌方守将:</span>
+                                    <span className="value">{preview.defender?.name || '无'}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">敌方兵力:</span>
+                                    <span className="value">{preview.defenderTroops.toLocaleString()}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">敌方兵种:</span>
+                                    <span className="value">{formatComposition(preview.defenderComposition)}</span>
+                                </div>
+                                {preview.reinforcements.length > 0 && (
+                                    <div className="preview-row">
+                                        <span className="label">敌方援军:</span>
+                                        <span className="value cost">{preview.reinforcements.join('、')}</span>
+                                    </div>
+                                )}
+                                {isPincer && (
+                                    <div className="preview-row">
+                                        <span className="label">两路夹击:</span>
+                                        <span className="value gain">守军腹背受敌，士气 -{PINCER_MORALE_PENALTY}</span>
+                                    </div>
+                                )}
+                                <div className="preview-row">
+                                    <span className="label">敌方士气:</span>
+                                    <span className="value">{preview.defenderMorale}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">敌方防御力:</span>
+                                    <span className="value cost">{preview.defensePower.toLocaleString()}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">预测胜率:</span>
+                                    <span className={`value ${preview.forecast.winProbability >= 0.5 ? 'gain' : 'cost'}`}>
+                                        {Math.round(preview.forecast.winProbability * 100)}%
+                                    </span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">预计伤亡:</span>
+                                    <span className="value">
+                                        我军 {preview.forecast.expectedAttackerCasualties.toLocaleString()} / 敌军{' '}
+                                        {preview.forecast.expectedDefenderCasualties.toLocaleString()}
+                                    </span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">单挑几率:</span>
+                                    <span className="value">{Math.round(preview.forecast.duelProbability * 100)}%</span>
+                                </div>
+                                {!preview.isHostile && (
+                                    <div className="error-message">
+                                        {gameState.factions[targetCity.faction]?.name}与我方并非敌对，出征将引发战事
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={handleClose} disabled={isExecuting}>
+                        取消
+                    </button>
+                    <button
+                        className="execute-btn"
+                        onClick={handleExecute}
+                        disabled={!preview || isExecuting}
+                    >
+                        {isExecuting ? '交战中...' : '确认出征'}
+                    </button>
+                </div>
+            </div>
+
+            {/* 阵前单挑 */}
+            {duelSetup && (
+                <DuelModal
+                    isOpen={true}
+                    attacker={duelSetup.attacker}
+                    defender={duelSetup.defender}
+                    onFinish={duel => finishCampaign(duelSetup.order, duel)}
+                />
+            )}
+        </div>
+    );
+}
+
+export default CampaignModal;
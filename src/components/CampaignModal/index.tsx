@@ -0,0 +1,5 @@
+/**
+ * CampaignModal 组件导出
+ */
+export { CampaignModal } from './CampaignModal';
+export type { CampaignModalProps, CampaignActionResult } from './CampaignModal';
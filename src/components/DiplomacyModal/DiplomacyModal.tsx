@@ -0,0 +1,300 @@
+/**
+ * 外交对话框
+ * 从己方城市派遣使者，向其他势力提议结盟、议和，或撕毁盟约、宣战
+ * @module components/DiplomacyModal
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { GeneralSelector } from '../GeneralSelector';
+import type { GameState } from '../../types/gameState';
+import type { City } from '../../types/city';
+import type { DiplomacyStatus, Faction } from '../../types/faction';
+import type { DiplomacyActionType } from '../../types/events';
+import {
+    BREAK_TREATY_LOYALTY_PENALTY,
+    BREAK_TREATY_REPUTATION_PENALTY,
+    DIPLOMACY_GOLD_COST,
+    TRUCE_MONTHS,
+    calculateDiplomacyChance,
+    executeDiplomacy,
+    getActiveTruce,
+    getDiplomacyEnvoys,
+    getDiplomacyStatus,
+    getFactionReputation,
+    getSharedEnemies,
+    isDiplomacyProposal,
+    validateDiplomacyOrder,
+    type DiplomacyOrder,
+    type DiplomacyResult,
+} from '../../systems/diplomacy';
+import '../DomesticActionModal/DomesticActionModal.css';
+import '../CampaignModal/CampaignModal.css';
+import '../PrisonerModal/PrisonerModal.css';
+
+/**
+ * 外交执行完成结果
+ */
+export interface DiplomacyModalResult {
+    order: DiplomacyOrder;
+    result: DiplomacyResult;
+    message: string;
+}
+
+/**
+ * 外交对话框属性
+ */
+export interface DiplomacyModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 执行完成回调 */
+    onExecute: (result: DiplomacyModalResult) => void;
+    /** 使者出发城市 */
+    fromCity: City;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+const ACTION_LABELS: Record<DiplomacyActionType, string> = {
+    alliance: '结盟',
+    truce: '议和',
+    break_treaty: '撕毁盟约',
+    declare_war: '宣战',
+};
+
+const ACTIONS: DiplomacyActionType[] = ['alliance', 'truce', 'break_treaty', 'declare_war'];
+
+const STATUS_LABELS: Record<DiplomacyStatus, string> = {
+    hostile: '交战',
+    neutral: '中立',
+    ally: '同盟',
+};
+
+/**
+ * 生成外交结果描述
+ */
+function buildResultMessage(result: DiplomacyResult, envoyName: string, target: Faction): string {
+    if (!result.success) return result.error || '出使失败';
+    switch (result.action) {
+        case 'alliance':
+            return result.accepted
+                ? `${envoyName}出使${target.name}，两家结为同盟！`
+                : `${envoyName}出使${target.name}，对方无意结盟。`;
+        case 'truce':
+            return result.accepted
+                ? `${envoyName}出使${target.name}，双方约定停战${TRUCE_MONTHS}个月。`
+                : `${envoyName}出使${target.name}议和，为其所拒。`;
+        case 'break_treaty':
+            return `我军撕毁与${target.name}的盟约，天下哗然。`;
+        case 'declare_war':
+            return `我军向${target.name}宣战！`;
+    }
+}
+
+/**
+ * 外交对话框组件
+ */
+export function DiplomacyModal({ isOpen, onClose, onExecute, fromCity, gameState }: DiplomacyModalProps) {
+    const factionId = gameState.currentFaction;
+    const envoys = useMemo(
+        () => getDiplomacyEnvoys(gameState, fromCity.id, factionId),
+        [gameState, fromCity.id, factionId]
+    );
+    const otherFactions = useMemo(
+        () => Object.values(gameState.factions).filter(f => f.id !== factionId && f.cities.length > 0),
+        [gameState.factions, factionId]
+    );
+
+    const [action, setAction] = useState<DiplomacyActionType>('alliance');
+    const [targetFactionId, setTargetFactionId] = useState<string | null>(null);
+    const [envoyIds, setEnvoyIds] = useState<string[]>([]);
+    const [isExecuting, setIsExecuting] = useState(false);
+
+    // 外交预览
+    const preview = useMemo(() => {
+        const envoy = envoyIds[0] ? gameState.generals[envoyIds[0]] : undefined;
+        const target = targetFactionId ? gameState.factions[targetFactionId] : undefined;
+        if (!envoy || !target) return null;
+        const order: DiplomacyOrder = { action, envoyId: envoy.id, targetFactionId: target.id };
+        return {
+            envoy,
+            target,
+            order,
+            chance: calculateDiplomacyChance(order, gameState),
+            sharedEnemies: getSharedEnemies(gameState, factionId, target.id)
+                .map(id => gameState.factions[id]?.name || id)
+                .join('、'),
+            error: validateDiplomacyOrder(order, gameState, factionId),
+        };
+    }, [envoyIds, targetFactionId, action, gameState, factionId]);
+
+    const canExecute = !isExecuting && !!preview && !preview.error;
+
+    // 执行
+    const handleExecute = useCallback(() => {
+        if (!canExecute || !preview) return;
+        setIsExecuting(true);
+
+        // 模拟执行延迟
+        setTimeout(() => {
+            const result = executeDiplomacy(preview.order, gameState, factionId);
+            setIsExecuting(false);
+            setEnvoyIds([]);
+            onExecute({
+                order: preview.order,
+                result,
+                message: buildResultMessage(result, preview.envoy.name, preview.target),
+            });
+        }, 500);
+    }, [canExecute, preview, gameState, factionId, onExecute]);
+
+    // 关闭时重置状态
+    const handleClose = useCallback(() => {
+        setAction('alliance');
+        setTargetFactionId(null);
+        setEnvoyIds([]);
+        onClose();
+    }, [onClose]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="domestic-modal-overlay" onClick={handleClose}>
+            <div className="domestic-modal campaign-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">🤝</span>
+                    <h2>外交</h2>
+                    <span className="city-name">
+                        - 自{fromCity.name}遣使（信誉 {getFactionReputation(gameState, factionId)}）
+                    </span>
+                    <button className="close-btn" onClick={handleClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    {/* 对方势力 */}
+                    <div className="section">
+                        <h3>选择对方势力</h3>
+                        {otherFactions.length === 0 ? (
+                            <div className="no-targets">天下已无其他势力</div>
+                        ) : (
+                            <div className="campaign-targets">
+                                {otherFactions.map(faction => {
+                                    const truce = getActiveTruce(gameState, factionId, faction.id);
+                                    return (
+                                        <button
+                                            key={faction.id}
+                                            className={`campaign-target ${targetFactionId === faction.id ? 'selected' : ''}`}
+                                            onClick={() => setTargetFactionId(faction.id)}
+                                            disabled={isExecuting}
+                                        >
+                                            <span
+                                                className="target-faction-dot"
+                                                style={{ backgroundColor: faction.color }}
+                                            />
+                                            <span className="target-name">{faction.name}</span>
+                                            <span className="target-faction">
+                                                {truce
+                                                    ? `停战至${truce.expiresAt.year}年${truce.expiresAt.month}月`
+                                                    : STATUS_LABELS[getDiplomacyStatus(gameState, factionId, faction.id)]}
+                                            </span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* 外交行动 */}
+                    <div className="prisoner-actions">
+                        {ACTIONS.map(a => (
+                            <button
+                                key={a}
+                                className={`prisoner-action ${action === a ? 'selected' : ''}`}
+                                onClick={() => setAction(a)}
+                                disabled={isExecuting}
+                            >
+                                {ACTION_LABELS[a]}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="section">
+                        <h3>选择使者</h3>
+                        {envoys.length === 0 ? (
+                            <div className="no-targets">城中无可派遣的武将</div>
+                        ) : (
+                            <GeneralSelector
+                                generals={envoys}
+                                selectedIds={envoyIds}
+                                onSelectionChange={setEnvoyIds}
+                                multiSelect={false}
+                                recommendedSort="cha"
+                                disabled={isExecuting}
+                            />
+                        )}
+                    </div>
+
+                    {/* 外交预览 */}
+                    {preview && (
+                        <div className="section preview-section">
+                            <h3>外交预览</h3>
+                            <div className="preview-content">
+                                {isDiplomacyProposal(action) && (
+                                    <>
+                                        <div className="preview-row">
+                                            <span className="label">使者魅力/政治:</span>
+                                            <span className="value">
+                                                {preview.envoy.attributes.cha} / {preview.envoy.attributes.pol}
+                                            </span>
+                                        </div>
+                                        <div className="preview-row">
+                                            <span className="label">共同敌人:</span>
+                                            <span className="value">{preview.sharedEnemies || '无'}</span>
+                                        </div>
+                                        <div className="preview-row">
+                                            <span className="label">成功率:</span>
+                                            <span className="value gain">{Math.round(preview.chance * 100)}%</span>
+                                        </div>
+                                    </>
+                                )}
+                                <div className="preview-row">
+                                    <span className="label">花费:</span>
+                                    <span className="value cost">
+                                        {DIPLOMACY_GOLD_COST[action]} 金
+                                        {isDiplomacyProposal(action) ? '（无论成败）' : ''}
+                                    </span>
+                                </div>
+                                {action === 'break_treaty' && (
+                                    <div className="preview-row">
+                                        <span className="label">代价:</span>
+                                        <span className="value cost">
+                                            {`信誉 -${BREAK_TREATY_REPUTATION_PENALTY}，各城民忠 -${BREAK_TREATY_LOYALTY_PENALTY}`}
+                                        </span>
+                                    </div>
+                                )}
+                                {preview.error && <div className="error-message">{preview.error}</div>}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={handleClose} disabled={isExecuting}>
+                        取消
+                    </button>
+                    <button className="execute-btn" onClick={handleExecute} disabled={!canExecute}>
+                        {isExecuting ? '出使中...' : ACTION_LABELS[action]}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default DiplomacyModal;
@@ -0,0 +1,5 @@
+/**
+ * DiplomacyModal 组件导出
+ */
+export { DiplomacyModal } from './DiplomacyModal';
+export type { DiplomacyModalProps, DiplomacyModalResult } from './DiplomacyModal';
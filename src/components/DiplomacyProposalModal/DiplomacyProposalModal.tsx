@@ -0,0 +1,115 @@
+/**
+ * 外交提议对话框
+ * AI势力遣使来访，玩家决定应允或回绝其结盟、议和之请
+ * @module components/DiplomacyProposalModal
+ */
+
+import { useCallback } from 'react';
+import type { GameState } from '../../types/gameState';
+import type { DiplomacyProposal } from '../../types/diplomacy';
+import { TRUCE_MONTHS, getSharedEnemies } from '../../systems/diplomacy';
+import { getRelation } from '../../systems/relations';
+import '../DomesticActionModal/DomesticActionModal.css';
+
+/**
+ * 答复外交提议的结果
+ */
+export interface DiplomacyProposalModalResult {
+    proposal: DiplomacyProposal;
+    accepted: boolean;
+    message: string;
+}
+
+/**
+ * 外交提议对话框属性
+ */
+export interface DiplomacyProposalModalProps {
+    /** 待答复的提议 */
+    proposal: DiplomacyProposal;
+    /** 答复回调 */
+    onRespond: (result: DiplomacyProposalModalResult) => void;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+const PROPOSAL_LABELS: Record<DiplomacyProposal['action'], string> = {
+    alliance: '结为同盟',
+    truce: `罢兵休战${TRUCE_MONTHS}个月`,
+};
+
+/**
+ * 外交提议对话框组件
+ */
+export function DiplomacyProposalModal({ proposal, onRespond, gameState }: DiplomacyProposalModalProps) {
+    const from = gameState.factions[proposal.from];
+    const envoy = gameState.generals[proposal.envoyId];
+    const fromName = from?.name || proposal.from;
+    const envoyName = envoy?.name || '使者';
+    const sharedEnemies = getSharedEnemies(gameState, proposal.from, proposal.to)
+        .map(id => gameState.factions[id]?.name || id)
+        .join('、');
+
+    const handleRespond = useCallback(
+        (accepted: boolean) => {
+            const message = accepted
+                ? `主公应允${fromName}之请，两家${PROPOSAL_LABELS[proposal.action]}。`
+                : `主公回绝${fromName}之请，${envoyName}怏怏而归。`;
+            onRespond({ proposal, accepted, message });
+        },
+        [proposal, fromName, envoyName, onRespond]
+    );
+
+    return (
+        <div className="domestic-modal-overlay">
+            <div className="domestic-modal">
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">📜</span>
+                    <h2>使者来访</h2>
+                    <span className="city-name" style={{ color: from?.color }}>
+                        - {fromName}
+                    </span>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    <div className="section">
+                        <h3>
+                            {fromName}遣{envoyName}前来，愿与主公{PROPOSAL_LABELS[proposal.action]}
+                        </h3>
+                        <div className="preview-content">
+                            <div className="preview-row">
+                                <span className="label">两家关系:</span>
+                                <span className="value">{getRelation(gameState, proposal.from, proposal.to)}</span>
+                            </div>
+                            <div className="preview-row">
+                                <span className="label">共同敌人:</span>
+                                <span className="value">{sharedEnemies || '无'}</span>
+                            </div>
+                            <div className="preview-row">
+                                <span className="label">约束:</span>
+                                <span className="value">
+                                    {proposal.action === 'alliance'
+                                        ? '结盟后不可攻打其城池，背盟将损信誉与民忠'
+                                        : '停战期间双方不得出兵'}
+                                </span>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={() => handleRespond(false)}>
+                        回绝
+                    </button>
+                    <button className="execute-btn" onClick={() => handleRespond(true)}>
+                        应允
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default DiplomacyProposalModal;
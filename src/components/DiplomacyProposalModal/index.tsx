@@ -0,0 +1,5 @@
+/**
+ * DiplomacyProposalModal 组件导出
+ */
+export { DiplomacyProposalModal } from './DiplomacyProposalModal';
+export type { DiplomacyProposalModalProps, DiplomacyProposalModalResult } from './DiplomacyProposalModal';
@@ -6,18 +6,39 @@
 
 import { useState, useMemo, useCallback } from 'react';
 import { GeneralSelector } from '../GeneralSelector';
+import type { GameState } from '../../types/gameState';
 import type { General } from '../../types/general';
 import type { City } from '../../types/city';
+import type { SkillTrigger } from '../../types/skill';
+import type { TroopType } from '../../types/troop';
+import { TROOP_TYPE_ICONS, TROOP_TYPE_LABELS } from '../../types/troop';
 import {
     executeDevelopment,
     executeRecruitment,
     calculateDevelopmentIncrease,
+    calculateRecruitmentCost,
     calculateRecruitmentSoldiers,
     calculateLoyaltyDecrease,
     DEVELOPMENT_GOLD_COST,
-    RECRUITMENT_GOLD_PER_SOLDIER,
-    RECRUITMENT_POPULATION_PER_SOLDIER,
 } from '../../systems/domestic';
+import { TROOP_TYPE_STATS, getTrainableTroopTypes } from '../../systems/troops';
+import {
+    getDevelopmentMultiplier,
+    getDevelopmentSkills,
+    getRecruitmentMultiplier,
+    getRecruitmentSkills,
+} from '../../systems/skills';
+import { getRecruitCapacity } from '../../systems/ranks';
+import {
+    calculateSearchChance,
+    calculateTalentRecruitChance,
+    executeTalent,
+    getDiscoveredTalents,
+    validateTalentOrder,
+    type TalentOrder,
+    type TalentResult,
+} from '../../systems/talent';
+import '../CampaignModal/CampaignModal.css';
 import './DomesticActionModal.css';
 
 /**
@@ -39,6 +60,12 @@ export interface DomesticActionResult {
     generalName: string;
     cityId: string;
     value?: number;
+    /** 征募兵种（仅征兵） */
+    troopType?: TroopType;
+    /** 人才探索或登用的指令与结果（仅人才探索） */
+    talent?: { order: TalentOrder; result: TalentResult };
+    /** 发动的特技 */
+    skills?: SkillTrigger[];
     message: string;
 }
 
@@ -58,6 +85,8 @@ export interface DomesticActionModalProps {
     city: City;
     /** 城市中的武将列表 */
     generals: General[];
+    /** 当前游戏状态 */
+    gameState: GameState;
 }
 
 /**
@@ -95,6 +124,23 @@ function getRecommendedSort(actionType: DomesticActionType): 'pol' | 'lead' | 'c
     }
 }
 
+/**
+ * 生成人才探索或登用结果描述
+ */
+function buildTalentMessage(result: TalentResult, executor: General, order: TalentOrder, gameState: GameState): string {
+    if (!result.success) return result.error || '执行失败';
+    const targetId = result.discovered ?? order.generalId;
+    const target = targetId ? gameState.generals[targetId] : undefined;
+    if (result.action === 'search') {
+        return target
+            ? `${executor.name}探访乡里，发现了隐居于此的${target.name}！`
+            : `${executor.name}四处探访，但未能发现合适的人才。`;
+    }
+    return result.recruited
+        ? `${target?.name ?? ''}感${executor.name}诚意，愿出仕效力！`
+        : `${target?.name ?? ''}婉拒了${executor.name}的礼聘。`;
+}
+
 /**
  * 内政执行对话框组件
  */
@@ -105,10 +151,22 @@ export function DomesticActionModal({
     actionType,
     city,
     generals,
+    gameState,
 }: DomesticActionModalProps) {
     const [selectedGeneralIds, setSelectedGeneralIds] = useState<string[]>([]);
+    const [troopType, setTroopType] = useState<TroopType>('infantry');
+    const [talentId, setTalentId] = useState<string | null>(null);
     const [isExecuting, setIsExecuting] = useState(false);
 
+    // 城市可训练兵种
+    const trainableTypes = useMemo(() => getTrainableTroopTypes(city), [city]);
+
+    // 城中已发现的在野武将
+    const discoveredTalents = useMemo(
+        () => getDiscoveredTalents(gameState, city.id, city.faction),
+        [gameState, city.id, city.faction]
+    );
+
     // 选中的武将
     const selectedGeneral = useMemo(() => {
         if (selectedGeneralIds.length === 0) return null;
@@ -122,8 +180,12 @@ export function DomesticActionModal({
         switch (actionType) {
             case 'develop_commerce':
             case 'develop_agriculture': {
-                const minIncrease = calculateDevelopmentIncrease(selectedGeneral.attributes.pol, 1);
-                const maxIncrease = calculateDevelopmentIncrease(selectedGeneral.attributes.pol, 5);
+                const multiplier = getDevelopmentMultiplier(
+                    selectedGeneral.skills,
+                    actionType === 'develop_commerce' ? 'commerce' : 'agriculture'
+                );
+                const minIncrease = calculateDevelopmentIncrease(selectedGeneral.attributes.pol, 1, multiplier);
+                const maxIncrease = calculateDevelopmentIncrease(selectedGeneral.attributes.pol, 5, multiplier);
                 return {
                     goldCost: DEVELOPMENT_GOLD_COST,
                     effectRange: `${minIncrease} ~ ${maxIncrease}`,
@@ -132,14 +194,22 @@ export function DomesticActionModal({
                 };
             }
             case 'recruit': {
-                const soldiers = calculateRecruitmentSoldiers(
-                    selectedGeneral.attributes.lead,
-                    selectedGeneral.attributes.cha
+                const capacity = getRecruitCapacity(gameState, selectedGeneral);
+                const soldiers = Math.min(
+                    capacity,
+                    calculateRecruitmentSoldiers(
+                        selectedGeneral.attributes.lead,
+                        selectedGeneral.attributes.cha,
+                        getRecruitmentMultiplier(selectedGeneral.skills)
+                    )
+                );
+                const { gold: goldCost, population: populationCost } = calculateRecruitmentCost(
+                    soldiers,
+                    troopType
                 );
-                const goldCost = soldiers * RECRUITMENT_GOLD_PER_SOLDIER;
-                const populationCost = soldiers * RECRUITMENT_POPULATION_PER_SOLDIER;
                 const loyaltyDecrease = calculateLoyaltyDecrease(selectedGeneral.attributes.cha);
 
+                const canTrain = trainableTypes.includes(troopType);
                 const hasEnoughGold = city.resources.gold >= goldCost;
                 const hasEnoughPop = city.resources.population >= populationCost;
 
@@ -148,24 +218,41 @@ export function DomesticActionModal({
                     goldCost,
                     populationCost,
                     loyaltyDecrease,
-                    canExecute: hasEnoughGold && hasEnoughPop,
-                    errorMessage: !hasEnoughGold ? '金钱不足' : !hasEnoughPop ? '人口不足' : null,
+                    canExecute: capacity > 0 && canTrain && hasEnoughGold && hasEnoughPop,
+                    errorMessage:
+                        capacity <= 0
+                            ? '兵力已达官阶上限'
+                            : !canTrain
+                              ? '该城市无法训练此兵种'
+                              : !hasEnoughGold
+                                ? '金钱不足'
+                                : !hasEnoughPop
+                                  ? '人口不足'
+                                  : null,
                 };
             }
             case 'search_talent': {
-                // 探索成功率：智力 × 0.5 + 魅力 × 0.3，最高80%
-                const successRate = Math.min(
-                    80,
-                    Math.floor(selectedGeneral.attributes.int * 0.5 + selectedGeneral.attributes.cha * 0.3)
-                );
+                // 未选择登用对象时为探索，否则为登用
+                const talentOrder: TalentOrder = {
+                    action: talentId ? 'recruit' : 'search',
+                    cityId: city.id,
+                    executorId: selectedGeneral.id,
+                    generalId: talentId ?? undefined,
+                };
+                const talent = talentId ? gameState.generals[talentId] : undefined;
+                const chance = talent
+                    ? calculateTalentRecruitChance(gameState, selectedGeneral, talent, city.faction)
+                    : calculateSearchChance(selectedGeneral);
+                const errorMessage = validateTalentOrder(talentOrder, gameState, city.faction);
                 return {
-                    successRate,
-                    canExecute: true,
-                    errorMessage: null,
+                    talentOrder,
+                    successRate: Math.round(chance * 100),
+                    canExecute: !errorMessage,
+                    errorMessage,
                 };
             }
         }
-    }, [actionType, selectedGeneral, city.resources]);
+    }, [actionType, selectedGeneral, city, troopType, trainableTypes, talentId, gameState]);
 
     // 执行内政动作
     const handleExecute = useCallback(() => {
@@ -180,6 +267,7 @@ export function DomesticActionModal({
             switch (actionType) {
                 case 'develop_commerce':
                 case 'develop_agriculture': {
+                    const target = actionType === 'develop_commerce' ? 'commerce' : 'agriculture';
                     const currentValue =
                         actionType === 'develop_commerce'
                             ? city.resources.commerce
@@ -187,8 +275,12 @@ export function DomesticActionModal({
                     const devResult = executeDevelopment(
                         city.resources.gold,
                         currentValue,
-                        selectedGeneral.attributes.pol
+                        selectedGeneral.attributes.pol,
+                        undefined,
+                        undefined,
+                        getDevelopmentMultiplier(selectedGeneral.skills, target)
                     );
+                    const skills = getDevelopmentSkills(selectedGeneral, target);
 
                     result = {
                         success: devResult.success,
@@ -197,6 +289,7 @@ export function DomesticActionModal({
                         generalName: selectedGeneral.name,
                         cityId: city.id,
                         value: devResult.valueIncrease,
+                        skills: skills.length > 0 ? skills : undefined,
                         message: devResult.success
                             ? `${selectedGeneral.name}成功开发${actionType === 'develop_commerce' ? '商业' : '农业'}，增加了${devResult.valueIncrease}点`
                             : devResult.error || '执行失败',
@@ -205,10 +298,14 @@ export function DomesticActionModal({
                 }
                 case 'recruit': {
                     const recruitResult = executeRecruitment(
-                        city.resources,
+                        city,
                         selectedGeneral.attributes.lead,
-                        selectedGeneral.attributes.cha
+                        selectedGeneral.attributes.cha,
+                        troopType,
+                        getRecruitmentMultiplier(selectedGeneral.skills),
+                        getRecruitCapacity(gameState, selectedGeneral)
                     );
+                    const skills = getRecruitmentSkills(selectedGeneral);
 
                     result = {
                         success: recruitResult.success,
@@ -217,41 +314,47 @@ export function DomesticActionModal({
                         generalName: selectedGeneral.name,
                         cityId: city.id,
                         value: recruitResult.soldiersGained,
+                        troopType,
+                        skills: skills.length > 0 ? skills : undefined,
                         message: recruitResult.success
-                            ? `${selectedGeneral.name}成功征募${recruitResult.soldiersGained.toLocaleString()}名士兵`
+                            ? `${selectedGeneral.name}成功征募${recruitResult.soldiersGained.toLocaleString()}名${TROOP_TYPE_LABELS[troopType]}`
                             : recruitResult.error || '执行失败',
                     };
                     break;
                 }
                 case 'search_talent': {
-                    // 人才探索：根据成功率判定
-                    const roll = Math.random() * 100;
-                    const successRate =
-                        selectedGeneral.attributes.int * 0.5 + selectedGeneral.attributes.cha * 0.3;
-                    const success = roll < successRate;
+                    // 人才探索：发现城中的在野武将，或登用已发现者
+                    const order = 'talentOrder' in preview ? preview.talentOrder : undefined;
+                    if (!order) {
+                        setIsExecuting(false);
+                        return;
+                    }
+                    const talentResult = executeTalent(order, gameState, city.faction);
 
                     result = {
-                        success,
+                        success: talentResult.success,
                         actionType,
                         generalId: selectedGeneral.id,
                         generalName: selectedGeneral.name,
                         cityId: city.id,
-                        message: success
-                            ? `${selectedGeneral.name}探索成功，发现了隐藏的人才！`
-                            : `${selectedGeneral.name}四处探访，但未能发现合适的人才。`,
+                        talent: { order, result: talentResult },
+                        message: buildTalentMessage(talentResult, selectedGeneral, order, gameState),
                     };
                     break;
                 }
             }
 
             setIsExecuting(false);
+            setTalentId(null);
             onExecute(result);
         }, 500);
-    }, [actionType, selectedGeneral, preview, city, onExecute]);
+    }, [actionType, selectedGeneral, preview, city, troopType, gameState, onExecute]);
 
     // 关闭时重置状态
     const handleClose = useCallback(() => {
         setSelectedGeneralIds([]);
+        setTroopType('infantry');
+        setTalentId(null);
         onClose();
     }, [onClose]);
 
@@ -285,6 +388,54 @@ export function DomesticActionModal({
                         />
                     </div>
 
+                    {/* 兵种选择 */}
+                    {actionType === 'recruit' && (
+                        <div className="section">
+                            <h3>选择兵种</h3>
+                            <div className="troop-type-options">
+                                {trainableTypes.map(type => (
+                                    <button
+                                        key={type}
+                                        className={`troop-type-option ${troopType === type ? 'selected' : ''}`}
+                                        onClick={() => setTroopType(type)}
+                                        disabled={isExecuting}
+                                    >
+                                        <span className="troop-type-name">
+                                            {TROOP_TYPE_ICONS[type]} {TROOP_TYPE_LABELS[type]}
+                                        </span>
+                                        <span className="troop-type-cost">
+                                            金{TROOP_TYPE_STATS[type].goldPerSoldier}/人 · 口
+                                            {TROOP_TYPE_STATS[type].populationPerSoldier}/人
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* 人才探索可改为登用已发现的在野武将 */}
+                    {actionType === 'search_talent' && discoveredTalents.length > 0 && (
+                        <div className="section">
+                            <h3>登用在野武将（不选则继续探索）</h3>
+                            <div className="campaign-targets">
+                                {discoveredTalents.map(talent => (
+                                    <button
+                                        key={talent.id}
+                                        className={`campaign-target ${talentId === talent.id ? 'selected' : ''}`}
+                                        onClick={() => setTalentId(talentId === talent.id ? null : talent.id)}
+                                        disabled={isExecuting}
+                                    >
+                                        <span className="target-name">{talent.name}</span>
+                                        <span className="target-faction">
+                                            统{talent.attributes.lead} 武{talent.attributes.war} 智
+                                            {talent.attributes.int} 政{talent.attributes.pol} 魅{talent.attributes.cha}
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* 效果预览 */}
                     {preview && selectedGeneral && (
                         <div className="section preview-section">
@@ -307,7 +458,9 @@ export function DomesticActionModal({
                                     <>
                                         <div className="preview-row">
                                             <span className="label">预计征兵:</span>
-                                            <span className="value gain">+{preview.soldiers?.toLocaleString()}</span>
+                                            <span className="value gain">
+                                                +{preview.soldiers?.toLocaleString()} {TROOP_TYPE_LABELS[troopType]}
+                                            </span>
                                         </div>
                                         <div className="preview-row">
                                             <span className="label">消耗金钱:</span>
@@ -326,7 +479,7 @@ export function DomesticActionModal({
 
                                 {actionType === 'search_talent' && 'successRate' in preview && (
                                     <div className="preview-row">
-                                        <span className="label">成功率:</span>
+                                        <span className="label">{talentId ? '登用成功率:' : '探索成功率:'}</span>
                                         <span className="value">{preview.successRate}%</span>
                                     </div>
                                 )}
@@ -0,0 +1,221 @@
+/**
+ * 单挑对话框
+ * 玩家亲自指挥主将与敌将阵前单挑，结果回馈到战斗结算
+ * @module components/DuelModal
+ */
+
+import { useState, useCallback } from 'react';
+import type { General } from '../../types/general';
+import type { DuelResult } from '../../systems/battle';
+import {
+    DUEL_ATTACK_STAMINA_COST,
+    DUEL_DEFEND_STAMINA_RECOVERY,
+    DUEL_FULL_STRIKE_STAMINA_COST,
+    DUEL_MAX_HEALTH,
+    DUEL_MAX_STAMINA,
+    DUEL_MAX_TURNS,
+    autoResolveDuel,
+    canInstantKill,
+    chooseDuelMove,
+    createDuel,
+    getAvailableDuelMoves,
+    resolveDuelTurn,
+    toDuelResult,
+    type DuelFighter,
+    type DuelMove,
+    type DuelState,
+    type DuelTurnLog,
+} from '../../systems/duel';
+import { getDuelWar } from '../../systems/skills';
+import '../DomesticActionModal/DomesticActionModal.css';
+import './DuelModal.css';
+
+/**
+ * 单挑对话框属性
+ */
+export interface DuelModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 我方主将（攻方） */
+    attacker: General;
+    /** 敌方主将（守方） */
+    defender: General;
+    /** 单挑结束回调 */
+    onFinish: (result: DuelResult) => void;
+}
+
+const MOVE_LABELS: Record<DuelMove, string> = {
+    attack: '攻击',
+    defend: '防御',
+    full_strike: '全力一击',
+    retreat: '拨马而走',
+};
+
+const MOVE_HINTS: Record<DuelMove, string> = {
+    attack: `气力 -${DUEL_ATTACK_STAMINA_COST}`,
+    defend: `减伤，气力 +${DUEL_DEFEND_STAMINA_RECOVERY}`,
+    full_strike: `伤害加倍但露出破绽，气力 -${DUEL_FULL_STRIKE_STAMINA_COST}`,
+    retreat: '认输退回本阵',
+};
+
+const MOVES: DuelMove[] = ['attack', 'defend', 'full_strike', 'retreat'];
+
+/**
+ * 生成单回合描述
+ */
+function describeTurn(log: DuelTurnLog, attackerName: string, defenderName: string): string {
+    const parts = [
+        `第${log.turn}合：${attackerName}${MOVE_LABELS[log.attackerMove]}，${defenderName}${MOVE_LABELS[log.defenderMove]}`,
+    ];
+    if (log.damageToDefender > 0) parts.push(`${defenderName}体力 -${log.damageToDefender}`);
+    if (log.damageToAttacker > 0) parts.push(`${attackerName}体力 -${log.damageToAttacker}`);
+    return parts.join('，');
+}
+
+/**
+ * 生成单挑结局描述
+ */
+function describeOutcome(duel: DuelState, attacker: General, defender: General): string {
+    const winner = duel.winner === attacker.id ? attacker : defender;
+    const loser = winner === attacker ? defender : attacker;
+    if (duel.instantKill) return `${winner.name}全力一击，将${loser.name}挑落马下，${loser.name}负伤败走！`;
+    if (duel.retreated) return `${loser.name}拨马而走，${winner.name}得胜！`;
+    return `${winner.name}力压${loser.name}，单挑获胜！`;
+}
+
+/**
+ * 武将体力与气力条
+ */
+function FighterPanel({ general, fighter }: { general: General; fighter: DuelFighter }) {
+    return (
+        <div className="duel-fighter">
+            <div className="duel-fighter-name">
+                {general.name}（武力 {fighter.war}）
+            </div>
+            <div className="duel-bar-label">
+                <span>体力</span>
+                <span>{fighter.health}</span>
+            </div>
+            <div className="duel-bar">
+                <div
+                    className="duel-bar-fill health"
+                    style={{ width: `${(fighter.health / DUEL_MAX_HEALTH) * 100}%` }}
+                />
+            </div>
+            <div className="duel-bar-label">
+                <span>气力</span>
+                <span>{fighter.stamina}</span>
+            </div>
+            <div className="duel-bar">
+                <div
+                    className="duel-bar-fill stamina"
+                    style={{ width: `${(fighter.stamina / DUEL_MAX_STAMINA) * 100}%` }}
+                />
+            </div>
+        </div>
+    );
+}
+
+/**
+ * 单挑对话框组件
+ */
+export function DuelModal({ isOpen, attacker, defender, onFinish }: DuelModalProps) {
+    const [duel, setDuel] = useState<DuelState>(() =>
+        createDuel(
+            { id: attacker.id, war: getDuelWar(attacker.attributes.war, attacker.skills) },
+            { id: defender.id, war: getDuelWar(defender.attributes.war, defender.skills) }
+        )
+    );
+
+    const availableMoves = getAvailableDuelMoves(duel.attacker);
+
+    // 玩家出招，敌将由AI应招
+    const handleMove = useCallback((move: DuelMove) => {
+        setDuel(current =>
+            resolveDuelTurn(current, move, chooseDuelMove(current.defender, current.attacker))
+        );
+    }, []);
+
+    // 交由AI代为完成单挑
+    const handleAuto = useCallback(() => {
+        setDuel(current => autoResolveDuel(current));
+    }, []);
+
+    const handleFinish = useCallback(() => {
+        onFinish(toDuelResult(duel));
+    }, [duel, onFinish]);
+
+    if (!isOpen) return null;
+
+    return (
+        // 单挑不可中途取消，点击遮罩不关闭
+        <div className="domestic-modal-overlay duel-modal-overlay" onClick={e => e.stopPropagation()}>
+            <div className="domestic-modal">
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">🤺</span>
+                    <h2>阵前单挑</h2>
+                    <span className="city-name">
+                        - 第 {Math.min(duel.turn + 1, DUEL_MAX_TURNS)} / {DUEL_MAX_TURNS} 合
+                    </span>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    <div className="duel-fighters">
+                        <FighterPanel general={attacker} fighter={duel.attacker} />
+                        <FighterPanel general={defender} fighter={duel.defender} />
+                    </div>
+
+                    {duel.finished ? (
+                        <div className="duel-outcome">{describeOutcome(duel, attacker, defender)}</div>
+                    ) : (
+                        <div className="duel-moves">
+                            {MOVES.map(move => (
+                                <button
+                                    key={move}
+                                    className="duel-move"
+                                    onClick={() => handleMove(move)}
+                                    disabled={!availableMoves.includes(move)}
+                                >
+                                    {MOVE_LABELS[move]}
+                                    <span className="duel-move-hint">
+                                        {move === 'full_strike' && canInstantKill(duel.attacker, duel.defender)
+                                            ? '武力远胜，击倒敌将即可令其负伤败走'
+                                            : MOVE_HINTS[move]}
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {duel.log.length > 0 && (
+                        <div className="section">
+                            <h3>战况</h3>
+                            <div className="duel-log">
+                                {duel.log.map(log => (
+                                    <div key={log.turn}>{describeTurn(log, attacker.name, defender.name)}</div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    {duel.finished ? (
+                        <button className="execute-btn" onClick={handleFinish}>
+                            继续交战
+                        </button>
+                    ) : (
+                        <button className="cancel-btn" onClick={handleAuto}>
+                            交由主将自行应战
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default DuelModal;
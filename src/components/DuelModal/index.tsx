@@ -0,0 +1,5 @@
+/**
+ * DuelModal 组件导出
+ */
+export { DuelModal } from './DuelModal';
+export type { DuelModalProps } from './DuelModal';
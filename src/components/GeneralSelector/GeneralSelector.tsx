@@ -6,6 +6,7 @@
 
 import { useState, useMemo } from 'react';
 import type { General } from '../../types/general';
+import { SKILL_DESCRIPTIONS, SKILL_LABELS } from '../../types/skill';
 import './GeneralSelector.css';
 
 /**
@@ -156,6 +157,15 @@ export function GeneralSelector({
                                     <span className="troops-icon">🪖</span>
                                     <span className="troops-value">{general.troops.toLocaleString()}</span>
                                 </div>
+                                {general.skills && general.skills.length > 0 && (
+                                    <div className="general-skills">
+                                        {general.skills.map(skill => (
+                                            <span key={skill} className="skill-tag" title={SKILL_DESCRIPTIONS[skill]}>
+                                                {SKILL_LABELS[skill]}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
                                 {isSelected && <div className="selection-indicator">✓</div>}
                             </div>
                         );
@@ -0,0 +1,196 @@
+/**
+ * 太守对话框
+ * 任免所选己方城市的太守，并设定委任方针由太守每月自行经营
+ * @module components/GovernorModal
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import type { GameState } from '../../types/gameState';
+import type { City, DelegationMode } from '../../types/city';
+import {
+    DELEGATION_LABELS,
+    DELEGATION_MODES,
+    executeGovernorOrder,
+    getCityGovernor,
+    getGovernorCandidates,
+    validateGovernorOrder,
+    type GovernorOrder,
+    type GovernorResult,
+} from '../../systems/governor';
+import { calculatePoliticsBonus } from '../../systems/domestic';
+import { GeneralSelector } from '../GeneralSelector';
+import '../DomesticActionModal/DomesticActionModal.css';
+import '../CampaignModal/CampaignModal.css';
+import '../PrisonerModal/PrisonerModal.css';
+
+/**
+ * 太守任免完成结果
+ */
+export interface GovernorModalResult {
+    order: GovernorOrder;
+    result: GovernorResult;
+    message: string;
+}
+
+/**
+ * 太守对话框属性
+ */
+export interface GovernorModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 执行完成回调 */
+    onExecute: (result: GovernorModalResult) => void;
+    /** 己方城市 */
+    city: City;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+/**
+ * 生成任免结果描述
+ */
+function buildResultMessage(result: GovernorResult, order: GovernorOrder, gameState: GameState): string {
+    if (!result.success) return result.error || '任免失败';
+    const city = gameState.cities[order.cityId];
+    const governor = order.governorId ? gameState.generals[order.governorId] : undefined;
+    if (!governor) return `${city.name}太守一职暂且空缺，政务由主公亲理。`;
+    return order.delegation
+        ? `${governor.name}执掌${city.name}，${DELEGATION_LABELS[order.delegation]}，每月自行经营。`
+        : `${governor.name}执掌${city.name}，凡事听候主公号令。`;
+}
+
+/**
+ * 太守对话框组件
+ */
+export function GovernorModal({ isOpen, onClose, onExecute, city, gameState }: GovernorModalProps) {
+    const factionId = gameState.currentFaction;
+    const candidates = useMemo(() => getGovernorCandidates(gameState, city.id), [gameState, city.id]);
+    const current = useMemo(() => getCityGovernor(gameState, city.id), [gameState, city.id]);
+
+    const [governorIds, setGovernorIds] = useState<string[]>(current ? [current.id] : []);
+    const [delegation, setDelegation] = useState<DelegationMode | null>(city.delegation ?? null);
+
+    // 任免预览
+    const preview = useMemo(() => {
+        const order: GovernorOrder = {
+            cityId: city.id,
+            governorId: governorIds[0] ?? null,
+            delegation,
+        };
+        const governor = order.governorId ? gameState.generals[order.governorId] : undefined;
+        return {
+            order,
+            bonus: calculatePoliticsBonus(governor ? governor.attributes.pol : null),
+            error: validateGovernorOrder(order, gameState, factionId),
+        };
+    }, [city.id, governorIds, delegation, gameState, factionId]);
+
+    const canExecute = !preview.error;
+
+    // 执行
+    const handleExecute = useCallback(() => {
+        if (!canExecute) return;
+        const result = executeGovernorOrder(preview.order, gameState, factionId);
+        onExecute({
+            order: preview.order,
+            result,
+            message: buildResultMessage(result, preview.order, gameState),
+        });
+    }, [canExecute, preview, gameState, factionId, onExecute]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="domestic-modal-overlay" onClick={onClose}>
+            <div className="domestic-modal campaign-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">🏛️</span>
+                    <h2>太守</h2>
+                    <span className="city-name">
+                        - {city.name}（现任 {current?.name ?? '空缺'}
+                        {city.delegation && ` · ${DELEGATION_LABELS[city.delegation]}`}）
+                    </span>
+                    <button className="close-btn" onClick={onClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    {/* 太守人选 */}
+                    <div className="section">
+                        <h3>选择太守（不选则罢免）</h3>
+                        {candidates.length === 0 ? (
+                            <div className="no-targets">城中无可任太守的武将</div>
+                        ) : (
+                            <GeneralSelector
+                                generals={candidates}
+                                selectedIds={governorIds}
+                                onSelectionChange={setGovernorIds}
+                                multiSelect={false}
+                                recommendedSort="pol"
+                            />
+                        )}
+                    </div>
+
+                    {/* 委任方针 */}
+                    <div className="section">
+                        <h3>委任方针</h3>
+                        <div className="prisoner-actions">
+                            <button
+                                className={`prisoner-action ${delegation === null ? 'selected' : ''}`}
+                                onClick={() => setDelegation(null)}
+                            >
+                                亲自经营
+                            </button>
+                            {DELEGATION_MODES.map(mode => (
+                                <button
+                                    key={mode}
+                                    className={`prisoner-action ${delegation === mode ? 'selected' : ''}`}
+                                    onClick={() => setDelegation(mode)}
+                                >
+                                    {DELEGATION_LABELS[mode]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* 任免预览 */}
+                    <div className="section preview-section">
+                        <h3>任免预览</h3>
+                        <div className="preview-content">
+                            <div className="preview-row">
+                                <span className="label">收入加成:</span>
+                                <span className="value gain">×{preview.bonus.toFixed(2)}</span>
+                            </div>
+                            <div className="preview-row">
+                                <span className="label">委任:</span>
+                                <span className="value">
+                                    {delegation
+                                        ? `太守每月动用城中钱粮${DELEGATION_LABELS[delegation]}`
+                                        : '由主公亲自下令'}
+                                </span>
+                            </div>
+                            {preview.error && <div className="error-message">{preview.error}</div>}
+                        </div>
+                    </div>
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={onClose}>
+                        取消
+                    </button>
+                    <button className="execute-btn" onClick={handleExecute} disabled={!canExecute}>
+                        任免
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default GovernorModal;
@@ -0,0 +1,5 @@
+/**
+ * GovernorModal 组件导出
+ */
+export { GovernorModal } from './GovernorModal';
+export type { GovernorModalProps, GovernorModalResult } from './GovernorModal';
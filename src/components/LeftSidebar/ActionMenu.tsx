@@ -18,7 +18,16 @@ export type ActionType =
   | 'recruit'
   | 'search_talent'
   | 'campaign'
+  | 'siege'
+  | 'prisoners'
   | 'stratagem'
+  | 'scout'
+  | 'diplomacy'
+  | 'trade'
+  | 'personnel'
+  | 'movement'
+  | 'governor'
+  | 'rank'
   | 'view_details';
 
 /**
@@ -6,6 +6,9 @@
 
 import type { City } from '../../types/city';
 import type { General } from '../../types/general';
+import { SKILL_DESCRIPTIONS, SKILL_LABELS } from '../../types/skill';
+import { BOND_LABELS } from '../../types/bond';
+import { getRank } from '../../systems/ranks';
 import { RESOURCE_ICONS, getGeneralPortrait, getCityImage } from '../../assets';
 
 /**
@@ -152,6 +155,11 @@ export function CityDetails({
           <ul className="general-list">
             {stationedGenerals.map((general) => {
               const portrait = getGeneralPortrait(general.id);
+              // 与同城武将的关系（同军出征时影响士气）
+              const bonds = (general.bonds ?? []).flatMap((bond) => {
+                const other = stationedGenerals.find((g) => g.id === bond.generalId);
+                return other ? [{ ...bond, name: other.name }] : [];
+              });
               return (
                 <li key={general.id} className="general-item">
                   {portrait ? (
@@ -172,6 +180,29 @@ export function CityDetails({
                     {isPlayerCity && (
                       <span className="general-stats">
                         统{general.attributes.lead} 武{general.attributes.war}
+                        {general.rank ? ` · ${getRank(general).name}` : ''}
+                      </span>
+                    )}
+                    {general.skills && general.skills.length > 0 && (
+                      <span className="general-skills">
+                        {general.skills.map((skill) => (
+                          <span key={skill} className="skill-tag" title={SKILL_DESCRIPTIONS[skill]}>
+                            {SKILL_LABELS[skill]}
+                          </span>
+                        ))}
+                      </span>
+                    )}
+                    {bonds.length > 0 && (
+                      <span className="general-skills">
+                        {bonds.map((bond) => (
+                          <span
+                            key={bond.generalId}
+                            className={`skill-tag bond-tag ${bond.type === 'rival' ? 'rival' : ''}`}
+                            title={`${bond.name}乃${general.name}之${BOND_LABELS[bond.type]}`}
+                          >
+                            {BOND_LABELS[bond.type]}·{bond.name}
+                          </span>
+                        ))}
                       </span>
                     )}
                   </div>
@@ -0,0 +1,251 @@
+/**
+ * 调动对话框
+ * 自所选己方城市遣武将率部（可携带钱粮）调往其他己方城市，路途较远时分月行军
+ * @module components/MovementModal
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import type { GameState } from '../../types/gameState';
+import type { City } from '../../types/city';
+import {
+    executeMovement,
+    findMovementRoute,
+    getMovableGenerals,
+    getMovementDestinations,
+    validateMovementOrder,
+    type MovementOrder,
+    type MovementResult,
+} from '../../systems/movement';
+import { parseAmount } from '../parseAmount';
+import { GeneralSelector } from '../GeneralSelector';
+import '../DomesticActionModal/DomesticActionModal.css';
+import '../CampaignModal/CampaignModal.css';
+import '../TradeModal/TradeModal.css';
+
+/**
+ * 调动执行完成结果
+ */
+export interface MovementModalResult {
+    order: MovementOrder;
+    result: MovementResult;
+    message: string;
+}
+
+/**
+ * 调动对话框属性
+ */
+export interface MovementModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 执行完成回调 */
+    onExecute: (result: MovementModalResult) => void;
+    /** 出发的己方城市 */
+    fromCity: City;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+/**
+ * 生成调动结果描述
+ */
+function buildResultMessage(result: MovementResult, order: MovementOrder, gameState: GameState): string {
+    if (!result.success) return result.error || '调动失败';
+    const names = order.generalIds.map(id => gameState.generals[id]?.name ?? id).join('、');
+    const toName = gameState.cities[order.toCityId]?.name ?? order.toCityId;
+    return result.arrived
+        ? `${names}奉命率部移镇${toName}，当月抵达。`
+        : `${names}奉命率部启程，前往${toName}，预计行军${result.route.length}月。`;
+}
+
+/**
+ * 调动对话框组件
+ */
+export function MovementModal({ isOpen, onClose, onExecute, fromCity, gameState }: MovementModalProps) {
+    const factionId = gameState.currentFaction;
+    const destinations = useMemo(() => getMovementDestinations(gameState, fromCity.id), [gameState, fromCity.id]);
+    const movable = useMemo(() => getMovableGenerals(gameState, fromCity.id), [gameState, fromCity.id]);
+
+    const [toCityId, setToCityId] = useState<string | null>(null);
+    const [generalIds, setGeneralIds] = useState<string[]>([]);
+    const [gold, setGold] = useState('');
+    const [grain, setGrain] = useState('');
+
+    // 调动预览
+    const preview = useMemo(() => {
+        if (!toCityId) return null;
+        const order: MovementOrder = {
+            fromCityId: fromCity.id,
+            toCityId,
+            generalIds,
+            gold: parseAmount(gold),
+            grain: parseAmount(grain),
+        };
+        const route = findMovementRoute(gameState, factionId, fromCity.id, toCityId) ?? [];
+        return {
+            order,
+            route,
+            troops: generalIds.reduce((sum, id) => sum + (gameState.generals[id]?.troops ?? 0), 0),
+            error: validateMovementOrder(order, gameState, factionId),
+        };
+    }, [toCityId, fromCity.id, generalIds, gold, grain, gameState, factionId]);
+
+    const canExecute = !!preview && !preview.error;
+
+    // 执行
+    const handleExecute = useCallback(() => {
+        if (!canExecute || !preview) return;
+        const result = executeMovement(preview.order, gameState, factionId);
+        setToCityId(null);
+        setGeneralIds([]);
+        setGold('');
+        setGrain('');
+        onExecute({
+            order: preview.order,
+            result,
+            message: buildResultMessage(result, preview.order, gameState),
+        });
+    }, [canExecute, preview, gameState, factionId, onExecute]);
+
+    // 关闭时重置状态
+    const handleClose = useCallback(() => {
+        setToCityId(null);
+        setGeneralIds([]);
+        setGold('');
+        setGrain('');
+        onClose();
+    }, [onClose]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="domestic-modal-overlay" onClick={handleClose}>
+            <div className="domestic-modal campaign-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">🚩</span>
+                    <h2>调动</h2>
+                    <span className="city-name">
+                        - {fromCity.name}（金 {fromCity.resources.gold.toLocaleString()} · 粮{' '}
+                        {fromCity.resources.grain.toLocaleString()}）
+                    </span>
+                    <button className="close-btn" onClick={handleClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    {/* 目的城市 */}
+                    <div className="section">
+                        <h3>选择目的地</h3>
+                        {destinations.length === 0 ? (
+                            <div className="no-targets">沿己方城市无可调往之处</div>
+                        ) : (
+                            <div className="campaign-targets">
+                                {destinations.map(city => {
+                                    const hops = findMovementRoute(gameState, factionId, fromCity.id, city.id)?.length;
+                                    return (
+                                        <button
+                                            key={city.id}
+                                            className={`campaign-target ${toCityId === city.id ? 'selected' : ''}`}
+                                            onClick={() => setToCityId(city.id)}
+                                        >
+                                            <span className="target-name">{city.name}</span>
+                                            <span className="target-faction">
+                                                {hops === 1 ? '相邻，当月抵达' : `途经${hops}城，需行军${hops}月`}
+                                            </span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* 调动武将 */}
+                    <div className="section">
+                        <h3>选择调动武将</h3>
+                        {movable.length === 0 ? (
+                            <div className="no-targets">城中无可调动的武将</div>
+                        ) : (
+                            <GeneralSelector
+                                generals={movable}
+                                selectedIds={generalIds}
+                                onSelectionChange={setGeneralIds}
+                                multiSelect
+                                recommendedSort="troops"
+                            />
+                        )}
+                    </div>
+
+                    {/* 随军钱粮 */}
+                    <div className="section trade-amounts">
+                        <label>
+                            <span>随军金钱</span>
+                            <input
+                                className="trade-amount-input"
+                                type="number"
+                                min={0}
+                                value={gold}
+                                onChange={e => setGold(e.target.value)}
+                            />
+                        </label>
+                        <label>
+                            <span>随军粮草</span>
+                            <input
+                                className="trade-amount-input"
+                                type="number"
+                                min={0}
+                                value={grain}
+                                onChange={e => setGrain(e.target.value)}
+                            />
+                        </label>
+                    </div>
+
+                    {/* 调动预览 */}
+                    {preview && (
+                        <div className="section preview-section">
+                            <h3>调动预览</h3>
+                            <div className="preview-content">
+                                <div className="preview-row">
+                                    <span className="label">行军路线:</span>
+                                    <span className="value">
+                                        {[fromCity.id, ...preview.route]
+                                            .map(id => gameState.cities[id]?.name ?? id)
+                                            .join(' → ')}
+                                    </span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">随行兵力:</span>
+                                    <span className="value">{preview.troops.toLocaleString()}</span>
+                                </div>
+                                {preview.route.length > 1 && (
+                                    <div className="preview-row">
+                                        <span className="label">抵达:</span>
+                                        <span className="value">
+                                            当月进驻{gameState.cities[preview.route[0]]?.name}，此后每月前进一城
+                                        </span>
+                                    </div>
+                                )}
+                                {preview.error && <div className="error-message">{preview.error}</div>}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={handleClose}>
+                        取消
+                    </button>
+                    <button className="execute-btn" onClick={handleExecute} disabled={!canExecute}>
+                        调动
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default MovementModal;
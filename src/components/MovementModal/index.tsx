@@ -0,0 +1,5 @@
+/**
+ * MovementModal 组件导出
+ */
+export { MovementModal } from './MovementModal';
+export type { MovementModalProps, MovementModalResult } from './MovementModal';
@@ -74,6 +74,9 @@ function getEventTypeName(type: GameEventType): string {
     domestic: '内政',
     disaster: '灾害',
     general: '武将',
+    stratagem: '计略',
+    diplomacy: '外交',
+    trade: '贸易',
   };
   return typeNames[type];
 }
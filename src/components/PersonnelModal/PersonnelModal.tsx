@@ -0,0 +1,309 @@
+/**
+ * 人事对话框
+ * 自所选己方城市出资赏赐麾下武将，或遣说客挖角相邻城市的敌将
+ * @module components/PersonnelModal
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import type { GameState } from '../../types/gameState';
+import type { City } from '../../types/city';
+import type { General } from '../../types/general';
+import {
+    POACH_RELATION_PENALTY,
+    calculateLoyaltyTarget,
+    calculatePoachChance,
+    calculateRewardLoyalty,
+    executePersonnel,
+    getPoachTargets,
+    getRewardableGenerals,
+    validatePersonnelOrder,
+    type PersonnelAction,
+    type PersonnelOrder,
+    type PersonnelResult,
+} from '../../systems/loyalty';
+import { getGeneralLoyalty } from '../../systems/prisoners';
+import { parseAmount } from '../parseAmount';
+import { GeneralSelector } from '../GeneralSelector';
+import '../DomesticActionModal/DomesticActionModal.css';
+import '../CampaignModal/CampaignModal.css';
+import '../PrisonerModal/PrisonerModal.css';
+import '../TradeModal/TradeModal.css';
+
+/**
+ * 人事执行完成结果
+ */
+export interface PersonnelModalResult {
+    order: PersonnelOrder;
+    result: PersonnelResult;
+    message: string;
+}
+
+/**
+ * 人事对话框属性
+ */
+export interface PersonnelModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 执行完成回调 */
+    onExecute: (result: PersonnelModalResult) => void;
+    /** 出资的己方城市 */
+    fromCity: City;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+const ACTION_LABELS: Record<PersonnelAction, string> = {
+    reward: '赏赐',
+    poach: '挖角',
+};
+
+const ACTIONS: PersonnelAction[] = ['reward', 'poach'];
+
+/**
+ * 生成人事结果描述
+ */
+function buildResultMessage(result: PersonnelResult, order: PersonnelOrder, gameState: GameState): string {
+    if (!result.success) return result.error || '人事失败';
+    const general = gameState.generals[order.generalId];
+    const name = general?.name ?? '';
+    if (result.action === 'reward') {
+        return `${name}受赏${order.gold}金，感激涕零，忠诚 +${calculateRewardLoyalty(order.gold)}。`;
+    }
+    const envoyName = order.envoyId ? (gameState.generals[order.envoyId]?.name ?? '') : '';
+    return result.poached ? `${envoyName}游说得手，${name}率部来投！` : `${envoyName}游说${name}未果，事泄于敌。`;
+}
+
+/**
+ * 人事对话框组件
+ */
+export function PersonnelModal({ isOpen, onClose, onExecute, fromCity, gameState }: PersonnelModalProps) {
+    const factionId = gameState.currentFaction;
+    const rewardable = useMemo(() => getRewardableGenerals(gameState, factionId), [gameState, factionId]);
+    const poachTargets = useMemo(() => getPoachTargets(gameState, fromCity.id), [gameState, fromCity.id]);
+    const envoys = useMemo(
+        () =>
+            fromCity.stationedGenerals
+                .map(id => gameState.generals[id])
+                .filter((g): g is General => g !== undefined && g.isAlive && g.faction === factionId),
+        [fromCity.stationedGenerals, gameState.generals, factionId]
+    );
+
+    const [action, setAction] = useState<PersonnelAction>('reward');
+    const [generalId, setGeneralId] = useState<string | null>(null);
+    const [envoyIds, setEnvoyIds] = useState<string[]>([]);
+    const [gold, setGold] = useState('');
+    const [isExecuting, setIsExecuting] = useState(false);
+
+    // 人事预览
+    const preview = useMemo(() => {
+        const general = generalId ? gameState.generals[generalId] : undefined;
+        if (!general) return null;
+        const order: PersonnelOrder = {
+            action,
+            generalId: general.id,
+            cityId: fromCity.id,
+            gold: parseAmount(gold),
+            envoyId: action === 'poach' ? envoyIds[0] : undefined,
+        };
+        return {
+            general,
+            order,
+            loyalty: getGeneralLoyalty(gameState, general),
+            gain: calculateRewardLoyalty(order.gold),
+            target: calculateLoyaltyTarget(gameState, general, factionId),
+            chance: calculatePoachChance(order, gameState, factionId),
+            error: validatePersonnelOrder(order, gameState, factionId),
+        };
+    }, [generalId, action, fromCity.id, gold, envoyIds, gameState, factionId]);
+
+    const canExecute = !isExecuting && !!preview && !preview.error;
+
+    // 执行
+    const handleExecute = useCallback(() => {
+        if (!canExecute || !preview) return;
+        setIsExecuting(true);
+
+        // 模拟执行延迟
+        setTimeout(() => {
+            const result = executePersonnel(preview.order, gameState, factionId);
+            setIsExecuting(false);
+            setGeneralId(null);
+            setGold('');
+            onExecute({
+                order: preview.order,
+                result,
+                message: buildResultMessage(result, preview.order, gameState),
+            });
+        }, 500);
+    }, [canExecute, preview, gameState, factionId, onExecute]);
+
+    // 切换人事类型时清空目标
+    const handleActionChange = useCallback((next: PersonnelAction) => {
+        setAction(next);
+        setGeneralId(null);
+    }, []);
+
+    // 关闭时重置状态
+    const handleClose = useCallback(() => {
+        setAction('reward');
+        setGeneralId(null);
+        setEnvoyIds([]);
+        setGold('');
+        onClose();
+    }, [onClose]);
+
+    if (!isOpen) return null;
+
+    const candidates = action === 'reward' ? rewardable : poachTargets;
+
+    return (
+        <div className="domestic-modal-overlay" onClick={handleClose}>
+            <div className="domestic-modal campaign-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">🏅</span>
+                    <h2>人事</h2>
+                    <span className="city-name">
+                        - {fromCity.name}（金 {fromCity.resources.gold.toLocaleString()}）
+                    </span>
+                    <button className="close-btn" onClick={handleClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    {/* 人事类型 */}
+                    <div className="prisoner-actions">
+                        {ACTIONS.map(a => (
+                            <button
+                                key={a}
+                                className={`prisoner-action ${action === a ? 'selected' : ''}`}
+                                onClick={() => handleActionChange(a)}
+                                disabled={isExecuting}
+                            >
+                                {ACTION_LABELS[a]}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* 挖角需选择说客 */}
+                    {action === 'poach' && (
+                        <div className="section">
+                            <h3>选择说客</h3>
+                            {envoys.length === 0 ? (
+                                <div className="no-targets">城中无可派遣的武将</div>
+                            ) : (
+                                <GeneralSelector
+                                    generals={envoys}
+                                    selectedIds={envoyIds}
+                                    onSelectionChange={setEnvoyIds}
+                                    multiSelect={false}
+                                    recommendedSort="cha"
+                                    disabled={isExecuting}
+                                />
+                            )}
+                        </div>
+                    )}
+
+                    {/* 目标武将 */}
+                    <div className="section">
+                        <h3>{action === 'reward' ? '选择受赏武将' : '选择挖角对象'}</h3>
+                        {candidates.length === 0 ? (
+                            <div className="no-targets">
+                                {action === 'reward' ? '麾下并无可赏赐的武将' : '相邻城市中并无可挖角的敌将'}
+                            </div>
+                        ) : (
+                            <div className="campaign-targets">
+                                {candidates.map(general => (
+                                    <button
+                                        key={general.id}
+                                        className={`campaign-target ${generalId === general.id ? 'selected' : ''}`}
+                                        onClick={() => setGeneralId(general.id)}
+                                        disabled={isExecuting}
+                                    >
+                                        <span className="target-name">{general.name}</span>
+                                        <span className="target-faction">
+                                            {action === 'poach' &&
+                                                `${gameState.factions[general.faction]?.name ?? ''} · `}
+                                            兵力 {general.troops.toLocaleString()} · 忠诚{' '}
+                                            {getGeneralLoyalty(gameState, general)}
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* 金钱数额 */}
+                    <div className="section trade-amounts">
+                        <label>
+                            <span>{action === 'reward' ? '赏赐金钱' : '许以金钱'}</span>
+                            <input
+                                className="trade-amount-input"
+                                type="number"
+                                min={0}
+                                value={gold}
+                                onChange={e => setGold(e.target.value)}
+                                disabled={isExecuting}
+                            />
+                        </label>
+                    </div>
+
+                    {/* 人事预览 */}
+                    {preview && (
+                        <div className="section preview-section">
+                            <h3>人事预览</h3>
+                            <div className="preview-content">
+                                <div className="preview-row">
+                                    <span className="label">当前忠诚:</span>
+                                    <span className="value">{preview.loyalty}</span>
+                                </div>
+                                {action === 'reward' ? (
+                                    <div className="preview-row">
+                                        <span className="label">忠诚变化:</span>
+                                        <span className="value gain">
+                                            +{preview.gain}（此后每月向 {preview.target} 靠拢）
+                                        </span>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <div className="preview-row">
+                                            <span className="label">来投后忠诚:</span>
+                                            <span className="value">每月向 {preview.target} 靠拢</span>
+                                        </div>
+                                        <div className="preview-row">
+                                            <span className="label">成功率:</span>
+                                            <span className="value gain">{Math.round(preview.chance * 100)}%</span>
+                                        </div>
+                                        <div className="preview-row">
+                                            <span className="label">关系变化:</span>
+                                            <span className="value cost">
+                                                -{POACH_RELATION_PENALTY}（无论成败，金钱亦不退还）
+                                            </span>
+                                        </div>
+                                    </>
+                                )}
+                                {preview.error && <div className="error-message">{preview.error}</div>}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={handleClose} disabled={isExecuting}>
+                        取消
+                    </button>
+                    <button className="execute-btn" onClick={handleExecute} disabled={!canExecute}>
+                        {isExecuting ? '办理中...' : ACTION_LABELS[action]}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default PersonnelModal;
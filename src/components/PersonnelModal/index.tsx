@@ -0,0 +1,5 @@
+/**
+ * PersonnelModal 组件导出
+ */
+export { PersonnelModal } from './PersonnelModal';
+export type { PersonnelModalProps, PersonnelModalResult } from './PersonnelModal';
@@ -0,0 +1,245 @@
+/**
+ * 俘虏对话框
+ * 处置我方关押的俘虏：招降、释放或处斩
+ * @module components/PrisonerModal
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import type { GameState } from '../../types/gameState';
+import type { Prisoner } from '../../types/prisoner';
+import {
+    calculateRecruitChance,
+    executePrisonerAction,
+    getFactionPrisoners,
+    getGeneralLoyalty,
+    validatePrisonerOrder,
+    type PrisonerAction,
+    type PrisonerActionResult,
+    type PrisonerOrder,
+} from '../../systems/prisoners';
+import '../DomesticActionModal/DomesticActionModal.css';
+import '../CampaignModal/CampaignModal.css';
+import './PrisonerModal.css';
+
+/**
+ * 俘虏处置完成结果
+ */
+export interface PrisonerModalResult {
+    order: PrisonerOrder;
+    result: PrisonerActionResult;
+    message: string;
+}
+
+/**
+ * 俘虏对话框属性
+ */
+export interface PrisonerModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 执行完成回调 */
+    onExecute: (result: PrisonerModalResult) => void;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+const ACTION_LABELS: Record<PrisonerAction, string> = {
+    recruit: '招降',
+    release: '释放',
+    execute: '处斩',
+};
+
+const ACTIONS: PrisonerAction[] = ['recruit', 'release', 'execute'];
+
+/**
+ * 生成处置结果描述
+ */
+function buildResultMessage(action: PrisonerAction, result: PrisonerActionResult, name: string): string {
+    if (!result.success) return result.error || '处置失败';
+    switch (action) {
+        case 'recruit':
+            return result.recruited ? `${name}感主公之德，愿降！` : `${name}不肯归降，仍押于狱中。`;
+        case 'release':
+            return `主公释放${name}，其人拜谢而去。`;
+        case 'execute':
+            return `${name}被推出斩首，闻者皆惊。`;
+    }
+}
+
+/**
+ * 俘虏对话框组件
+ */
+export function PrisonerModal({ isOpen, onClose, onExecute, gameState }: PrisonerModalProps) {
+    const prisoners = useMemo(
+        () => getFactionPrisoners(gameState, gameState.currentFaction),
+        [gameState]
+    );
+
+    const [generalId, setGeneralId] = useState<string | null>(null);
+    const [action, setAction] = useState<PrisonerAction>('recruit');
+    const [isExecuting, setIsExecuting] = useState(false);
+
+    const selectedPrisoner = useMemo(
+        () => prisoners.find(p => p.generalId === generalId) ?? null,
+        [prisoners, generalId]
+    );
+
+    // 处置预览
+    const preview = useMemo(() => {
+        if (!selectedPrisoner) return null;
+        const general = gameState.generals[selectedPrisoner.generalId];
+        const order: PrisonerOrder = { generalId: selectedPrisoner.generalId, action };
+        return {
+            general,
+            order,
+            loyalty: getGeneralLoyalty(gameState, general),
+            recruitChance: calculateRecruitChance(gameState, selectedPrisoner),
+            error: validatePrisonerOrder(order, gameState, gameState.currentFaction),
+        };
+    }, [selectedPrisoner, action, gameState]);
+
+    const canExecute = !isExecuting && !!preview && !preview.error;
+
+    // 执行
+    const handleExecute = useCallback(() => {
+        if (!canExecute || !preview) return;
+        setIsExecuting(true);
+
+        // 模拟执行延迟
+        setTimeout(() => {
+            const result = executePrisonerAction(preview.order, gameState, gameState.currentFaction);
+            setIsExecuting(false);
+            setGeneralId(null);
+            onExecute({
+                order: preview.order,
+                result,
+                message: buildResultMessage(action, result, preview.general.name),
+            });
+        }, 500);
+    }, [canExecute, preview, action, gameState, onExecute]);
+
+    // 关闭时重置状态
+    const handleClose = useCallback(() => {
+        setGeneralId(null);
+        setAction('recruit');
+        onClose();
+    }, [onClose]);
+
+    if (!isOpen) return null;
+
+    const renderPrisonerOption = (prisoner: Prisoner) => {
+        const general = gameState.generals[prisoner.generalId];
+        const original = gameState.factions[prisoner.originalFaction];
+        const city = gameState.cities[prisoner.cityId];
+        return (
+            <button
+                key={prisoner.generalId}
+                className={`campaign-target ${generalId === prisoner.generalId ? 'selected' : ''}`}
+                onClick={() => setGeneralId(prisoner.generalId)}
+                disabled={isExecuting}
+            >
+                <span
+                    className="target-faction-dot"
+                    style={{ backgroundColor: original?.color || '#888' }}
+                />
+                <span className="target-name">{general?.name || prisoner.generalId}</span>
+                <span className="target-faction">
+                    {original?.name || '在野'} · 押于{city?.name || prisoner.cityId}
+                </span>
+            </button>
+        );
+    };
+
+    return (
+        <div className="domestic-modal-overlay" onClick={handleClose}>
+            <div className="domestic-modal campaign-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">⛓️</span>
+                    <h2>处置俘虏</h2>
+                    <button className="close-btn" onClick={handleClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    <div className="section">
+                        <h3>选择俘虏</h3>
+                        {prisoners.length === 0 ? (
+                            <div className="no-targets">狱中并无俘虏</div>
+                        ) : (
+                            <div className="campaign-targets">{prisoners.map(renderPrisonerOption)}</div>
+                        )}
+                    </div>
+
+                    {/* 处置方式 */}
+                    <div className="prisoner-actions">
+                        {ACTIONS.map(a => (
+                            <button
+                                key={a}
+                                className={`prisoner-action ${action === a ? 'selected' : ''}`}
+                                onClick={() => setAction(a)}
+                                disabled={isExecuting}
+                            >
+                                {ACTION_LABELS[a]}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* 处置预览 */}
+                    {preview && (
+                        <div className="section preview-section">
+                            <h3>处置预览</h3>
+                            <div className="preview-content">
+                                <div className="preview-row">
+                                    <span className="label">武力 / 统率 / 智力:</span>
+                                    <span className="value">
+                                        {preview.general.attributes.war} / {preview.general.attributes.lead} /{' '}
+                                        {preview.general.attributes.int}
+                                    </span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">对旧主忠诚:</span>
+                                    <span className="value">{preview.loyalty}</span>
+                                </div>
+                                {action === 'recruit' && (
+                                    <div className="preview-row">
+                                        <span className="label">招降成功率:</span>
+                                        <span className="value gain">{Math.round(preview.recruitChance * 100)}%</span>
+                                    </div>
+                                )}
+                                {action === 'release' && (
+                                    <div className="preview-row">
+                                        <span className="label">影响:</span>
+                                        <span className="value gain">关押城市民忠上升，其人感念不杀之恩</span>
+                                    </div>
+                                )}
+                                {action === 'execute' && (
+                                    <div className="preview-row">
+                                        <span className="label">影响:</span>
+                                        <span className="value cost">关押城市民忠下降，麾下武将心寒，两国交恶</span>
+                                    </div>
+                                )}
+                                {preview.error && <div className="error-message">{preview.error}</div>}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={handleClose} disabled={isExecuting}>
+                        取消
+                    </button>
+                    <button className="execute-btn" onClick={handleExecute} disabled={!canExecute}>
+                        {isExecuting ? '处置中...' : `确认${ACTION_LABELS[action]}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default PrisonerModal;
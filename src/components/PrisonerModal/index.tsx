@@ -0,0 +1,5 @@
+/**
+ * PrisonerModal 组件导出
+ */
+export { PrisonerModal } from './PrisonerModal';
+export type { PrisonerModalProps, PrisonerModalResult } from './PrisonerModal';
@@ -0,0 +1,168 @@
+/**
+ * 授官对话框
+ * 以功绩为麾下武将晋升官阶，官阶决定武将可统领的兵力上限
+ * @module components/RankModal
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import type { GameState } from '../../types/gameState';
+import {
+    executeRankGrant,
+    getMaxTroops,
+    getMerit,
+    getNextRank,
+    getRank,
+    getRankableGenerals,
+    validateRankOrder,
+    type RankOrder,
+    type RankResult,
+} from '../../systems/ranks';
+import '../DomesticActionModal/DomesticActionModal.css';
+import '../CampaignModal/CampaignModal.css';
+
+/**
+ * 授官完成结果
+ */
+export interface RankModalResult {
+    order: RankOrder;
+    result: RankResult;
+}
+
+/**
+ * 授官对话框属性
+ */
+export interface RankModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 执行完成回调 */
+    onExecute: (result: RankModalResult) => void;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+/**
+ * 授官对话框组件
+ */
+export function RankModal({ isOpen, onClose, onExecute, gameState }: RankModalProps) {
+    const factionId = gameState.currentFaction;
+    const generals = useMemo(() => getRankableGenerals(gameState, factionId), [gameState, factionId]);
+    const [generalId, setGeneralId] = useState<string | null>(null);
+
+    // 授官预览
+    const preview = useMemo(() => {
+        const general = generalId ? gameState.generals[generalId] : undefined;
+        if (!general) return null;
+        const order: RankOrder = { generalId: general.id };
+        return {
+            general,
+            order,
+            next: getNextRank(general),
+            error: validateRankOrder(order, gameState, factionId),
+        };
+    }, [generalId, gameState, factionId]);
+
+    const canExecute = !!preview && !preview.error;
+
+    // 执行
+    const handleExecute = useCallback(() => {
+        if (!canExecute || !preview) return;
+        const result = executeRankGrant(preview.order, gameState, factionId);
+        setGeneralId(null);
+        onExecute({ order: preview.order, result });
+    }, [canExecute, preview, gameState, factionId, onExecute]);
+
+    // 关闭时重置状态
+    const handleClose = useCallback(() => {
+        setGeneralId(null);
+        onClose();
+    }, [onClose]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="domestic-modal-overlay" onClick={handleClose}>
+            <div className="domestic-modal campaign-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">🎖️</span>
+                    <h2>授官</h2>
+                    <button className="close-btn" onClick={handleClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    {/* 受封武将 */}
+                    <div className="section">
+                        <h3>选择受封武将</h3>
+                        {generals.length === 0 ? (
+                            <div className="no-targets">麾下并无可授官的武将</div>
+                        ) : (
+                            <div className="campaign-targets">
+                                {generals.map(general => (
+                                    <button
+                                        key={general.id}
+                                        className={`campaign-target ${generalId === general.id ? 'selected' : ''}`}
+                                        onClick={() => setGeneralId(general.id)}
+                                    >
+                                        <span className="target-name">{general.name}</span>
+                                        <span className="target-faction">
+                                            {getRank(general).name} · 兵力 {general.troops.toLocaleString()}/
+                                            {getMaxTroops(gameState, general).toLocaleString()} · 功绩{' '}
+                                            {getMerit(general)}
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* 授官预览 */}
+                    {preview && (
+                        <div className="section preview-section">
+                            <h3>授官预览</h3>
+                            <div className="preview-content">
+                                <div className="preview-row">
+                                    <span className="label">现任官阶:</span>
+                                    <span className="value">{getRank(preview.general).name}</span>
+                                </div>
+                                {preview.next && (
+                                    <>
+                                        <div className="preview-row">
+                                            <span className="label">晋升为:</span>
+                                            <span className="value gain">
+                                                {preview.next.name} · 统兵上限 {preview.next.maxTroops.toLocaleString()}
+                                            </span>
+                                        </div>
+                                        <div className="preview-row">
+                                            <span className="label">消耗功绩:</span>
+                                            <span className="value cost">
+                                                {preview.next.merit}（现有 {getMerit(preview.general)}）
+                                            </span>
+                                        </div>
+                                    </>
+                                )}
+                                {preview.error && <div className="error-message">{preview.error}</div>}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={handleClose}>
+                        取消
+                    </button>
+                    <button className="execute-btn" onClick={handleExecute} disabled={!canExecute}>
+                        授官
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default RankModal;
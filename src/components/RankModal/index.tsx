@@ -0,0 +1,5 @@
+/**
+ * RankModal 组件导出
+ */
+export { RankModal } from './RankModal';
+export type { RankModalProps, RankModalResult } from './RankModal';
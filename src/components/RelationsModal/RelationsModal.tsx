@@ -0,0 +1,158 @@
+/**
+ * 外交形势对话框
+ * 以矩阵展示各势力间的关系值，并列出近期关系变化
+ * @module components/RelationsModal
+ */
+
+import { useMemo } from 'react';
+import type { GameState } from '../../types/gameState';
+import type { RelationChangeReason } from '../../types/diplomacy';
+import {
+    ALLY_THRESHOLD,
+    HOSTILE_THRESHOLD,
+    deriveDiplomacyStatus,
+    getRelation,
+    getRelationHistory,
+} from '../../systems/relations';
+import { getActiveTruce } from '../../systems/diplomacy';
+import '../DomesticActionModal/DomesticActionModal.css';
+import './RelationsModal.css';
+
+/**
+ * 外交形势对话框属性
+ */
+export interface RelationsModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+/** 显示的关系变化记录条数 */
+const HISTORY_SHOWN = 20;
+
+const REASON_LABELS: Record<RelationChangeReason, string> = {
+    battle: '交战',
+    gift: '馈赠',
+    shared_enemy: '同仇敌忾',
+    betrayal: '背盟',
+    alliance: '结盟',
+    truce: '议和',
+    truce_expired: '停战期满',
+    declare_war: '宣战',
+    execution: '处斩降将',
+    tribute: '索贡',
+    trade: '互市',
+    poach: '挖角',
+};
+
+/**
+ * 外交形势对话框组件
+ */
+export function RelationsModal({ isOpen, onClose, gameState }: RelationsModalProps) {
+    const factions = useMemo(
+        () => Object.values(gameState.factions).filter(f => f.cities.length > 0),
+        [gameState.factions]
+    );
+    const history = useMemo(() => getRelationHistory(gameState).slice(-HISTORY_SHOWN).reverse(), [gameState]);
+
+    if (!isOpen) return null;
+
+    const factionName = (id: string) => gameState.factions[id]?.name || id;
+
+    return (
+        <div className="domestic-modal-overlay" onClick={onClose}>
+            <div className="domestic-modal relations-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">🤝</span>
+                    <h2>外交形势</h2>
+                    <span className="city-name">
+                        - 同盟 ≥ {ALLY_THRESHOLD}，交战 ≤ {HOSTILE_THRESHOLD}
+                    </span>
+                    <button className="close-btn" onClick={onClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    {/* 关系矩阵 */}
+                    <table className="relations-matrix">
+                        <thead>
+                            <tr>
+                                <th />
+                                {factions.map(f => (
+                                    <th key={f.id} style={{ color: f.color }}>
+                                        {f.name}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {factions.map(row => (
+                                <tr key={row.id}>
+                                    <th style={{ color: row.color }}>{row.name}</th>
+                                    {factions.map(col => {
+                                        if (row.id === col.id) {
+                                            return (
+                                                <td key={col.id} className="relation-self">
+                                                    —
+                                                </td>
+                                            );
+                                        }
+                                        const value = getRelation(gameState, row.id, col.id);
+                                        const truce = getActiveTruce(gameState, row.id, col.id);
+                                        return (
+                                            <td key={col.id} className={`relation-${deriveDiplomacyStatus(value)}`}>
+                                                {value}
+                                                {truce && <span className="relation-truce">停</span>}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    {/* 关系变化记录 */}
+                    <div className="section">
+                        <h3>近期变化</h3>
+                        {history.length === 0 ? (
+                            <div className="no-targets">天下诸侯关系尚无变化</div>
+                        ) : (
+                            <ul className="relations-history">
+                                {history.map((record, i) => (
+                                    <li key={i}>
+                                        <span className="relations-history-date">
+                                            {record.date.year}年{record.date.month}月
+                                        </span>
+                                        <span>
+                                            {factionName(record.factions[0])}·{factionName(record.factions[1])}{' '}
+                                            {REASON_LABELS[record.reason]}
+                                        </span>
+                                        <span className={record.delta > 0 ? 'gain' : 'cost'}>
+                                            {record.delta > 0 ? '+' : ''}
+                                            {record.delta} → {record.value}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={onClose}>
+                        关闭
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default RelationsModal;
@@ -0,0 +1,5 @@
+/**
+ * RelationsModal 组件导出
+ */
+export { RelationsModal } from './RelationsModal';
+export type { RelationsModalProps } from './RelationsModal';
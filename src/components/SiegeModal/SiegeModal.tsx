@@ -0,0 +1,466 @@
+/**
+ * 围城对话框
+ * 发起围城、出城突击、援军解围与撤围
+ * @module components/SiegeModal
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { GeneralSelector } from '../GeneralSelector';
+import type { GameState } from '../../types/gameState';
+import type { General } from '../../types/general';
+import type { City } from '../../types/city';
+import type { Siege } from '../../types/siege';
+import { calculateCityTroops } from '../../systems/aiSystem';
+import {
+    getCampaignComposition,
+    getCampaignLeader,
+    getCampaignTargets,
+    type CampaignOrder,
+} from '../../systems/campaign';
+import {
+    calculateSiegeDefenseDamage,
+    calculateSiegeGrainConsumption,
+    executeSiegeBreak,
+    getCitySiege,
+    getSiegeBreakMode,
+    getSiegeGenerals,
+    getSieges,
+    isCityBesieged,
+    isGeneralBesieging,
+    validateSiegeOrder,
+    type SiegeBreakOrder,
+    type SiegeBreakResult,
+} from '../../systems/siege';
+import { isGeneralMarching } from '../../systems/movement';
+import '../DomesticActionModal/DomesticActionModal.css';
+import '../CampaignModal/CampaignModal.css';
+import './SiegeModal.css';
+
+/**
+ * 围城对话框模式
+ */
+type SiegeModalMode = 'begin' | 'sally' | 'relief' | 'withdraw';
+
+/**
+ * 围城执行结果
+ */
+export type SiegeActionResult =
+    | { kind: 'begin'; order: CampaignOrder; message: string }
+    | { kind: 'break'; order: SiegeBreakOrder; result: SiegeBreakResult; message: string }
+    | { kind: 'withdraw'; siege: Siege; message: string };
+
+/**
+ * 围城对话框属性
+ */
+export interface SiegeModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 执行完成回调 */
+    onExecute: (result: SiegeActionResult) => void;
+    /** 当前城市 */
+    fromCity: City;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+const MODE_LABELS: Record<SiegeModalMode, string> = {
+    begin: '围城',
+    sally: '出城突击',
+    relief: '援军解围',
+    withdraw: '撤围',
+};
+
+/**
+ * 生成解围结果描述
+ */
+function buildBreakMessage(result: SiegeBreakResult, leader: General, targetCity: City): string {
+    const action = result.mode === 'sally' ? '出城突击' : '驰援';
+    switch (result.result) {
+        case 'win':
+            return `${leader.name}${action}${targetCity.name}，大破围城之敌，${targetCity.name}之围遂解！`;
+        case 'lose':
+            return `${leader.name}${action}${targetCity.name}失利，折损${result.attackerCasualties.toLocaleString()}人。`;
+        case 'draw':
+            return `${leader.name}${action}${targetCity.name}，与围城之敌相持不下，各自收兵。`;
+    }
+}
+
+/**
+ * 围城对话框组件
+ */
+export function SiegeModal({ isOpen, onClose, onExecute, fromCity, gameState }: SiegeModalProps) {
+    // 本城被围：可出城突击
+    const citySiege = useMemo(() => getCitySiege(gameState, fromCity.id), [gameState, fromCity.id]);
+
+    // 相邻友军城市被围：可援军解围
+    const reliefSieges = useMemo(
+        () => getSieges(gameState).filter(siege => getSiegeBreakMode(siege, fromCity, gameState) === 'relief'),
+        [gameState, fromCity]
+    );
+
+    // 从本城发起的围城：可撤围
+    const ownSieges = useMemo(
+        () =>
+            getSieges(gameState).filter(
+                siege => siege.campCityId === fromCity.id && siege.attackerFaction === fromCity.faction
+            ),
+        [gameState, fromCity]
+    );
+
+    // 可围困的目标城市
+    const siegeTargets = useMemo(
+        () => getCampaignTargets(fromCity, gameState).filter(city => !isCityBesieged(gameState, city.id)),
+        [fromCity, gameState]
+    );
+
+    const modes = useMemo(() => {
+        const list: SiegeModalMode[] = ['begin'];
+        if (citySiege) list.push('sally');
+        if (reliefSieges.length > 0) list.push('relief');
+        if (ownSieges.length > 0) list.push('withdraw');
+        return list;
+    }, [citySiege, reliefSieges, ownSieges]);
+
+    const [mode, setMode] = useState<SiegeModalMode>(citySiege ? 'sally' : 'begin');
+    const [targetCityId, setTargetCityId] = useState<string | null>(null);
+    const [siegeId, setSiegeId] = useState<string | null>(null);
+    const [selectedGeneralIds, setSelectedGeneralIds] = useState<string[]>([]);
+    const [isExecuting, setIsExecuting] = useState(false);
+
+    // 可出战的武将（有兵力且未在行军或围城中）
+    const availableGenerals = useMemo(
+        () =>
+            fromCity.stationedGenerals
+                .map(id => gameState.generals[id])
+                .filter(
+                    (g): g is General =>
+                        g !== undefined &&
+                        g.isAlive &&
+                        g.troops > 0 &&
+                        !isGeneralMarching(gameState, g.id) &&
+                        !isGeneralBesieging(gameState, g.id)
+                ),
+        [fromCity, gameState]
+    );
+
+    // 当前选中的围城（突击为本城之围）
+    const selectedSiege = useMemo(() => {
+        if (mode === 'sally') return citySiege ?? null;
+        return getSieges(gameState).find(siege => siege.id === siegeId) ?? null;
+    }, [mode, citySiege, siegeId, gameState]);
+
+    const selectedGenerals = useMemo(
+        () =>
+            selectedGeneralIds
+                .map(id => gameState.generals[id])
+                .filter((g): g is General => g !== undefined),
+        [selectedGeneralIds, gameState.generals]
+    );
+
+    // 围城预览
+    const beginPreview = useMemo(() => {
+        if (mode !== 'begin' || !targetCityId || selectedGenerals.length === 0) return null;
+        const targetCity = gameState.cities[targetCityId];
+        const troops = selectedGenerals.reduce((sum, g) => sum + g.troops, 0);
+        const order: CampaignOrder = {
+            fromCityId: fromCity.id,
+            toCityId: targetCityId,
+            generalIds: selectedGeneralIds,
+        };
+
+        return {
+            order,
+            targetCity,
+            troops,
+            defenseDamage: calculateSiegeDefenseDamage(getCampaignComposition(selectedGenerals)),
+            campGrain: calculateSiegeGrainConsumption(troops),
+            targetGrain: calculateSiegeGrainConsumption(calculateCityTroops(targetCity, gameState.generals)),
+            error: validateSiegeOrder(order, gameState),
+        };
+    }, [mode, targetCityId, selectedGenerals, selectedGeneralIds, fromCity.id, gameState]);
+
+    // 解围预览
+    const breakPreview = useMemo(() => {
+        if ((mode !== 'sally' && mode !== 'relief') || !selectedSiege || selectedGenerals.length === 0) {
+            return null;
+        }
+        const besiegers = getSiegeGenerals(selectedSiege, gameState);
+        return {
+            leader: getCampaignLeader(selectedGenerals)!,
+            troops: selectedGenerals.reduce((sum, g) => sum + g.troops, 0),
+            siegeLeader: getCampaignLeader(besiegers),
+            siegeTroops: besiegers.reduce((sum, g) => sum + g.troops, 0),
+            targetCity: gameState.cities[selectedSiege.targetCityId],
+        };
+    }, [mode, selectedSiege, selectedGenerals, gameState]);
+
+    const canExecute =
+        !isExecuting &&
+        ((mode === 'begin' && !!beginPreview && !beginPreview.error) ||
+            ((mode === 'sally' || mode === 'relief') && !!breakPreview) ||
+            (mode === 'withdraw' && !!selectedSiege));
+
+    const handleModeChange = useCallback((next: SiegeModalMode) => {
+        setMode(next);
+        setTargetCityId(null);
+        setSiegeId(null);
+        setSelectedGeneralIds([]);
+    }, []);
+
+    // 执行
+    const handleExecute = useCallback(() => {
+        if (!canExecute) return;
+
+        if (mode === 'begin' && beginPreview) {
+            onExecute({
+                kind: 'begin',
+                order: beginPreview.order,
+                message: `${getCampaignLeader(selectedGenerals)!.name}率军${beginPreview.troops.toLocaleString()}围困${beginPreview.targetCity.name}。`,
+            });
+            return;
+        }
+
+        if (mode === 'withdraw' && selectedSiege) {
+            const targetCity = gameState.cities[selectedSiege.targetCityId];
+            onExecute({
+                kind: 'withdraw',
+                siege: selectedSiege,
+                message: `我军解${targetCity?.name || ''}之围，撤回${fromCity.name}。`,
+            });
+            return;
+        }
+
+        if (!breakPreview || !selectedSiege) return;
+        setIsExecuting(true);
+
+        // 模拟执行延迟
+        setTimeout(() => {
+            const order: SiegeBreakOrder = {
+                siegeId: selectedSiege.id,
+                fromCityId: fromCity.id,
+                generalIds: selectedGeneralIds,
+            };
+            const result = executeSiegeBreak(order, gameState);
+            const message = result.success
+                ? buildBreakMessage(result, breakPreview.leader, breakPreview.targetCity)
+                : result.error || '解围失败';
+
+            setIsExecuting(false);
+            onExecute({ kind: 'break', order, result, message });
+        }, 500);
+    }, [
+        canExecute,
+        mode,
+        beginPreview,
+        breakPreview,
+        selectedSiege,
+        selectedGenerals,
+        selectedGeneralIds,
+        fromCity,
+        gameState,
+        onExecute,
+    ]);
+
+    // 关闭时重置状态
+    const handleClose = useCallback(() => {
+        setTargetCityId(null);
+        setSiegeId(null);
+        setSelectedGeneralIds([]);
+        onClose();
+    }, [onClose]);
+
+    if (!isOpen) return null;
+
+    const renderSiegeOption = (siege: Siege) => {
+        const target = gameState.cities[siege.targetCityId];
+        const attacker = gameState.factions[siege.attackerFaction];
+        return (
+            <button
+                key={siege.id}
+                className={`campaign-target ${siegeId === siege.id ? 'selected' : ''}`}
+                onClick={() => setSiegeId(siege.id)}
+                disabled={isExecuting}
+            >
+                <span
+                    className="target-faction-dot"
+                    style={{ backgroundColor: attacker?.color || '#888' }}
+                />
+                <span className="target-name">{target?.name || siege.targetCityId}</span>
+                <span className="target-faction">
+                    {attacker?.name || '敌军'}围城 {siege.months} 月
+                </span>
+            </button>
+        );
+    };
+
+    return (
+        <div className="domestic-modal-overlay" onClick={handleClose}>
+            <div className="domestic-modal campaign-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">🏯</span>
+                    <h2>围城</h2>
+                    <span className="city-name">- {fromCity.name}</span>
+                    <button className="close-btn" onClick={handleClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    {/* 模式选择 */}
+                    <div className="siege-modes">
+                        {modes.map(m => (
+                            <button
+                                key={m}
+                                className={`siege-mode ${mode === m ? 'selected' : ''}`}
+                                onClick={() => handleModeChange(m)}
+                                disabled={isExecuting}
+                            >
+                                {MODE_LABELS[m]}
+                            </button>
+                        ))}
+                    </div>
+
+                    {citySiege && (
+                        <div className="error-message">
+                            {fromCity.name}已被
+                            {gameState.factions[citySiege.attackerFaction]?.name || '敌军'}
+                            围困 {citySiege.months} 月，粮道断绝
+                        </div>
+                    )}
+
+                    {/* 目标选择 */}
+                    {mode === 'begin' && (
+                        <div className="section">
+                            <h3>选择围困城市</h3>
+                            {siegeTargets.length === 0 ? (
+                                <div className="no-targets">周边没有可围困的城市</div>
+                            ) : (
+                                <div className="campaign-targets">
+                                    {siegeTargets.map(city => (
+                                        <button
+                                            key={city.id}
+                                            className={`campaign-target ${targetCityId === city.id ? 'selected' : ''}`}
+                                            onClick={() => setTargetCityId(city.id)}
+                                            disabled={isExecuting}
+                                        >
+                                            <span
+                                                className="target-faction-dot"
+                                                style={{ backgroundColor: gameState.factions[city.faction]?.color || '#888' }}
+                                            />
+                                            <span className="target-name">{city.name}</span>
+                                            <span className="target-faction">城防 {city.resources.defense}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {mode === 'relief' && (
+                        <div className="section">
+                            <h3>选择被围城市</h3>
+                            <div className="campaign-targets">{reliefSieges.map(renderSiegeOption)}</div>
+                        </div>
+                    )}
+
+                    {mode === 'withdraw' && (
+                        <div className="section">
+                            <h3>选择撤除的围城</h3>
+                            <div className="campaign-targets">{ownSieges.map(renderSiegeOption)}</div>
+                        </div>
+                    )}
+
+                    {/* 武将选择 */}
+                    {mode !== 'withdraw' && (
+                        <div className="section">
+                            <h3>选择出战武将</h3>
+                            <GeneralSelector
+                                generals={availableGenerals}
+                                selectedIds={selectedGeneralIds}
+                                onSelectionChange={setSelectedGeneralIds}
+                                multiSelect={true}
+                                recommendedSort={mode === 'begin' ? 'lead' : 'war'}
+                                disabled={isExecuting}
+                            />
+                        </div>
+                    )}
+
+                    {/* 围城预览 */}
+                    {beginPreview && (
+                        <div className="section preview-section">
+                            <h3>围城预览</h3>
+                            <div className="preview-content">
+                                <div className="preview-row">
+                                    <span className="label">围城兵力:</span>
+                                    <span className="value">{beginPreview.troops.toLocaleString()}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">敌城城防:</span>
+                                    <span className="value gain">
+                                        {beginPreview.targetCity.resources.defense}（每月 -{beginPreview.defenseDamage}）
+                                    </span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">每月军粮消耗:</span>
+                                    <span className="value cost">
+                                        {beginPreview.campGrain.toLocaleString()}（{fromCity.name}存粮{' '}
+                                        {fromCity.resources.grain.toLocaleString()}）
+                                    </span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">敌城存粮:</span>
+                                    <span className="value">
+                                        {beginPreview.targetCity.resources.grain.toLocaleString()}（每月 -
+                                        {beginPreview.targetGrain.toLocaleString()}）
+                                    </span>
+                                </div>
+                                {beginPreview.error && <div className="error-message">{beginPreview.error}</div>}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* 解围预览 */}
+                    {breakPreview && (
+                        <div className="section preview-section">
+                            <h3>战力预览</h3>
+                            <div className="preview-content">
+                                <div className="preview-row">
+                                    <span className="label">我方主将:</span>
+                                    <span className="value">{breakPreview.leader.name}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">出战兵力:</span>
+                                    <span className="value">{breakPreview.troops.toLocaleString()}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">围城主将:</span>
+                                    <span className="value">{breakPreview.siegeLeader?.name || '无'}</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">围城兵力:</span>
+                                    <span className="value">{breakPreview.siegeTroops.toLocaleString()}</span>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={handleClose} disabled={isExecuting}>
+                        取消
+                    </button>
+                    <button className="execute-btn" onClick={handleExecute} disabled={!canExecute}>
+                        {isExecuting ? '交战中...' : `确认${MODE_LABELS[mode]}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default SiegeModal;
@@ -0,0 +1,5 @@
+/**
+ * SiegeModal 组件导出
+ */
+export { SiegeModal } from './SiegeModal';
+export type { SiegeModalProps, SiegeActionResult } from './SiegeModal';
@@ -0,0 +1,289 @@
+/**
+ * 计略对话框
+ * 从相邻己方城市派遣武将，对敌方城市施展流言、离间、煽动、火计或贿赂
+ * @module components/StratagemModal
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { GeneralSelector } from '../GeneralSelector';
+import type { GameState } from '../../types/gameState';
+import type { City } from '../../types/city';
+import type { General } from '../../types/general';
+import type { StratagemType } from '../../types/events';
+import { getGeneralLoyalty } from '../../systems/prisoners';
+import {
+    BRIBE_GOLD_COST,
+    calculateStratagemChance,
+    calculateStratagemEffect,
+    executeStratagem,
+    getDefenderBestInt,
+    getStratagemExecutors,
+    getStratagemTargets,
+    isGeneralStratagem,
+    validateStratagemOrder,
+    type StratagemOrder,
+    type StratagemResult,
+} from '../../systems/stratagem';
+import '../DomesticActionModal/DomesticActionModal.css';
+import '../CampaignModal/CampaignModal.css';
+import '../PrisonerModal/PrisonerModal.css';
+
+/**
+ * 计略执行完成结果
+ */
+export interface StratagemModalResult {
+    order: StratagemOrder;
+    result: StratagemResult;
+    message: string;
+}
+
+/**
+ * 计略对话框属性
+ */
+export interface StratagemModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 执行完成回调 */
+    onExecute: (result: StratagemModalResult) => void;
+    /** 目标城市 */
+    targetCity: City;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+const STRATAGEM_LABELS: Record<StratagemType, string> = {
+    rumor: '流言',
+    discord: '离间',
+    revolt: '煽动',
+    fire: '火计',
+    bribe: '贿赂',
+};
+
+const STRATAGEMS: StratagemType[] = ['rumor', 'discord', 'revolt', 'fire', 'bribe'];
+
+/**
+ * 生成计略效果描述
+ */
+function describeEffect(stratagem: StratagemType, value: number, targetName: string): string {
+    switch (stratagem) {
+        case 'rumor':
+            return `民忠 -${value}`;
+        case 'revolt':
+            return `城防 -${value}，民忠 -${value}`;
+        case 'fire':
+            return `焚毁粮草 ${value.toLocaleString()}`;
+        case 'discord':
+        case 'bribe':
+            return `${targetName}忠诚 -${value}`;
+    }
+}
+
+/**
+ * 生成计略结果描述
+ */
+function buildResultMessage(
+    result: StratagemResult,
+    executor: General,
+    targetCity: City,
+    targetName: string
+): string {
+    if (!result.success) return result.error || '施计失败';
+    if (!result.succeeded) {
+        return `${executor.name}对${targetCity.name}施${STRATAGEM_LABELS[result.stratagem]}之计，为守将识破！`;
+    }
+    return `${executor.name}${STRATAGEM_LABELS[result.stratagem]}之计得逞，${targetCity.name}${describeEffect(result.stratagem, result.value, targetName)}。`;
+}
+
+/**
+ * 计略对话框组件
+ */
+export function StratagemModal({ isOpen, onClose, onExecute, targetCity, gameState }: StratagemModalProps) {
+    const executors = useMemo(
+        () => getStratagemExecutors(gameState, targetCity.id, gameState.currentFaction),
+        [gameState, targetCity.id]
+    );
+    const targets = useMemo(() => getStratagemTargets(gameState, targetCity.id), [gameState, targetCity.id]);
+
+    const [stratagem, setStratagem] = useState<StratagemType>('rumor');
+    const [executorIds, setExecutorIds] = useState<string[]>([]);
+    const [targetGeneralId, setTargetGeneralId] = useState<string | null>(null);
+    const [isExecuting, setIsExecuting] = useState(false);
+
+    // 计略预览
+    const preview = useMemo(() => {
+        const executor = executorIds[0] ? gameState.generals[executorIds[0]] : undefined;
+        if (!executor) return null;
+        const order: StratagemOrder = {
+            stratagem,
+            executorId: executor.id,
+            targetCityId: targetCity.id,
+            targetGeneralId: isGeneralStratagem(stratagem) ? targetGeneralId ?? undefined : undefined,
+        };
+        const target = order.targetGeneralId ? gameState.generals[order.targetGeneralId] : undefined;
+        return {
+            executor,
+            order,
+            targetName: target?.name ?? '',
+            defenderInt: getDefenderBestInt(gameState, targetCity.id),
+            chance: calculateStratagemChance(order, gameState),
+            effect: calculateStratagemEffect(order, gameState),
+            error: validateStratagemOrder(order, gameState, gameState.currentFaction),
+        };
+    }, [executorIds, stratagem, targetGeneralId, targetCity.id, gameState]);
+
+    const canExecute = !isExecuting && !!preview && !preview.error;
+
+    // 执行
+    const handleExecute = useCallback(() => {
+        if (!canExecute || !preview) return;
+        setIsExecuting(true);
+
+        // 模拟执行延迟
+        setTimeout(() => {
+            const result = executeStratagem(preview.order, gameState, gameState.currentFaction);
+            setIsExecuting(false);
+            setExecutorIds([]);
+            setTargetGeneralId(null);
+            onExecute({
+                order: preview.order,
+                result,
+                message: buildResultMessage(result, preview.executor, targetCity, preview.targetName),
+            });
+        }, 500);
+    }, [canExecute, preview, gameState, targetCity, onExecute]);
+
+    // 关闭时重置状态
+    const handleClose = useCallback(() => {
+        setStratagem('rumor');
+        setExecutorIds([]);
+        setTargetGeneralId(null);
+        onClose();
+    }, [onClose]);
+
+    if (!isOpen) return null;
+
+    const targetFaction = gameState.factions[targetCity.faction];
+
+    return (
+        <div className="domestic-modal-overlay" onClick={handleClose}>
+            <div className="domestic-modal campaign-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">🎭</span>
+                    <h2>计略</h2>
+                    <span className="city-name">
+                        - {targetCity.name}（{targetFaction?.name || '无主'}）
+                    </span>
+                    <button className="close-btn" onClick={handleClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    {/* 计略种类 */}
+                    <div className="prisoner-actions">
+                        {STRATAGEMS.map(s => (
+                            <button
+                                key={s}
+                                className={`prisoner-action ${stratagem === s ? 'selected' : ''}`}
+                                onClick={() => setStratagem(s)}
+                                disabled={isExecuting}
+                            >
+                                {STRATAGEM_LABELS[s]}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="section">
+                        <h3>选择施计武将</h3>
+                        {executors.length === 0 ? (
+                            <div className="no-targets">相邻己方城市中无可派遣的武将</div>
+                        ) : (
+                            <GeneralSelector
+                                generals={executors}
+                                selectedIds={executorIds}
+                                onSelectionChange={setExecutorIds}
+                                multiSelect={false}
+                                recommendedSort="int"
+                                disabled={isExecuting}
+                            />
+                        )}
+                    </div>
+
+                    {/* 离间与贿赂需选择目标武将 */}
+                    {isGeneralStratagem(stratagem) && (
+                        <div className="section">
+                            <h3>选择目标武将</h3>
+                            {targets.length === 0 ? (
+                                <div className="no-targets">城中并无可离间的敌将</div>
+                            ) : (
+                                <div className="campaign-targets">
+                                    {targets.map(general => (
+                                        <button
+                                            key={general.id}
+                                            className={`campaign-target ${targetGeneralId === general.id ? 'selected' : ''}`}
+                                            onClick={() => setTargetGeneralId(general.id)}
+                                            disabled={isExecuting}
+                                        >
+                                            <span className="target-name">{general.name}</span>
+                                            <span className="target-faction">
+                                                智力 {general.attributes.int} · 忠诚 {getGeneralLoyalty(gameState, general)}
+                                            </span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* 计略预览 */}
+                    {preview && (
+                        <div className="section preview-section">
+                            <h3>计略预览</h3>
+                            <div className="preview-content">
+                                <div className="preview-row">
+                                    <span className="label">智力对比:</span>
+                                    <span className="value">
+                                        {preview.executor.attributes.int} vs {preview.defenderInt}
+                                    </span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">成功率:</span>
+                                    <span className="value gain">{Math.round(preview.chance * 100)}%</span>
+                                </div>
+                                <div className="preview-row">
+                                    <span className="label">得逞效果:</span>
+                                    <span className="value gain">
+                                        {describeEffect(stratagem, preview.effect, preview.targetName || '敌将')}
+                                    </span>
+                                </div>
+                                {stratagem === 'bribe' && (
+                                    <div className="preview-row">
+                                        <span className="label">花费:</span>
+                                        <span className="value cost">{BRIBE_GOLD_COST} 金（无论成败）</span>
+                                    </div>
+                                )}
+                                {preview.error && <div className="error-message">{preview.error}</div>}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={handleClose} disabled={isExecuting}>
+                        取消
+                    </button>
+                    <button className="execute-btn" onClick={handleExecute} disabled={!canExecute}>
+                        {isExecuting ? '施计中...' : `施展${STRATAGEM_LABELS[stratagem]}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default StratagemModal;
@@ -0,0 +1,5 @@
+/**
+ * StratagemModal 组件导出
+ */
+export { StratagemModal } from './StratagemModal';
+export type { StratagemModalProps, StratagemModalResult } from './StratagemModal';
@@ -0,0 +1,378 @@
+/**
+ * 贸易对话框
+ * 向他方势力馈赠钱粮、索取贡赋或以粮易金
+ * @module components/TradeModal
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import type { GameState } from '../../types/gameState';
+import type { City } from '../../types/city';
+import type { Faction } from '../../types/faction';
+import type { TradeGoods, TradeKind } from '../../types/events';
+import {
+    TRADE_RELATION_BONUS,
+    TRIBUTE_REFUSED_RELATION_PENALTY,
+    TRIBUTE_RELATION_PENALTY,
+    calculateGiftRelation,
+    executeTrade,
+    getTreasuryCity,
+    validateTradeOrder,
+    type TradeOrder,
+    type TradeResult,
+} from '../../systems/trade';
+import { scoreTradeOffer } from '../../systems/aiSystem';
+import { isCityVisible } from '../../systems/intelligence';
+import { parseAmount } from '../parseAmount';
+import { getRelation } from '../../systems/relations';
+import '../DomesticActionModal/DomesticActionModal.css';
+import '../CampaignModal/CampaignModal.css';
+import '../PrisonerModal/PrisonerModal.css';
+import './TradeModal.css';
+
+/**
+ * 贸易执行完成结果
+ */
+export interface TradeModalResult {
+    order: TradeOrder;
+    result: TradeResult;
+    message: string;
+}
+
+/**
+ * 贸易对话框属性
+ */
+export interface TradeModalProps {
+    /** 是否显示 */
+    isOpen: boolean;
+    /** 关闭回调 */
+    onClose: () => void;
+    /** 执行完成回调 */
+    onExecute: (result: TradeModalResult) => void;
+    /** 钱粮出入的己方城市 */
+    fromCity: City;
+    /** 当前游戏状态 */
+    gameState: GameState;
+}
+
+/** 互市方向 */
+type TradeDirection = 'sell_grain' | 'buy_grain';
+
+const KIND_LABELS: Record<TradeKind, string> = {
+    gift: '馈赠',
+    tribute: '索贡',
+    trade: '互市',
+};
+
+const KINDS: TradeKind[] = ['gift', 'tribute', 'trade'];
+
+const DIRECTION_LABELS: Record<TradeDirection, string> = {
+    sell_grain: '以粮易金',
+    buy_grain: '以金易粮',
+};
+
+const EMPTY_GOODS: TradeGoods = { gold: 0, grain: 0 };
+
+/**
+ * 根据输入组装贸易指令
+ */
+function buildOrder(
+    kind: TradeKind,
+    direction: TradeDirection,
+    first: number,
+    second: number,
+    fromCityId: string,
+    targetFactionId: string
+): TradeOrder {
+    const order: TradeOrder = {
+        kind,
+        fromCityId,
+        targetFactionId,
+        give: { ...EMPTY_GOODS },
+        take: { ...EMPTY_GOODS },
+    };
+    switch (kind) {
+        case 'gift':
+            order.give = { gold: first, grain: second };
+            break;
+        case 'tribute':
+            order.take = { gold: first, grain: second };
+            break;
+        case 'trade':
+            if (direction === 'sell_grain') {
+                order.give.grain = first;
+                order.take.gold = second;
+            } else {
+                order.give.gold = first;
+                order.take.grain = second;
+            }
+            break;
+    }
+    return order;
+}
+
+/**
+ * 生成贸易结果描述
+ */
+function buildResultMessage(result: TradeResult, order: TradeOrder, target: Faction): string {
+    if (!result.success) return result.error || '交易失败';
+    switch (result.kind) {
+        case 'gift':
+            return `我军馈赠${target.name}钱粮，两家关系 +${calculateGiftRelation(order.give)}。`;
+        case 'tribute':
+            return result.accepted
+                ? `${target.name}畏我兵威，如数输送贡赋。`
+                : `${target.name}拒绝纳贡，两家关系恶化。`;
+        case 'trade':
+            return result.accepted
+                ? `与${target.name}互市成交，${DIRECTION_LABELS[order.give.grain > 0 ? 'sell_grain' : 'buy_grain']}。`
+                : `${target.name}嫌价码不公，拒绝互市。`;
+    }
+}
+
+/**
+ * 贸易对话框组件
+ */
+export function TradeModal({ isOpen, onClose, onExecute, fromCity, gameState }: TradeModalProps) {
+    const factionId = gameState.currentFaction;
+    const otherFactions = useMemo(
+        () => Object.values(gameState.factions).filter(f => f.id !== factionId && f.cities.length > 0),
+        [gameState.factions, factionId]
+    );
+
+    const [kind, setKind] = useState<TradeKind>('gift');
+    const [direction, setDirection] = useState<TradeDirection>('sell_grain');
+    const [targetFactionId, setTargetFactionId] = useState<string | null>(null);
+    const [first, setFirst] = useState('');
+    const [second, setSecond] = useState('');
+    const [isExecuting, setIsExecuting] = useState(false);
+
+    const inputLabels = useMemo((): [string, string] => {
+        switch (kind) {
+            case 'gift':
+                return ['馈赠金钱', '馈赠粮草'];
+            case 'tribute':
+                return ['索取金钱', '索取粮草'];
+            case 'trade':
+                return direction === 'sell_grain' ? ['付出粮草', '换取金钱'] : ['付出金钱', '换取粮草'];
+        }
+    }, [kind, direction]);
+
+    // 贸易预览
+    const preview = useMemo(() => {
+        const target = targetFactionId ? gameState.factions[targetFactionId] : undefined;
+        if (!target) return null;
+        const order = buildOrder(kind, direction, parseAmount(first), parseAmount(second), fromCity.id, target.id);
+        const error = validateTradeOrder(order, gameState, factionId);
+        const treasury = getTreasuryCity(gameState, target.id);
+        // 对方府库不在视野内时，不透露其钱粮虚实
+        const treasuryVisible = !!treasury && isCityVisible(gameState, treasury.id, factionId);
+        return {
+            target,
+            order,
+            treasury,
+            treasuryVisible,
+            willing: !error && scoreTradeOffer(order, gameState, factionId) >= 0,
+            error: error === '对方府库钱粮不足' && !treasuryVisible ? '对方恐无力如数奉上' : error,
+        };
+    }, [targetFactionId, kind, direction, first, second, fromCity.id, gameState, factionId]);
+
+    const canExecute = !isExecuting && !!preview && !preview.error;
+
+    // 执行
+    const handleExecute = useCallback(() => {
+        if (!canExecute || !preview) return;
+        setIsExecuting(true);
+
+        // 模拟执行延迟
+        setTimeout(() => {
+            const result = executeTrade(preview.order, gameState, factionId);
+            setIsExecuting(false);
+            setFirst('');
+            setSecond('');
+            onExecute({
+                order: preview.order,
+                result,
+                message: buildResultMessage(result, preview.order, preview.target),
+            });
+        }, 500);
+    }, [canExecute, preview, gameState, factionId, onExecute]);
+
+    // 关闭时重置状态
+    const handleClose = useCallback(() => {
+        setKind('gift');
+        setDirection('sell_grain');
+        setTargetFactionId(null);
+        setFirst('');
+        setSecond('');
+        onClose();
+    }, [onClose]);
+
+    if (!isOpen) return null;
+
+    const relationChange = (() => {
+        if (!preview) return '';
+        switch (kind) {
+            case 'gift':
+                return `+${calculateGiftRelation(preview.order.give)}`;
+            case 'tribute':
+                return `纳贡 -${TRIBUTE_RELATION_PENALTY}，拒绝 -${TRIBUTE_REFUSED_RELATION_PENALTY}`;
+            case 'trade':
+                return `+${TRADE_RELATION_BONUS}`;
+        }
+    })();
+
+    return (
+        <div className="domestic-modal-overlay" onClick={handleClose}>
+            <div className="domestic-modal campaign-modal" onClick={e => e.stopPropagation()}>
+                {/* 标题 */}
+                <div className="domestic-modal-header">
+                    <span className="action-icon">💰</span>
+                    <h2>贸易</h2>
+                    <span className="city-name">
+                        - {fromCity.name}（金 {fromCity.resources.gold.toLocaleString()}，粮{' '}
+                        {fromCity.resources.grain.toLocaleString()}）
+                    </span>
+                    <button className="close-btn" onClick={handleClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {/* 内容区 */}
+                <div className="domestic-modal-content">
+                    {/* 对方势力 */}
+                    <div className="section">
+                        <h3>选择对方势力</h3>
+                        {otherFactions.length === 0 ? (
+                            <div className="no-targets">天下已无其他势力</div>
+                        ) : (
+                            <div className="campaign-targets">
+                                {otherFactions.map(faction => (
+                                    <button
+                                        key={faction.id}
+                                        className={`campaign-target ${targetFactionId === faction.id ? 'selected' : ''}`}
+                                        onClick={() => setTargetFactionId(faction.id)}
+                                        disabled={isExecuting}
+                                    >
+                                        <span
+                                            className="target-faction-dot"
+                                            style={{ backgroundColor: faction.color }}
+                                        />
+                                        <span className="target-name">{faction.name}</span>
+                                        <span className="target-faction">
+                                            关系 {getRelation(gameState, factionId, faction.id)}
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* 贸易类型 */}
+                    <div className="prisoner-actions">
+                        {KINDS.map(k => (
+                            <button
+                                key={k}
+                                className={`prisoner-action ${kind === k ? 'selected' : ''}`}
+                                onClick={() => setKind(k)}
+                                disabled={isExecuting}
+                            >
+                                {KIND_LABELS[k]}
+                            </button>
+                        ))}
+                    </div>
+
+                    {kind === 'trade' && (
+                        <div className="prisoner-actions">
+                            {(Object.keys(DIRECTION_LABELS) as TradeDirection[]).map(d => (
+                                <button
+                                    key={d}
+                                    className={`prisoner-action ${direction === d ? 'selected' : ''}`}
+                                    onClick={() => setDirection(d)}
+                                    disabled={isExecuting}
+                                >
+                                    {DIRECTION_LABELS[d]}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* 钱粮数额 */}
+                    <div className="section trade-amounts">
+                        <label>
+                            <span>{inputLabels[0]}</span>
+                            <input
+                                className="trade-amount-input"
+                                type="number"
+                                min={0}
+                                value={first}
+                                onChange={e => setFirst(e.target.value)}
+                                disabled={isExecuting}
+                            />
+                        </label>
+                        <label>
+                            <span>{inputLabels[1]}</span>
+                            <input
+                                className="trade-amount-input"
+                                type="number"
+                                min={0}
+                                value={second}
+                                onChange={e => setSecond(e.target.value)}
+                                disabled={isExecuting}
+                            />
+                        </label>
+                    </div>
+
+                    {/* 贸易预览 */}
+                    {preview && (
+                        <div className="section preview-section">
+                            <h3>贸易预览</h3>
+                            <div className="preview-content">
+                                {preview.treasury && (
+                                    <div className="preview-row">
+                                        <span className="label">对方府库:</span>
+                                        <span className="value">
+                                            {preview.treasuryVisible ? (
+                                                <>
+                                                    {preview.treasury.name}（金{' '}
+                                                    {preview.treasury.resources.gold.toLocaleString()}
+                                                    ，粮 {preview.treasury.resources.grain.toLocaleString()}）
+                                                </>
+                                            ) : (
+                                                `${preview.treasury.name}（虚实未明）`
+                                            )}
+                                        </span>
+                                    </div>
+                                )}
+                                <div className="preview-row">
+                                    <span className="label">关系变化:</span>
+                                    <span className="value">{relationChange}</span>
+                                </div>
+                                {!preview.error && (
+                                    <div className="preview-row">
+                                        <span className="label">对方态度:</span>
+                                        <span className={`value ${preview.willing ? 'gain' : 'cost'}`}>
+                                            {preview.willing ? '乐于接受' : '恐难应允'}
+                                        </span>
+                                    </div>
+                                )}
+                                {preview.error && <div className="error-message">{preview.error}</div>}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="domestic-modal-footer">
+                    <button className="cancel-btn" onClick={handleClose} disabled={isExecuting}>
+                        取消
+                    </button>
+                    <button className="execute-btn" onClick={handleExecute} disabled={!canExecute}>
+                        {isExecuting ? '交涉中...' : KIND_LABELS[kind]}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default TradeModal;
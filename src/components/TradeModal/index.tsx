@@ -0,0 +1,5 @@
+/**
+ * TradeModal 组件导出
+ */
+export { TradeModal } from './TradeModal';
+export type { TradeModalProps, TradeModalResult } from './TradeModal';
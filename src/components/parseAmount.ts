@@ -0,0 +1,14 @@
+/**
+ * 数额输入解析 - 供贸易、人事、调动等对话框解析钱粮兵马数额
+ * @module components/parseAmount
+ */
+
+/**
+ * 将输入解析为非负整数
+ * @param value - 输入框中的文本
+ * @returns 向下取整后的数额，无效或非正输入返回0
+ */
+export function parseAmount(value: string): number {
+    const amount = Math.floor(Number(value));
+    return Number.isFinite(amount) && amount > 0 ? amount : 0;
+}
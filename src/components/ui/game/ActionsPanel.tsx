@@ -39,14 +39,23 @@ export function ActionsPanel({
     { id: 'develop_agriculture', icon: '🌾', label: '开发农业', cost: 1 },
     { id: 'recruit', icon: '🎖️', label: '征兵', cost: 1 },
     { id: 'search_talent', icon: '🔍', label: '人才探索', cost: 1 },
+    { id: 'diplomacy', icon: '🤝', label: '外交', cost: 1 },
+    { id: 'trade', icon: '💰', label: '贸易', cost: 1 },
+    { id: 'personnel', icon: '🏅', label: '人事', cost: 1 },
+    { id: 'governor', icon: '🏛️', label: '太守', cost: 1 },
+    { id: 'rank', icon: '📯', label: '授官', cost: 1 },
   ];
 
   const militaryActions: ActionItem[] = [
     { id: 'campaign', icon: '⚔️', label: '出征', cost: 2, primary: true },
+    { id: 'siege', icon: '🏯', label: '围城/解围', cost: 2 },
+    { id: 'movement', icon: '🚩', label: '调动', cost: 1 },
+    { id: 'prisoners', icon: '⛓️', label: '处置俘虏', cost: 1 },
   ];
 
   const specialActions: ActionItem[] = [
     { id: 'stratagem', icon: '📜', label: '计略', cost: 1 },
+    { id: 'scout', icon: '🔭', label: '侦察', cost: 1 },
     { id: 'view_details', icon: '💬', label: '军师建议', cost: 0 },
   ];
 
@@ -3,23 +3,49 @@
  */
 
 import type { CSSProperties } from 'react';
-import type { City } from '../../../types/city';
+import type { City, DelegationMode } from '../../../types/city';
 import type { General } from '../../../types/general';
 import type { Faction } from '../../../types/faction';
+import type { Siege } from '../../../types/siege';
 
 interface CityPanelProps {
   city: City;
   faction: Faction | undefined;
   generals: General[];
+  /** 围困本城的围城 */
+  siege?: Siege;
+  /** 围城势力 */
+  siegeAttacker?: Faction;
+  /** 玩家能否看到城市详情（战争迷雾），默认可见 */
+  visible?: boolean;
+  /** 情报不明时的提示 */
+  intelHint?: string;
 }
 
-export function CityPanel({ city, faction, generals }: CityPanelProps) {
+export function CityPanel({
+  city,
+  faction,
+  generals,
+  siege,
+  siegeAttacker,
+  visible = true,
+  intelHint,
+}: CityPanelProps) {
   const sizeLabels: Record<string, string> = {
     large: '大城',
     medium: '中城',
     small: '小城',
   };
 
+  const delegationLabels: Record<DelegationMode, string> = {
+    commerce: '专注商业',
+    agriculture: '专注农业',
+    defense: '专注城防',
+    recruit: '专注征兵',
+  };
+
+  const governor = generals.find((g) => g.id === city.governor);
+
   const statColors: Record<string, string> = {
     population: '#8b5cf6',
     commerce: '#f59e0b',
@@ -49,65 +75,108 @@ export function CityPanel({ city, faction, generals }: CityPanelProps) {
         <span className="city-size">{sizeLabels[city.scale]}</span>
       </div>
 
-      <div className="city-stats">
-        {stats.map((stat) => (
-          <div key={stat.key} className="stat-row">
-            <div className="stat-header">
-              <span className="stat-label">{stat.label}</span>
-              <span className="stat-value">
-                {stat.key === 'population' ? stat.value.toLocaleString() : stat.value}
-              </span>
-            </div>
-            <div className="stat-bar">
-              <div
-                className="stat-fill"
-                style={
-                  {
-                    width: `${(stat.value / stat.max) * 100}%`,
-                    '--stat-color': statColors[stat.key],
-                  } as CSSProperties
-                }
-              />
-            </div>
-          </div>
-        ))}
-      </div>
+      {siege && (
+        <div
+          className="city-siege-banner"
+          style={{
+            padding: '6px 10px',
+            marginBottom: '8px',
+            border: '1px solid #ef4444',
+            color: '#ef4444',
+            fontSize: '0.85rem',
+          }}
+        >
+          ⛺ 被{siegeAttacker?.name || '敌军'}围困 {siege.months} 月 · 粮道断绝
+          {siege.morale !== undefined && ` · 围军士气 ${siege.morale}`}
+        </div>
+      )}
 
-      <div className="generals-section">
-        <h3>
-          <span>🎖️</span>
-          驻守武将 ({generals.length})
-        </h3>
-        <div className="generals-list">
-          {generals.map((general) => (
-            <div key={general.id} className="general-card">
-              <div className="general-avatar">⚔</div>
-              <div className="general-info">
-                <div className="general-name">{general.name}</div>
-                <div className="general-stats">
-                  统{general.attributes.lead} 武{general.attributes.war} 智{general.attributes.int}
+      {visible ? (
+        <>
+          <div className="city-stats">
+            {stats.map((stat) => (
+              <div key={stat.key} className="stat-row">
+                <div className="stat-header">
+                  <span className="stat-label">{stat.label}</span>
+                  <span className="stat-value">
+                    {stat.key === 'population' ? stat.value.toLocaleString() : stat.value}
+                  </span>
+                </div>
+                <div className="stat-bar">
+                  <div
+                    className="stat-fill"
+                    style={
+                      {
+                        width: `${(stat.value / stat.max) * 100}%`,
+                        '--stat-color': statColors[stat.key],
+                      } as CSSProperties
+                    }
+                  />
                 </div>
               </div>
-              <div className="general-troops">
-                <span>⚔️</span>
-                {general.troops.toLocaleString()}
-              </div>
-            </div>
-          ))}
-          {generals.length === 0 && (
-            <div
-              style={{
-                padding: '20px',
-                textAlign: 'center',
-                color: 'var(--text-muted)',
-                fontSize: '0.85rem',
-              }}
-            >
-              暂无驻守武将
+            ))}
+          </div>
+
+          <div
+            className="city-governor"
+            style={{ margin: '8px 0', fontSize: '0.85rem', color: 'var(--text-muted)' }}
+          >
+            🏛️ 太守 {governor?.name ?? '空缺'}
+            {city.delegation && ` · 委任${delegationLabels[city.delegation]}`}
+          </div>
+
+          <div className="generals-section">
+            <h3>
+              <span>🎖️</span>
+              驻守武将 ({generals.length})
+            </h3>
+            <div className="generals-list">
+              {generals.map((general) => (
+                <div key={general.id} className="general-card">
+                  <div className="general-avatar">⚔</div>
+                  <div className="general-info">
+                    <div className="general-name">{general.name}</div>
+                    <div className="general-stats">
+                      统{general.attributes.lead} 武{general.attributes.war} 智
+                      {general.attributes.int}
+                    </div>
+                  </div>
+                  <div className="general-troops">
+                    <span>⚔️</span>
+                    {general.troops.toLocaleString()}
+                  </div>
+                </div>
+              ))}
+              {generals.length === 0 && (
+                <div
+                  style={{
+                    padding: '20px',
+                    textAlign: 'center',
+                    color: 'var(--text-muted)',
+                    fontSize: '0.85rem',
+                  }}
+                >
+                  暂无驻守武将
+                </div>
+              )}
             </div>
-          )}
+          </div>
+        </>
+      ) : (
+        <div
+          className="city-intel-hidden"
+          style={{
+            padding: '20px',
+            textAlign: 'center',
+            color: 'var(--text-muted)',
+            fontSize: '0.85rem',
+          }}
+        >
+          <div style={{ fontSize: '1.5rem', marginBottom: '8px' }}>🌫️</div>
+          情报不明，钱粮兵马皆不可知
+          {intelHint && <div style={{ marginTop: '6px' }}>{intelHint}</div>}
         </div>
-      </div>
+      )}
     </div>
   );
 }
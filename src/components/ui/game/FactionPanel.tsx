@@ -12,6 +12,8 @@ interface FactionPanelProps {
   totalGold: number;
   totalFood: number;
   totalTroops: number;
+  /** 查看外交形势 */
+  onShowRelations?: () => void;
 }
 
 export function FactionPanel({
@@ -21,6 +23,7 @@ export function FactionPanel({
   totalGold,
   totalFood,
   totalTroops,
+  onShowRelations,
 }: FactionPanelProps) {
   return (
     <div className="faction-panel">
@@ -92,6 +95,12 @@ export function FactionPanel({
           ))}
         </div>
       </div>
+
+      {onShowRelations && (
+        <button className="system-btn faction-relations-btn" onClick={onShowRelations}>
+          🤝 外交形势
+        </button>
+      )}
     </div>
   );
 }
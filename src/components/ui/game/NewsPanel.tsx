@@ -3,12 +3,15 @@
  */
 
 import type { GameEvent } from '../../../types/events';
+import { hasBattleReplay } from '../../../systems/battleReplay';
 
 interface NewsPanelProps {
   events: GameEvent[];
+  /** 点击可回放的战斗事件时触发 */
+  onSelectEvent?: (event: GameEvent) => void;
 }
 
-export function NewsPanel({ events }: NewsPanelProps) {
+export function NewsPanel({ events, onSelectEvent }: NewsPanelProps) {
   const getTypeIcon = (type: string) => {
     switch (type) {
       case 'battle':
@@ -19,6 +22,12 @@ export function NewsPanel({ events }: NewsPanelProps) {
         return '🌪️';
       case 'general':
         return '🧑‍✈️';
+      case 'stratagem':
+        return '🎭';
+      case 'diplomacy':
+        return '🤝';
+      case 'trade':
+        return '💰';
       default:
         return '📜';
     }
@@ -34,17 +43,26 @@ export function NewsPanel({ events }: NewsPanelProps) {
         <span className="news-badge">{events.length}</span>
       </div>
       <div className="news-list">
-        {events.map((event) => (
-          <div key={event.id} className="news-item">
-            <div className="news-item-header">
-              <span className="news-type-icon">{getTypeIcon(event.type)}</span>
-              <span className="news-timestamp">
-                {event.timestamp.year}年{event.timestamp.month}月
-              </span>
+        {events.map((event) => {
+          const replayable = onSelectEvent !== undefined && hasBattleReplay(event);
+          return (
+            <div
+              key={event.id}
+              className={`news-item${replayable ? ' replayable' : ''}`}
+              onClick={replayable ? () => onSelectEvent(event) : undefined}
+              title={replayable ? '点击查看战斗回放' : undefined}
+            >
+              <div className="news-item-header">
+                <span className="news-type-icon">{getTypeIcon(event.type)}</span>
+                <span className="news-timestamp">
+                  {event.timestamp.year}年{event.timestamp.month}月
+                </span>
+                {replayable && <span className="news-replay-hint">📽️ 回放</span>}
+              </div>
+              <div className="news-content">{event.narrative || '事件发生...'}</div>
             </div>
-            <div className="news-content">{event.narrative || '事件发生...'}</div>
-          </div>
-        ))}
+          );
+        })}
         {events.length === 0 && (
           <div
             style={{
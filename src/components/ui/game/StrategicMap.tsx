@@ -5,6 +5,7 @@
 import { useState, useCallback, useMemo, useRef } from 'react';
 import type { City } from '../../../types/city';
 import type { Faction } from '../../../types/faction';
+import type { Siege } from '../../../types/siege';
 import type { BattleIndicator } from '../../MapView/TopologyMap';
 
 interface StrategicMapProps {
@@ -12,6 +13,9 @@ interface StrategicMapProps {
   factions: Record<string, Faction>;
   selectedCityId: string | null;
   battleIndicators?: BattleIndicator[];
+  sieges?: Siege[];
+  /** 玩家可见详情的城市（战争迷雾），缺省时全部可见 */
+  visibleCityIds?: ReadonlySet<string>;
   onCitySelect: (cityId: string) => void;
 }
 
@@ -149,6 +153,8 @@ export function StrategicMap({
   factions,
   selectedCityId,
   battleIndicators = [],
+  sieges = [],
+  visibleCityIds,
   onCitySelect,
 }: StrategicMapProps) {
   const [tooltip, setTooltip] = useState<TooltipState>({
@@ -169,6 +175,13 @@ export function StrategicMap({
     return map;
   }, [battleIndicators]);
 
+  const cityMap = useMemo(() => new Map(cities.map((city) => [city.id, city])), [cities]);
+
+  const siegeByCity = useMemo(
+    () => new Map(sieges.map((siege) => [siege.targetCityId, siege])),
+    [sieges]
+  );
+
   const getFactionColor = useCallback(
     (factionId: string) => factions[factionId]?.color || '#888',
     [factions]
@@ -232,6 +245,45 @@ export function StrategicMap({
           />
         ))}
 
+        {sieges.map((siege) => {
+          const camp = cityMap.get(siege.campCityId);
+          const target = cityMap.get(siege.targetCityId);
+          if (!camp || !target) return null;
+
+          // 营寨位于出发城市与被围城市之间、靠近被围城市一侧
+          const campX = target.position.x + (camp.position.x - target.position.x) * 0.3;
+          const campY = target.position.y + (camp.position.y - target.position.y) * 0.3;
+
+          return (
+            <g key={siege.id} className="siege-marker">
+              <line
+                x1={camp.position.x}
+                y1={camp.position.y}
+                x2={target.position.x}
+                y2={target.position.y}
+                stroke={getFactionColor(siege.attackerFaction)}
+                strokeWidth="3"
+                strokeDasharray="6 4"
+              />
+              <text x={campX} y={campY} style={{ fontSize: '16px', textAnchor: 'middle' }}>
+                ⛺
+              </text>
+              <text
+                x={campX}
+                y={campY + 14}
+                style={{
+                  fontSize: '10px',
+                  fontFamily: 'Courier New, monospace',
+                  fill: '#ef4444',
+                  textAnchor: 'middle',
+                }}
+              >
+                围{siege.months}月
+              </text>
+            </g>
+          );
+        })}
+
         {cities.map((city) => {
           const isSelected = selectedCityId === city.id;
           const color = getFactionColor(city.faction);
@@ -303,12 +355,23 @@ export function StrategicMap({
           <div style={{ fontWeight: 600, marginBottom: 4, color: '#c9a227' }}>
             {tooltip.city.name}
           </div>
-          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginBottom: 2 }}>
-            人口: {tooltip.city.resources.population.toLocaleString()}
-          </div>
-          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
-            驻军: {tooltip.city.stationedGenerals.length} 将
-          </div>
+          {!visibleCityIds || visibleCityIds.has(tooltip.city.id) ? (
+            <>
+              <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginBottom: 2 }}>
+                人口: {tooltip.city.resources.population.toLocaleString()}
+              </div>
+              <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                驻军: {tooltip.city.stationedGenerals.length} 将
+              </div>
+            </>
+          ) : (
+            <div style={{ fontSize: '0.75rem', color: 'var(--text-muted)' }}>🌫️ 情报不明</div>
+          )}
+          {siegeByCity.has(tooltip.city.id) && (
+            <div style={{ fontSize: '0.75rem', color: '#ef4444', marginTop: 2 }}>
+              被围 {siegeByCity.get(tooltip.city.id)!.months} 月
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -11,6 +11,7 @@ import {
   GENERALS_190,
   validateCityConnections,
   validateGeneralAssignments,
+  validateGeneralBonds,
   getAllCityIds,
   getAllFactionIds,
   getAllGeneralIds,
@@ -191,6 +192,22 @@ describe('190年剧本数据完整性', () => {
       expect(zhangfei!.faction).toBe('liubei');
     });
 
+    it('武将关系应双向登记且互为对偶', () => {
+      const result = validateGeneralBonds();
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('刘备、关羽、张飞应互为结义兄弟', () => {
+      const trio = ['liubei', 'guanyu', 'zhangfei'];
+      for (const id of trio) {
+        const general = GENERALS_190.find((g) => g.id === id);
+        for (const other of trio.filter((o) => o !== id)) {
+          expect(general!.bonds).toContainEqual({ generalId: other, type: 'sworn' });
+        }
+      }
+    });
+
     it('曹操应有高统帅值(>=90)', () => {
       const caocao = GENERALS_190.find((g) => g.id === 'caocao');
       expect(caocao).toBeDefined();
@@ -204,6 +221,14 @@ describe('190年剧本数据完整性', () => {
         expect(lord!.faction).toBe(faction.id);
       }
     });
+
+    it('每个武将的兵种构成之和应等于兵力', () => {
+      for (const general of GENERALS_190) {
+        expect(general.troopTypes).toBeDefined();
+        const total = Object.values(general.troopTypes!).reduce((sum, n) => sum + n, 0);
+        expect(total).toBe(general.troops);
+      }
+    });
   });
 
   describe('剧本整体数据验证', () => {
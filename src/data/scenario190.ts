@@ -3,8 +3,8 @@
  * 公元190年，关东联军讨伐董卓
  */
 
-import type { Faction, City, General } from '../types';
-import { FACTION_COLORS } from '../types';
+import type { Faction, City, General, Siege, Prisoner, UpcomingGeneral } from '../types';
+import { BOND_INVERSES, FACTION_COLORS, FREE_FACTION_ID } from '../types';
 
 /**
  * 剧本数据接口
@@ -18,6 +18,10 @@ export interface ScenarioData {
   factions: Faction[];
   cities: City[];
   generals: General[];
+  /** 在野武将（缺省时无在野武将） */
+  freeGenerals?: General[];
+  /** 后起之秀（缺省时无人登场） */
+  upcomingGenerals?: UpcomingGeneral[];
 }
 
 /**
@@ -108,6 +112,7 @@ export const CITIES_190: City[] = [
     faction: 'dongzhuo',
     position: { x: 200, y: 350 },
     scale: 'large',
+    specialResources: ['horses'],
     resources: {
       population: 250000,
       gold: 40000,
@@ -128,6 +133,7 @@ export const CITIES_190: City[] = [
     faction: 'caocao',
     position: { x: 500, y: 350 },
     scale: 'medium',
+    specialResources: ['ironworks'],
     resources: {
       population: 100000,
       gold: 15000,
@@ -148,6 +154,7 @@ export const CITIES_190: City[] = [
     faction: 'yuanshao',
     position: { x: 550, y: 200 },
     scale: 'medium',
+    specialResources: ['horses'],
     resources: {
       population: 120000,
       gold: 20000,
@@ -217,26 +224,43 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'luoyang',
     troops: 30000,
+    troopTypes: { infantry: 15000, cavalry: 10000, archer: 5000, siege: 0 },
+    compatibility: 10,
+    bonds: [{ generalId: 'lvbu', type: 'child' }],
   },
   {
     id: 'lvbu',
     name: '吕布',
     faction: 'dongzhuo',
     attributes: { lead: 90, war: 100, int: 25, pol: 15, cha: 40 },
+    skills: ['feijiang'],
     age: 29,
     isAlive: true,
     currentCity: 'luoyang',
     troops: 20000,
+    troopTypes: { infantry: 5000, cavalry: 15000, archer: 0, siege: 0 },
+    rank: 5,
+    loyalty: 45,
+    compatibility: 40,
+    bonds: [
+      { generalId: 'dongzhuo', type: 'parent' },
+      { generalId: 'zhangfei', type: 'rival' },
+    ],
   },
   {
     id: 'liru',
     name: '李儒',
     faction: 'dongzhuo',
     attributes: { lead: 45, war: 30, int: 92, pol: 85, cha: 35 },
+    skills: ['guimou', 'huoji'],
     age: 38,
     isAlive: true,
     currentCity: 'luoyang',
     troops: 5000,
+    troopTypes: { infantry: 2000, cavalry: 0, archer: 3000, siege: 0 },
+    rank: 2,
+    loyalty: 90,
+    compatibility: 12,
   },
   {
     id: 'huaxiong',
@@ -247,6 +271,11 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'changan',
     troops: 15000,
+    troopTypes: { infantry: 9000, cavalry: 6000, archer: 0, siege: 0 },
+    rank: 4,
+    loyalty: 80,
+    compatibility: 15,
+    bonds: [{ generalId: 'guanyu', type: 'rival' }],
   },
   {
     id: 'lijue',
@@ -257,6 +286,10 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'changan',
     troops: 12000,
+    troopTypes: { infantry: 5000, cavalry: 7000, archer: 0, siege: 0 },
+    rank: 3,
+    loyalty: 65,
+    compatibility: 18,
   },
   {
     id: 'guosi',
@@ -267,6 +300,10 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'changan',
     troops: 10000,
+    troopTypes: { infantry: 4000, cavalry: 6000, archer: 0, siege: 0 },
+    rank: 3,
+    loyalty: 60,
+    compatibility: 20,
   },
 
   // ========== 曹操势力武将 ==========
@@ -275,10 +312,17 @@ export const GENERALS_190: General[] = [
     name: '曹操',
     faction: 'caocao',
     attributes: { lead: 96, war: 72, int: 91, pol: 94, cha: 96 },
+    skills: ['tuntian'],
     age: 35,
     isAlive: true,
     currentCity: 'chenliu',
     troops: 8000,
+    troopTypes: { infantry: 4000, cavalry: 2000, archer: 2000, siege: 0 },
+    compatibility: 75,
+    bonds: [
+      { generalId: 'yuanshao', type: 'rival' },
+      { generalId: 'caopi', type: 'child' },
+    ],
   },
   {
     id: 'xiaohoudun',
@@ -289,16 +333,25 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'chenliu',
     troops: 5000,
+    troopTypes: { infantry: 3000, cavalry: 2000, archer: 0, siege: 0 },
+    rank: 2,
+    loyalty: 100,
+    compatibility: 75,
   },
   {
     id: 'xiahouyuan',
     name: '夏侯渊',
     faction: 'caocao',
     attributes: { lead: 85, war: 88, int: 55, pol: 40, cha: 65 },
+    skills: ['shensu'],
     age: 31,
     isAlive: true,
     currentCity: 'chenliu',
     troops: 5000,
+    troopTypes: { infantry: 0, cavalry: 3000, archer: 2000, siege: 0 },
+    rank: 2,
+    loyalty: 100,
+    compatibility: 76,
   },
   {
     id: 'caoren',
@@ -309,6 +362,10 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'chenliu',
     troops: 4000,
+    troopTypes: { infantry: 3000, cavalry: 0, archer: 1000, siege: 0 },
+    rank: 1,
+    loyalty: 95,
+    compatibility: 74,
   },
   {
     id: 'caohong',
@@ -319,6 +376,10 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'chenliu',
     troops: 3000,
+    troopTypes: { infantry: 2000, cavalry: 1000, archer: 0, siege: 0 },
+    rank: 1,
+    loyalty: 95,
+    compatibility: 73,
   },
 
   // ========== 袁绍势力武将 ==========
@@ -331,6 +392,9 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'ye',
     troops: 15000,
+    troopTypes: { infantry: 8000, cavalry: 2000, archer: 5000, siege: 0 },
+    compatibility: 110,
+    bonds: [{ generalId: 'caocao', type: 'rival' }],
   },
   {
     id: 'yanliang',
@@ -341,6 +405,10 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'nanpi',
     troops: 8000,
+    troopTypes: { infantry: 4000, cavalry: 4000, archer: 0, siege: 0 },
+    rank: 3,
+    loyalty: 90,
+    compatibility: 108,
   },
   {
     id: 'wenchou',
@@ -351,26 +419,40 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'nanpi',
     troops: 7000,
+    troopTypes: { infantry: 3000, cavalry: 4000, archer: 0, siege: 0 },
+    rank: 3,
+    loyalty: 90,
+    compatibility: 108,
   },
   {
     id: 'jushou',
     name: '沮授',
     faction: 'yuanshao',
     attributes: { lead: 72, war: 45, int: 90, pol: 88, cha: 75 },
+    skills: ['tuntian'],
     age: 40,
     isAlive: true,
     currentCity: 'ye',
     troops: 3000,
+    troopTypes: { infantry: 1000, cavalry: 0, archer: 2000, siege: 0 },
+    rank: 1,
+    loyalty: 80,
+    compatibility: 100,
   },
   {
     id: 'tianfeng',
     name: '田丰',
     faction: 'yuanshao',
     attributes: { lead: 65, war: 40, int: 92, pol: 90, cha: 70 },
+    skills: ['guimou'],
     age: 42,
     isAlive: true,
     currentCity: 'ye',
     troops: 2000,
+    troopTypes: { infantry: 1000, cavalry: 0, archer: 1000, siege: 0 },
+    rank: 1,
+    loyalty: 70,
+    compatibility: 95,
   },
 
   // ========== 刘备势力武将 ==========
@@ -379,10 +461,17 @@ export const GENERALS_190: General[] = [
     name: '刘备',
     faction: 'liubei',
     attributes: { lead: 78, war: 65, int: 70, pol: 75, cha: 99 },
+    skills: ['rende'],
     age: 29,
     isAlive: true,
     currentCity: 'pingyuan',
     troops: 3000,
+    troopTypes: { infantry: 2000, cavalry: 1000, archer: 0, siege: 0 },
+    compatibility: 40,
+    bonds: [
+      { generalId: 'guanyu', type: 'sworn' },
+      { generalId: 'zhangfei', type: 'sworn' },
+    ],
   },
   {
     id: 'guanyu',
@@ -393,6 +482,15 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'pingyuan',
     troops: 2000,
+    troopTypes: { infantry: 1000, cavalry: 1000, archer: 0, siege: 0 },
+    rank: 1,
+    loyalty: 100,
+    compatibility: 40,
+    bonds: [
+      { generalId: 'liubei', type: 'sworn' },
+      { generalId: 'zhangfei', type: 'sworn' },
+      { generalId: 'huaxiong', type: 'rival' },
+    ],
   },
   {
     id: 'zhangfei',
@@ -403,6 +501,238 @@ export const GENERALS_190: General[] = [
     isAlive: true,
     currentCity: 'pingyuan',
     troops: 1500,
+    troopTypes: { infantry: 500, cavalry: 1000, archer: 0, siege: 0 },
+    rank: 1,
+    loyalty: 100,
+    compatibility: 41,
+    bonds: [
+      { generalId: 'liubei', type: 'sworn' },
+      { generalId: 'guanyu', type: 'sworn' },
+      { generalId: 'lvbu', type: 'rival' },
+      { generalId: 'machao', type: 'rival' },
+    ],
+  },
+];
+
+/**
+ * 190年剧本 - 在野武将（隐于各城，须经人才探索方可发现并登用）
+ */
+export const FREE_GENERALS_190: General[] = [
+  {
+    id: 'dianwei',
+    name: '典韦',
+    faction: FREE_FACTION_ID,
+    attributes: { lead: 56, war: 95, int: 35, pol: 29, cha: 58 },
+    age: 33,
+    isAlive: true,
+    currentCity: 'chenliu',
+    troops: 0,
+    troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+    compatibility: 70,
+  },
+  {
+    id: 'xuchu',
+    name: '许褚',
+    faction: FREE_FACTION_ID,
+    attributes: { lead: 65, war: 96, int: 36, pol: 20, cha: 60 },
+    age: 28,
+    isAlive: true,
+    currentCity: 'chenliu',
+    troops: 0,
+    troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+    compatibility: 72,
+    bonds: [{ generalId: 'machao', type: 'rival' }],
+  },
+  {
+    id: 'guojia',
+    name: '郭嘉',
+    faction: FREE_FACTION_ID,
+    attributes: { lead: 58, war: 15, int: 98, pol: 80, cha: 75 },
+    skills: ['guimou'],
+    age: 20,
+    isAlive: true,
+    currentCity: 'luoyang',
+    troops: 0,
+    troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+    compatibility: 76,
+  },
+  {
+    id: 'xuhuang',
+    name: '徐晃',
+    faction: FREE_FACTION_ID,
+    attributes: { lead: 84, war: 90, int: 74, pol: 48, cha: 68 },
+    age: 26,
+    isAlive: true,
+    currentCity: 'changan',
+    troops: 0,
+    troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+    compatibility: 74,
+  },
+  {
+    id: 'xunyu',
+    name: '荀彧',
+    faction: FREE_FACTION_ID,
+    attributes: { lead: 55, war: 14, int: 95, pol: 97, cha: 90 },
+    age: 27,
+    isAlive: true,
+    currentCity: 'ye',
+    troops: 0,
+    troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+    compatibility: 78,
+  },
+  {
+    id: 'zhaoyun',
+    name: '赵云',
+    faction: FREE_FACTION_ID,
+    attributes: { lead: 91, war: 96, int: 76, pol: 65, cha: 81 },
+    age: 22,
+    isAlive: true,
+    currentCity: 'nanpi',
+    troops: 0,
+    troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+    compatibility: 43,
+  },
+  {
+    id: 'taishici',
+    name: '太史慈',
+    faction: FREE_FACTION_ID,
+    attributes: { lead: 82, war: 93, int: 66, pol: 58, cha: 79 },
+    age: 24,
+    isAlive: true,
+    currentCity: 'pingyuan',
+    troops: 0,
+    troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+    compatibility: 50,
+  },
+];
+
+/**
+ * 190年剧本 - 后起之秀（年满十六后以在野身份登场）
+ */
+export const UPCOMING_GENERALS_190: UpcomingGeneral[] = [
+  {
+    year: 192,
+    general: {
+      id: 'machao',
+      name: '马超',
+      faction: FREE_FACTION_ID,
+      attributes: { lead: 80, war: 90, int: 35, pol: 20, cha: 75 },
+      age: 16,
+      isAlive: true,
+      currentCity: 'changan',
+      troops: 0,
+      troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+      compatibility: 22,
+      bonds: [
+        { generalId: 'xuchu', type: 'rival' },
+        { generalId: 'zhangfei', type: 'rival' },
+      ],
+    },
+  },
+  {
+    year: 195,
+    general: {
+      id: 'simayi',
+      name: '司马懿',
+      faction: FREE_FACTION_ID,
+      attributes: { lead: 88, war: 55, int: 90, pol: 86, cha: 80 },
+      skills: ['guimou', 'tuntian'],
+      age: 16,
+      isAlive: true,
+      currentCity: 'luoyang',
+      troops: 0,
+      troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+      compatibility: 58,
+      bonds: [{ generalId: 'zhugeliang', type: 'rival' }],
+    },
+  },
+  {
+    year: 195,
+    general: {
+      id: 'pangtong',
+      name: '庞统',
+      faction: FREE_FACTION_ID,
+      attributes: { lead: 76, war: 30, int: 89, pol: 78, cha: 62 },
+      skills: ['guimou'],
+      age: 16,
+      isAlive: true,
+      currentCity: 'nanpi',
+      troops: 0,
+      troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+      compatibility: 45,
+    },
+  },
+  {
+    year: 197,
+    general: {
+      id: 'zhugeliang',
+      name: '诸葛亮',
+      faction: FREE_FACTION_ID,
+      attributes: { lead: 84, war: 30, int: 92, pol: 88, cha: 84 },
+      skills: ['huoji', 'tuntian'],
+      age: 16,
+      isAlive: true,
+      currentCity: 'pingyuan',
+      troops: 0,
+      troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+      compatibility: 42,
+      bonds: [
+        { generalId: 'simayi', type: 'rival' },
+        { generalId: 'jiangwei', type: 'pupil' },
+      ],
+    },
+  },
+  {
+    year: 203,
+    general: {
+      id: 'caopi',
+      name: '曹丕',
+      faction: FREE_FACTION_ID,
+      attributes: { lead: 66, war: 60, int: 72, pol: 78, cha: 72 },
+      age: 16,
+      isAlive: true,
+      currentCity: 'chenliu',
+      troops: 0,
+      troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+      compatibility: 75,
+      bonds: [{ generalId: 'caocao', type: 'parent' }],
+    },
+  },
+  {
+    year: 213,
+    general: {
+      id: 'dengai',
+      name: '邓艾',
+      faction: FREE_FACTION_ID,
+      attributes: { lead: 80, war: 70, int: 80, pol: 64, cha: 55 },
+      skills: ['tuntian'],
+      age: 16,
+      isAlive: true,
+      currentCity: 'chenliu',
+      troops: 0,
+      troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+      compatibility: 80,
+      bonds: [{ generalId: 'jiangwei', type: 'rival' }],
+    },
+  },
+  {
+    year: 218,
+    general: {
+      id: 'jiangwei',
+      name: '姜维',
+      faction: FREE_FACTION_ID,
+      attributes: { lead: 82, war: 80, int: 80, pol: 58, cha: 70 },
+      age: 16,
+      isAlive: true,
+      currentCity: 'changan',
+      troops: 0,
+      troopTypes: { infantry: 0, cavalry: 0, archer: 0, siege: 0 },
+      compatibility: 44,
+      bonds: [
+        { generalId: 'zhugeliang', type: 'mentor' },
+        { generalId: 'dengai', type: 'rival' },
+      ],
+    },
   },
 ];
 
@@ -418,6 +748,8 @@ export const SCENARIO_190: ScenarioData = {
   factions: FACTIONS_190,
   cities: CITIES_190,
   generals: GENERALS_190,
+  freeGenerals: FREE_GENERALS_190,
+  upcomingGenerals: UPCOMING_GENERALS_190,
 };
 
 /**
@@ -431,6 +763,9 @@ export function createGameStateFromScenario(
   cities: Record<string, City>;
   generals: Record<string, General>;
   currentDate: { year: number; month: number };
+  sieges: Siege[];
+  prisoners: Prisoner[];
+  upcomingGenerals: UpcomingGeneral[];
 } {
   const factions: Record<string, Faction> = {};
   const cities: Record<string, City> = {};
@@ -448,11 +783,22 @@ export function createGameStateFromScenario(
     generals[g.id] = { ...g };
   });
 
+  // 在野武将不属于任何势力，也不驻守城市
+  scenario.freeGenerals?.forEach((g) => {
+    generals[g.id] = { ...g };
+  });
+
   return {
     factions,
     cities,
     generals,
     currentDate: { year: scenario.year, month: scenario.month },
+    sieges: [],
+    prisoners: [],
+    upcomingGenerals: (scenario.upcomingGenerals ?? []).map((entry) => ({
+      year: entry.year,
+      general: { ...entry.general },
+    })),
   };
 }
 
@@ -541,6 +887,49 @@ export function validateGeneralAssignments(): { valid: boolean; errors: string[]
     }
   }
 
+  for (const general of FREE_GENERALS_190) {
+    // 在野武将须隐于存在的城市，且不在任何驻守武将列表中
+    const city = CITIES_190.find((c) => c.id === general.currentCity);
+    if (general.faction !== FREE_FACTION_ID || !city) {
+      errors.push(`在野武将 ${general.name}(${general.id}) 的势力或所在城市无效`);
+    } else if (city.stationedGenerals.includes(general.id)) {
+      errors.push(`在野武将 ${general.name}(${general.id}) 不应驻守城市 ${city.name}`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * 验证武将关系是否双向登记且互为对偶
+ */
+export function validateGeneralBonds(): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const allGenerals = [
+    ...GENERALS_190,
+    ...FREE_GENERALS_190,
+    ...UPCOMING_GENERALS_190.map((entry) => entry.general),
+  ];
+
+  for (const general of allGenerals) {
+    for (const bond of general.bonds ?? []) {
+      // 检查关系对象是否存在
+      const other = allGenerals.find((g) => g.id === bond.generalId);
+      if (!other || other.id === general.id) {
+        errors.push(`武将 ${general.name}(${general.id}) 的关系对象无效: ${bond.generalId}`);
+        continue;
+      }
+
+      // 检查对方是否登记了对偶关系
+      const inverse = other.bonds?.find((b) => b.generalId === general.id);
+      if (!inverse || inverse.type !== BOND_INVERSES[bond.type]) {
+        errors.push(
+          `武将关系不对偶: ${general.name}(${general.id}) -> ${other.name}(${other.id}) ${bond.type}`
+        );
+      }
+    }
+  }
+
   return { valid: errors.length === 0, errors };
 }
 
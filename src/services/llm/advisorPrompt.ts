@@ -45,6 +45,8 @@ export interface AdvisorContext {
   city: City;
   /** 城市名称 */
   cityName: string;
+  /** 玩家能否看到当前城市详情（战争迷雾） */
+  cityVisible: boolean;
   /** 附近威胁 */
   nearbyThreats: ThreatInfo[];
   /** 势力资源 */
@@ -158,19 +160,24 @@ ${personality.speakingStyle}
  * 构建军师建议请求Prompt
  */
 export function buildAdvisorPrompt(context: AdvisorContext): string {
-  const { city, cityName, nearbyThreats, factionResources, currentDate, factionName } = context;
+  const { city, cityName, cityVisible, nearbyThreats, factionResources, currentDate, factionName } =
+    context;
 
-  let prompt = `当前形势：
-时间：${currentDate.year}年${currentDate.month}月
-势力：${factionName}
-
-当前城市：${cityName}
+  const cityInfo = cityVisible
+    ? `当前城市：${cityName}
 - 人口：${city.resources.population.toLocaleString()}
 - 商业：${city.resources.commerce}
 - 农业：${city.resources.agriculture}
 - 防御：${city.resources.defense}
 - 民忠：${city.resources.loyalty}
-- 驻军：${city.stationedGenerals.length}名武将
+- 驻军：${city.stationedGenerals.length}名武将`
+    : `当前城市：${cityName}（情报不明，钱粮兵马皆不可知）`;
+
+  let prompt = `当前形势：
+时间：${currentDate.year}年${currentDate.month}月
+势力：${factionName}
+
+${cityInfo}
 
 势力总资源：
 - 金钱：${factionResources.gold.toLocaleString()}
@@ -197,11 +204,13 @@ export function buildAdvisorPrompt(context: AdvisorContext): string {
  */
 export function formatCityContext(
   city: City,
-  cityName: string
-): Pick<AdvisorContext, 'city' | 'cityName'> {
+  cityName: string,
+  cityVisible: boolean = true
+): Pick<AdvisorContext, 'city' | 'cityName' | 'cityVisible'> {
   return {
     city,
     cityName,
+    cityVisible,
   };
 }
 
@@ -234,20 +243,22 @@ export function formatFactionResources(
 
 /**
  * 计算附近威胁
+ * 只统计玩家可见的城市，情报不明的敌城不计入
  */
 export function calculateNearbyThreats(
   currentCity: City,
   allCities: Record<string, City>,
   factions: Record<string, Faction>,
   generals: Record<string, General>,
-  playerFactionId: string
+  playerFactionId: string,
+  visibleCityIds: ReadonlySet<string>
 ): ThreatInfo[] {
   const threats: ThreatInfo[] = [];
 
   // 检查相邻城市
   for (const connectedCityId of currentCity.connectedCities) {
     const connectedCity = allCities[connectedCityId];
-    if (!connectedCity) continue;
+    if (!connectedCity || !visibleCityIds.has(connectedCityId)) continue;
 
     // 如果是敌方城市
     if (connectedCity.faction !== playerFactionId) {
@@ -282,6 +293,7 @@ export function calculateNearbyThreats(
 
 /**
  * 构建完整的军师上下文
+ * 敌方城市仅使用玩家可见的情报，避免军师泄露战争迷雾中的数据
  */
 export function buildAdvisorContext(
   currentCity: City,
@@ -289,7 +301,8 @@ export function buildAdvisorContext(
   factions: Record<string, Faction>,
   generals: Record<string, General>,
   playerFactionId: string,
-  currentDate: { year: number; month: number }
+  currentDate: { year: number; month: number },
+  visibleCityIds: ReadonlySet<string>
 ): AdvisorContext {
   const playerFaction = factions[playerFactionId];
   
@@ -306,12 +319,14 @@ export function buildAdvisorContext(
   return {
     city: currentCity,
     cityName: currentCity.name,
+    cityVisible: visibleCityIds.has(currentCity.id),
     nearbyThreats: calculateNearbyThreats(
       currentCity,
       allCities,
       factions,
       generals,
-      playerFactionId
+      playerFactionId,
+      visibleCityIds
     ),
     factionResources: formatFactionResources(playerCities, playerGenerals),
     currentDate,
@@ -77,8 +77,11 @@ function generateFallbackAdvice(
     }
   }
   
-  // 无威胁时，建议发展
-  if (context.city.resources.commerce < 300 || context.city.resources.agriculture < 300) {
+  // 无威胁时，建议发展（情报不明的敌城不作判断）
+  if (
+    context.cityVisible &&
+    (context.city.resources.commerce < 300 || context.city.resources.agriculture < 300)
+  ) {
     return `${personality.catchphrases[0]}，当务之急乃发展内政，充实府库。`;
   }
   
@@ -112,7 +115,8 @@ export class AdvisorService {
     factions: Record<string, Faction>,
     generals: Record<string, General>,
     playerFactionId: string,
-    currentDate: { year: number; month: number }
+    currentDate: { year: number; month: number },
+    visibleCityIds: ReadonlySet<string>
   ): Promise<AdvisorResponse> {
     // 构建上下文
     const context = buildAdvisorContext(
@@ -121,7 +125,8 @@ export class AdvisorService {
       factions,
       generals,
       playerFactionId,
-      currentDate
+      currentDate,
+      visibleCityIds
     );
 
     // 构建提示词
@@ -10,7 +10,17 @@ import type {
   GeneralEventData,
   DomesticActionType,
   GeneralEventType,
+  SiegeOutcome,
+  SkillTrigger,
+  StratagemEventData,
+  StratagemType,
+  DiplomacyEventData,
+  TradeEventData,
+  TradeGoods,
+  TradeKind,
+  BondType,
 } from '../../types';
+import { BOND_LABELS, SKILL_LABELS } from '../../types';
 
 /**
  * 史官系统提示词
@@ -31,6 +41,7 @@ export const HISTORIAN_SYSTEM_PROMPT = `你是一位三国时代的史官，负
 const DOMESTIC_ACTION_NAMES: Record<DomesticActionType, string> = {
   develop_commerce: '发展商业',
   develop_agriculture: '发展农业',
+  develop_defense: '修筑城防',
   recruit: '征兵',
   search_talent: '探索人才',
 };
@@ -43,6 +54,56 @@ const GENERAL_EVENT_NAMES: Record<GeneralEventType, string> = {
   defect: '叛变',
   recruited: '加入',
   promoted: '晋升',
+  released: '获释',
+  come_of_age: '成年登场',
+  succession: '继位',
+  dispatched: '调动',
+  appointed: '出任太守',
+  dismissed: '卸任太守',
+};
+
+/**
+ * 计略中文名称映射
+ */
+const STRATAGEM_NAMES: Record<StratagemType, string> = {
+  rumor: '散布流言',
+  discord: '离间',
+  revolt: '煽动民变',
+  fire: '火烧粮仓',
+  bribe: '贿赂',
+};
+
+/**
+ * 外交行动中文名称映射
+ */
+const DIPLOMACY_ACTION_NAMES: Record<DiplomacyEventData['action'], string> = {
+  alliance: '遣使结盟',
+  truce: '遣使议和',
+  break_treaty: '撕毁盟约',
+  declare_war: '宣战',
+  truce_expired: '停战期满',
+};
+
+/**
+ * 贸易类型中文名称映射
+ */
+const TRADE_KIND_NAMES: Record<TradeKind, string> = {
+  gift: '馈赠钱粮',
+  tribute: '索取贡赋',
+  trade: '钱粮互市',
+};
+
+/**
+ * 围城阶段与结局描述
+ */
+const SIEGE_PHASE_DESCRIPTIONS: Record<'start' | 'assault' | SiegeOutcome, string> = {
+  start: '大军始围',
+  assault: '城下激战',
+  captured: '城破',
+  surrendered: '粮尽开城投降',
+  relieved: '援军解围',
+  broken: '守军突围破敌',
+  withdrawn: '围城之军撤退',
 };
 
 /**
@@ -55,6 +116,24 @@ export interface EventJSON {
   data: Record<string, unknown>;
 }
 
+/**
+ * 描述发动的特技，如「吕布「飞将」、李儒「鬼谋」」
+ */
+function describeSkills(skills: SkillTrigger[], context: EventContext): string {
+  return skills
+    .map((s) => `${context.getGeneralName(s.general)}「${SKILL_LABELS[s.skill]}」`)
+    .join('、');
+}
+
+/**
+ * 描述两名武将的渊源，如「张飞乃吕布之宿敌」，无渊源时返回null
+ */
+function describeBond(generalId: string, otherId: string, context: EventContext): string | null {
+  const type = context.getBond?.(generalId, otherId);
+  if (!type) return null;
+  return `${context.getGeneralName(otherId)}乃${context.getGeneralName(generalId)}之${BOND_LABELS[type]}`;
+}
+
 /**
  * 构建战斗事件Prompt
  */
@@ -83,12 +162,58 @@ export function buildBattlePrompt(
       ? context.getGeneralName(data.duel.winner)
       : '未分胜负';
     if (data.duel.instantKill) {
-      prompt += `\n特殊：${duelWinner}阵前斩杀敌将！`;
+      prompt += `\n特殊：${duelWinner}阵前重创敌将，敌将负伤败走！`;
     } else {
-      prompt += `\n单挑：两军主将阵前交锋，${duelWinner}获胜`;
+      const rounds = data.duel.turns ? `大战${data.duel.turns}合` : '交锋';
+      const ending = data.duel.retreated ? '，败将拨马而逃' : '';
+      prompt += `\n单挑：两军主将阵前${rounds}${ending}，${duelWinner}获胜`;
     }
   }
 
+  // 两军主将的渊源
+  const bond = describeBond(data.attackerGeneral, data.defenderGeneral, context);
+  if (bond) {
+    prompt += `\n渊源：${bond}`;
+  }
+
+  // 发动的特技
+  if (data.skills && data.skills.length > 0) {
+    prompt += `\n特技：${describeSkills(data.skills, context)}`;
+  }
+
+  // 夹击与援军
+  if (data.pincerCity) {
+    prompt += `\n夹击：攻方另遣一路自${context.getCityName(data.pincerCity)}出兵，两路夹击`;
+  }
+  if (data.reinforcements && data.reinforcements.length > 0) {
+    const names = data.reinforcements.map((id) => context.getGeneralName(id)).join('、');
+    prompt += `\n援军：${names}自邻城驰援守方`;
+  }
+
+  // 士气与败退
+  if (data.morale) {
+    prompt += `\n士气：攻方${data.morale.attacker}，守方${data.morale.defender}`;
+  }
+  if (data.retreat) {
+    const side = data.retreat.side === 'attacker' ? '攻方' : '守方';
+    const cause = data.retreat.routed ? '士气崩溃，全军溃逃' : '力战不支';
+    const destination = data.retreat.toCity
+      ? `退守${context.getCityName(data.retreat.toCity)}`
+      : '无路可退，全军溃散';
+    prompt += `\n败退：${side}${cause}，${destination}`;
+  }
+  if (data.captured && data.captured.length > 0) {
+    prompt += `\n被俘：${data.captured.map((id) => context.getGeneralName(id)).join('、')}`;
+  }
+
+  // 围城
+  if (data.siege) {
+    const cityName = context.getCityName(data.siege.city);
+    const stage =
+      data.siege.phase === 'end' ? (data.siege.outcome ?? 'withdrawn') : data.siege.phase;
+    prompt += `\n围城：${cityName}被围${data.siege.months}月，${SIEGE_PHASE_DESCRIPTIONS[stage]}`;
+  }
+
   // 城池攻占
   if (data.cityCapture) {
     const cityName = context.getCityName(data.cityCapture);
@@ -111,13 +236,19 @@ export function buildDomesticPrompt(
   const cityName = context.getCityName(data.city);
   const actionName = DOMESTIC_ACTION_NAMES[data.action];
 
-  return `请为以下内政事件生成演义风格叙事（不超过40字）：
+  let prompt = `请为以下内政事件生成演义风格叙事（不超过40字）：
 
 时间：${event.timestamp.year}年${event.timestamp.month}月
 城市：${cityName}
 执行者：${executorName}
 行动：${actionName}
 效果：+${data.value}`;
+
+  if (data.skills && data.skills.length > 0) {
+    prompt += `\n特技：${describeSkills(data.skills, context)}`;
+  }
+
+  return prompt;
 }
 
 /**
@@ -158,6 +289,8 @@ export interface EventContext {
   getGeneralName(id: string): string;
   getCityName(id: string): string;
   getFactionName(id: string): string;
+  /** 获取武将与另一武将的关系（自前者视角），无关系时返回null */
+  getBond?(generalId: string, otherId: string): BondType | null;
 }
 
 /**
@@ -176,11 +309,106 @@ export function buildEventPrompt(
       return buildGeneralPrompt(event, context);
     case 'disaster':
       return buildDisasterPrompt(event, context);
+    case 'stratagem':
+      return buildStratagemPrompt(event, context);
+    case 'diplomacy':
+      return buildDiplomacyPrompt(event, context);
+    case 'trade':
+      return buildTradePrompt(event, context);
     default:
       return buildGenericPrompt(event);
   }
 }
 
+/**
+ * 构建计略事件Prompt
+ */
+export function buildStratagemPrompt(
+  event: GameEvent,
+  context: EventContext
+): string {
+  const data = event.data as StratagemEventData;
+
+  let prompt = `请为以下计略事件生成演义风格叙事（不超过40字）：
+
+时间：${event.timestamp.year}年${event.timestamp.month}月
+城市：${context.getCityName(data.city)}
+施计者：${context.getGeneralName(data.executor)}（${context.getFactionName(data.faction)}）
+计略：${STRATAGEM_NAMES[data.stratagem]}`;
+
+  if (data.target) {
+    prompt += `\n目标：${context.getGeneralName(data.target)}`;
+    const bond = describeBond(data.executor, data.target, context);
+    if (bond) {
+      prompt += `\n渊源：${bond}`;
+    }
+  }
+
+  if (data.skills && data.skills.length > 0) {
+    prompt += `\n特技：${describeSkills(data.skills, context)}`;
+  }
+
+  prompt += data.succeeded ? `\n结果：计成，效果${data.value}` : '\n结果：计谋败露';
+
+  return prompt;
+}
+
+/**
+ * 构建外交事件Prompt
+ */
+export function buildDiplomacyPrompt(
+  event: GameEvent,
+  context: EventContext
+): string {
+  const data = event.data as DiplomacyEventData;
+
+  let prompt = `请为以下外交事件生成演义风格叙事（不超过40字）：
+
+时间：${event.timestamp.year}年${event.timestamp.month}月
+势力：${context.getFactionName(data.faction)}
+对方：${context.getFactionName(data.target)}
+行动：${DIPLOMACY_ACTION_NAMES[data.action]}`;
+
+  if (data.envoy) {
+    prompt += `\n使者：${context.getGeneralName(data.envoy)}`;
+  }
+
+  if (data.action === 'alliance' || data.action === 'truce') {
+    prompt += data.accepted ? '\n结果：对方应允' : '\n结果：对方拒绝';
+  }
+
+  return prompt;
+}
+
+/**
+ * 描述钱粮数额
+ */
+function describeGoods(goods: TradeGoods): string {
+  const parts: string[] = [];
+  if (goods.gold > 0) parts.push(`金${goods.gold}`);
+  if (goods.grain > 0) parts.push(`粮${goods.grain}`);
+  return parts.join('、') || '无';
+}
+
+/**
+ * 构建贸易事件Prompt
+ */
+export function buildTradePrompt(
+  event: GameEvent,
+  context: EventContext
+): string {
+  const data = event.data as TradeEventData;
+
+  return `请为以下贸易事件生成演义风格叙事（不超过40字）：
+
+时间：${event.timestamp.year}年${event.timestamp.month}月
+势力：${context.getFactionName(data.faction)}
+对方：${context.getFactionName(data.target)}
+行动：${TRADE_KIND_NAMES[data.kind]}
+付出：${describeGoods(data.give)}
+所得：${describeGoods(data.take)}`;
+}
+
 /**
  * 构建灾害事件Prompt
  */
@@ -3,7 +3,16 @@
  * 负责将游戏事件转化为演义风格的叙事文本
  */
 
-import type { GameEvent, BattleEventData, DomesticEventData, GeneralEventData } from '../../types';
+import type {
+  GameEvent,
+  BattleEventData,
+  DomesticEventData,
+  GeneralEventData,
+  StratagemEventData,
+  DiplomacyEventData,
+  TradeEventData,
+  GeneralBond,
+} from '../../types';
 import { getLLMClient, type LLMResponse } from './llmClient';
 import {
   HISTORIAN_SYSTEM_PROMPT,
@@ -31,8 +40,23 @@ const BATTLE_TEMPLATES = {
     '双方互有损伤，暂且罢兵。',
   ],
   duel: '{attackerGeneral}与{defenderGeneral}阵前单挑，{winner}获胜。',
-  instantKill: '{winner}阵前斩杀敌将，敌军大乱！',
+  duelRetreat: '{attackerGeneral}与{defenderGeneral}大战{turns}合，{loser}拨马而逃。',
+  instantKill: '{winner}阵前重创敌将，敌将负伤败走，敌军大乱！',
   capture: '{city}城易主，{attacker}军入城。',
+  rout: '{loser}军士气崩溃，溃退{city}。',
+  scatter: '{loser}军无路可退，一哄而散。',
+  captured: '{generals}力竭被擒。',
+  pincer: '{attacker}军另遣一路自{city}杀出，两路夹击。',
+  reinforcements: '{generals}自邻城驰援。',
+  siege: {
+    start: '{attacker}军{attackerGeneral}兵临{city}城下，筑营围困。',
+    assault: '{city}之围已{months}月，两军城下鏖战。',
+    captured: '{attacker}军围{city}{months}月，城防尽毁，一举破城。',
+    surrendered: '{city}被围{months}月，粮尽援绝，开城请降。',
+    relieved: '{attacker}援军{attackerGeneral}驰至，{city}之围遂解。',
+    broken: '{attackerGeneral}自{city}出城突击，大破围城之军。',
+    withdrawn: '{attacker}军围{city}{months}月不下，撤围而去。',
+  },
 };
 
 /**
@@ -41,6 +65,7 @@ const BATTLE_TEMPLATES = {
 const DOMESTIC_TEMPLATES = {
   develop_commerce: '{executor}于{city}兴商贾，商业增{value}。',
   develop_agriculture: '{executor}于{city}劝农桑，农业增{value}。',
+  develop_defense: '{executor}于{city}修缮城池，城防增{value}。',
   recruit: '{executor}于{city}募兵{value}人。',
   search_talent: '{executor}于{city}访贤才。',
 };
@@ -53,6 +78,45 @@ const GENERAL_TEMPLATES = {
   defect: '{general}叛离旧主，另投明主。',
   recruited: '{general}归附麾下，愿效犬马之劳。',
   promoted: '{general}功勋卓著，晋升要职。',
+  released: '{general}蒙恩获释，归返故主。',
+  come_of_age: '{general}年少英才，崭露头角。',
+  succession: '{general}承继大业，号令一方。',
+  dispatched: '{general}奉命率部移镇。',
+  appointed: '{general}受命镇守一方，抚民理政。',
+  dismissed: '{general}卸去太守之职，听候调遣。',
+};
+
+/**
+ * 降级模板 - 计略事件
+ */
+const STRATAGEM_TEMPLATES = {
+  rumor: '{executor}遣人于{city}散布流言，民心浮动。',
+  discord: '{executor}施离间之计，{target}与其主生隙。',
+  revolt: '{executor}煽动{city}百姓作乱，城防大坏。',
+  fire: '{executor}夜遣死士纵火，{city}粮草焚毁{value}。',
+  bribe: '{executor}以重金结纳{target}，其心已动。',
+  failed: '{executor}欲施计于{city}，为守将识破。',
+};
+
+/**
+ * 降级模板 - 外交事件
+ */
+const DIPLOMACY_TEMPLATES = {
+  alliance: '{faction}遣{envoy}出使{target}，两家结为同盟。',
+  truce: '{faction}遣{envoy}往{target}议和，两家罢兵休战。',
+  break_treaty: '{faction}背弃盟约，与{target}反目。',
+  declare_war: '{faction}传檄天下，兴兵讨伐{target}。',
+  truce_expired: '{faction}与{target}停战期满，烽烟再起。',
+  refused: '{faction}遣{envoy}出使{target}，为其所拒。',
+};
+
+/**
+ * 降级模板 - 贸易事件
+ */
+const TRADE_TEMPLATES = {
+  gift: '{faction}遣使馈赠{target}钱粮，以结其好。',
+  tribute: '{target}畏{faction}之威，输送钱粮以为贡赋。',
+  trade: '{faction}与{target}互市，以有易无。',
 };
 
 /**
@@ -130,6 +194,12 @@ export class HistorianService {
         return this.generateGeneralFallback(event.data as GeneralEventData);
       case 'disaster':
         return '天降灾祸，民不聊生。';
+      case 'stratagem':
+        return this.generateStratagemFallback(event.data as StratagemEventData);
+      case 'diplomacy':
+        return this.generateDiplomacyFallback(event.data as DiplomacyEventData);
+      case 'trade':
+        return this.generateTradeFallback(event.data as TradeEventData);
       default:
         return '有事发生。';
     }
@@ -151,6 +221,14 @@ export class HistorianService {
       if (data.duel.instantKill && data.duel.winner) {
         const winner = this.context.getGeneralName(data.duel.winner);
         narrative = this.fillTemplate(BATTLE_TEMPLATES.instantKill, { winner });
+      } else if (data.duel.winner && data.duel.retreated) {
+        const loser = data.duel.winner === data.attackerGeneral ? defenderGeneral : attackerGeneral;
+        narrative = this.fillTemplate(BATTLE_TEMPLATES.duelRetreat, {
+          attackerGeneral,
+          defenderGeneral,
+          loser,
+          turns: String(data.duel.turns ?? 1),
+        });
       } else if (data.duel.winner) {
         const winner = this.context.getGeneralName(data.duel.winner);
         narrative = this.fillTemplate(BATTLE_TEMPLATES.duel, {
@@ -161,6 +239,18 @@ export class HistorianService {
       }
     }
 
+    // 围城事件
+    if (data.siege) {
+      const key = data.siege.phase === 'end' ? data.siege.outcome ?? 'withdrawn' : data.siege.phase;
+      const siegeNarrative = this.fillTemplate(BATTLE_TEMPLATES.siege[key], {
+        attacker: attackerName,
+        attackerGeneral,
+        city: this.context.getCityName(data.siege.city),
+        months: String(data.siege.months),
+      });
+      return narrative ? `${narrative} ${siegeNarrative}` : siegeNarrative;
+    }
+
     // 战斗结果
     if (!narrative) {
       const templates = BATTLE_TEMPLATES[data.result];
@@ -173,6 +263,23 @@ export class HistorianService {
       });
     }
 
+    // 两路夹击与守方援军
+    if (data.pincerCity) {
+      narrative +=
+        ' ' +
+        this.fillTemplate(BATTLE_TEMPLATES.pincer, {
+          attacker: attackerName,
+          city: this.context.getCityName(data.pincerCity),
+        });
+    }
+    if (data.reinforcements && data.reinforcements.length > 0) {
+      narrative +=
+        ' ' +
+        this.fillTemplate(BATTLE_TEMPLATES.reinforcements, {
+          generals: data.reinforcements.map((id) => this.context.getGeneralName(id)).join('、'),
+        });
+    }
+
     // 城池攻占
     if (data.cityCapture) {
       const cityName = this.context.getCityName(data.cityCapture);
@@ -184,6 +291,28 @@ export class HistorianService {
         });
     }
 
+    // 溃退或溃散
+    if (data.retreat && (data.retreat.routed || !data.retreat.toCity)) {
+      const loser = data.retreat.side === 'attacker' ? attackerName : defenderName;
+      narrative +=
+        ' ' +
+        (data.retreat.toCity
+          ? this.fillTemplate(BATTLE_TEMPLATES.rout, {
+              loser,
+              city: this.context.getCityName(data.retreat.toCity),
+            })
+          : this.fillTemplate(BATTLE_TEMPLATES.scatter, { loser }));
+    }
+
+    // 败将被俘
+    if (data.captured && data.captured.length > 0) {
+      narrative +=
+        ' ' +
+        this.fillTemplate(BATTLE_TEMPLATES.captured, {
+          generals: data.captured.map((id) => this.context.getGeneralName(id)).join('、'),
+        });
+    }
+
     return narrative;
   }
 
@@ -202,6 +331,43 @@ export class HistorianService {
     });
   }
 
+  /**
+   * 生成计略事件降级文本
+   */
+  private generateStratagemFallback(data: StratagemEventData): string {
+    const template = data.succeeded ? STRATAGEM_TEMPLATES[data.stratagem] : STRATAGEM_TEMPLATES.failed;
+
+    return this.fillTemplate(template, {
+      executor: this.context.getGeneralName(data.executor),
+      city: this.context.getCityName(data.city),
+      target: data.target ? this.context.getGeneralName(data.target) : '',
+      value: data.value.toString(),
+    });
+  }
+
+  /**
+   * 生成外交事件降级文本
+   */
+  private generateDiplomacyFallback(data: DiplomacyEventData): string {
+    const template = data.accepted ? DIPLOMACY_TEMPLATES[data.action] : DIPLOMACY_TEMPLATES.refused;
+
+    return this.fillTemplate(template, {
+      faction: this.context.getFactionName(data.faction),
+      target: this.context.getFactionName(data.target),
+      envoy: data.envoy ? this.context.getGeneralName(data.envoy) : '',
+    });
+  }
+
+  /**
+   * 生成贸易事件降级文本
+   */
+  private generateTradeFallback(data: TradeEventData): string {
+    return this.fillTemplate(TRADE_TEMPLATES[data.kind], {
+      faction: this.context.getFactionName(data.faction),
+      target: this.context.getFactionName(data.target),
+    });
+  }
+
   /**
    * 生成武将事件降级文本
    */
@@ -270,7 +436,7 @@ export function createHistorianService(context: EventContext): HistorianService
  * 从游戏状态创建事件上下文
  */
 export function createEventContextFromState(
-  generals: Record<string, { name: string }>,
+  generals: Record<string, { name: string; bonds?: GeneralBond[] }>,
   cities: Record<string, { name: string }>,
   factions: Record<string, { name: string }>
 ): EventContext {
@@ -278,6 +444,8 @@ export function createEventContextFromState(
     getGeneralName: (id: string) => generals[id]?.name ?? id,
     getCityName: (id: string) => cities[id]?.name ?? id,
     getFactionName: (id: string) => factions[id]?.name ?? id,
+    getBond: (id: string, otherId: string) =>
+      generals[id]?.bonds?.find((b) => b.generalId === otherId)?.type ?? null,
   };
 }
 
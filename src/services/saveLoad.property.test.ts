@@ -13,7 +13,7 @@ import {
   calculateChecksum,
   SaveDataIntegrityError,
 } from './saveLoad';
-import type { GameState, GamePhase, General, City, Faction, GameEvent } from '../types';
+import type { GameState, GamePhase, General, City, Faction, GameEvent, Siege } from '../types';
 
 // ============ 生成器定义 ============
 
@@ -298,6 +298,32 @@ describe('Property 14: 游戏状态序列化/反序列化 Round-Trip', () => {
     );
   });
 
+  it('should preserve sieges in progress after serialize then deserialize', () => {
+    const stateWithSiegesArb = fc
+      .tuple(gameStateArb, gameTimestampArb, fc.integer({ min: 0, max: 36 }))
+      .map(([state, startDate, months]) => {
+        const cityIds = Object.keys(state.cities);
+        const siege: Siege = {
+          id: 'siege_test',
+          attackerFaction: state.currentFaction,
+          campCityId: cityIds[0],
+          targetCityId: cityIds[cityIds.length - 1],
+          generalIds: Object.keys(state.generals).slice(0, 2),
+          startDate,
+          months,
+        };
+        return { ...state, sieges: [siege] };
+      });
+
+    fc.assert(
+      fc.property(stateWithSiegesArb, (originalState) => {
+        const restored = deserializeGameState(serializeGameState(originalState));
+        expect(restored.sieges).toEqual(originalState.sieges);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
   it('should reject invalid game state structures', () => {
     // 测试各种无效状态
     expect(validateGameState(null)).toBe(false);
@@ -317,5 +343,19 @@ describe('Property 14: 游戏状态序列化/反序列化 Round-Trip', () => {
         eventLog: [],
       })
     ).toBe(false);
+    expect(
+      validateGameState({
+        currentDate: { year: 190, month: 1 },
+        currentFaction: 'test',
+        actionPoints: 3,
+        phase: 'player',
+        factions: {},
+        cities: {},
+        generals: {},
+        selectedCity: null,
+        eventLog: [],
+        sieges: [{ id: 'siege_1' }], // 围城数据不完整
+      })
+    ).toBe(false);
   });
 });
@@ -61,6 +61,221 @@ export function calculateChecksum(data: string): string {
   return Math.abs(hash).toString(16).padStart(8, '0');
 }
 
+/**
+ * 验证围城列表结构
+ */
+function isValidSiegeList(sieges: unknown): boolean {
+  if (!Array.isArray(sieges)) {
+    return false;
+  }
+
+  return sieges.every((siege) => {
+    if (!siege || typeof siege !== 'object') {
+      return false;
+    }
+    const s = siege as Record<string, unknown>;
+    return (
+      typeof s.id === 'string' &&
+      typeof s.attackerFaction === 'string' &&
+      typeof s.campCityId === 'string' &&
+      typeof s.targetCityId === 'string' &&
+      Array.isArray(s.generalIds) &&
+      typeof s.months === 'number' &&
+      !!s.startDate &&
+      typeof s.startDate === 'object'
+    );
+  });
+}
+
+/**
+ * 验证援军行动力消耗结构（势力ID → 行动力）
+ */
+function isValidReinforcementCosts(costs: unknown): boolean {
+  if (!costs || typeof costs !== 'object' || Array.isArray(costs)) {
+    return false;
+  }
+  return Object.values(costs).every((cost) => typeof cost === 'number');
+}
+
+/**
+ * 验证俘虏列表结构
+ */
+function isValidPrisonerList(prisoners: unknown): boolean {
+  if (!Array.isArray(prisoners)) {
+    return false;
+  }
+
+  return prisoners.every((prisoner) => {
+    if (!prisoner || typeof prisoner !== 'object') {
+      return false;
+    }
+    const p = prisoner as Record<string, unknown>;
+    return (
+      typeof p.generalId === 'string' &&
+      typeof p.captorFaction === 'string' &&
+      typeof p.originalFaction === 'string' &&
+      typeof p.cityId === 'string' &&
+      !!p.capturedAt &&
+      typeof p.capturedAt === 'object'
+    );
+  });
+}
+
+/**
+ * 验证侦察情报列表结构
+ */
+function isValidScoutReportList(reports: unknown): boolean {
+  if (!Array.isArray(reports)) {
+    return false;
+  }
+
+  return reports.every((report) => {
+    if (!report || typeof report !== 'object') {
+      return false;
+    }
+    const r = report as Record<string, unknown>;
+    return (
+      typeof r.factionId === 'string' &&
+      typeof r.cityId === 'string' &&
+      !!r.scoutedAt &&
+      typeof r.scoutedAt === 'object'
+    );
+  });
+}
+
+/**
+ * 验证停战协定列表结构
+ */
+function isValidTruceList(truces: unknown): boolean {
+  if (!Array.isArray(truces)) {
+    return false;
+  }
+
+  return truces.every((truce) => {
+    if (!truce || typeof truce !== 'object') {
+      return false;
+    }
+    const t = truce as Record<string, unknown>;
+    return (
+      Array.isArray(t.factions) &&
+      t.factions.length === 2 &&
+      t.factions.every((id) => typeof id === 'string') &&
+      !!t.startedAt &&
+      typeof t.startedAt === 'object' &&
+      !!t.expiresAt &&
+      typeof t.expiresAt === 'object'
+    );
+  });
+}
+
+/**
+ * 验证势力关系值结构（关系键 → 关系值）
+ */
+function isValidRelations(relations: unknown): boolean {
+  if (!relations || typeof relations !== 'object' || Array.isArray(relations)) {
+    return false;
+  }
+  return Object.values(relations).every((value) => typeof value === 'number');
+}
+
+/**
+ * 验证势力关系变化记录结构
+ */
+function isValidRelationHistory(history: unknown): boolean {
+  if (!Array.isArray(history)) {
+    return false;
+  }
+
+  return history.every((record) => {
+    if (!record || typeof record !== 'object') {
+      return false;
+    }
+    const r = record as Record<string, unknown>;
+    return (
+      Array.isArray(r.factions) &&
+      r.factions.length === 2 &&
+      typeof r.reason === 'string' &&
+      typeof r.delta === 'number' &&
+      typeof r.value === 'number' &&
+      !!r.date &&
+      typeof r.date === 'object'
+    );
+  });
+}
+
+/**
+ * 验证外交提议列表结构
+ */
+function isValidDiplomacyProposalList(proposals: unknown): boolean {
+  if (!Array.isArray(proposals)) {
+    return false;
+  }
+
+  return proposals.every((proposal) => {
+    if (!proposal || typeof proposal !== 'object') {
+      return false;
+    }
+    const p = proposal as Record<string, unknown>;
+    return (
+      typeof p.id === 'string' &&
+      typeof p.from === 'string' &&
+      typeof p.to === 'string' &&
+      (p.action === 'alliance' || p.action === 'truce') &&
+      typeof p.envoyId === 'string' &&
+      !!p.proposedAt &&
+      typeof p.proposedAt === 'object'
+    );
+  });
+}
+
+/**
+ * 验证待登场武将列表结构
+ */
+function isValidUpcomingGeneralList(upcoming: unknown): boolean {
+  if (!Array.isArray(upcoming)) {
+    return false;
+  }
+
+  return upcoming.every((entry) => {
+    if (!entry || typeof entry !== 'object') {
+      return false;
+    }
+    const e = entry as Record<string, unknown>;
+    const general = e.general as Record<string, unknown> | null;
+    return (
+      typeof e.year === 'number' &&
+      !!general &&
+      typeof general === 'object' &&
+      typeof general.id === 'string' &&
+      typeof general.currentCity === 'string'
+    );
+  });
+}
+
+/**
+ * 验证行军列表结构
+ */
+function isValidMovementList(movements: unknown): boolean {
+  if (!Array.isArray(movements)) {
+    return false;
+  }
+
+  return movements.every((movement) => {
+    if (!movement || typeof movement !== 'object') {
+      return false;
+    }
+    const m = movement as Record<string, unknown>;
+    return (
+      typeof m.id === 'string' &&
+      typeof m.factionId === 'string' &&
+      Array.isArray(m.generalIds) &&
+      typeof m.currentCityId === 'string' &&
+      Array.isArray(m.route) &&
+      typeof m.gold === 'number' &&
+      typeof m.grain === 'number'
+    );
+  });
+}
 
 /**
  * 验证游戏状态数据完整性
@@ -120,6 +335,54 @@ export function validateGameState(state: unknown): state is GameState {
     return false;
   }
 
+  // 验证围城数据（旧存档可缺省）
+  if (s.sieges !== undefined && !isValidSiegeList(s.sieges)) {
+    return false;
+  }
+
+  // 验证俘虏数据（旧存档可缺省）
+  if (s.prisoners !== undefined && !isValidPrisonerList(s.prisoners)) {
+    return false;
+  }
+
+  // 验证援军行动力消耗（旧存档可缺省）
+  if (s.reinforcementCosts !== undefined && !isValidReinforcementCosts(s.reinforcementCosts)) {
+    return false;
+  }
+
+  // 验证侦察情报（旧存档可缺省）
+  if (s.scoutReports !== undefined && !isValidScoutReportList(s.scoutReports)) {
+    return false;
+  }
+
+  // 验证停战协定（旧存档可缺省）
+  if (s.truces !== undefined && !isValidTruceList(s.truces)) {
+    return false;
+  }
+
+  // 验证势力关系（旧存档可缺省）
+  if (s.relations !== undefined && !isValidRelations(s.relations)) {
+    return false;
+  }
+  if (s.relationHistory !== undefined && !isValidRelationHistory(s.relationHistory)) {
+    return false;
+  }
+
+  // 验证待答复的外交提议（旧存档可缺省）
+  if (s.diplomacyProposals !== undefined && !isValidDiplomacyProposalList(s.diplomacyProposals)) {
+    return false;
+  }
+
+  // 验证待登场武将（旧存档可缺省）
+  if (s.upcomingGenerals !== undefined && !isValidUpcomingGeneralList(s.upcomingGenerals)) {
+    return false;
+  }
+
+  // 验证行军（旧存档可缺省）
+  if (s.movements !== undefined && !isValidMovementList(s.movements)) {
+    return false;
+  }
+
   return true;
 }
 
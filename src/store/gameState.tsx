@@ -18,6 +18,45 @@ import {
   INITIAL_YEAR,
   INITIAL_MONTH,
 } from '../types/gameState';
+import {
+  applyCampaignResult,
+  type CampaignOrder,
+  type CampaignResult,
+} from '../systems/campaign';
+import {
+  applySiegeBreakResult,
+  beginSiege,
+  withdrawSiege,
+  type SiegeBreakOrder,
+  type SiegeBreakResult,
+} from '../systems/siege';
+import {
+  applyPrisonerAction,
+  type PrisonerActionResult,
+  type PrisonerOrder,
+} from '../systems/prisoners';
+import {
+  applyStratagemResult,
+  type StratagemOrder,
+  type StratagemResult,
+} from '../systems/stratagem';
+import { scoutCity } from '../systems/intelligence';
+import {
+  applyDiplomacyResult,
+  resolveDiplomacyProposal,
+  type DiplomacyOrder,
+  type DiplomacyResult,
+} from '../systems/diplomacy';
+import { applyTradeResult, type TradeOrder, type TradeResult } from '../systems/trade';
+import {
+  applyPersonnelResult,
+  type PersonnelOrder,
+  type PersonnelResult,
+} from '../systems/loyalty';
+import { applyTalentResult, type TalentOrder, type TalentResult } from '../systems/talent';
+import { applyMovementResult, type MovementOrder, type MovementResult } from '../systems/movement';
+import { applyGovernorResult, type GovernorOrder, type GovernorResult } from '../systems/governor';
+import { applyRankResult, type RankOrder, type RankResult } from '../systems/ranks';
 
 /**
  * 游戏状态动作类型
@@ -33,6 +72,24 @@ export type GameAction =
   | { type: 'UPDATE_CITY'; payload: { cityId: string; updates: Partial<City> } }
   | { type: 'UPDATE_GENERAL'; payload: { generalId: string; updates: Partial<General> } }
   | { type: 'UPDATE_FACTION'; payload: { factionId: string; updates: Partial<Faction> } }
+  | { type: 'APPLY_CAMPAIGN'; payload: { order: CampaignOrder; result: CampaignResult } }
+  | { type: 'BEGIN_SIEGE'; payload: CampaignOrder }
+  | { type: 'WITHDRAW_SIEGE'; payload: string }
+  | { type: 'APPLY_SIEGE_BREAK'; payload: { order: SiegeBreakOrder; result: SiegeBreakResult } }
+  | {
+      type: 'APPLY_PRISONER_ACTION';
+      payload: { order: PrisonerOrder; result: PrisonerActionResult };
+    }
+  | { type: 'APPLY_STRATAGEM'; payload: { order: StratagemOrder; result: StratagemResult } }
+  | { type: 'SCOUT_CITY'; payload: { cityId: string; factionId: string } }
+  | { type: 'APPLY_DIPLOMACY'; payload: { order: DiplomacyOrder; result: DiplomacyResult } }
+  | { type: 'RESOLVE_DIPLOMACY_PROPOSAL'; payload: { proposalId: string; accepted: boolean } }
+  | { type: 'APPLY_TRADE'; payload: { order: TradeOrder; result: TradeResult } }
+  | { type: 'APPLY_PERSONNEL'; payload: { order: PersonnelOrder; result: PersonnelResult } }
+  | { type: 'APPLY_TALENT'; payload: { order: TalentOrder; result: TalentResult } }
+  | { type: 'APPLY_MOVEMENT'; payload: { order: MovementOrder; result: MovementResult } }
+  | { type: 'APPLY_GOVERNOR'; payload: { order: GovernorOrder; result: GovernorResult } }
+  | { type: 'APPLY_RANK'; payload: { order: RankOrder; result: RankResult } }
   | { type: 'ADD_EVENT'; payload: GameEvent }
   | { type: 'ADD_EVENTS'; payload: GameEvent[] }
   | { type: 'CLEAR_EVENTS' }
@@ -188,6 +245,52 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
       };
     }
 
+    case 'APPLY_CAMPAIGN':
+      return applyCampaignResult(state, action.payload.order, action.payload.result);
+
+    case 'BEGIN_SIEGE':
+      return beginSiege(state, action.payload);
+
+    case 'WITHDRAW_SIEGE':
+      return withdrawSiege(state, action.payload);
+
+    case 'APPLY_SIEGE_BREAK':
+      return applySiegeBreakResult(state, action.payload.order, action.payload.result);
+
+    case 'APPLY_PRISONER_ACTION':
+      return applyPrisonerAction(state, action.payload.order, action.payload.result);
+
+    case 'APPLY_STRATAGEM':
+      return applyStratagemResult(state, action.payload.order, action.payload.result);
+
+    case 'SCOUT_CITY':
+      return scoutCity(state, action.payload.cityId, action.payload.factionId);
+
+    case 'APPLY_DIPLOMACY':
+      return applyDiplomacyResult(state, action.payload.order, action.payload.result);
+
+    case 'RESOLVE_DIPLOMACY_PROPOSAL':
+      return resolveDiplomacyProposal(state, action.payload.proposalId, action.payload.accepted)
+        .state;
+
+    case 'APPLY_TRADE':
+      return applyTradeResult(state, action.payload.order, action.payload.result);
+
+    case 'APPLY_PERSONNEL':
+      return applyPersonnelResult(state, action.payload.order, action.payload.result);
+
+    case 'APPLY_TALENT':
+      return applyTalentResult(state, action.payload.order, action.payload.result);
+
+    case 'APPLY_MOVEMENT':
+      return applyMovementResult(state, action.payload.order, action.payload.result);
+
+    case 'APPLY_GOVERNOR':
+      return applyGovernorResult(state, action.payload.order, action.payload.result);
+
+    case 'APPLY_RANK':
+      return applyRankResult(state, action.payload.order, action.payload.result);
+
     case 'ADD_EVENT':
       return {
         ...state,
@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  DECLINE_START_AGE,
+  GROWTH_MAX_AGE,
+  applyAttributeAging,
+  calculateMortalityChance,
+  chooseSuccessor,
+  killGeneral,
+  processAging,
+  processSuccession,
+} from './aging';
+import { transferCityControl } from './aiSystem';
+import { getFactionStrength } from './diplomacy';
+import { getMaxTroops, getRecruitCapacity } from './ranks';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+import type { General } from '../types/general';
+import type { GeneralEventData } from '../types/events';
+import { ATTRIBUTE_MAX, ATTRIBUTE_MIN, FREE_FACTION_ID } from '../types/general';
+import { RANKS } from '../types/rank';
+
+/**
+ * 检查在任武将所属势力与驻守城市是否一致
+ */
+function expectConsistentRoster(state: GameState): void {
+  for (const faction of Object.values(state.factions)) {
+    for (const id of faction.generals) {
+      const general = state.generals[id];
+      expect(general.isAlive).toBe(true);
+      expect(general.faction).toBe(faction.id);
+      expect(state.cities[general.currentCity].stationedGenerals).toContain(id);
+    }
+  }
+}
+
+/**
+ * **Feature: sanguo-190, Property 38: 生老病死**
+ * *For any* 年度结算，未满50岁的武将不会寿终，寿终者按年龄判定、所部由同城武将收编并载入史册；
+ * 少年武将属性成长、老将衰退且不越界；到达登场年份的后起之秀以在野身份登场；
+ * 君主身故时由魅力最高的部将继位，后继无人则势力覆灭、城池沦为无主之地。
+ */
+describe('Property 38: 生老病死', () => {
+  it('should roll death by age and hand the troops over to a comrade in the same city', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 16, max: 90 }),
+        fc.double({ min: 0, max: 0.999, noNaN: true }),
+        (age, roll) => {
+          const state = createTestState();
+          for (const general of Object.values(state.generals)) {
+            general.age = 30;
+          }
+          state.generals.xiaohoudun.age = age;
+          const result = processAging(state, () => roll);
+          const dead = roll < calculateMortalityChance(age);
+
+          expect(result.state.generals.xiaohoudun.isAlive).toBe(!dead);
+          expect(result.events).toHaveLength(dead ? 1 : 0);
+          expect(getFactionStrength(result.state, 'caocao')).toBe(
+            getFactionStrength(state, 'caocao')
+          );
+          expectConsistentRoster(result.state);
+          if (!dead) return;
+
+          expect(result.state.factions.caocao.generals).not.toContain('xiaohoudun');
+          expect(result.state.cities.chenliu.stationedGenerals).not.toContain('xiaohoudun');
+          expect(result.events[0].data).toMatchObject({ general: 'xiaohoudun', event: 'death' });
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    expect(calculateMortalityChance(49)).toBe(0);
+  });
+
+  it('should never let inherited troops exceed the rank troop cap', () => {
+    const comrades = ['caocao', 'xiahouyuan', 'caoren', 'caohong'];
+    const fillArb = fc.double({ min: 0, max: 1, noNaN: true });
+
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 0, max: RANKS.length - 1 }), {
+          minLength: comrades.length,
+          maxLength: comrades.length,
+        }),
+        fc.array(fillArb, { minLength: comrades.length, maxLength: comrades.length }),
+        fc.integer({ min: 0, max: 30000 }),
+        (ranks, fills, troops) => {
+          const state = createTestState();
+          comrades.forEach((id, i) => {
+            const general = state.generals[id];
+            general.rank = ranks[i];
+            general.troops = Math.floor(getMaxTroops(state, general) * fills[i]);
+            general.troopTypes = undefined;
+          });
+          state.generals.xiaohoudun.troops = troops;
+          const capacity = comrades.reduce(
+            (sum, id) => sum + getRecruitCapacity(state, state.generals[id]),
+            0
+          );
+          const before = getFactionStrength(state, 'caocao');
+
+          killGeneral(state, 'xiaohoudun');
+          for (const id of comrades) {
+            const general = state.generals[id];
+            expect(general.troops).toBeLessThanOrEqual(getMaxTroops(state, general));
+          }
+          // 超出众将统兵上限的兵马溃散
+          expect(getFactionStrength(state, 'caocao')).toBe(before - Math.max(0, troops - capacity));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should grow young generals and wear down old ones within attribute bounds', () => {
+    const attribute = fc.integer({ min: ATTRIBUTE_MIN, max: ATTRIBUTE_MAX });
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 10, max: 90 }),
+        fc.record({
+          lead: attribute,
+          war: attribute,
+          int: attribute,
+          pol: attribute,
+          cha: attribute,
+        }),
+        (age, attributes) => {
+          const general = { age, attributes: { ...attributes } } as General;
+          applyAttributeAging(general);
+
+          for (const key of Object.keys(attributes) as (keyof typeof attributes)[]) {
+            const after = general.attributes[key];
+            expect(after).toBeGreaterThanOrEqual(ATTRIBUTE_MIN);
+            expect(after).toBeLessThanOrEqual(ATTRIBUTE_MAX);
+            if (age < GROWTH_MAX_AGE) {
+              expect(after).toBeGreaterThanOrEqual(attributes[key]);
+            } else if (age >= DECLINE_START_AGE) {
+              expect(after).toBeLessThanOrEqual(attributes[key]);
+            } else {
+              expect(after).toBe(attributes[key]);
+            }
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should bring upcoming generals of age into play as unaffiliated talent', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 190, max: 230 }), (year) => {
+        const state = createTestState();
+        state.currentDate = { year, month: 1 };
+        const upcoming = state.upcomingGenerals ?? [];
+        const result = processAging(state, () => 1);
+        const due = upcoming.filter((entry) => entry.year <= year);
+
+        expect(result.events).toHaveLength(due.length);
+        expect(result.state.upcomingGenerals).toHaveLength(upcoming.length - due.length);
+        for (const entry of due) {
+          const general = result.state.generals[entry.general.id];
+          expect(general.faction).toBe(FREE_FACTION_ID);
+          expect(general.isAlive).toBe(true);
+          expect(general.age).toBe(entry.general.age + year - entry.year);
+          expect(result.state.cities[general.currentCity].stationedGenerals).not.toContain(
+            general.id
+          );
+          expect(
+            result.events.some((e) => (e.data as GeneralEventData).general === general.id)
+          ).toBe(true);
+        }
+        expectConsistentRoster(result.state);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should pass the lordship to the most charismatic officer or dissolve the faction', () => {
+    fc.assert(
+      fc.property(fc.constantFrom('dongzhuo', 'caocao', 'yuanshao', 'liubei'), (factionId) => {
+        const state = createTestState();
+        const faction = state.factions[factionId];
+        state.generals[faction.lordId].isAlive = false;
+        faction.generals = faction.generals.filter((id) => id !== faction.lordId);
+        const successor = chooseSuccessor(state, factionId);
+        const result = processSuccession(state);
+
+        const best = Math.max(...faction.generals.map((id) => state.generals[id].attributes.cha));
+        expect(successor?.attributes.cha).toBe(best);
+        expect(result.state.factions[factionId].lordId).toBe(successor?.id);
+        expect(result.events).toHaveLength(1);
+        expect(result.events[0].data).toMatchObject({
+          general: successor?.id,
+          event: 'succession',
+        });
+      }),
+      { numRuns: 20 }
+    );
+
+    // 刘备三兄弟俱亡，势力覆灭，平原沦为无主之地后可被攻占
+    const state = createTestState();
+    for (const id of ['liubei', 'guanyu', 'zhangfei']) {
+      state.generals[id].isAlive = false;
+    }
+    state.factions.liubei.generals = [];
+    const result = processSuccession(state);
+    expect(result.state.factions.liubei.cities).toHaveLength(0);
+    expect(result.state.cities.pingyuan.faction).toBe(FREE_FACTION_ID);
+    expect(result.state.cities.pingyuan.governor).toBeNull();
+
+    transferCityControl(result.state, {
+      factionId: 'caocao',
+      fromCityId: 'chenliu',
+      toCityId: 'pingyuan',
+      generalIds: ['xiaohoudun'],
+    });
+    expect(result.state.cities.pingyuan.faction).toBe('caocao');
+    expect(result.state.factions.caocao.cities).toContain('pingyuan');
+    expectConsistentRoster(result.state);
+  });
+});
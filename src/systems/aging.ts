@@ -0,0 +1,365 @@
+/**
+ * 年龄系统 - 处理武将的生老病死与君主继位
+ * 每年一月结算：年迈武将按年龄判定寿终，少年武将属性成长、老将武勇衰退，
+ * 后起之秀到达登场年份后以在野身份出现；君主身故时由麾下魅力最高者继位，后继无人则势力覆灭
+ * @module systems/aging
+ */
+
+import type { GameState } from '../types/gameState';
+import type { General } from '../types/general';
+import type { GameEvent, GeneralEventData, GeneralEventType } from '../types/events';
+import { ATTRIBUTE_MAX, ATTRIBUTE_MIN, FREE_FACTION_ID } from '../types/general';
+import { TROOP_TYPES } from '../types/troop';
+import { getPrisoners, isPrisoner } from './prisoners';
+import {
+  addCompositions,
+  createComposition,
+  getTroopComposition,
+  splitLossByType,
+  sumComposition,
+} from './troops';
+import { getRecruitCapacity } from './ranks';
+import { generateId } from './ids';
+
+/**
+ * 开始判定寿终的年龄
+ */
+export const MORTALITY_START_AGE = 50;
+
+/**
+ * 达到判定年龄时的寿终概率
+ */
+export const MORTALITY_BASE_CHANCE = 0.02;
+
+/**
+ * 每长一岁增加的寿终概率
+ */
+export const MORTALITY_CHANCE_PER_YEAR = 0.015;
+
+/**
+ * 寿终概率上限
+ */
+export const MORTALITY_MAX_CHANCE = 0.6;
+
+/**
+ * 属性成长的年龄上限（未满此年龄的武将每年各项属性 +1）
+ */
+export const GROWTH_MAX_AGE = 25;
+
+/**
+ * 开始衰退的年龄（达到此年龄的武将每年武力 -2、统帅 -1）
+ */
+export const DECLINE_START_AGE = 55;
+
+/**
+ * 少年武将每年各项属性的成长值
+ */
+export const GROWTH_PER_YEAR = 1;
+
+/**
+ * 老将每年的武力衰退值
+ */
+export const WAR_DECLINE_PER_YEAR = 2;
+
+/**
+ * 老将每年的统帅衰退值
+ */
+export const LEAD_DECLINE_PER_YEAR = 1;
+
+/**
+ * 年龄结算结果
+ */
+export interface AgingTurnResult {
+  /** 更新后的游戏状态 */
+  state: GameState;
+  /** 寿终、登场或继位事件 */
+  events: GameEvent[];
+}
+
+/**
+ * 生成武将事件
+ */
+function createGeneralEvent(
+  gameState: GameState,
+  generalId: string,
+  event: GeneralEventType,
+  details: string
+): GameEvent {
+  const data: GeneralEventData = { general: generalId, event, details };
+  return {
+    id: generateId('aging_event'),
+    type: 'general',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
+
+/**
+ * 将属性限制在0-100范围内
+ */
+function clampAttribute(value: number): number {
+  return Math.max(ATTRIBUTE_MIN, Math.min(ATTRIBUTE_MAX, value));
+}
+
+/**
+ * 计算武将当年寿终的概率
+ * 公式: 未满50岁为0，此后 2% + (年龄 - 50) × 1.5%，至多60%
+ */
+export function calculateMortalityChance(age: number): number {
+  if (age < MORTALITY_START_AGE) return 0;
+  return Math.min(
+    MORTALITY_MAX_CHANCE,
+    MORTALITY_BASE_CHANCE + (age - MORTALITY_START_AGE) * MORTALITY_CHANCE_PER_YEAR
+  );
+}
+
+/**
+ * 按年龄成长或衰退武将属性（直接修改传入的武将）
+ */
+export function applyAttributeAging(general: General): void {
+  const attributes = general.attributes;
+  if (general.age < GROWTH_MAX_AGE) {
+    attributes.lead = clampAttribute(attributes.lead + GROWTH_PER_YEAR);
+    attributes.war = clampAttribute(attributes.war + GROWTH_PER_YEAR);
+    attributes.int = clampAttribute(attributes.int + GROWTH_PER_YEAR);
+    attributes.pol = clampAttribute(attributes.pol + GROWTH_PER_YEAR);
+    attributes.cha = clampAttribute(attributes.cha + GROWTH_PER_YEAR);
+  } else if (general.age >= DECLINE_START_AGE) {
+    attributes.war = clampAttribute(attributes.war - WAR_DECLINE_PER_YEAR);
+    attributes.lead = clampAttribute(attributes.lead - LEAD_DECLINE_PER_YEAR);
+  }
+}
+
+/**
+ * 武将身故（直接修改传入的状态）
+ * 所部兵马由同城同势力武将按统帅高低依次收编（各自不超过统兵上限），无人收编的兵马溃散；
+ * 同时将其移出势力、驻守城市、太守之位、围城部队与俘虏名单
+ * @param state - 可修改的游戏状态副本
+ * @param generalId - 身故武将ID
+ */
+export function killGeneral(state: GameState, generalId: string): void {
+  const general = state.generals[generalId];
+  if (!general || !general.isAlive) return;
+
+  const city = state.cities[general.currentCity];
+  const faction = state.factions[general.faction];
+  const inService = !!faction?.generals.includes(generalId) && !isPrisoner(state, generalId);
+
+  // 同城同势力武将按统帅高低依次收编所部兵马，收编不超过各自统兵上限
+  if (inService && city && general.troops > 0) {
+    const heirs = city.stationedGenerals
+      .map((id) => state.generals[id])
+      .filter(
+        (g): g is General =>
+          g !== undefined && g.id !== generalId && g.isAlive && g.faction === general.faction
+      )
+      .sort((a, b) => b.attributes.lead - a.attributes.lead);
+
+    const remaining = getTroopComposition(general);
+    for (const heir of heirs) {
+      const share = splitLossByType(remaining, getRecruitCapacity(state, heir));
+      if (sumComposition(share) <= 0) continue;
+      heir.troopTypes = addCompositions(getTroopComposition(heir), share);
+      heir.troops = sumComposition(heir.troopTypes);
+      for (const type of TROOP_TYPES) {
+        remaining[type] -= share[type];
+      }
+    }
+  }
+
+  general.isAlive = false;
+  general.troops = 0;
+  general.troopTypes = createComposition();
+
+  if (faction) {
+    faction.generals = faction.generals.filter((id) => id !== generalId);
+  }
+  if (city) {
+    city.stationedGenerals = city.stationedGenerals.filter((id) => id !== generalId);
+    if (city.governor === generalId) {
+      city.governor = null;
+    }
+  }
+  if (state.sieges) {
+    state.sieges = state.sieges
+      .map((siege) => ({
+        ...siege,
+        generalIds: siege.generalIds.filter((id) => id !== generalId),
+      }))
+      .filter((siege) => siege.generalIds.length > 0);
+  }
+  if (state.prisoners) {
+    state.prisoners = getPrisoners(state).filter((p) => p.generalId !== generalId);
+  }
+}
+
+/**
+ * 年度结算武将年龄（应在一月年龄递增之后调用）
+ * 1. 年满50岁的武将按年龄判定寿终
+ * 2. 少年武将属性成长，老将武力、统帅衰退
+ * 3. 到达登场年份的后起之秀以在野身份出现于所在城市
+ * @param gameState - 游戏状态
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 更新后的游戏状态与寿终、登场事件
+ */
+export function processAging(
+  gameState: GameState,
+  random: () => number = Math.random
+): AgingTurnResult {
+  // 深拷贝状态
+  const state: GameState = JSON.parse(JSON.stringify(gameState));
+  const events: GameEvent[] = [];
+
+  for (const general of Object.values(state.generals)) {
+    if (!general.isAlive) continue;
+
+    if (random() < calculateMortalityChance(general.age)) {
+      killGeneral(state, general.id);
+      events.push(
+        createGeneralEvent(state, general.id, 'death', `${general.name}病逝，享年${general.age}岁`)
+      );
+      continue;
+    }
+
+    applyAttributeAging(general);
+  }
+
+  const year = state.currentDate.year;
+  const upcoming = state.upcomingGenerals ?? [];
+  for (const entry of upcoming) {
+    if (entry.year > year || state.generals[entry.general.id]) continue;
+
+    const general: General = {
+      ...entry.general,
+      faction: FREE_FACTION_ID,
+      age: entry.general.age + (year - entry.year),
+    };
+    state.generals[general.id] = general;
+    const cityName = state.cities[general.currentCity]?.name ?? '';
+    events.push(
+      createGeneralEvent(
+        state,
+        general.id,
+        'come_of_age',
+        `${general.name}年方${general.age}，于${cityName}崭露头角`
+      )
+    );
+  }
+  if (state.upcomingGenerals) {
+    state.upcomingGenerals = upcoming.filter((entry) => entry.year > year);
+  }
+
+  return { state, events };
+}
+
+/**
+ * 为失去君主的势力挑选继承人：麾下存活且未被俘的武将中魅力最高者，魅力相同时取统帅较高者
+ * @param gameState - 游戏状态
+ * @param factionId - 势力ID
+ * @returns 继承人，后继无人时返回null
+ */
+export function chooseSuccessor(gameState: GameState, factionId: string): General | null {
+  const faction = gameState.factions[factionId];
+  if (!faction) return null;
+
+  let best: General | null = null;
+  for (const id of faction.generals) {
+    const general = gameState.generals[id];
+    if (!general || !general.isAlive || id === faction.lordId) continue;
+    if (general.faction !== factionId || isPrisoner(gameState, id)) continue;
+
+    if (
+      !best ||
+      general.attributes.cha > best.attributes.cha ||
+      (general.attributes.cha === best.attributes.cha &&
+        general.attributes.lead > best.attributes.lead)
+    ) {
+      best = general;
+    }
+  }
+  return best;
+}
+
+/**
+ * 势力覆灭（直接修改传入的状态）
+ * 城池沦为无主之地；其关押的俘虏获释，旧主尚存者归返旧主，否则流落在野
+ */
+function dissolveFaction(state: GameState, factionId: string): void {
+  const faction = state.factions[factionId];
+  if (!faction) return;
+
+  for (const cityId of faction.cities) {
+    const city = state.cities[cityId];
+    if (!city) continue;
+    city.faction = FREE_FACTION_ID;
+    city.governor = null;
+    delete city.delegation;
+  }
+  faction.cities = [];
+  faction.generals = [];
+
+  const prisoners = getPrisoners(state);
+  for (const prisoner of prisoners.filter((p) => p.captorFaction === factionId)) {
+    const general = state.generals[prisoner.generalId];
+    if (!general) continue;
+
+    const original = state.factions[prisoner.originalFaction];
+    const homeCity = original ? state.cities[original.cities[0]] : undefined;
+    if (original && homeCity) {
+      original.generals.push(general.id);
+      homeCity.stationedGenerals.push(general.id);
+      general.currentCity = homeCity.id;
+    } else {
+      general.faction = FREE_FACTION_ID;
+    }
+  }
+  if (state.prisoners) {
+    state.prisoners = prisoners.filter((p) => p.captorFaction !== factionId);
+  }
+  if (state.sieges) {
+    state.sieges = state.sieges.filter((siege) => siege.attackerFaction !== factionId);
+  }
+}
+
+/**
+ * 月末结算君主继位
+ * 仍有城池而君主已故的势力，由继承人接掌；后继无人则势力覆灭，城池沦为无主之地
+ * @param gameState - 游戏状态
+ * @returns 更新后的游戏状态与继位、覆灭事件
+ */
+export function processSuccession(gameState: GameState): AgingTurnResult {
+  // 深拷贝状态
+  const state: GameState = JSON.parse(JSON.stringify(gameState));
+  const events: GameEvent[] = [];
+
+  for (const faction of Object.values(state.factions)) {
+    if (faction.cities.length === 0) continue;
+    const lord = state.generals[faction.lordId];
+    if (lord?.isAlive) continue;
+
+    const successor = chooseSuccessor(state, faction.id);
+    if (successor) {
+      faction.lordId = successor.id;
+      events.push(
+        createGeneralEvent(
+          state,
+          successor.id,
+          'succession',
+          `${successor.name}继承${lord?.name ?? '先主'}基业，统领${faction.name}`
+        )
+      );
+    } else {
+      dissolveFaction(state, faction.id);
+      events.push(
+        createGeneralEvent(
+          state,
+          faction.lordId,
+          'succession',
+          `${lord?.name ?? '先主'}身故，后继无人，${faction.name}就此覆灭`
+        )
+      );
+    }
+  }
+
+  return { state, events };
+}
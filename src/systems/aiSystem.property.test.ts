@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  AI_WEIGHTS,
+  applyAIStateUpdates,
+  decideDiplomacy,
+  executeAITurns,
+  makeDecision,
+} from './aiSystem';
+import {
+  BREAK_TREATY_REPUTATION_PENALTY,
+  DIPLOMACY_GOLD_COST,
+  getDiplomacyProposals,
+  getDiplomacyStatus,
+  getLeadingFaction,
+  resolveDiplomacyProposal,
+} from './diplomacy';
+import { createComposition } from './troops';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+import type { DiplomacyEventData } from '../types/events';
+
+/**
+ * 将城中兵力全部交由首位驻守武将统领
+ */
+function setCityTroops(state: GameState, cityId: string, troops: number): void {
+  state.cities[cityId].stationedGenerals.forEach((id, index) => {
+    const general = state.generals[id];
+    general.troops = index === 0 ? troops : 0;
+    general.troopTypes = createComposition({ infantry: general.troops });
+  });
+}
+
+/**
+ * 将平原划归董卓，使其城池数独占鳌头成为霸主
+ */
+function makeDongzhuoLeader(state: GameState): void {
+  state.factions.liubei.cities = [];
+  state.factions.dongzhuo.cities.push('pingyuan');
+  state.cities.pingyuan.faction = 'dongzhuo';
+}
+
+/**
+ * **Feature: sanguo-190, Property 35: AI外交**
+ * *For any* AI势力，邻城敌军兵力超过己方危急倍数时向其议和；
+ * 有霸主时与其余中立诸侯合纵，且不与霸主结盟；攻打盟友胜算足够且信誉尚可时背盟；
+ * 冷却期内不再向同一势力遣使；向玩家的提议待玩家答复后方才生效。
+ */
+describe('Property 35: AI外交', () => {
+  it('should ask a threatening neighbour for a truce only when in danger', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 60000 }),
+        fc.integer({ min: 1000, max: 30000 }),
+        (enemyTroops, ownTroops) => {
+          const state = createTestState();
+          setCityTroops(state, 'luoyang', enemyTroops);
+          setCityTroops(state, 'ye', ownTroops);
+
+          const decision = decideDiplomacy('yuanshao', state);
+          if (enemyTroops > ownTroops * AI_WEIGHTS.TRUCE_DANGER_RATIO) {
+            expect(decision).toMatchObject({ action: 'truce', targetFactionId: 'dongzhuo' });
+          } else {
+            expect(decision?.action).not.toBe('truce');
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should form a coalition against the leader and never ally with it', () => {
+    const state = createTestState();
+    makeDongzhuoLeader(state);
+    for (const cityId of ['luoyang', 'changan', 'pingyuan']) setCityTroops(state, cityId, 0);
+    expect(getLeadingFaction(state)).toBe('dongzhuo');
+
+    const decision = decideDiplomacy('yuanshao', state);
+    expect(decision).toMatchObject({ action: 'alliance', targetFactionId: 'caocao' });
+
+    // 提议送达玩家后待答复，不直接改变外交关系
+    const aiResult = executeAITurns(state, 'caocao');
+    const afterAI = applyAIStateUpdates(state, aiResult.stateUpdates);
+    const proposal = getDiplomacyProposals(afterAI).find((p) => p.from === 'yuanshao');
+    expect(proposal).toMatchObject({ to: 'caocao', action: 'alliance' });
+    expect(getDiplomacyStatus(afterAI, 'yuanshao', 'caocao')).toBe('neutral');
+    expect(decideDiplomacy('yuanshao', afterAI)?.targetFactionId).not.toBe('caocao');
+
+    for (const accepted of [true, false]) {
+      const home = afterAI.generals[proposal!.envoyId].currentCity;
+      const { state: resolved, event } = resolveDiplomacyProposal(afterAI, proposal!.id, accepted);
+      expect(getDiplomacyProposals(resolved).some((p) => p.id === proposal!.id)).toBe(false);
+      expect(getDiplomacyStatus(resolved, 'caocao', 'yuanshao')).toBe(
+        accepted ? 'ally' : 'neutral'
+      );
+      expect(resolved.cities[home].resources.gold).toBe(
+        afterAI.cities[home].resources.gold - DIPLOMACY_GOLD_COST.alliance
+      );
+      expect((event?.data as DiplomacyEventData).accepted).toBe(accepted);
+    }
+  });
+
+  it('should backstab a weak ally only while its reputation can bear it', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 100 }), (reputation) => {
+        const state = createTestState();
+        state.factions.caocao.diplomacy.liubei = 'ally';
+        state.factions.liubei.diplomacy.caocao = 'ally';
+        state.factions.caocao.reputation = reputation;
+        setCityTroops(state, 'luoyang', 0);
+        setCityTroops(state, 'pingyuan', 0);
+        setCityTroops(state, 'chenliu', 30000);
+
+        const decision = decideDiplomacy('caocao', state);
+        if (reputation >= AI_WEIGHTS.BACKSTAB_MIN_REPUTATION + BREAK_TREATY_REPUTATION_PENALTY) {
+          expect(decision).toMatchObject({ action: 'break_treaty', targetFactionId: 'liubei' });
+        } else {
+          expect(decision?.action).not.toBe('break_treaty');
+        }
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should not send another envoy during the cooldown or without action points', () => {
+    const state = createTestState();
+    setCityTroops(state, 'luoyang', 60000);
+    setCityTroops(state, 'ye', 1000);
+    const decision = decideDiplomacy('yuanshao', state);
+    expect(decision?.action).toBe('truce');
+
+    state.eventLog = [
+      {
+        id: 'recent',
+        type: 'diplomacy',
+        timestamp: { ...state.currentDate },
+        data: { faction: 'yuanshao', target: 'dongzhuo', action: 'truce', accepted: false },
+      },
+    ];
+    expect(decideDiplomacy('yuanshao', state)?.targetFactionId).not.toBe('dongzhuo');
+
+    state.reinforcementCosts = { yuanshao: 3 };
+    expect(makeDecision('yuanshao', state)).toEqual([]);
+  });
+});
@@ -6,24 +6,155 @@
 
 import type { GameState } from '../types/gameState';
 import type { City } from '../types/city';
+import { DEFENSE_MAX } from '../types/city';
 import type { General } from '../types/general';
 import type { Faction } from '../types/faction';
-import type { GameEvent, DomesticEventData, BattleEventData } from '../types/events';
-import { calculateAttackPower, calculateDefensePower } from './battle';
-import { calculateRecruitmentSoldiers } from './domestic';
+import type { DiplomacyProposal } from '../types/diplomacy';
+import type {
+  GameEvent,
+  DomesticEventData,
+  BattleEventData,
+  DiplomacyActionType,
+  DiplomacyEventData,
+  TradeGoods,
+} from '../types/events';
+import type { TroopComposition, TroopType } from '../types/troop';
+import { TROOP_TYPES } from '../types/troop';
+import {
+  resolveBattle,
+  simulateBattle,
+  toBattleRoundRecords,
+  type BattleCommander,
+  type BattleForecast,
+  type BattleResolution,
+} from './battle';
+import {
+  calculateDevelopmentIncrease,
+  calculateRecruitmentCost,
+  calculateRecruitmentSoldiers,
+} from './domestic';
+import {
+  getDevelopmentMultiplier,
+  getDevelopmentSkills,
+  getRecruitmentMultiplier,
+  getRecruitmentSkills,
+} from './skills';
+import { getRecruitCapacity } from './ranks';
+import {
+  TROOP_COUNTERS,
+  addCompositions,
+  addTroopsOfType,
+  createComposition,
+  getDominantTroopType,
+  getTroopComposition,
+  getTrainableTroopTypes,
+  removeTroopsByType,
+  splitLossByType,
+  sumComposition,
+} from './troops';
+import {
+  PINCER_MORALE_PENALTY,
+  calculateCityArmyMorale,
+  describeRetreat,
+  findRetreatCity,
+} from './morale';
+import {
+  capturePrisoners,
+  getGeneralLoyalty,
+  rollCaptures,
+  transferCityPrisoners,
+} from './prisoners';
+import { HOSTILE_THRESHOLD, RELATION_MAX, getRelation } from './relations';
+import {
+  BREAK_TREATY_REPUTATION_PENALTY,
+  applyDiplomacyResult,
+  createDiplomacyEvent,
+  executeDiplomacy,
+  getActiveTruce,
+  getDiplomacyEnvoys,
+  getDiplomacyProposals,
+  getDiplomacyStatus,
+  getFactionReputation,
+  getFactionStrength,
+  getLeadingFaction,
+  getSharedEnemies,
+  isDiplomacyProposal,
+  validateDiplomacyOrder,
+  type DiplomacyOrder,
+  type DiplomacyResult,
+} from './diplomacy';
+import type { TradeOrder } from './trade';
+import {
+  applyPersonnelResult,
+  calculatePoachChance,
+  createPersonnelEvent,
+  executePersonnel,
+  getPoachTargets,
+  getRewardableGenerals,
+  validatePersonnelOrder,
+  type PersonnelAction,
+  type PersonnelOrder,
+  type PersonnelResult,
+} from './loyalty';
+import {
+  chargeReinforcementCosts,
+  findReinforcements,
+  getReinforcementAPCost,
+  getReinforcementGenerals,
+  type Reinforcement,
+} from './reinforcements';
+import {
+  applyMovementResult,
+  executeMovement,
+  findMovementRoute,
+  getMovableGenerals,
+  isGeneralMarching,
+  validateMovementOrder,
+  type MovementOrder,
+  type MovementResult,
+} from './movement';
+import { generateId } from './ids';
 
 /**
  * AI行动类型
  */
-export type AIActionType = 'recruit' | 'develop' | 'attack';
+export type AIActionType =
+  | 'recruit'
+  | 'develop'
+  | 'attack'
+  | 'diplomacy'
+  | 'personnel'
+  | 'movement';
 
 /**
  * AI行动接口
  */
 export type AIAction =
-  | { type: 'recruit'; cityId: string; generalId: string }
-  | { type: 'develop'; cityId: string; generalId: string; target: 'commerce' | 'agriculture' }
-  | { type: 'attack'; fromCity: string; toCity: string; generalId: string };
+  | { type: 'recruit'; cityId: string; generalId: string; troopType: TroopType }
+  | {
+      type: 'develop';
+      cityId: string;
+      generalId: string;
+      target: 'commerce' | 'agriculture' | 'defense';
+    }
+  | { type: 'attack'; fromCity: string; toCity: string; generalId: string }
+  | { type: 'diplomacy'; action: DiplomacyActionType; envoyId: string; targetFactionId: string }
+  | {
+      type: 'personnel';
+      action: PersonnelAction;
+      generalId: string;
+      cityId: string;
+      gold: number;
+      envoyId?: string;
+    }
+  | {
+      type: 'movement';
+      fromCityId: string;
+      toCityId: string;
+      generalIds: string[];
+      gold: number;
+      grain: number;
+    };
 
 /**
  * 威胁信息接口
@@ -88,6 +219,38 @@ export const AI_WEIGHTS = {
   RECRUIT_PRIORITY_TROOPS_THRESHOLD: 10000,
   /** 攻击决策的最小胜率阈值 */
   MIN_ATTACK_SUCCESS_PROBABILITY: 0.6,
+  /** 关系值每高于交战阈值1点，攻击所需胜率提高的幅度 */
+  RELATION_ATTACK_PROBABILITY_STEP: 0.005,
+  /** 攻击评估时战况预测的模拟次数 */
+  FORECAST_SIMULATIONS: 40,
+  /** 某一敌对势力的邻城兵力超过己方城市兵力此倍数时遣使议和 */
+  TRUCE_DANGER_RATIO: 1.5,
+  /** 无霸主时主动结盟所需的最低关系值（且须有共同敌人） */
+  ALLIANCE_PROPOSAL_RELATION: 20,
+  /** 攻打盟友城市的胜率不低于此值时背盟 */
+  BACKSTAB_SUCCESS_PROBABILITY: 0.85,
+  /** 背盟后信誉须不低于此值 */
+  BACKSTAB_MIN_REPUTATION: 20,
+  /** 向同一势力再次遣使前的间隔月数 */
+  DIPLOMACY_COOLDOWN_MONTHS: 6,
+  /** AI评估交易时粮草折合金钱的比价 */
+  TRADE_GRAIN_VALUE: 0.5,
+  /** 互市时AI要求的获利比例 */
+  TRADE_MARGIN: 0.1,
+  /** 关系值满时互市可让利的比例 */
+  TRADE_RELATION_WEIGHT: 0.2,
+  /** 索贡方兵力每多出对方一倍，AI愿意纳贡的金钱价值 */
+  TRIBUTE_FEAR_VALUE: 5000,
+  /** 己方武将忠诚低于此值时赏赐 */
+  REWARD_LOYALTY_THRESHOLD: 50,
+  /** 每次赏赐的金钱 */
+  REWARD_GOLD: 1000,
+  /** 挖角成功率不低于此值时遣使挖角 */
+  POACH_MIN_CHANCE: 0.4,
+  /** 挖角许以的金钱 */
+  POACH_GOLD: 1000,
+  /** 后方武将兵力不低于此值时调往前线 */
+  MOVEMENT_MIN_TROOPS: 1000,
   /** 城市规模评分 */
   CITY_SCALE_SCORE: {
     small: 1,
@@ -96,6 +259,47 @@ export const AI_WEIGHTS = {
   },
 } as const;
 
+/**
+ * AI评估钱粮价值（折合金钱）
+ */
+function getAITradeValue(goods: TradeGoods): number {
+  return goods.gold + goods.grain * AI_WEIGHTS.TRADE_GRAIN_VALUE;
+}
+
+/**
+ * AI评估他方的交易提议，评分不小于0时应允
+ * - 馈赠：所得钱粮的价值
+ * - 互市：所得减去所失（须有获利余地，关系越好让利越多）
+ * - 索贡：畏惧程度（对方兵力倍数 - 1）× 纳贡意愿，按关系值修正后减去所失
+ * @param order - 交易提议
+ * @param gameState - 游戏状态
+ * @param proposerId - 提议势力ID
+ * @returns 交易评分
+ */
+export function scoreTradeOffer(
+  order: TradeOrder,
+  gameState: GameState,
+  proposerId: string
+): number {
+  const gain = getAITradeValue(order.give);
+  const loss = getAITradeValue(order.take);
+  const relation = getRelation(gameState, order.targetFactionId, proposerId) / RELATION_MAX;
+
+  switch (order.kind) {
+    case 'gift':
+      return gain;
+    case 'trade':
+      return gain - loss * (1 + AI_WEIGHTS.TRADE_MARGIN - relation * AI_WEIGHTS.TRADE_RELATION_WEIGHT);
+    case 'tribute': {
+      const ratio =
+        getFactionStrength(gameState, proposerId) /
+        Math.max(1, getFactionStrength(gameState, order.targetFactionId));
+      const fear = Math.max(0, ratio - 1) * AI_WEIGHTS.TRIBUTE_FEAR_VALUE;
+      return fear * (1 + relation) - loss;
+    }
+  }
+}
+
 
 /**
  * 计算城市的总兵力
@@ -116,6 +320,133 @@ export function calculateCityTroops(
   }, 0);
 }
 
+/**
+ * 计算城市驻军的兵种构成
+ * @param city - 城市
+ * @param generals - 所有武将
+ * @returns 城市驻军兵种构成
+ */
+export function calculateCityTroopComposition(
+  city: City,
+  generals: Record<string, General>
+): TroopComposition {
+  return city.stationedGenerals.reduce((total, generalId) => {
+    const general = generals[generalId];
+    if (general && general.isAlive) {
+      return addCompositions(total, getTroopComposition(general));
+    }
+    return total;
+  }, createComposition());
+}
+
+/**
+ * 获取城市中属于城市势力的存活守将
+ * @param city - 城市
+ * @param generals - 所有武将
+ * @returns 守将列表
+ */
+export function getCityDefenders(city: City, generals: Record<string, General>): General[] {
+  return city.stationedGenerals
+    .map(id => generals[id])
+    .filter((g): g is General => g !== undefined && g.isAlive && g.faction === city.faction);
+}
+
+/**
+ * 将武将转换为战斗引擎使用的主将属性
+ * @param general - 武将
+ * @returns 参战主将属性
+ */
+export function toBattleCommander(general: General): BattleCommander {
+  return {
+    id: general.id,
+    lead: general.attributes.lead,
+    war: general.attributes.war,
+    int: general.attributes.int,
+    skills: general.skills,
+  };
+}
+
+/**
+ * 按兵力比例分摊伤亡
+ * @param generals - 参战武将
+ * @param totalCasualties - 总伤亡
+ * @returns 武将ID到伤亡数的映射
+ */
+export function distributeCasualties(
+  generals: General[],
+  totalCasualties: number
+): Record<string, number> {
+  const distribution: Record<string, number> = {};
+  const totalTroops = generals.reduce((sum, g) => sum + g.troops, 0);
+  if (totalTroops <= 0) return distribution;
+
+  let remaining = Math.min(totalCasualties, totalTroops);
+  generals.forEach((general, index) => {
+    const share =
+      index === generals.length - 1
+        ? remaining
+        : Math.floor((totalCasualties * general.troops) / totalTroops);
+    const loss = Math.min(general.troops, share, remaining);
+    distribution[general.id] = loss;
+    remaining -= loss;
+  });
+
+  return distribution;
+}
+
+/**
+ * 按兵种分摊伤亡并扣减武将兵力
+ * 每个兵种的伤亡按各武将该兵种兵力比例分摊
+ * @param generals - 参战武将（直接修改）
+ * @param casualtiesByType - 各兵种总伤亡
+ */
+export function applyCasualtiesByType(
+  generals: General[],
+  casualtiesByType: TroopComposition
+): void {
+  const compositions = generals.map((general) => getTroopComposition(general));
+  const losses = generals.map(() => createComposition());
+
+  for (const type of TROOP_TYPES) {
+    const holders = generals.map((general, index) => ({
+      ...general,
+      troops: compositions[index][type],
+    }));
+    const distribution = distributeCasualties(holders, casualtiesByType[type]);
+    generals.forEach((general, index) => {
+      losses[index][type] = distribution[general.id] || 0;
+    });
+  }
+
+  generals.forEach((general, index) => {
+    Object.assign(general, removeTroopsByType(general, losses[index]));
+  });
+}
+
+/**
+ * 为城市选择征募兵种
+ * 优先训练克制周边敌军主力兵种的兵种，否则征募步兵
+ * @param city - 城市
+ * @param gameState - 游戏状态
+ * @returns 征募兵种
+ */
+export function chooseRecruitTroopType(city: City, gameState: GameState): TroopType {
+  const trainable = getTrainableTroopTypes(city);
+  const enemyComposition = city.connectedCities.reduce((total, cityId) => {
+    const neighbor = gameState.cities[cityId];
+    if (!neighbor || neighbor.faction === city.faction) return total;
+    return addCompositions(total, calculateCityTroopComposition(neighbor, gameState.generals));
+  }, createComposition());
+
+  const enemyMain = getDominantTroopType(enemyComposition);
+  if (enemyMain) {
+    const counter = trainable.find((type) => TROOP_COUNTERS[type] === enemyMain);
+    if (counter) return counter;
+  }
+
+  return 'infantry';
+}
+
 /**
  * 获取城市中最强的武将（按战斗力）
  * @param city - 城市
@@ -132,8 +463,7 @@ export function getStrongestGeneral(
   for (const generalId of city.stationedGenerals) {
     const general = generals[generalId];
     if (general && general.isAlive && general.troops > 0) {
-      // 综合考虑武力和统帅
-      const power = general.attributes.war * 0.4 + general.attributes.lead * 0.6;
+      const power = getGeneralPower(general);
       if (power > maxPower) {
         maxPower = power;
         strongest = general;
@@ -144,6 +474,21 @@ export function getStrongestGeneral(
   return strongest;
 }
 
+/**
+ * 获取城市中尚未达到统兵上限、政治最高的武将（征兵者）
+ */
+function getBestRecruiter(city: City, gameState: GameState): General | null {
+  let best: General | null = null;
+  for (const generalId of city.stationedGenerals) {
+    const general = gameState.generals[generalId];
+    if (!general || !general.isAlive || getRecruitCapacity(gameState, general) <= 0) continue;
+    if (!best || general.attributes.pol > best.attributes.pol) {
+      best = general;
+    }
+  }
+  return best;
+}
+
 /**
  * 获取城市中政治最高的武将（用于内政）
  * @param city - 城市
@@ -233,8 +578,149 @@ export function evaluateThreat(
 }
 
 
+/**
+ * 计算武将综合战力（综合考虑武力和统帅）
+ */
+function getGeneralPower(general: General): number {
+  return general.attributes.war * 0.4 + general.attributes.lead * 0.6;
+}
+
+/**
+ * 守方参战部队（守城武将与援军）
+ */
+export interface DefendingForce {
+  /** 守方主将（城中无可战之将时由援军武将统领，均无则为null） */
+  commander: General | null;
+  /** 参战守将（含援军） */
+  generals: General[];
+  /** 守方总兵力 */
+  troops: number;
+  /** 守方兵种构成 */
+  composition: TroopComposition;
+  /** 守方士气 */
+  morale: number;
+}
+
+/**
+ * 汇总守城部队与赶来的援军
+ * @param toCity - 被攻打城市
+ * @param reinforcements - 援军列表
+ * @param gameState - 游戏状态
+ * @returns 守方参战部队
+ */
+export function getDefendingForce(
+  toCity: City,
+  reinforcements: Reinforcement[],
+  gameState: GameState
+): DefendingForce {
+  const helpers = getReinforcementGenerals(gameState, reinforcements);
+  const commander =
+    getStrongestGeneral(toCity, gameState.generals) ??
+    helpers.reduce<General | null>(
+      (best, general) =>
+        general.troops > 0 && (!best || getGeneralPower(general) > getGeneralPower(best))
+          ? general
+          : best,
+      null
+    );
+  const generals = [...getCityDefenders(toCity, gameState.generals), ...helpers];
+
+  return {
+    commander,
+    generals,
+    troops:
+      calculateCityTroops(toCity, gameState.generals) +
+      helpers.reduce((sum, general) => sum + general.troops, 0),
+    composition: helpers.reduce(
+      (total, general) => addCompositions(total, getTroopComposition(general)),
+      calculateCityTroopComposition(toCity, gameState.generals)
+    ),
+    morale: calculateCityArmyMorale(generals, toCity, gameState.factions[toCity.faction]),
+  };
+}
+
+/**
+ * 战况预测选项
+ */
+export interface BattleForecastOptions {
+  /** 模拟次数 */
+  simulations?: number;
+  /** 随机种子 */
+  seed?: number;
+  /** 是否两路夹击 */
+  pincer?: boolean;
+}
+
+/**
+ * 预测出征战况
+ * 以出征武将中战力最高者为主将、按兵种比例投入兵力，计入守方援军，以固定种子多次模拟战斗引擎
+ * @param fromCity - 出发城市
+ * @param toCity - 目标城市
+ * @param generals - 出征武将
+ * @param troops - 投入兵力（超过武将兵力之和时以兵力之和为准）
+ * @param gameState - 游戏状态
+ * @param options - 模拟次数与随机种子
+ * @returns 战况预测结果
+ */
+export function forecastBattle(
+  fromCity: City,
+  toCity: City,
+  generals: General[],
+  troops: number,
+  gameState: GameState,
+  options: BattleForecastOptions = {}
+): BattleForecast {
+  // 主将取综合战力最高者（与出征主将一致）
+  const leader = generals.reduce<General | null>(
+    (best, general) => (!best || getGeneralPower(general) > getGeneralPower(best) ? general : best),
+    null
+  );
+  if (!leader) {
+    return {
+      winProbability: 0,
+      expectedAttackerCasualties: 0,
+      expectedDefenderCasualties: 0,
+      duelProbability: 0,
+      simulations: 0,
+    };
+  }
+
+  const fullComposition = generals.reduce(
+    (total, general) => addCompositions(total, getTroopComposition(general)),
+    createComposition()
+  );
+  const attackerComposition = splitLossByType(fullComposition, Math.max(0, troops));
+  const attackerTroops = sumComposition(attackerComposition);
+  const defending = getDefendingForce(
+    toCity,
+    findReinforcements(gameState, toCity.id, fromCity.faction, attackerTroops),
+    gameState
+  );
+
+  return simulateBattle(
+    {
+      attacker: toBattleCommander(leader),
+      attackerTroops,
+      attackerComposition,
+      attackerMorale: calculateCityArmyMorale(
+        generals,
+        fromCity,
+        gameState.factions[fromCity.faction]
+      ),
+      defender: defending.commander ? toBattleCommander(defending.commander) : null,
+      defenderTroops: defending.troops,
+      defenderComposition: defending.composition,
+      defenderMorale: defending.morale - (options.pincer ? PINCER_MORALE_PENALTY : 0),
+      cityDefense: toCity.resources.defense,
+    },
+    options.simulations,
+    options.seed
+  );
+}
+
 /**
  * 评估攻击目标
+ * 以城中最强武将率本部兵马出征（与AI实际攻击一致）预测胜率
  * @param fromCity - 出发城市
  * @param targetCity - 目标城市
  * @param gameState - 游戏状态
@@ -245,36 +731,12 @@ export function evaluateAttackTarget(
   targetCity: City,
   gameState: GameState
 ): AttackTargetEvaluation {
-  // 计算我方攻击力
-  const myTroops = calculateCityTroops(fromCity, gameState.generals);
-  const myGeneral = getStrongestGeneral(fromCity, gameState.generals);
-  
-  let myAttackPower = 0;
-  if (myGeneral) {
-    myAttackPower = calculateAttackPower(
-      myTroops,
-      myGeneral.attributes.war,
-      myGeneral.attributes.lead
-    );
-  }
-
-  // 计算敌方防御力
-  const enemyTroops = calculateCityTroops(targetCity, gameState.generals);
-  const enemyGeneral = getStrongestGeneral(targetCity, gameState.generals);
-  
-  let enemyDefensePower = targetCity.resources.defense;
-  if (enemyGeneral) {
-    enemyDefensePower = calculateDefensePower(
-      enemyTroops,
-      enemyGeneral.attributes.lead,
-      enemyGeneral.attributes.int,
-      targetCity.resources.defense
-    );
-  }
-
-  // 估算成功概率（简化计算）
-  const powerRatio = enemyDefensePower > 0 ? myAttackPower / enemyDefensePower : 10;
-  const successProbability = Math.min(0.95, Math.max(0.05, powerRatio / 2));
+  const attacker = getStrongestGeneral(fromCity, gameState.generals);
+  const successProbability = attacker
+    ? forecastBattle(fromCity, targetCity, [attacker], attacker.troops, gameState, {
+        simulations: AI_WEIGHTS.FORECAST_SIMULATIONS,
+      }).winProbability
+    : 0;
 
   // 计算战略价值
   const strategicValue = 
@@ -294,6 +756,30 @@ export function evaluateAttackTarget(
   };
 }
 
+/**
+ * 计算对目标势力发起攻击所需的最低胜率
+ * 关系值不高于交战阈值时为基础胜率阈值，每高出1点提高0.5%
+ * @param gameState - 游戏状态
+ * @param factionId - 进攻方势力ID
+ * @param targetFactionId - 目标势力ID
+ * @returns 所需胜率，己方、同盟或停战势力不可攻击时返回null
+ */
+export function getRequiredAttackProbability(
+  gameState: GameState,
+  factionId: string,
+  targetFactionId: string
+): number | null {
+  if (targetFactionId === factionId) return null;
+  if (getDiplomacyStatus(gameState, factionId, targetFactionId) === 'ally') return null;
+  if (getActiveTruce(gameState, factionId, targetFactionId)) return null;
+
+  const relation = getRelation(gameState, factionId, targetFactionId);
+  return (
+    AI_WEIGHTS.MIN_ATTACK_SUCCESS_PROBABILITY +
+    Math.max(0, relation - HOSTILE_THRESHOLD) * AI_WEIGHTS.RELATION_ATTACK_PROBABILITY_STEP
+  );
+}
+
 /**
  * 判断是否应该发起攻击
  * **Validates: Requirements 9.8**
@@ -313,9 +799,13 @@ export function shouldAttack(
   const targetCity = gameState.cities[targetCityId];
   if (!targetCity) return false;
 
-  // 检查是否为敌对势力
-  const diplomacy = faction.diplomacy[targetCity.faction];
-  if (diplomacy !== 'hostile') return false;
+  // 同盟、停战势力不可攻击，关系越好所需胜率越高
+  const requiredProbability = getRequiredAttackProbability(
+    gameState,
+    factionId,
+    targetCity.faction
+  );
+  if (requiredProbability === null) return false;
 
   // 找到可以发起攻击的己方城市
   for (const cityId of faction.cities) {
@@ -328,7 +818,7 @@ export function shouldAttack(
     // 评估攻击
     const evaluation = evaluateAttackTarget(city, targetCity, gameState);
     
-    if (evaluation.successProbability >= AI_WEIGHTS.MIN_ATTACK_SUCCESS_PROBABILITY) {
+    if (evaluation.successProbability >= requiredProbability) {
       return true;
     }
   }
@@ -386,7 +876,35 @@ export function makeDecision(
   if (!faction) return [];
 
   const actions: AIAction[] = [];
-  let remainingAP = 3; // AI每回合也有3点行动力
+  // AI每回合也有3点行动力，上回合派出援军则相应扣除
+  let remainingAP = Math.max(0, 3 - getReinforcementAPCost(gameState, factionId));
+
+  // 0. 外交：危急时议和、背盟、合纵或结盟，每回合至多遣使一次
+  if (remainingAP >= 1) {
+    const diplomacy = decideDiplomacy(factionId, gameState);
+    if (diplomacy) {
+      actions.push(diplomacy);
+      remainingAP -= 1;
+    }
+  }
+
+  // 0.5 人事：赏赐忠诚低落的武将，或挖角邻国敌将，每回合至多一次
+  if (remainingAP >= 1) {
+    const personnel = decidePersonnel(factionId, gameState);
+    if (personnel) {
+      actions.push(personnel);
+      remainingAP -= 1;
+    }
+  }
+
+  // 0.6 调动：将后方兵马调往前线，每回合至多一次
+  if (remainingAP >= 1) {
+    const movement = decideMovement(factionId, gameState);
+    if (movement) {
+      actions.push(movement);
+      remainingAP -= 1;
+    }
+  }
 
   // 遍历所有己方城市
   for (const cityId of faction.cities) {
@@ -397,12 +915,13 @@ export function makeDecision(
 
     // 1. 优先级：检查是否需要征兵
     if (shouldRecruit(cityId, gameState) && remainingAP >= 1) {
-      const general = getBestPoliticsGeneral(city, gameState.generals);
+      const general = getBestRecruiter(city, gameState);
       if (general && city.resources.gold >= 1000 && city.resources.population >= 500) {
         actions.push({
           type: 'recruit',
           cityId,
           generalId: general.id,
+          troopType: chooseRecruitTroopType(city, gameState),
         });
         remainingAP -= 1;
         continue;
@@ -414,7 +933,7 @@ export function makeDecision(
       const attackTarget = findBestAttackTarget(city, faction, gameState);
       if (attackTarget) {
         const attacker = getStrongestGeneral(city, gameState.generals);
-        if (attacker && attacker.troops >= 1000) {
+        if (attacker && attacker.troops >= 1000 && !isGeneralMarching(gameState, attacker.id)) {
           actions.push({
             type: 'attack',
             fromCity: cityId,
@@ -450,8 +969,298 @@ export function makeDecision(
   return actions;
 }
 
+/**
+ * 判断近期是否已向对方遣使（冷却期内或仍有待答复的提议）
+ */
+function hasRecentDiplomacy(gameState: GameState, factionId: string, targetFactionId: string): boolean {
+  if (getDiplomacyProposals(gameState).some(p => p.from === factionId && p.to === targetFactionId)) {
+    return true;
+  }
+
+  const { year, month } = gameState.currentDate;
+  const now = year * 12 + month;
+  return gameState.eventLog.some(event => {
+    if (event.type !== 'diplomacy') return false;
+    const data = event.data as DiplomacyEventData;
+    const elapsed = now - (event.timestamp.year * 12 + event.timestamp.month);
+    return (
+      data.faction === factionId &&
+      data.target === targetFactionId &&
+      elapsed < AI_WEIGHTS.DIPLOMACY_COOLDOWN_MONTHS
+    );
+  });
+}
+
+/**
+ * 为外交行动选出使者（魅力与政治之和最高、所在城市足以支付遣使金钱）
+ * @returns 通过校验的外交行动，无合适使者时返回null
+ */
+function createDiplomacyAction(
+  faction: Faction,
+  action: DiplomacyActionType,
+  targetFactionId: string,
+  gameState: GameState
+): Extract<AIAction, { type: 'diplomacy' }> | null {
+  const envoys = faction.cities
+    .flatMap(cityId => getDiplomacyEnvoys(gameState, cityId, faction.id))
+    .sort(
+      (a, b) =>
+        b.attributes.cha + b.attributes.pol - (a.attributes.cha + a.attributes.pol)
+    );
+
+  for (const envoy of envoys) {
+    const order: DiplomacyOrder = { action, envoyId: envoy.id, targetFactionId };
+    if (validateDiplomacyOrder(order, gameState, faction.id) === null) {
+      return { type: 'diplomacy', ...order };
+    }
+  }
+  return null;
+}
+
+/**
+ * 找出令己方城市危急的敌对势力（其邻城兵力超过己方城市兵力的危急倍数）
+ * @returns 按危急程度降序排列的势力ID
+ */
+function findDangerousFactions(faction: Faction, gameState: GameState): string[] {
+  const danger: Record<string, number> = {};
+
+  for (const cityId of faction.cities) {
+    const city = gameState.cities[cityId];
+    if (!city) continue;
+    const troops = Math.max(1, calculateCityTroops(city, gameState.generals));
+
+    const byFaction: Record<string, number> = {};
+    for (const threat of evaluateThreat(cityId, gameState)) {
+      byFaction[threat.factionId] = (byFaction[threat.factionId] ?? 0) + threat.troops;
+    }
+    for (const [enemyId, enemyTroops] of Object.entries(byFaction)) {
+      if (enemyTroops > troops * AI_WEIGHTS.TRUCE_DANGER_RATIO) {
+        danger[enemyId] = Math.max(danger[enemyId] ?? 0, enemyTroops / troops);
+      }
+    }
+  }
+
+  return Object.keys(danger).sort((a, b) => danger[b] - danger[a]);
+}
+
+/**
+ * 找出值得背弃的盟友：己方邻城攻打其城市的胜率足够高，背盟后信誉尚可，
+ * 且天下有霸主时该盟友不在合纵之列（背弃霸主则无妨）
+ */
+function findBackstabTarget(faction: Faction, gameState: GameState): string | null {
+  const reputation = getFactionReputation(gameState, faction.id) - BREAK_TREATY_REPUTATION_PENALTY;
+  if (reputation < AI_WEIGHTS.BACKSTAB_MIN_REPUTATION) return null;
+
+  const leader = getLeadingFaction(gameState);
+  let best: { factionId: string; probability: number } | null = null;
+
+  for (const cityId of faction.cities) {
+    const city = gameState.cities[cityId];
+    if (!city) continue;
+
+    for (const connectedCityId of city.connectedCities) {
+      const target = gameState.cities[connectedCityId];
+      if (!target || target.faction === faction.id) continue;
+      if (getDiplomacyStatus(gameState, faction.id, target.faction) !== 'ally') continue;
+      if (leader !== null && leader !== target.faction) continue;
+
+      const { successProbability } = evaluateAttackTarget(city, target, gameState);
+      if (
+        successProbability >= AI_WEIGHTS.BACKSTAB_SUCCESS_PROBABILITY &&
+        (!best || successProbability > best.probability)
+      ) {
+        best = { factionId: target.faction, probability: successProbability };
+      }
+    }
+  }
+
+  return best?.factionId ?? null;
+}
+
+/**
+ * 找出结盟对象：天下有霸主时与其余中立诸侯合纵相抗，
+ * 否则与关系良好且有共同敌人的中立势力结盟
+ * @returns 按关系值降序排列的势力ID
+ */
+function findAllianceCandidates(faction: Faction, gameState: GameState): string[] {
+  const leader = getLeadingFaction(gameState);
+  const coalition = leader !== null && leader !== faction.id;
+
+  return Object.values(gameState.factions)
+    .filter(
+      other =>
+        other.id !== faction.id &&
+        other.id !== leader &&
+        other.cities.length > 0 &&
+        getDiplomacyStatus(gameState, faction.id, other.id) === 'neutral' &&
+        (coalition ||
+          (getRelation(gameState, faction.id, other.id) >= AI_WEIGHTS.ALLIANCE_PROPOSAL_RELATION &&
+            getSharedEnemies(gameState, faction.id, other.id).length > 0))
+    )
+    .sort(
+      (a, b) => getRelation(gameState, faction.id, b.id) - getRelation(gameState, faction.id, a.id)
+    )
+    .map(other => other.id);
+}
+
+/**
+ * 决定AI势力本回合的外交行动
+ * 优先级：危急时向强敌议和 → 有利可图时背弃盟友 → 合纵抗衡霸主或与友邦结盟
+ * 冷却期内不会再向同一势力遣使
+ * @param factionId - 势力ID
+ * @param gameState - 游戏状态
+ * @returns 外交行动，无需遣使时返回null
+ */
+export function decideDiplomacy(
+  factionId: string,
+  gameState: GameState
+): Extract<AIAction, { type: 'diplomacy' }> | null {
+  const faction = gameState.factions[factionId];
+  if (!faction || faction.cities.length === 0) return null;
+
+  const candidates: Array<[DiplomacyActionType, string]> = [
+    ...findDangerousFactions(faction, gameState).map(
+      (id): [DiplomacyActionType, string] => ['truce', id]
+    ),
+  ];
+  const backstab = findBackstabTarget(faction, gameState);
+  if (backstab) candidates.push(['break_treaty', backstab]);
+  candidates.push(
+    ...findAllianceCandidates(faction, gameState).map(
+      (id): [DiplomacyActionType, string] => ['alliance', id]
+    )
+  );
+
+  for (const [action, targetFactionId] of candidates) {
+    if (hasRecentDiplomacy(gameState, factionId, targetFactionId)) continue;
+    const decision = createDiplomacyAction(faction, action, targetFactionId, gameState);
+    if (decision) return decision;
+  }
+  return null;
+}
+
+/**
+ * 决定AI势力本回合的人事行动
+ * 优先赏赐忠诚最低的己方武将（自其驻守城市出资）；无需赏赐时，
+ * 由各城魅力最高的武将游说相邻非盟国城市中成功率最高的敌将
+ * @param factionId - 势力ID
+ * @param gameState - 游戏状态
+ * @returns 人事行动，无需赏赐且无可挖角敌将时返回null
+ */
+export function decidePersonnel(
+  factionId: string,
+  gameState: GameState
+): Extract<AIAction, { type: 'personnel' }> | null {
+  const faction = gameState.factions[factionId];
+  if (!faction || faction.cities.length === 0) return null;
+
+  const disloyal = getRewardableGenerals(gameState, factionId)
+    .filter(g => getGeneralLoyalty(gameState, g) < AI_WEIGHTS.REWARD_LOYALTY_THRESHOLD)
+    .sort((a, b) => getGeneralLoyalty(gameState, a) - getGeneralLoyalty(gameState, b));
+  for (const general of disloyal) {
+    const order: PersonnelOrder = {
+      action: 'reward',
+      generalId: general.id,
+      cityId: general.currentCity,
+      gold: AI_WEIGHTS.REWARD_GOLD,
+    };
+    if (validatePersonnelOrder(order, gameState, factionId) === null) {
+      return { type: 'personnel', ...order };
+    }
+  }
+
+  let best: { order: PersonnelOrder; chance: number } | null = null;
+  for (const cityId of faction.cities) {
+    const city = gameState.cities[cityId];
+    if (!city) continue;
+
+    const envoy = city.stationedGenerals
+      .map(id => gameState.generals[id])
+      .filter((g): g is General => g !== undefined && g.isAlive && g.faction === factionId)
+      .sort((a, b) => b.attributes.cha - a.attributes.cha)[0];
+    if (!envoy) continue;
+
+    for (const target of getPoachTargets(gameState, cityId)) {
+      if (getDiplomacyStatus(gameState, factionId, target.faction) === 'ally') continue;
+      const order: PersonnelOrder = {
+        action: 'poach',
+        generalId: target.id,
+        cityId,
+        gold: AI_WEIGHTS.POACH_GOLD,
+        envoyId: envoy.id,
+      };
+      if (validatePersonnelOrder(order, gameState, factionId) !== null) continue;
+      const chance = calculatePoachChance(order, gameState, factionId);
+      if (chance >= AI_WEIGHTS.POACH_MIN_CHANCE && (!best || chance > best.chance)) {
+        best = { order, chance };
+      }
+    }
+  }
+
+  return best ? { type: 'personnel', ...best.order } : null;
+}
+
+/**
+ * 判断城市是否为前线城市（与他国或无主城市接壤）
+ */
+function isFrontierCity(gameState: GameState, cityId: string): boolean {
+  const city = gameState.cities[cityId];
+  if (!city) return false;
+  return city.connectedCities.some(id => gameState.cities[id]?.faction !== city.faction);
+}
+
+/**
+ * 决定AI势力本回合的兵力调动
+ * 后方城市（不与他国接壤）中兵力最多的武将率部调往最近的前线城市，后方城市至少留一名武将理政；
+ * 多座后方城市可调动时，取兵力最多者
+ * @param factionId - 势力ID
+ * @param gameState - 游戏状态
+ * @returns 调动行动，无前线城市或后方无兵可调时返回null
+ */
+export function decideMovement(
+  factionId: string,
+  gameState: GameState
+): Extract<AIAction, { type: 'movement' }> | null {
+  const faction = gameState.factions[factionId];
+  if (!faction) return null;
+
+  const frontier = faction.cities.filter(id => isFrontierCity(gameState, id));
+  if (frontier.length === 0) return null;
+
+  let best: { order: MovementOrder; troops: number } | null = null;
+  for (const cityId of faction.cities) {
+    const city = gameState.cities[cityId];
+    if (!city || isFrontierCity(gameState, cityId) || city.stationedGenerals.length < 2) continue;
+
+    const general = getMovableGenerals(gameState, cityId)
+      .filter(g => g.troops >= AI_WEIGHTS.MOVEMENT_MIN_TROOPS)
+      .sort((a, b) => b.troops - a.troops)[0];
+    if (!general || (best && general.troops <= best.troops)) continue;
+
+    const route = frontier
+      .map(id => findMovementRoute(gameState, factionId, cityId, id))
+      .filter((r): r is string[] => r !== null)
+      .sort((a, b) => a.length - b.length)[0];
+    if (!route) continue;
+
+    const order: MovementOrder = {
+      fromCityId: cityId,
+      toCityId: route[route.length - 1],
+      generalIds: [general.id],
+      gold: 0,
+      grain: 0,
+    };
+    if (validateMovementOrder(order, gameState, factionId) === null) {
+      best = { order, troops: general.troops };
+    }
+  }
+
+  return best ? { type: 'movement', ...best.order } : null;
+}
+
 /**
  * 找到最佳攻击目标
+ * 目标评分按关系值加权：关系越差越优先，关系越好所需胜率越高
  * @param fromCity - 出发城市
  * @param faction - 势力
  * @param gameState - 游戏状态
@@ -468,17 +1277,25 @@ export function findBestAttackTarget(
     const targetCity = gameState.cities[connectedCityId];
     if (!targetCity) continue;
 
-    // 只攻击敌对势力
-    const diplomacy = faction.diplomacy[targetCity.faction];
-    if (diplomacy !== 'hostile') continue;
+    // 同盟、停战势力不可攻击
+    const requiredProbability = getRequiredAttackProbability(
+      gameState,
+      faction.id,
+      targetCity.faction
+    );
+    if (requiredProbability === null) continue;
 
-    const evaluation = evaluateAttackTarget(fromCity, targetCity, gameState);
+    const base = evaluateAttackTarget(fromCity, targetCity, gameState);
     
     // 只考虑胜率足够高的目标
-    if (evaluation.successProbability < AI_WEIGHTS.MIN_ATTACK_SUCCESS_PROBABILITY) {
+    if (base.successProbability < requiredProbability) {
       continue;
     }
 
+    // 关系值 -100 时评分加倍，0 时不变，100 时归零
+    const relation = getRelation(gameState, faction.id, targetCity.faction);
+    const evaluation = { ...base, score: (base.score * (RELATION_MAX - relation)) / RELATION_MAX };
+
     if (!bestTarget || evaluation.score > bestTarget.score) {
       bestTarget = evaluation;
     }
@@ -488,13 +1305,6 @@ export function findBestAttackTarget(
 }
 
 
-/**
- * 生成唯一事件ID
- */
-function generateEventId(): string {
-  return `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-}
-
 /**
  * 执行AI征兵行动并生成事件
  * @param action - 征兵行动
@@ -509,24 +1319,30 @@ export function executeAIRecruit(
   const general = gameState.generals[action.generalId];
   
   if (!city || !general) return null;
-
-  // 计算征兵数量
-  const soldiersGained = calculateRecruitmentSoldiers(
-    general.attributes.lead,
-    general.attributes.cha
+  if (!getTrainableTroopTypes(city).includes(action.troopType)) return null;
+
+  // 计算征兵数量（仁德加成，不超过官阶上限）
+  const capacity = getRecruitCapacity(gameState, general);
+  if (capacity <= 0) return null;
+  const soldiersGained = Math.min(
+    capacity,
+    calculateRecruitmentSoldiers(
+      general.attributes.lead,
+      general.attributes.cha,
+      getRecruitmentMultiplier(general.skills)
+    )
   );
+  const skills = getRecruitmentSkills(general);
 
-  // 检查资源是否足够
-  const goldNeeded = soldiersGained * 2;
-  const populationNeeded = soldiersGained;
-  
-  if (city.resources.gold < goldNeeded || city.resources.population < populationNeeded) {
+  // 检查资源是否足够（按兵种计算消耗）
+  const cost = calculateRecruitmentCost(soldiersGained, action.troopType);
+  if (city.resources.gold < cost.gold || city.resources.population < cost.population) {
     return null;
   }
 
   // 生成内政事件
   const event: GameEvent = {
-    id: generateEventId(),
+    id: generateId('event'),
     type: 'domestic',
     timestamp: { ...gameState.currentDate },
     data: {
@@ -534,6 +1350,8 @@ export function executeAIRecruit(
       action: 'recruit',
       executor: action.generalId,
       value: soldiersGained,
+      troopType: action.troopType,
+      skills: skills.length > 0 ? skills : undefined,
     } as DomesticEventData,
   };
 
@@ -558,15 +1376,21 @@ export function executeAIDevelop(
   // 检查金钱是否足够
   if (city.resources.gold < 100) return null;
 
-  // 计算增长值
+  // 计算增长值（屯田加成；城防上限仅100，增幅减半）
   const randomValue = Math.floor(Math.random() * 5) + 1;
-  const valueIncrease = Math.floor(general.attributes.pol / 5) + randomValue;
+  const baseIncrease = calculateDevelopmentIncrease(
+    general.attributes.pol,
+    randomValue,
+    getDevelopmentMultiplier(general.skills, action.target)
+  );
+  const valueIncrease = action.target === 'defense' ? Math.ceil(baseIncrease / 2) : baseIncrease;
+  const skills = getDevelopmentSkills(general, action.target);
 
   // 生成内政事件
-  const actionType = action.target === 'commerce' ? 'develop_commerce' : 'develop_agriculture';
+  const actionType = `develop_${action.target}` as const;
   
   const event: GameEvent = {
-    id: generateEventId(),
+    id: generateId('event'),
     type: 'domestic',
     timestamp: { ...gameState.currentDate },
     data: {
@@ -574,6 +1398,7 @@ export function executeAIDevelop(
       action: actionType,
       executor: action.generalId,
       value: valueIncrease,
+      skills: skills.length > 0 ? skills : undefined,
     } as DomesticEventData,
   };
 
@@ -589,61 +1414,55 @@ export function executeAIDevelop(
 export function executeAIAttack(
   action: Extract<AIAction, { type: 'attack' }>,
   gameState: GameState
-): { event: GameEvent; result: 'win' | 'lose' | 'draw' } | null {
+): {
+  event: GameEvent;
+  result: 'win' | 'lose' | 'draw';
+  battle: BattleResolution;
+  captured: string[];
+  reinforcements: Reinforcement[];
+} | null {
   const fromCity = gameState.cities[action.fromCity];
   const toCity = gameState.cities[action.toCity];
   const attacker = gameState.generals[action.generalId];
   
   if (!fromCity || !toCity || !attacker) return null;
-
-  // 获取防守方主将
-  const defender = getStrongestGeneral(toCity, gameState.generals);
-  
-  // 计算战斗结果（简化版）
-  const attackerTroops = attacker.troops;
-  const attackPower = calculateAttackPower(
-    attackerTroops,
-    attacker.attributes.war,
-    attacker.attributes.lead
+  if (isGeneralMarching(gameState, attacker.id)) return null;
+
+  // 守方寡不敌众时向邻城求援
+  const reinforcements = findReinforcements(
+    gameState,
+    action.toCity,
+    fromCity.faction,
+    attacker.troops
   );
-
-  let defensePower = toCity.resources.defense;
-  let defenderTroops = 0;
-  
-  if (defender) {
-    defenderTroops = calculateCityTroops(toCity, gameState.generals);
-    defensePower = calculateDefensePower(
-      defenderTroops,
-      defender.attributes.lead,
-      defender.attributes.int,
-      toCity.resources.defense
-    );
-  }
-
-  // 简化的战斗结果判定
-  const powerRatio = defensePower > 0 ? attackPower / defensePower : 10;
-  let result: 'win' | 'lose' | 'draw';
-  
-  if (powerRatio > 1.5) {
-    result = 'win';
-  } else if (powerRatio < 0.67) {
-    result = 'lose';
-  } else {
-    result = Math.random() > 0.5 ? 'win' : 'lose';
-  }
-
-  // 计算伤亡
-  const baseCasualties = Math.floor(Math.min(attackerTroops, defenderTroops) * 0.1);
-  const attackerCasualties = result === 'win' 
-    ? Math.floor(baseCasualties * 0.8) 
-    : Math.floor(baseCasualties * 1.2);
-  const defenderCasualties = result === 'win' 
-    ? Math.floor(baseCasualties * 1.2) 
-    : Math.floor(baseCasualties * 0.8);
+  const defending = getDefendingForce(toCity, reinforcements, gameState);
+  const defender = defending.commander;
+
+  // 多回合战斗结算
+  const battle = resolveBattle({
+    attacker: toBattleCommander(attacker),
+    attackerTroops: attacker.troops,
+    attackerComposition: getTroopComposition(attacker),
+    attackerMorale: calculateCityArmyMorale(
+      [attacker],
+      fromCity,
+      gameState.factions[fromCity.faction]
+    ),
+    defender: defender ? toBattleCommander(defender) : null,
+    defenderTroops: defending.troops,
+    defenderComposition: defending.composition,
+    defenderMorale: defending.morale,
+    cityDefense: toCity.resources.defense,
+  });
+  const result = battle.result;
+  const captured = rollCaptures(gameState, battle, {
+    toCityId: action.toCity,
+    generalIds: [action.generalId],
+  });
 
   // 生成战斗事件
   const event: GameEvent = {
-    id: generateEventId(),
+    id: generateId('event'),
     type: 'battle',
     timestamp: { ...gameState.currentDate },
     data: {
@@ -653,14 +1472,32 @@ export function executeAIAttack(
       defenderGeneral: defender?.id || '',
       result,
       casualties: {
-        attacker: attackerCasualties,
-        defender: defenderCasualties,
+        attacker: battle.attackerCasualties,
+        defender: battle.defenderCasualties,
+      },
+      casualtiesByType: {
+        attacker: battle.attackerCasualtiesByType,
+        defender: battle.defenderCasualtiesByType,
       },
+      duel: battle.duel.triggered
+        ? {
+            occurred: true,
+            winner: battle.duel.winner,
+            instantKill: battle.duel.instantKill,
+          }
+        : undefined,
       cityCapture: result === 'win' ? action.toCity : undefined,
+      morale: { attacker: battle.attackerMorale, defender: battle.defenderMorale },
+      retreat: describeRetreat(gameState, battle, action.fromCity, action.toCity),
+      captured: captured.length > 0 ? captured : undefined,
+      reinforcements:
+        reinforcements.length > 0 ? reinforcements.map((r) => r.generalId) : undefined,
+      rounds: toBattleRoundRecords(battle.rounds, action.generalId, defender?.id || ''),
+      skills: battle.skills.length > 0 ? battle.skills : undefined,
     } as BattleEventData,
   };
 
-  return { event, result };
+  return { event, result, battle, captured, reinforcements };
 }
 
 
@@ -704,6 +1541,7 @@ export function executeAITurns(
               factionId,
               cityId: action.cityId,
               generalId: action.generalId,
+              troopType: action.troopType,
               value: result.soldiersGained,
             });
           }
@@ -735,7 +1573,71 @@ export function executeAITurns(
               toCityId: action.toCity,
               generalId: action.generalId,
               result: result.result,
+              attackerCasualties: result.battle.attackerCasualtiesByType,
+              defenderCasualties: result.battle.defenderCasualtiesByType,
+              captured: result.captured,
+              reinforcements: result.reinforcements,
+            });
+          }
+          break;
+        }
+        case 'diplomacy': {
+          const order: DiplomacyOrder = {
+            action: action.action,
+            envoyId: action.envoyId,
+            targetFactionId: action.targetFactionId,
+          };
+          // 向玩家的结盟、议和提议待玩家答复
+          if (action.targetFactionId === playerFactionId && isDiplomacyProposal(order.action)) {
+            stateUpdates.push({
+              type: 'diplomacy_proposal',
+              factionId,
+              proposal: {
+                id: generateId('proposal'),
+                from: factionId,
+                to: playerFactionId,
+                action: order.action,
+                envoyId: order.envoyId,
+                proposedAt: { ...gameState.currentDate },
+              },
             });
+            break;
+          }
+          const result = executeDiplomacy(order, gameState, factionId);
+          const event = createDiplomacyEvent(order, result, gameState);
+          if (event) {
+            events.push(event);
+            stateUpdates.push({ type: 'diplomacy', factionId, order, result });
+          }
+          break;
+        }
+        case 'personnel': {
+          const order: PersonnelOrder = {
+            action: action.action,
+            generalId: action.generalId,
+            cityId: action.cityId,
+            gold: action.gold,
+            envoyId: action.envoyId,
+          };
+          const result = executePersonnel(order, gameState, factionId);
+          if (result.success) {
+            const event = createPersonnelEvent(order, result, gameState);
+            if (event) events.push(event);
+            stateUpdates.push({ type: 'personnel', factionId, order, result });
+          }
+          break;
+        }
+        case 'movement': {
+          const order: MovementOrder = {
+            fromCityId: action.fromCityId,
+            toCityId: action.toCityId,
+            generalIds: action.generalIds,
+            gold: action.gold,
+            grain: action.grain,
+          };
+          const result = executeMovement(order, gameState, factionId);
+          if (result.success) {
+            stateUpdates.push({ type: 'movement', factionId, order, result });
           }
           break;
         }
@@ -755,6 +1657,7 @@ export type AIStateUpdate =
       factionId: string;
       cityId: string;
       generalId: string;
+      troopType: TroopType;
       value: number;
     }
   | {
@@ -762,7 +1665,7 @@ export type AIStateUpdate =
       factionId: string;
       cityId: string;
       generalId: string;
-      target: 'commerce' | 'agriculture';
+      target: 'commerce' | 'agriculture' | 'defense';
       value: number;
     }
   | {
@@ -772,6 +1675,38 @@ export type AIStateUpdate =
       toCityId: string;
       generalId: string;
       result: 'win' | 'lose' | 'draw';
+      /** 攻方各兵种伤亡 */
+      attackerCasualties: TroopComposition;
+      /** 守方各兵种伤亡 */
+      defenderCasualties: TroopComposition;
+      /** 被俘的败方武将ID列表 */
+      captured?: string[];
+      /** 守方援军 */
+      reinforcements?: Reinforcement[];
+    }
+  | {
+      type: 'diplomacy';
+      factionId: string;
+      order: DiplomacyOrder;
+      result: DiplomacyResult;
+    }
+  | {
+      type: 'diplomacy_proposal';
+      factionId: string;
+      /** 待玩家答复的提议 */
+      proposal: DiplomacyProposal;
+    }
+  | {
+      type: 'personnel';
+      factionId: string;
+      order: PersonnelOrder;
+      result: PersonnelResult;
+    }
+  | {
+      type: 'movement';
+      factionId: string;
+      order: MovementOrder;
+      result: MovementResult;
     };
 
 /**
@@ -785,7 +1720,7 @@ export function applyAIStateUpdates(
   updates: AIStateUpdate[]
 ): GameState {
   // 深拷贝状态
-  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  let newState: GameState = JSON.parse(JSON.stringify(gameState));
 
   for (const update of updates) {
     switch (update.type) {
@@ -793,14 +1728,13 @@ export function applyAIStateUpdates(
         const city = newState.cities[update.cityId];
         const general = newState.generals[update.generalId];
         if (city && general) {
-          // 扣除资源
-          const goldCost = update.value * 2;
-          const populationCost = update.value;
-          city.resources.gold -= goldCost;
-          city.resources.population -= populationCost;
+          // 扣除资源（按兵种计算消耗）
+          const cost = calculateRecruitmentCost(update.value, update.troopType);
+          city.resources.gold -= cost.gold;
+          city.resources.population -= cost.population;
           city.resources.loyalty = Math.max(0, city.resources.loyalty - 3);
           // 增加兵力
-          general.troops += update.value;
+          Object.assign(general, addTroopsOfType(general, update.troopType, update.value));
         }
         break;
       }
@@ -812,6 +1746,8 @@ export function applyAIStateUpdates(
           // 增加对应值
           if (update.target === 'commerce') {
             city.resources.commerce = Math.min(999, city.resources.commerce + update.value);
+          } else if (update.target === 'defense') {
+            city.resources.defense = Math.min(DEFENSE_MAX, city.resources.defense + update.value);
           } else {
             city.resources.agriculture = Math.min(999, city.resources.agriculture + update.value);
           }
@@ -819,52 +1755,145 @@ export function applyAIStateUpdates(
         break;
       }
       case 'attack': {
+        const attacker = newState.generals[update.generalId];
+        const toCity = newState.cities[update.toCityId];
+        if (!attacker || !toCity) break;
+
+        // 按兵种扣减双方兵力（援军与守军共同承担伤亡），援军势力下回合扣除行动力
+        const reinforcements = update.reinforcements ?? [];
+        applyCasualtiesByType([attacker], update.attackerCasualties);
+        applyCasualtiesByType(
+          [
+            ...getCityDefenders(toCity, newState.generals),
+            ...getReinforcementGenerals(newState, reinforcements),
+          ],
+          update.defenderCasualties
+        );
+        chargeReinforcementCosts(newState, reinforcements);
+
         if (update.result === 'win') {
-          const fromCity = newState.cities[update.fromCityId];
-          const toCity = newState.cities[update.toCityId];
-          const attacker = newState.generals[update.generalId];
-          
-          if (fromCity && toCity && attacker) {
-            const oldFaction = newState.factions[toCity.faction];
-            const newFaction = newState.factions[update.factionId];
-            
-            if (oldFaction && newFaction) {
-              // 更新城市归属
-              oldFaction.cities = oldFaction.cities.filter(c => c !== update.toCityId);
-              newFaction.cities.push(update.toCityId);
-              toCity.faction = update.factionId;
-              
-              // 移动攻击武将到新城市
-              fromCity.stationedGenerals = fromCity.stationedGenerals.filter(
-                g => g !== update.generalId
-              );
-              toCity.stationedGenerals.push(update.generalId);
-              attacker.currentCity = update.toCityId;
-              
-              // 俘获或驱逐敌方武将
-              for (const generalId of [...toCity.stationedGenerals]) {
-                const general = newState.generals[generalId];
-                if (general && general.faction !== update.factionId) {
-                  // 简化处理：敌方武将逃跑到其他城市
-                  const escapeCities = oldFaction.cities.filter(c => c !== update.toCityId);
-                  if (escapeCities.length > 0) {
-                    const escapeCity = escapeCities[0];
-                    toCity.stationedGenerals = toCity.stationedGenerals.filter(
-                      g => g !== generalId
-                    );
-                    newState.cities[escapeCity].stationedGenerals.push(generalId);
-                    general.currentCity = escapeCity;
-                  }
-                }
-              }
-            }
-          }
+          transferCityControl(newState, {
+            factionId: update.factionId,
+            fromCityId: update.fromCityId,
+            toCityId: update.toCityId,
+            generalIds: [update.generalId],
+            captured: update.captured,
+          });
+        } else if (update.result === 'lose' && update.captured) {
+          capturePrisoners(newState, update.captured, toCity.faction, toCity.id);
         }
         break;
       }
+      case 'diplomacy': {
+        newState = applyDiplomacyResult(newState, update.order, update.result);
+        break;
+      }
+      case 'diplomacy_proposal': {
+        newState.diplomacyProposals = [...getDiplomacyProposals(newState), update.proposal];
+        break;
+      }
+      case 'personnel': {
+        newState = applyPersonnelResult(newState, update.order, update.result);
+        break;
+      }
+      case 'movement': {
+        newState = applyMovementResult(newState, update.order, update.result);
+        break;
+      }
     }
   }
 
   return newState;
 }
 
+
+
+/**
+ * 城池易主参数
+ */
+export interface CityTransferParams {
+  /** 攻占方势力ID */
+  factionId: string;
+  /** 出发城市ID */
+  fromCityId: string;
+  /** 被攻占城市ID */
+  toCityId: string;
+  /** 入城武将ID列表 */
+  generalIds: string[];
+  /** 被俘守将ID列表 */
+  captured?: string[];
+}
+
+/**
+ * 将城池控制权转移给攻占方（直接修改传入的状态）
+ * 更新城市归属、势力城市列表，移动入城武将，俘获或驱逐守城敌将，移交城中俘虏
+ * @param state - 可修改的游戏状态副本
+ * @param params - 城池易主参数
+ */
+export function transferCityControl(state: GameState, params: CityTransferParams): void {
+  const { factionId, fromCityId, toCityId, generalIds } = params;
+  const fromCity = state.cities[fromCityId];
+  const toCity = state.cities[toCityId];
+  if (!fromCity || !toCity) return;
+
+  // 无主城市（势力覆灭后遗留）没有原势力
+  const oldFaction: Faction | undefined = state.factions[toCity.faction];
+  const newFaction = state.factions[factionId];
+  if (!newFaction) return;
+
+  // 更新城市归属
+  if (oldFaction) {
+    oldFaction.cities = oldFaction.cities.filter(c => c !== toCityId);
+  }
+  newFaction.cities.push(toCityId);
+  toCity.faction = factionId;
+
+  // 原太守与委任方针随城易主作废
+  toCity.governor = null;
+  delete toCity.delegation;
+
+  // 移动攻击武将到新城市（两路夹击时另一路自其所在城市入城）
+  for (const generalId of generalIds) {
+    const general = state.generals[generalId];
+    if (!general) continue;
+    const originCity = state.cities[general.currentCity] ?? fromCity;
+    originCity.stationedGenerals = originCity.stationedGenerals.filter(g => g !== generalId);
+    toCity.stationedGenerals.push(generalId);
+    general.currentCity = toCityId;
+  }
+
+  // 城中关押的俘虏随城易手
+  transferCityPrisoners(state, toCityId, factionId);
+
+  // 被俘守将关押于城中
+  capturePrisoners(state, params.captured ?? [], factionId, toCityId);
+
+  // 守军败退：退守相邻己方城市；无路可退则全军溃散，武将只身逃往其他城市，无处可逃则被俘
+  const retreatCity = oldFaction ? findRetreatCity(state, toCityId, oldFaction.id) : null;
+  for (const generalId of [...toCity.stationedGenerals]) {
+    const general = state.generals[generalId];
+    if (general && general.faction !== factionId) {
+      if (!retreatCity) {
+        general.troops = 0;
+        general.troopTypes = createComposition();
+      }
+      const escapeCity = retreatCity ?? oldFaction?.cities.find(c => c !== toCityId);
+      if (escapeCity) {
+        toCity.stationedGenerals = toCity.stationedGenerals.filter(g => g !== generalId);
+        state.cities[escapeCity].stationedGenerals.push(generalId);
+        general.currentCity = escapeCity;
+      } else {
+        capturePrisoners(state, [generalId], factionId, toCityId);
+      }
+    }
+  }
+
+  // 解除已失去意义的围城：攻占方对该城的围城、以该城为出发城市的围城
+  if (state.sieges) {
+    state.sieges = state.sieges.filter(
+      siege =>
+        siege.campCityId !== toCityId &&
+        !(siege.targetCityId === toCityId && siege.attackerFaction === factionId)
+    );
+  }
+}
@@ -7,6 +7,10 @@ import {
   checkDuel,
   checkInstantKill,
   applyHighLeadReduction,
+  resolveBattle,
+  simulateBattle,
+  createSeededRandom,
+  type BattleCommander,
   DUEL_TRIGGER_PROBABILITY,
   INSTANT_KILL_PROBABILITY,
   DUEL_WAR_DIFF_THRESHOLD,
@@ -15,7 +19,10 @@ import {
   HIGH_LEAD_DAMAGE_REDUCTION,
   DAMAGE_RANDOM_MIN,
   DAMAGE_RANDOM_MAX,
+  MAX_BATTLE_ROUNDS,
+  BATTLE_BREAK_RATIO,
 } from './battle';
+import { ROUT_MORALE_THRESHOLD } from './morale';
 import { ATTRIBUTE_MIN, ATTRIBUTE_MAX } from '../types/general';
 import { DEFENSE_MAX } from '../types/city';
 
@@ -486,3 +493,273 @@ describe('Property 20: 高统帅伤害减免', () => {
     );
   });
 });
+
+
+// 参战主将生成器
+const commanderArb = (id: string): fc.Arbitrary<BattleCommander> =>
+  fc.record({
+    id: fc.constant(id),
+    lead: validAttributeArb,
+    war: validAttributeArb,
+    int: validAttributeArb,
+  });
+
+// 可复现的随机数序列生成器
+const randomSequenceArb = fc
+  .array(fc.double({ min: 0, max: 0.999, noNaN: true }), { minLength: 1, maxLength: 50 })
+  .map((values) => {
+    let index = 0;
+    return () => values[index++ % values.length];
+  });
+
+/**
+ * **Feature: sanguo-190, Property 22: 多回合战斗结算**
+ * *For any* 双方兵力与主将属性，战斗回合数不超过上限，伤亡非负且不超过初始兵力，
+ * 逐回合伤亡之和等于总伤亡，且败方兵力跌破溃败阈值或士气崩溃；
+ * 每回合交锋前判定单挑，一场战斗至多单挑一次。
+ */
+describe('Property 22: 多回合战斗结算', () => {
+  it('should hold at most one duel per battle', () => {
+    fc.assert(
+      fc.property(
+        commanderArb('attacker'),
+        commanderArb('defender'),
+        validTroopsArb,
+        validTroopsArb,
+        randomSequenceArb,
+        (attacker, defender, attackerTroops, defenderTroops, random) => {
+          const battle = resolveBattle({
+            attacker,
+            attackerTroops,
+            defender,
+            defenderTroops,
+            cityDefense: 0,
+            random,
+          });
+
+          const duelRounds = battle.rounds.filter((round) => round.duel);
+          expect(duelRounds.length).toBe(battle.duel.triggered ? 1 : 0);
+          if (battle.duel.instantKill) {
+            expect(battle.rounds[battle.rounds.length - 1].duel).toEqual(battle.duel);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should roll the duel again in later rounds when none broke out', () => {
+    // 首回合未触发单挑，次回合触发；此后的随机值若再判定便会每回合触发
+    const values = [0.999, 0.999, 0.5, 0.5, 0.5, 0, 0.999, 0.5];
+    let index = 0;
+    const random = () => (index < values.length ? values[index++] : 0);
+    const commander = (id: string): BattleCommander => ({ id, lead: 50, war: 50, int: 50 });
+
+    const battle = resolveBattle({
+      attacker: commander('attacker'),
+      attackerTroops: 10000,
+      defender: commander('defender'),
+      defenderTroops: 10000,
+      cityDefense: 0,
+      random,
+    });
+
+    expect(battle.rounds.length).toBeGreaterThan(2);
+    expect(battle.rounds[0].duel).toBeUndefined();
+    expect(battle.rounds[1].duel?.triggered).toBe(true);
+    expect(battle.rounds.filter((round) => round.duel)).toHaveLength(1);
+    expect(battle.duel).toEqual(battle.rounds[1].duel);
+  });
+
+  it('should keep casualties within troops and rounds within limit', () => {
+    fc.assert(
+      fc.property(
+        commanderArb('attacker'),
+        commanderArb('defender'),
+        validTroopsArb,
+        validTroopsArb,
+        validDefenseArb,
+        randomSequenceArb,
+        (attacker, defender, attackerTroops, defenderTroops, cityDefense, random) => {
+          const battle = resolveBattle({
+            attacker,
+            attackerTroops,
+            defender,
+            defenderTroops,
+            cityDefense,
+            random,
+          });
+
+          expect(battle.rounds.length).toBeLessThanOrEqual(MAX_BATTLE_ROUNDS);
+          expect(battle.attackerCasualties).toBeGreaterThanOrEqual(0);
+          expect(battle.defenderCasualties).toBeGreaterThanOrEqual(0);
+          expect(battle.attackerCasualties).toBeLessThanOrEqual(attackerTroops);
+          expect(battle.defenderCasualties).toBeLessThanOrEqual(defenderTroops);
+          expect(battle.attackerRemaining).toBe(attackerTroops - battle.attackerCasualties);
+          expect(battle.defenderRemaining).toBe(defenderTroops - battle.defenderCasualties);
+
+          const roundAttackerLoss = battle.rounds.reduce((s, r) => s + r.attackerCasualties, 0);
+          const roundDefenderLoss = battle.rounds.reduce((s, r) => s + r.defenderCasualties, 0);
+          expect(roundAttackerLoss).toBe(battle.attackerCasualties);
+          expect(roundDefenderLoss).toBe(battle.defenderCasualties);
+
+          if (battle.result === 'draw') {
+            expect(battle.rounds.length).toBe(MAX_BATTLE_ROUNDS);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should apply high lead reduction to the side with lead >= 90', () => {
+    fc.assert(
+      fc.property(
+        commanderArb('attacker'),
+        commanderArb('defender'),
+        validTroopsArb,
+        validTroopsArb,
+        randomSequenceArb,
+        (attacker, defender, attackerTroops, defenderTroops, random) => {
+          const battle = resolveBattle({
+            attacker,
+            attackerTroops,
+            defender,
+            defenderTroops,
+            cityDefense: 0,
+            random,
+          });
+
+          for (const round of battle.rounds) {
+            if (round.duel?.instantKill) continue;
+            expect(round.defenderDamageReduced).toBe(defender.lead >= HIGH_LEAD_THRESHOLD);
+            expect(round.attackerDamageReduced).toBe(attacker.lead >= HIGH_LEAD_THRESHOLD);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should win without casualties against an empty city', () => {
+    fc.assert(
+      fc.property(commanderArb('attacker'), validTroopsArb, validDefenseArb, (attacker, troops, def) => {
+        const battle = resolveBattle({
+          attacker,
+          attackerTroops: troops,
+          defender: null,
+          defenderTroops: 0,
+          cityDefense: def,
+        });
+        expect(battle.result).toBe('win');
+        expect(battle.attackerCasualties).toBe(0);
+        expect(battle.rounds).toHaveLength(0);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should end with the loser below the break threshold or routed', () => {
+    fc.assert(
+      fc.property(
+        commanderArb('attacker'),
+        commanderArb('defender'),
+        validTroopsArb,
+        validTroopsArb,
+        randomSequenceArb,
+        (attacker, defender, attackerTroops, defenderTroops, random) => {
+          const battle = resolveBattle({
+            attacker,
+            attackerTroops,
+            defender,
+            defenderTroops,
+            cityDefense: 0,
+            random,
+          });
+          if (battle.duel.instantKill) return;
+
+          if (battle.result === 'win') {
+            expect(
+              battle.defenderRemaining <= defenderTroops * BATTLE_BREAK_RATIO ||
+                battle.defenderMorale <= ROUT_MORALE_THRESHOLD
+            ).toBe(true);
+          } else if (battle.result === 'lose') {
+            expect(
+              battle.attackerRemaining <= attackerTroops * BATTLE_BREAK_RATIO ||
+                battle.attackerMorale <= ROUT_MORALE_THRESHOLD
+            ).toBe(true);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+/**
+ * **Feature: sanguo-190, Property 28: 战况预测**
+ * *For any* 战斗局面与随机种子，预测的胜率与单挑概率在0-1之间，
+ * 预期伤亡不超过双方兵力，且相同种子的预测结果完全一致。
+ */
+describe('Property 28: 战况预测', () => {
+  it('should produce repeatable values within range for a seed', () => {
+    fc.assert(
+      fc.property(fc.integer(), fc.integer({ min: 1, max: 100 }), (seed, count) => {
+        const first = createSeededRandom(seed);
+        const second = createSeededRandom(seed);
+        for (let i = 0; i < count; i++) {
+          const value = first();
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThan(1);
+          expect(second()).toBe(value);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should keep forecast within bounds and repeatable for the same seed', () => {
+    fc.assert(
+      fc.property(
+        commanderArb('attacker'),
+        commanderArb('defender'),
+        validTroopsArb,
+        validTroopsArb,
+        validDefenseArb,
+        fc.integer(),
+        (attacker, defender, attackerTroops, defenderTroops, cityDefense, seed) => {
+          const input = { attacker, attackerTroops, defender, defenderTroops, cityDefense };
+          const forecast = simulateBattle(input, 20, seed);
+
+          expect(forecast.simulations).toBe(20);
+          expect(forecast.winProbability).toBeGreaterThanOrEqual(0);
+          expect(forecast.winProbability).toBeLessThanOrEqual(1);
+          expect(forecast.duelProbability).toBeGreaterThanOrEqual(0);
+          expect(forecast.duelProbability).toBeLessThanOrEqual(1);
+          expect(forecast.expectedAttackerCasualties).toBeGreaterThanOrEqual(0);
+          expect(forecast.expectedAttackerCasualties).toBeLessThanOrEqual(attackerTroops);
+          expect(forecast.expectedDefenderCasualties).toBeGreaterThanOrEqual(0);
+          expect(forecast.expectedDefenderCasualties).toBeLessThanOrEqual(defenderTroops);
+          expect(simulateBattle(input, 20, seed)).toEqual(forecast);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should always predict victory against an empty city', () => {
+    fc.assert(
+      fc.property(commanderArb('attacker'), validTroopsArb, fc.integer(), (attacker, troops, seed) => {
+        const forecast = simulateBattle(
+          { attacker, attackerTroops: troops, defender: null, defenderTroops: 0, cityDefense: 0 },
+          10,
+          seed
+        );
+        expect(forecast.winProbability).toBe(1);
+        expect(forecast.duelProbability).toBe(0);
+        expect(forecast.expectedAttackerCasualties).toBe(0);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -3,6 +3,29 @@
  * @module systems/battle
  */
 
+import type { TroopComposition, TroopType } from '../types/troop';
+import type { BattleEventData, BattleRoundRecord } from '../types/events';
+import type { SkillId, SkillTrigger } from '../types/skill';
+import { TROOP_TYPES } from '../types/troop';
+import {
+  SIEGE_CITY_DEFENSE_REDUCTION,
+  TROOP_TYPE_STATS,
+  createComposition,
+  getCounterMultiplierAgainst,
+  splitLossByType,
+  sumComposition,
+} from './troops';
+import {
+  BASE_ARMY_MORALE,
+  DUEL_MORALE_SWING,
+  INSTANT_KILL_MORALE_BONUS,
+  MORALE_MIN,
+  calculateCasualtyMoraleLoss,
+  clampMorale,
+  isRouted,
+} from './morale';
+import { applyCasualtySkills, getAttackMultiplier, getDuelWar, hasSkill } from './skills';
+
 /**
  * 单挑结果接口
  */
@@ -13,6 +36,10 @@ export interface DuelResult {
   instantKill: boolean;
   /** 胜利者ID (如果触发单挑) */
   winner?: string;
+  /** 单挑回合数（仅玩家亲自单挑） */
+  turns?: number;
+  /** 败方是否拨马而逃（仅玩家亲自单挑） */
+  retreated?: boolean;
 }
 
 /**
@@ -69,38 +96,50 @@ export const DAMAGE_RANDOM_MAX = 1.1;
 
 /**
  * 计算攻击力
- * 公式: 兵力 × (武力 × 0.4 + 统帅 × 0.6) ÷ 100
+ * 公式: 兵力 × (武力 × 0.4 + 统帅 × 0.6) ÷ 100 × 兵种攻击系数 × 特技倍率
  * **Validates: Requirements 6.1**
  * @param troops - 兵力
  * @param war - 武力值 (0-100)
  * @param lead - 统帅值 (0-100)
+ * @param troopType - 兵种（默认步兵，系数1.0）
+ * @param skills - 主将特技（神速提升攻击力）
  * @returns 攻击力
  */
 export function calculateAttackPower(
   troops: number,
   war: number,
-  lead: number
+  lead: number,
+  troopType: TroopType = 'infantry',
+  skills: SkillId[] = []
 ): number {
-  return (troops * (war * 0.4 + lead * 0.6)) / 100;
+  return (
+    ((troops * (war * 0.4 + lead * 0.6)) / 100) *
+    TROOP_TYPE_STATS[troopType].attack *
+    getAttackMultiplier(skills)
+  );
 }
 
 /**
  * 计算防御力
- * 公式: 兵力 × (统帅 × 0.8 + 智力 × 0.2) ÷ 100 + 城市防御度
+ * 公式: 兵力 × (统帅 × 0.8 + 智力 × 0.2) ÷ 100 × 兵种防御系数 + 城市防御度
  * **Validates: Requirements 6.2**
  * @param troops - 兵力
  * @param lead - 统帅值 (0-100)
  * @param int - 智力值 (0-100)
  * @param cityDefense - 城市防御度 (0-100)
+ * @param troopType - 兵种（默认步兵，系数1.0）
  * @returns 防御力
  */
 export function calculateDefensePower(
   troops: number,
   lead: number,
   int: number,
-  cityDefense: number
+  cityDefense: number,
+  troopType: TroopType = 'infantry'
 ): number {
-  return (troops * (lead * 0.8 + int * 0.2)) / 100 + cityDefense;
+  return (
+    ((troops * (lead * 0.8 + int * 0.2)) / 100) * TROOP_TYPE_STATS[troopType].defense + cityDefense
+  );
 }
 
 /**
@@ -294,3 +333,644 @@ export function executeDuelCheck(
     instantKill: false,
   };
 }
+
+/**
+ * 伤害换算伤亡的除数
+ * 伤亡 = 兵力 × 伤害 ÷ 3000，势均力敌时（伤害约300）每回合约折损一成
+ */
+export const CASUALTY_DAMAGE_DIVISOR = 3000;
+
+/**
+ * 单挑获胜方的伤害加成系数
+ */
+export const DUEL_VICTORY_DAMAGE_BONUS = 1.2;
+
+/**
+ * 战斗最大回合数
+ */
+export const MAX_BATTLE_ROUNDS = 8;
+
+/**
+ * 溃败阈值 - 兵力低于初始兵力的此比例时全军溃败
+ */
+export const BATTLE_BREAK_RATIO = 0.4;
+
+/**
+ * 参战主将属性
+ */
+export interface BattleCommander {
+  /** 武将ID */
+  id: string;
+  /** 统帅 */
+  lead: number;
+  /** 武力 */
+  war: number;
+  /** 智力 */
+  int: number;
+  /** 特技（缺省时无特技） */
+  skills?: SkillId[];
+}
+
+/**
+ * 战斗输入参数
+ */
+export interface BattleInput {
+  /** 攻方主将 */
+  attacker: BattleCommander;
+  /** 攻方兵力 */
+  attackerTroops: number;
+  /** 守方主将（空城为null） */
+  defender: BattleCommander | null;
+  /** 守方兵力 */
+  defenderTroops: number;
+  /** 攻方兵种构成（缺省视为全部步兵） */
+  attackerComposition?: TroopComposition;
+  /** 守方兵种构成（缺省视为全部步兵） */
+  defenderComposition?: TroopComposition;
+  /** 城市防御度 */
+  cityDefense: number;
+  /** 攻方初始士气（缺省为基础士气） */
+  attackerMorale?: number;
+  /** 守方初始士气（缺省为基础士气） */
+  defenderMorale?: number;
+  /** 最大回合数 */
+  maxRounds?: number;
+  /** 预先决定的单挑结果（玩家亲自单挑时传入），缺省时随机判定 */
+  duel?: DuelResult;
+  /** 随机数生成器 (0-1)，用于测试时可注入 */
+  random?: () => number;
+}
+
+/**
+ * 单回合战斗记录
+ */
+export interface BattleRoundLog {
+  /** 回合序号（从1开始） */
+  round: number;
+  /** 回合结束时攻方兵力 */
+  attackerTroops: number;
+  /** 回合结束时守方兵力 */
+  defenderTroops: number;
+  /** 攻方造成的伤害 */
+  damageToDefender: number;
+  /** 守方造成的伤害 */
+  damageToAttacker: number;
+  /** 本回合攻方伤亡 */
+  attackerCasualties: number;
+  /** 本回合守方伤亡 */
+  defenderCasualties: number;
+  /** 守方是否获得高统帅减免 */
+  defenderDamageReduced: boolean;
+  /** 攻方是否获得高统帅减免 */
+  attackerDamageReduced: boolean;
+  /** 回合结束时攻方士气 */
+  attackerMorale: number;
+  /** 回合结束时守方士气 */
+  defenderMorale: number;
+  /** 本回合发生的单挑 */
+  duel?: DuelResult;
+}
+
+/**
+ * 战斗结算结果
+ */
+export interface BattleResolution {
+  /** 战斗结果（攻方视角） */
+  result: 'win' | 'lose' | 'draw';
+  /** 攻方总伤亡 */
+  attackerCasualties: number;
+  /** 守方总伤亡 */
+  defenderCasualties: number;
+  /** 攻方剩余兵力 */
+  attackerRemaining: number;
+  /** 守方剩余兵力 */
+  defenderRemaining: number;
+  /** 攻方各兵种伤亡 */
+  attackerCasualtiesByType: TroopComposition;
+  /** 守方各兵种伤亡 */
+  defenderCasualtiesByType: TroopComposition;
+  /** 单挑结果（整场战斗最多一次） */
+  duel: DuelResult;
+  /** 攻方战后士气 */
+  attackerMorale: number;
+  /** 守方战后士气 */
+  defenderMorale: number;
+  /** 因士气崩溃而溃退的一方 */
+  routed: 'attacker' | 'defender' | null;
+  /** 逐回合记录 */
+  rounds: BattleRoundLog[];
+  /** 本场发动的特技 */
+  skills: SkillTrigger[];
+}
+
+/**
+ * 将伤害换算为伤亡
+ * @param troops - 承受伤害一方的兵力
+ * @param damage - 伤害值
+ * @returns 伤亡人数（不超过兵力）
+ */
+export function calculateCasualties(troops: number, damage: number): number {
+  return Math.min(troops, Math.floor((troops * damage) / CASUALTY_DAMAGE_DIVISOR));
+}
+
+/**
+ * 计算兵种构成的总攻击力（各兵种攻击力 × 对敌军的克制系数）
+ * @param composition - 己方兵种构成
+ * @param war - 主将武力
+ * @param lead - 主将统帅
+ * @param enemy - 敌军兵种构成
+ * @param skills - 主将特技
+ * @returns 攻击力
+ */
+export function calculateCompositionAttackPower(
+  composition: TroopComposition,
+  war: number,
+  lead: number,
+  enemy: TroopComposition,
+  skills: SkillId[] = []
+): number {
+  return TROOP_TYPES.reduce(
+    (sum, type) =>
+      sum +
+      calculateAttackPower(composition[type], war, lead, type, skills) *
+        getCounterMultiplierAgainst(type, enemy),
+    0
+  );
+}
+
+/**
+ * 计算兵种构成的总防御力（城市防御度只计一次）
+ * @param composition - 己方兵种构成
+ * @param lead - 主将统帅
+ * @param int - 主将智力
+ * @param cityDefense - 城市防御度
+ * @returns 防御力
+ */
+export function calculateCompositionDefensePower(
+  composition: TroopComposition,
+  lead: number,
+  int: number,
+  cityDefense: number
+): number {
+  return TROOP_TYPES.reduce(
+    (sum, type) => sum + calculateDefensePower(composition[type], lead, int, 0, type),
+    cityDefense
+  );
+}
+
+/**
+ * 计算器械削减后的城市防御度
+ * 削减比例 = 器械占攻方兵力比例 × SIEGE_CITY_DEFENSE_REDUCTION
+ * @param cityDefense - 城市防御度
+ * @param attackerComposition - 攻方兵种构成
+ * @returns 有效城市防御度
+ */
+export function calculateSiegeCityDefense(
+  cityDefense: number,
+  attackerComposition: TroopComposition
+): number {
+  const total = sumComposition(attackerComposition);
+  if (total <= 0) return cityDefense;
+  const siegeShare = attackerComposition.siege / total;
+  return cityDefense * (1 - siegeShare * SIEGE_CITY_DEFENSE_REDUCTION);
+}
+
+/**
+ * 解析战斗输入中的兵种构成（缺省或与兵力不符时视为全部步兵）
+ */
+function resolveComposition(troops: number, composition?: TroopComposition): TroopComposition {
+  if (composition && sumComposition(composition) === troops) {
+    return createComposition(composition);
+  }
+  return createComposition({ infantry: troops });
+}
+
+/**
+ * 收集本场发动的特技：神速于交锋时发动，名医于己方有伤亡时发动，飞将于单挑时发动
+ */
+function collectBattleSkills(
+  commanders: { commander: BattleCommander; engaged: boolean; wounded: boolean }[],
+  duel: DuelResult
+): SkillTrigger[] {
+  const triggers: SkillTrigger[] = [];
+  for (const { commander, engaged, wounded } of commanders) {
+    const fired: SkillId[] = [];
+    if (engaged && hasSkill(commander.skills, 'shensu')) fired.push('shensu');
+    if (wounded && hasSkill(commander.skills, 'mingyi')) fired.push('mingyi');
+    if (duel.triggered && hasSkill(commander.skills, 'feijiang')) fired.push('feijiang');
+    triggers.push(...fired.map((skill) => ({ general: commander.id, skill })));
+  }
+  return triggers;
+}
+
+/**
+ * 从兵种构成中扣除伤亡
+ */
+function subtractComposition(composition: TroopComposition, losses: TroopComposition): void {
+  for (const type of TROOP_TYPES) {
+    composition[type] -= losses[type];
+  }
+}
+
+/**
+ * 多回合战斗结算
+ * 每回合双方互相攻击（伤害公式 + 高统帅减免），交锋前进行单挑/秒杀判定（一场至多一次），
+ * 直至一方兵力跌破溃败阈值、士气崩溃、主将被秒杀或回合数耗尽。
+ * 单挑胜负与每回合伤亡都会改变双方士气
+ * @param input - 战斗输入参数
+ * @returns 战斗结算结果
+ */
+export function resolveBattle(input: BattleInput): BattleResolution {
+  const {
+    attacker,
+    defender,
+    cityDefense,
+    maxRounds = MAX_BATTLE_ROUNDS,
+    random = Math.random,
+  } = input;
+  const noDuel: DuelResult = { triggered: false, instantKill: false };
+  const randomFactor = () =>
+    random() * (DAMAGE_RANDOM_MAX - DAMAGE_RANDOM_MIN) + DAMAGE_RANDOM_MIN;
+
+  let attackerTroops = input.attackerTroops;
+  let defenderTroops = input.defenderTroops;
+  let attackerMorale = clampMorale(input.attackerMorale ?? BASE_ARMY_MORALE);
+  let defenderMorale = clampMorale(input.defenderMorale ?? BASE_ARMY_MORALE);
+  const attackerUnits = resolveComposition(attackerTroops, input.attackerComposition);
+  const defenderUnits = resolveComposition(defenderTroops, input.defenderComposition);
+  const attackerCasualtiesByType = createComposition();
+  const defenderCasualtiesByType = createComposition();
+
+  // 空城：不战而下
+  if (!defender || defenderTroops <= 0) {
+    return {
+      result: 'win',
+      attackerCasualties: 0,
+      defenderCasualties: 0,
+      attackerRemaining: attackerTroops,
+      defenderRemaining: Math.max(0, defenderTroops),
+      attackerCasualtiesByType,
+      defenderCasualtiesByType,
+      duel: noDuel,
+      attackerMorale,
+      defenderMorale,
+      routed: null,
+      rounds: [],
+      skills: [],
+    };
+  }
+
+  const attackerBreakPoint = input.attackerTroops * BATTLE_BREAK_RATIO;
+  const defenderBreakPoint = input.defenderTroops * BATTLE_BREAK_RATIO;
+  const rounds: BattleRoundLog[] = [];
+
+  // 阵前单挑/秒杀判定（飞将武力加成）
+  const rollDuel = (): DuelResult =>
+    executeDuelCheck(
+      getDuelWar(attacker.war, attacker.skills),
+      getDuelWar(defender.war, defender.skills),
+      attacker.id,
+      defender.id,
+      random(),
+      random(),
+      random()
+    );
+  let duel = noDuel;
+  let engaged = false;
+  let attackerWounded = false;
+  let defenderWounded = false;
+
+  // 攻城器械削弱城防
+  const effectiveCityDefense = calculateSiegeCityDefense(cityDefense, attackerUnits);
+
+  for (let round = 1; round <= maxRounds; round++) {
+    // 每回合交锋前判定单挑，一场战斗至多单挑一次（首回合沿用玩家亲自单挑的结果）
+    let roundDuel: DuelResult | undefined;
+    if (!duel.triggered) {
+      const check = round === 1 && input.duel ? input.duel : rollDuel();
+      if (check.triggered) {
+        duel = check;
+        roundDuel = check;
+      }
+    }
+
+    // 秒杀：主将负伤败走，其军士气崩溃而溃败
+    if (roundDuel?.instantKill) {
+      const attackerWins = roundDuel.winner === attacker.id;
+      attackerMorale = attackerWins
+        ? clampMorale(attackerMorale + INSTANT_KILL_MORALE_BONUS)
+        : MORALE_MIN;
+      defenderMorale = attackerWins
+        ? MORALE_MIN
+        : clampMorale(defenderMorale + INSTANT_KILL_MORALE_BONUS);
+      // 败方折损至溃败阈值的一半
+      const routLoss = (1 - BATTLE_BREAK_RATIO) / 2;
+      const attackerCasualties = attackerWins ? 0 : Math.floor(attackerTroops * routLoss);
+      const defenderCasualties = attackerWins ? Math.floor(defenderTroops * routLoss) : 0;
+      const attackerLosses = splitLossByType(attackerUnits, attackerCasualties);
+      const defenderLosses = splitLossByType(defenderUnits, defenderCasualties);
+      subtractComposition(attackerUnits, attackerLosses);
+      subtractComposition(defenderUnits, defenderLosses);
+      for (const type of TROOP_TYPES) {
+        attackerCasualtiesByType[type] += attackerLosses[type];
+        defenderCasualtiesByType[type] += defenderLosses[type];
+      }
+      attackerTroops -= attackerCasualties;
+      defenderTroops -= defenderCasualties;
+      rounds.push({
+        round,
+        attackerTroops,
+        defenderTroops,
+        damageToDefender: 0,
+        damageToAttacker: 0,
+        attackerCasualties,
+        defenderCasualties,
+        defenderDamageReduced: false,
+        attackerDamageReduced: false,
+        attackerMorale,
+        defenderMorale,
+        duel: roundDuel,
+      });
+      break;
+    }
+
+    // 单挑胜方士气大振，此后各回合攻势更盛
+    if (roundDuel) {
+      const swing = roundDuel.winner === attacker.id ? DUEL_MORALE_SWING : -DUEL_MORALE_SWING;
+      attackerMorale = clampMorale(attackerMorale + swing);
+      defenderMorale = clampMorale(defenderMorale - swing);
+    }
+    const attackerBonus =
+      duel.triggered && duel.winner === attacker.id ? DUEL_VICTORY_DAMAGE_BONUS : 1;
+    const defenderBonus =
+      duel.triggered && duel.winner === defender.id ? DUEL_VICTORY_DAMAGE_BONUS : 1;
+
+    // 攻方进攻（兵种系数与克制关系）
+    const attackPower = calculateCompositionAttackPower(
+      attackerUnits,
+      attacker.war,
+      attacker.lead,
+      defenderUnits,
+      attacker.skills
+    );
+    const defensePower = calculateCompositionDefensePower(
+      defenderUnits,
+      defender.lead,
+      defender.int,
+      effectiveCityDefense
+    );
+    const rawToDefender = calculateDamage(attackPower, defensePower, randomFactor());
+    const toDefender = applyHighLeadReduction(
+      Math.floor(rawToDefender * attackerBonus),
+      defender.lead
+    );
+
+    // 守方反击（攻方无城防加成）
+    const counterPower = calculateCompositionAttackPower(
+      defenderUnits,
+      defender.war,
+      defender.lead,
+      attackerUnits,
+      defender.skills
+    );
+    const attackerDefensePower = calculateCompositionDefensePower(
+      attackerUnits,
+      attacker.lead,
+      attacker.int,
+      0
+    );
+    const rawToAttacker = calculateDamage(counterPower, attackerDefensePower, randomFactor());
+    const toAttacker = applyHighLeadReduction(
+      Math.floor(rawToAttacker * defenderBonus),
+      attacker.lead
+    );
+
+    // 名医救治伤兵
+    const defenderCasualties = applyCasualtySkills(
+      calculateCasualties(defenderTroops, toDefender.finalDamage),
+      defender.skills
+    );
+    const attackerCasualties = applyCasualtySkills(
+      calculateCasualties(attackerTroops, toAttacker.finalDamage),
+      attacker.skills
+    );
+    defenderTroops -= defenderCasualties;
+    attackerTroops -= attackerCasualties;
+    engaged = true;
+    defenderWounded ||= defenderCasualties > 0;
+    attackerWounded ||= attackerCasualties > 0;
+
+    // 伤亡打击士气
+    defenderMorale = clampMorale(
+      defenderMorale - calculateCasualtyMoraleLoss(defenderCasualties, input.defenderTroops)
+    );
+    attackerMorale = clampMorale(
+      attackerMorale - calculateCasualtyMoraleLoss(attackerCasualties, input.attackerTroops)
+    );
+
+    // 伤亡按兵种比例分摊
+    const defenderLosses = splitLossByType(defenderUnits, defenderCasualties);
+    const attackerLosses = splitLossByType(attackerUnits, attackerCasualties);
+    subtractComposition(defenderUnits, defenderLosses);
+    subtractComposition(attackerUnits, attackerLosses);
+    for (const type of TROOP_TYPES) {
+      defenderCasualtiesByType[type] += defenderLosses[type];
+      attackerCasualtiesByType[type] += attackerLosses[type];
+    }
+
+    rounds.push({
+      round,
+      attackerTroops,
+      defenderTroops,
+      damageToDefender: toDefender.finalDamage,
+      damageToAttacker: toAttacker.finalDamage,
+      attackerCasualties,
+      defenderCasualties,
+      defenderDamageReduced: toDefender.damageReduced,
+      attackerDamageReduced: toAttacker.damageReduced,
+      attackerMorale,
+      defenderMorale,
+      duel: roundDuel,
+    });
+
+    const defenderBroken = defenderTroops <= defenderBreakPoint || isRouted(defenderMorale);
+    const attackerBroken = attackerTroops <= attackerBreakPoint || isRouted(attackerMorale);
+    if (defenderBroken || attackerBroken) break;
+  }
+
+  const defenderBroken = defenderTroops <= defenderBreakPoint || isRouted(defenderMorale);
+  const attackerBroken = attackerTroops <= attackerBreakPoint || isRouted(attackerMorale);
+  let result: 'win' | 'lose' | 'draw';
+  if (defenderBroken && !attackerBroken) {
+    result = 'win';
+  } else if (attackerBroken && !defenderBroken) {
+    result = 'lose';
+  } else if (defenderBroken && attackerBroken) {
+    // 两军同时溃败：以剩余兵力比例决胜
+    result =
+      attackerTroops / input.attackerTroops >= defenderTroops / input.defenderTroops
+        ? 'win'
+        : 'lose';
+  } else {
+    result = 'draw';
+  }
+
+  return {
+    result,
+    attackerCasualties: input.attackerTroops - attackerTroops,
+    defenderCasualties: input.defenderTroops - defenderTroops,
+    attackerRemaining: attackerTroops,
+    defenderRemaining: defenderTroops,
+    attackerCasualtiesByType,
+    defenderCasualtiesByType,
+    duel,
+    attackerMorale,
+    defenderMorale,
+    routed: getRoutedSide(result, attackerMorale, defenderMorale),
+    rounds,
+    skills: collectBattleSkills(
+      [
+        { commander: attacker, engaged, wounded: attackerWounded },
+        { commander: defender, engaged, wounded: defenderWounded },
+      ],
+      duel
+    ),
+  };
+}
+
+/**
+ * 判断败方是否因士气崩溃而溃退
+ */
+function getRoutedSide(
+  result: 'win' | 'lose' | 'draw',
+  attackerMorale: number,
+  defenderMorale: number
+): 'attacker' | 'defender' | null {
+  if (result === 'win' && isRouted(defenderMorale)) return 'defender';
+  if (result === 'lose' && isRouted(attackerMorale)) return 'attacker';
+  return null;
+}
+
+/**
+ * 将逐回合战斗记录转换为战斗事件中保存的回放记录
+ * @param rounds - 逐回合战斗记录
+ * @param attackerGeneral - 攻方主将ID
+ * @param defenderGeneral - 守方主将ID
+ * @returns 回放记录
+ */
+export function toBattleRoundRecords(
+  rounds: BattleRoundLog[],
+  attackerGeneral: string,
+  defenderGeneral: string
+): BattleRoundRecord[] {
+  return rounds.map((log) => {
+    const record: BattleRoundRecord = {
+      round: log.round,
+      attackerGeneral,
+      defenderGeneral,
+      attackerTroops: log.attackerTroops,
+      defenderTroops: log.defenderTroops,
+      damageToDefender: log.damageToDefender,
+      damageToAttacker: log.damageToAttacker,
+      attackerCasualties: log.attackerCasualties,
+      defenderCasualties: log.defenderCasualties,
+      attackerMorale: log.attackerMorale,
+      defenderMorale: log.defenderMorale,
+      attackerDamageReduced: log.attackerDamageReduced,
+      defenderDamageReduced: log.defenderDamageReduced,
+    };
+    if (log.duel?.triggered) {
+      record.duel = { winner: log.duel.winner, instantKill: log.duel.instantKill };
+    }
+    return record;
+  });
+}
+
+/**
+ * 判断战斗事件是否真正交兵
+ * 围城开始、主动撤围及双方均无伤亡的战斗未曾交锋，不计经验、功绩、战败与交战恶感
+ * @param data - 战斗事件数据
+ * @returns 是否真正交兵
+ */
+export function isBattleEngaged(data: BattleEventData): boolean {
+  if (data.siege?.phase === 'start' || data.siege?.outcome === 'withdrawn') return false;
+  return data.casualties.attacker > 0 || data.casualties.defender > 0;
+}
+
+/**
+ * 战况预测默认模拟次数
+ */
+export const BATTLE_FORECAST_SIMULATIONS = 200;
+
+/**
+ * 战况预测默认随机种子（同一局面多次预测结果一致）
+ */
+export const BATTLE_FORECAST_SEED = 190;
+
+/**
+ * 战况预测结果
+ */
+export interface BattleForecast {
+  /** 攻方胜率 (0-1) */
+  winProbability: number;
+  /** 攻方预期伤亡 */
+  expectedAttackerCasualties: number;
+  /** 守方预期伤亡 */
+  expectedDefenderCasualties: number;
+  /** 单挑发生概率 (0-1) */
+  duelProbability: number;
+  /** 模拟次数 */
+  simulations: number;
+}
+
+/**
+ * 创建可复现的伪随机数生成器（mulberry32）
+ * @param seed - 随机种子
+ * @returns 返回 [0, 1) 随机数的函数
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 以固定种子多次模拟战斗，统计胜率、预期伤亡与单挑概率
+ * @param input - 战斗输入参数（随机数生成器与预定单挑将被忽略）
+ * @param simulations - 模拟次数
+ * @param seed - 随机种子
+ * @returns 战况预测结果
+ */
+export function simulateBattle(
+  input: BattleInput,
+  simulations: number = BATTLE_FORECAST_SIMULATIONS,
+  seed: number = BATTLE_FORECAST_SEED
+): BattleForecast {
+  const runs = Math.max(1, Math.floor(simulations));
+  const random = createSeededRandom(seed);
+  let wins = 0;
+  let duels = 0;
+  let attackerCasualties = 0;
+  let defenderCasualties = 0;
+
+  for (let i = 0; i < runs; i++) {
+    const battle = resolveBattle({ ...input, duel: undefined, random });
+    if (battle.result === 'win') wins++;
+    if (battle.duel.triggered) duels++;
+    attackerCasualties += battle.attackerCasualties;
+    defenderCasualties += battle.defenderCasualties;
+  }
+
+  return {
+    winProbability: wins / runs,
+    expectedAttackerCasualties: Math.round(attackerCasualties / runs),
+    expectedDefenderCasualties: Math.round(defenderCasualties / runs),
+    duelProbability: duels / runs,
+    simulations: runs,
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getBattleReplay, hasBattleReplay } from './battleReplay';
+import { createCampaignEvent, executeCampaign, type CampaignOrder } from './campaign';
+import { createTestState } from '../test/fixtures';
+import type { BattleEventData, GameEvent } from '../types/events';
+
+const orderArb = fc.constantFrom<CampaignOrder>(
+  { fromCityId: 'chenliu', toCityId: 'pingyuan', generalIds: ['caocao', 'xiaohoudun'] },
+  { fromCityId: 'chenliu', toCityId: 'pingyuan', generalIds: ['caohong'] },
+  { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: ['caocao', 'xiahouyuan', 'caoren'] }
+);
+
+const randomArb = fc.double({ min: 0, max: 0.999, noNaN: true }).map((value) => () => value);
+
+/**
+ * **Feature: sanguo-190, Property 30: 战斗回放**
+ * *For any* 出征产生的战斗事件，逐回合记录的伤亡之和等于战斗总伤亡，
+ * 回合序号连续，开战兵力减去总伤亡等于最后一回合的兵力；
+ * 非战斗事件或未记录回合的事件不可回放。
+ */
+describe('Property 30: 战斗回放', () => {
+  it('should record rounds that add up to the battle casualties', () => {
+    fc.assert(
+      fc.property(orderArb, randomArb, (order, random) => {
+        const state = createTestState();
+        const result = executeCampaign(order, state, random);
+        expect(result.success).toBe(true);
+
+        const event = createCampaignEvent(order, result, state);
+        const replay = getBattleReplay(event);
+        expect(replay).not.toBeNull();
+        if (!replay) return;
+
+        const { rounds } = replay;
+        rounds.forEach((round, index) => expect(round.round).toBe(index + 1));
+
+        const attackerLoss = rounds.reduce((sum, r) => sum + r.attackerCasualties, 0);
+        const defenderLoss = rounds.reduce((sum, r) => sum + r.defenderCasualties, 0);
+        expect(attackerLoss).toBe(result.attackerCasualties);
+        expect(defenderLoss).toBe(result.defenderCasualties);
+
+        const last = rounds[rounds.length - 1];
+        expect(replay.initialAttackerTroops - attackerLoss).toBe(last.attackerTroops);
+        expect(replay.initialDefenderTroops - defenderLoss).toBe(last.defenderTroops);
+        expect(last.attackerGeneral).toBe(result.attackerGeneral);
+        expect(last.defenderGeneral).toBe(result.defenderGeneral);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should not replay non-battle events or battles without rounds', () => {
+    const state = createTestState();
+    const order: CampaignOrder = {
+      fromCityId: 'chenliu',
+      toCityId: 'pingyuan',
+      generalIds: ['caocao'],
+    };
+    const event = createCampaignEvent(order, executeCampaign(order, state, () => 0.5), state);
+    expect(hasBattleReplay(event)).toBe(true);
+
+    const withoutRounds: GameEvent = {
+      ...event,
+      data: { ...(event.data as BattleEventData), rounds: undefined },
+    };
+    expect(hasBattleReplay(withoutRounds)).toBe(false);
+
+    const domestic: GameEvent = { ...event, type: 'domestic' };
+    expect(getBattleReplay(domestic)).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * 战斗回放 - 从战斗事件中还原逐回合战况
+ * @module systems/battleReplay
+ */
+
+import type { BattleEventData, BattleRoundRecord, GameEvent } from '../types/events';
+
+/**
+ * 战斗回放数据
+ */
+export interface BattleReplay {
+  /** 战斗事件数据 */
+  data: BattleEventData;
+  /** 开战前攻方兵力 */
+  initialAttackerTroops: number;
+  /** 开战前守方兵力 */
+  initialDefenderTroops: number;
+  /** 逐回合记录 */
+  rounds: BattleRoundRecord[];
+}
+
+/**
+ * 获取战斗事件的回放数据
+ * @param event - 游戏事件
+ * @returns 回放数据，非战斗事件或未记录回合（如围城开始、旧存档）时返回null
+ */
+export function getBattleReplay(event: GameEvent): BattleReplay | null {
+  if (event.type !== 'battle') return null;
+
+  const data = event.data as BattleEventData;
+  if (!data.rounds || data.rounds.length === 0) return null;
+
+  const first = data.rounds[0];
+  return {
+    data,
+    initialAttackerTroops: first.attackerTroops + first.attackerCasualties,
+    initialDefenderTroops: first.defenderTroops + first.defenderCasualties,
+    rounds: data.rounds,
+  };
+}
+
+/**
+ * 判断事件是否可以回放
+ * @param event - 游戏事件
+ * @returns 是否为记录了逐回合战况的战斗事件
+ */
+export function hasBattleReplay(event: GameEvent): boolean {
+  return getBattleReplay(event) !== null;
+}
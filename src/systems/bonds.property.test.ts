@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  BOND_LORD_LOYALTY_BONUS,
+  BOND_MORALE_BONUS,
+  BOND_MORALE_CAP,
+  BOND_RECRUIT_BONUS,
+  RIVAL_LOYALTY_PENALTY,
+  RIVAL_MORALE_PENALTY,
+  RIVAL_RECRUIT_PENALTY,
+  calculateBondLoyalty,
+  calculateBondMorale,
+  isCloseBond,
+} from './bonds';
+import { calculateLoyaltyTarget } from './loyalty';
+import { calculateArmyMorale } from './morale';
+import { calculateRecruitChance, capturePrisoners, getPrisoner } from './prisoners';
+import { buildBattlePrompt, buildStratagemPrompt } from '../services/llm/historianPrompt';
+import { createEventContextFromState } from '../services/llm/historianService';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+import type { GameEvent } from '../types/events';
+import type { BondType } from '../types/bond';
+import { BOND_INVERSES } from '../types/bond';
+
+/**
+ * 在两名武将之间登记关系（自前者视角，后者登记对偶关系）
+ */
+function link(state: GameState, generalId: string, otherId: string, type: BondType): void {
+  state.generals[generalId].bonds = [{ generalId: otherId, type }];
+  state.generals[otherId].bonds = [{ generalId, type: BOND_INVERSES[type] }];
+}
+
+const bondTypeArb = fc.constantFrom<BondType>(
+  'sworn',
+  'parent',
+  'child',
+  'spouse',
+  'rival',
+  'mentor',
+  'pupil'
+);
+
+/**
+ * **Feature: sanguo-190, Property 45: 武将关系**
+ * *For any* 武将关系，与君主有情谊者天然忠诚更高、与宿敌共事者更低；
+ * 有情谊的武将同军出战士气不降、宿敌同军士气不升；俘虏与招降势力武将有旧时招降成功率相应增减。
+ */
+describe('Property 45: 武将关系', () => {
+  it('should raise natural loyalty for bonds with the lord and lower it for rivals', () => {
+    fc.assert(
+      fc.property(bondTypeArb, (type) => {
+        const state = createTestState();
+        state.generals.caohong.compatibility = state.generals.caocao.compatibility;
+        const before = calculateLoyaltyTarget(state, state.generals.caohong, 'caocao');
+        link(state, 'caohong', 'caocao', type);
+
+        const delta = calculateBondLoyalty(state, state.generals.caohong, 'caocao');
+        expect(delta).toBe(isCloseBond(type) ? BOND_LORD_LOYALTY_BONUS : -RIVAL_LOYALTY_PENALTY);
+        const after = calculateLoyaltyTarget(state, state.generals.caohong, 'caocao');
+        expect(after).toBe(Math.max(0, Math.min(100, before + delta)));
+        // 对方效力于他国时关系不影响在本势力的忠诚
+        expect(calculateBondLoyalty(state, state.generals.caohong, 'dongzhuo')).toBe(0);
+      }),
+      { numRuns: 20 }
+    );
+
+    const state = createTestState();
+    expect(calculateBondLoyalty(state, state.generals.guanyu, 'liubei')).toBeGreaterThan(0);
+  });
+
+  it('should lift morale for bonded comrades and sap it for rivals in the same army', () => {
+    fc.assert(
+      fc.property(bondTypeArb, fc.boolean(), (type, grainShortage) => {
+        const state = createTestState();
+        const generals = [state.generals.caoren, state.generals.caohong];
+        const before = calculateArmyMorale({ generals, grainShortage });
+        link(state, 'caoren', 'caohong', type);
+
+        const bonus = calculateBondMorale(generals);
+        expect(bonus).toBe(isCloseBond(type) ? BOND_MORALE_BONUS : -RIVAL_MORALE_PENALTY);
+        const after = calculateArmyMorale({ generals, grainShortage });
+        if (isCloseBond(type)) {
+          expect(after).toBeGreaterThanOrEqual(before);
+        } else {
+          expect(after).toBeLessThanOrEqual(before);
+        }
+        // 单独出战时无关系加成
+        expect(calculateBondMorale([state.generals.caoren])).toBe(0);
+      }),
+      { numRuns: 20 }
+    );
+
+    const state = createTestState();
+    const brothers = ['liubei', 'guanyu', 'zhangfei'].map((id) => state.generals[id]);
+    expect(calculateBondMorale(brothers)).toBe(Math.min(BOND_MORALE_CAP, 3 * BOND_MORALE_BONUS));
+  });
+
+  it('should adjust recruit odds for captives with ties to the captor', () => {
+    fc.assert(
+      fc.property(bondTypeArb, fc.integer({ min: 55, max: 100 }), (type, loyalty) => {
+        const state = createTestState();
+        state.generals.huaxiong.bonds = [];
+        state.generals.huaxiong.loyalty = loyalty;
+        capturePrisoners(state, ['huaxiong'], 'caocao', 'chenliu');
+        const prisoner = getPrisoner(state, 'huaxiong')!;
+        const before = calculateRecruitChance(state, prisoner);
+
+        link(state, 'huaxiong', 'caohong', type);
+        const after = calculateRecruitChance(state, prisoner);
+        if (isCloseBond(type)) {
+          expect(after).toBeCloseTo(Math.min(0.95, before + BOND_RECRUIT_BONUS), 10);
+        } else {
+          expect(after).toBeLessThanOrEqual(before);
+          expect(after).toBeCloseTo(Math.max(0.05, before - RIVAL_RECRUIT_PENALTY), 10);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should give the historian the bond between the generals involved', () => {
+    const state = createTestState();
+    const context = createEventContextFromState(state.generals, state.cities, state.factions);
+    const battle: GameEvent = {
+      id: 'battle',
+      type: 'battle',
+      timestamp: { year: 190, month: 1 },
+      data: {
+        attacker: 'liubei',
+        defender: 'dongzhuo',
+        attackerGeneral: 'zhangfei',
+        defenderGeneral: 'lvbu',
+        result: 'draw',
+        casualties: { attacker: 100, defender: 100 },
+      },
+    };
+    expect(buildBattlePrompt(battle, context)).toContain('渊源：吕布乃张飞之宿敌');
+
+    const stratagem: GameEvent = {
+      id: 'stratagem',
+      type: 'stratagem',
+      timestamp: { year: 190, month: 1 },
+      data: {
+        faction: 'caocao',
+        stratagem: 'discord',
+        executor: 'caoren',
+        city: 'luoyang',
+        target: 'lvbu',
+        succeeded: true,
+        value: 10,
+      },
+    };
+    expect(buildStratagemPrompt(stratagem, context)).not.toContain('渊源');
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * 武将关系系统 - 处理结义、父子、夫妻、宿敌与师徒关系的效果
+ * 与君主或同僚有亲缘情谊的武将更为忠诚，与宿敌共事则心怀不满；
+ * 有情谊的武将同军出战士气高涨，宿敌同军则士气低落；俘虏与我方武将有旧时更易招降
+ * @module systems/bonds
+ */
+
+import type { GameState } from '../types/gameState';
+import type { General } from '../types/general';
+import type { BondType, GeneralBond } from '../types/bond';
+
+/**
+ * 与君主有情谊时的天然忠诚加成
+ */
+export const BOND_LORD_LOYALTY_BONUS = 15;
+
+/**
+ * 每名有情谊的同僚带来的天然忠诚加成
+ */
+export const BOND_COMRADE_LOYALTY_BONUS = 5;
+
+/**
+ * 同僚情谊带来的天然忠诚加成上限
+ */
+export const BOND_COMRADE_LOYALTY_CAP = 10;
+
+/**
+ * 与宿敌共事（含宿敌为君主）的天然忠诚惩罚
+ */
+export const RIVAL_LOYALTY_PENALTY = 15;
+
+/**
+ * 同军中每对有情谊的武将带来的士气加成
+ */
+export const BOND_MORALE_BONUS = 5;
+
+/**
+ * 情谊带来的士气加成上限
+ */
+export const BOND_MORALE_CAP = 15;
+
+/**
+ * 同军中每对宿敌造成的士气下降
+ */
+export const RIVAL_MORALE_PENALTY = 5;
+
+/**
+ * 俘虏与招降势力的武将有情谊时的招降成功率加成
+ */
+export const BOND_RECRUIT_BONUS = 0.2;
+
+/**
+ * 俘虏的宿敌效力于招降势力时的招降成功率惩罚
+ */
+export const RIVAL_RECRUIT_PENALTY = 0.2;
+
+/**
+ * 获取武将的全部关系
+ */
+export function getBonds(general: General): GeneralBond[] {
+  return general.bonds ?? [];
+}
+
+/**
+ * 获取武将与另一武将的关系（自前者视角），无关系时返回null
+ */
+export function getBondType(general: General, otherId: string): BondType | null {
+  return getBonds(general).find((b) => b.generalId === otherId)?.type ?? null;
+}
+
+/**
+ * 判断关系是否为情谊（宿敌以外的关系）
+ */
+export function isCloseBond(type: BondType): boolean {
+  return type !== 'rival';
+}
+
+/**
+ * 获取武将与某势力存活武将之间的关系（不含自身）
+ * @param gameState - 游戏状态
+ * @param general - 武将
+ * @param factionId - 势力ID
+ * @returns 对方效力于该势力的关系
+ */
+export function getFactionBonds(
+  gameState: GameState,
+  general: General,
+  factionId: string
+): GeneralBond[] {
+  const members = gameState.factions[factionId]?.generals ?? [];
+  return getBonds(general).filter((bond) => {
+    const other = gameState.generals[bond.generalId];
+    return (
+      bond.generalId !== general.id &&
+      other !== undefined &&
+      other.isAlive &&
+      other.faction === factionId &&
+      members.includes(other.id)
+    );
+  });
+}
+
+/**
+ * 计算武将关系对其在某势力麾下天然忠诚的影响
+ * 公式: 与君主有情谊 +15，每名有情谊的同僚 +5（至多10），与宿敌共事 -15
+ * @param gameState - 游戏状态
+ * @param general - 武将
+ * @param factionId - 效力的势力ID
+ * @returns 天然忠诚的增减
+ */
+export function calculateBondLoyalty(
+  gameState: GameState,
+  general: General,
+  factionId: string
+): number {
+  const lordId = gameState.factions[factionId]?.lordId;
+  const bonds = getFactionBonds(gameState, general, factionId);
+
+  const lordBonus = bonds.some((b) => b.generalId === lordId && isCloseBond(b.type))
+    ? BOND_LORD_LOYALTY_BONUS
+    : 0;
+  const comrades = bonds.filter((b) => b.generalId !== lordId && isCloseBond(b.type)).length;
+  const comradeBonus = Math.min(BOND_COMRADE_LOYALTY_CAP, comrades * BOND_COMRADE_LOYALTY_BONUS);
+  const rivalPenalty = bonds.some((b) => !isCloseBond(b.type)) ? RIVAL_LOYALTY_PENALTY : 0;
+
+  return lordBonus + comradeBonus - rivalPenalty;
+}
+
+/**
+ * 统计同军武将中有情谊与互为宿敌的武将对数
+ * @param generals - 同军出战的武将
+ * @returns 有情谊的对数与宿敌的对数
+ */
+export function countArmyBonds(generals: General[]): { close: number; rival: number } {
+  let close = 0;
+  let rival = 0;
+
+  generals.forEach((general, i) => {
+    for (const other of generals.slice(i + 1)) {
+      const type = getBondType(general, other.id) ?? getBondType(other, general.id);
+      if (!type) continue;
+      if (isCloseBond(type)) {
+        close += 1;
+      } else {
+        rival += 1;
+      }
+    }
+  });
+
+  return { close, rival };
+}
+
+/**
+ * 计算同军武将关系带来的士气增减
+ * 公式: 每对有情谊的武将 +5（至多15），每对宿敌 -5
+ * @param generals - 同军出战的武将
+ * @returns 士气增减
+ */
+export function calculateBondMorale(generals: General[]): number {
+  const { close, rival } = countArmyBonds(generals);
+  return Math.min(BOND_MORALE_CAP, close * BOND_MORALE_BONUS) - rival * RIVAL_MORALE_PENALTY;
+}
+
+/**
+ * 计算俘虏与招降势力武将的关系带来的招降成功率增减
+ * 公式: 与该势力武将有情谊 +20%，宿敌效力于该势力 -20%
+ * @param gameState - 游戏状态
+ * @param general - 俘虏武将
+ * @param factionId - 招降势力ID
+ * @returns 成功率增减
+ */
+export function calculateBondRecruitBonus(
+  gameState: GameState,
+  general: General,
+  factionId: string
+): number {
+  const bonds = getFactionBonds(gameState, general, factionId);
+  return (
+    (bonds.some((b) => isCloseBond(b.type)) ? BOND_RECRUIT_BONUS : 0) -
+    (bonds.some((b) => !isCloseBond(b.type)) ? RIVAL_RECRUIT_PENALTY : 0)
+  );
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  applyCampaignResult,
+  executeCampaign,
+  validateCampaignOrder,
+  type CampaignOrder,
+  type CampaignResult,
+} from './campaign';
+import { distributeCasualties } from './aiSystem';
+import { createTestState } from '../test/fixtures';
+import type { General } from '../types/general';
+import type { TroopComposition } from '../types/troop';
+import { getTroopComposition, sumComposition } from './troops';
+
+const chenliuGeneralsArb = fc.subarray(
+  ['caocao', 'xiaohoudun', 'xiahouyuan', 'caoren', 'caohong'],
+  { minLength: 1 }
+);
+
+const compositionArb = (max: number): fc.Arbitrary<TroopComposition> =>
+  fc.record({
+    infantry: fc.integer({ min: 0, max }),
+    cavalry: fc.integer({ min: 0, max }),
+    archer: fc.integer({ min: 0, max }),
+    siege: fc.integer({ min: 0, max }),
+  });
+
+const campaignResultArb = fc
+  .record({
+    result: fc.constantFrom<CampaignResult['result']>('win', 'lose', 'draw'),
+    attackerCasualtiesByType: compositionArb(15000),
+    defenderCasualtiesByType: compositionArb(30000),
+  })
+  .map((partial) => ({
+    ...partial,
+    attackerCasualties: sumComposition(partial.attackerCasualtiesByType),
+    defenderCasualties: sumComposition(partial.defenderCasualtiesByType),
+  }));
+
+/**
+ * **Feature: sanguo-190, Property 21: 出征结算状态一致性**
+ * *For any* 出征结果，城市归属、势力城市列表、驻守武将与武将所在城市必须保持一致，
+ * 且兵力不能为负。
+ */
+describe('Property 21: 出征结算状态一致性', () => {
+  it('should keep city ownership and stationed generals consistent', () => {
+    fc.assert(
+      fc.property(chenliuGeneralsArb, campaignResultArb, (generalIds, partial) => {
+        const state = createTestState();
+        const order: CampaignOrder = { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds };
+        const result: CampaignResult = {
+          success: true,
+          attackerGeneral: generalIds[0],
+          defenderGeneral: 'lvbu',
+          duel: { triggered: false, instantKill: false },
+          attackerMorale: 60,
+          defenderMorale: 60,
+          routed: null,
+          rounds: [],
+          ...partial,
+        };
+
+        const newState = applyCampaignResult(state, order, result);
+        const luoyang = newState.cities.luoyang;
+
+        if (partial.result === 'win') {
+          expect(luoyang.faction).toBe('caocao');
+          expect(newState.factions.caocao.cities).toContain('luoyang');
+          expect(newState.factions.dongzhuo.cities).not.toContain('luoyang');
+          for (const id of generalIds) {
+            expect(luoyang.stationedGenerals).toContain(id);
+            expect(newState.cities.chenliu.stationedGenerals).not.toContain(id);
+          }
+        } else {
+          expect(luoyang.faction).toBe('dongzhuo');
+          expect(newState.factions.caocao.cities).not.toContain('luoyang');
+        }
+
+        for (const city of Object.values(newState.cities)) {
+          for (const id of city.stationedGenerals) {
+            expect(newState.generals[id].currentCity).toBe(city.id);
+          }
+        }
+        for (const general of Object.values(newState.generals)) {
+          expect(general.troops).toBeGreaterThanOrEqual(0);
+          expect(sumComposition(getTroopComposition(general))).toBe(general.troops);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should not mutate the original state', () => {
+    const state = createTestState();
+    const snapshot = JSON.stringify(state);
+    const order: CampaignOrder = {
+      fromCityId: 'chenliu',
+      toCityId: 'luoyang',
+      generalIds: ['caocao'],
+    };
+    const result = executeCampaign(order, state);
+    applyCampaignResult(state, order, result);
+    expect(JSON.stringify(state)).toBe(snapshot);
+  });
+
+  it('should reject invalid orders', () => {
+    const state = createTestState();
+    expect(
+      validateCampaignOrder({ fromCityId: 'chenliu', toCityId: 'ye', generalIds: ['caocao'] }, state)
+    ).not.toBeNull();
+    expect(
+      validateCampaignOrder({ fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: [] }, state)
+    ).not.toBeNull();
+    expect(
+      validateCampaignOrder(
+        { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: ['lvbu'] },
+        state
+      )
+    ).not.toBeNull();
+    expect(
+      validateCampaignOrder(
+        { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: ['caocao'] },
+        state
+      )
+    ).toBeNull();
+  });
+
+  it('should distribute casualties without exceeding troops', () => {
+    const troopsArb = fc.array(fc.integer({ min: 0, max: 30000 }), { minLength: 1, maxLength: 5 });
+    fc.assert(
+      fc.property(troopsArb, fc.integer({ min: 0, max: 200000 }), (troopsList, casualties) => {
+        const generals = troopsList.map(
+          (troops, i) => ({ id: `g${i}`, troops }) as unknown as General
+        );
+        const total = troopsList.reduce((a, b) => a + b, 0);
+        const distribution = distributeCasualties(generals, casualties);
+        const distributed = Object.values(distribution).reduce((a, b) => a + b, 0);
+
+        expect(distributed).toBeLessThanOrEqual(Math.min(casualties, total));
+        generals.forEach((g) => {
+          expect(distribution[g.id] ?? 0).toBeLessThanOrEqual(g.troops);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,486 @@
+/**
+ * 出征系统 - 处理玩家出征指令的校验、战斗结算和状态更新
+ * @module systems/campaign
+ */
+
+import type { GameState } from '../types/gameState';
+import type { City } from '../types/city';
+import type { General } from '../types/general';
+import type { GameEvent, BattleEventData } from '../types/events';
+import type { SkillTrigger } from '../types/skill';
+import type { TroopComposition } from '../types/troop';
+import {
+  executeDuelCheck,
+  resolveBattle,
+  toBattleRoundRecords,
+  type DuelResult,
+  type BattleRoundLog,
+} from './battle';
+import {
+  applyCasualtiesByType,
+  getCityDefenders,
+  getDefendingForce,
+  toBattleCommander,
+  transferCityControl,
+} from './aiSystem';
+import { addCompositions, createComposition, getTroopComposition } from './troops';
+import {
+  BASE_ARMY_MORALE,
+  PINCER_MORALE_PENALTY,
+  calculateCityArmyMorale,
+  describeRetreat,
+} from './morale';
+import { capturePrisoners, rollCaptures } from './prisoners';
+import { getActiveTruce, getDiplomacyStatus } from './diplomacy';
+import {
+  chargeReinforcementCosts,
+  findReinforcements,
+  getReinforcementGenerals,
+  type Reinforcement,
+} from './reinforcements';
+import { getDuelWar } from './skills';
+import { isGeneralMarching } from './movement';
+import { generateId } from './ids';
+
+/**
+ * 出征指令接口
+ */
+export interface CampaignOrder {
+  /** 出发城市ID */
+  fromCityId: string;
+  /** 目标城市ID */
+  toCityId: string;
+  /** 出征武将ID列表（率本部兵马出征） */
+  generalIds: string[];
+  /** 两路夹击：自另一座相邻己方城市同时出兵 */
+  pincer?: CampaignPincer;
+}
+
+/**
+ * 两路夹击的另一路兵马
+ */
+export interface CampaignPincer {
+  /** 另一路出发城市ID */
+  fromCityId: string;
+  /** 另一路出征武将ID列表 */
+  generalIds: string[];
+}
+
+/**
+ * 出征结果接口
+ */
+export interface CampaignResult {
+  /** 是否成功执行 */
+  success: boolean;
+  /** 战斗结果（攻方视角） */
+  result: 'win' | 'lose' | 'draw';
+  /** 攻方主将ID */
+  attackerGeneral: string;
+  /** 守方主将ID（空城为空字符串） */
+  defenderGeneral: string;
+  /** 攻方伤亡 */
+  attackerCasualties: number;
+  /** 守方伤亡 */
+  defenderCasualties: number;
+  /** 攻方各兵种伤亡 */
+  attackerCasualtiesByType: TroopComposition;
+  /** 守方各兵种伤亡 */
+  defenderCasualtiesByType: TroopComposition;
+  /** 单挑结果 */
+  duel: DuelResult;
+  /** 攻方战后士气 */
+  attackerMorale: number;
+  /** 守方战后士气 */
+  defenderMorale: number;
+  /** 因士气崩溃而溃退的一方 */
+  routed: 'attacker' | 'defender' | null;
+  /** 逐回合战斗记录 */
+  rounds: BattleRoundLog[];
+  /** 双方主将发动的特技 */
+  skills?: SkillTrigger[];
+  /** 被俘的败方武将ID列表 */
+  captured?: string[];
+  /** 赶来救援的守方援军 */
+  reinforcements?: Reinforcement[];
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 获取可出征的目标城市（相邻且非己方）
+ * @param fromCity - 出发城市
+ * @param gameState - 游戏状态
+ * @returns 目标城市列表
+ */
+export function getCampaignTargets(fromCity: City, gameState: GameState): City[] {
+  return fromCity.connectedCities
+    .map((cityId) => gameState.cities[cityId])
+    .filter((city): city is City => city !== undefined && city.faction !== fromCity.faction);
+}
+
+/**
+ * 获取出征武将列表中的主将（按战斗力）
+ * @param generals - 出征武将
+ * @returns 主将或null
+ */
+export function getCampaignLeader(generals: General[]): General | null {
+  let leader: General | null = null;
+  let maxPower = -1;
+
+  for (const general of generals) {
+    const power = general.attributes.war * 0.4 + general.attributes.lead * 0.6;
+    if (power > maxPower) {
+      maxPower = power;
+      leader = general;
+    }
+  }
+
+  return leader;
+}
+
+/**
+ * 计算出征部队的兵种构成
+ * @param generals - 出征武将
+ * @returns 兵种构成
+ */
+export function getCampaignComposition(generals: General[]): TroopComposition {
+  return generals.reduce(
+    (total, general) => addCompositions(total, getTroopComposition(general)),
+    createComposition()
+  );
+}
+
+/**
+ * 获取全部出征武将（含两路夹击的另一路）
+ * @param order - 出征指令
+ * @param gameState - 游戏状态
+ * @returns 出征武将列表
+ */
+export function getCampaignGenerals(order: CampaignOrder, gameState: GameState): General[] {
+  return [...order.generalIds, ...(order.pincer?.generalIds ?? [])]
+    .map((id) => gameState.generals[id])
+    .filter((g): g is General => g !== undefined);
+}
+
+/**
+ * 校验一路出征武将均在出发城市、未在行军且未在围城
+ */
+function validateCampaignForce(
+  generalIds: string[],
+  fromCity: City,
+  toCityId: string,
+  gameState: GameState
+): string | null {
+  for (const generalId of generalIds) {
+    const general = gameState.generals[generalId];
+    if (!general || !general.isAlive || !fromCity.stationedGenerals.includes(generalId)) {
+      return '出征武将不在出发城市';
+    }
+    if (isGeneralMarching(gameState, generalId)) {
+      return '出征武将正在行军';
+    }
+    // 围城中的武将只能强攻所围城市
+    const siege = gameState.sieges?.find((s) => s.generalIds.includes(generalId));
+    if (siege && siege.targetCityId !== toCityId) {
+      return '出征武将正在围城';
+    }
+  }
+  return null;
+}
+
+/**
+ * 校验出征指令
+ * @param order - 出征指令
+ * @param gameState - 游戏状态
+ * @returns 错误信息，合法时返回null
+ */
+export function validateCampaignOrder(order: CampaignOrder, gameState: GameState): string | null {
+  const fromCity = gameState.cities[order.fromCityId];
+  const toCity = gameState.cities[order.toCityId];
+
+  if (!fromCity || !toCity) return '城市不存在';
+  if (fromCity.faction !== gameState.currentFaction) return '只能从己方城市出征';
+  if (!fromCity.connectedCities.includes(order.toCityId)) return '目标城市不相邻';
+  if (toCity.faction === fromCity.faction) return '不能攻打己方城市';
+  if (getDiplomacyStatus(gameState, fromCity.faction, toCity.faction) === 'ally') {
+    return '不能攻打盟友城市，须先撕毁盟约';
+  }
+  if (getActiveTruce(gameState, fromCity.faction, toCity.faction)) return '停战期间不能出兵';
+  if (order.generalIds.length === 0) return '请选择出征武将';
+
+  const forceError = validateCampaignForce(order.generalIds, fromCity, order.toCityId, gameState);
+  if (forceError) return forceError;
+
+  if (order.pincer) {
+    const pincerCity = gameState.cities[order.pincer.fromCityId];
+    if (!pincerCity || pincerCity.faction !== fromCity.faction) return '夹击部队只能从己方城市出发';
+    if (pincerCity.id === fromCity.id) return '夹击部队须从另一座城市出发';
+    if (!pincerCity.connectedCities.includes(order.toCityId)) return '夹击城市与目标城市不相邻';
+    if (order.pincer.generalIds.length === 0) return '请选择夹击武将';
+
+    const pincerError = validateCampaignForce(
+      order.pincer.generalIds,
+      pincerCity,
+      order.toCityId,
+      gameState
+    );
+    if (pincerError) return pincerError;
+  }
+
+  const troops = getCampaignGenerals(order, gameState).reduce((sum, g) => sum + g.troops, 0);
+  if (troops <= 0) return '出征部队没有兵力';
+
+  return null;
+}
+
+/**
+ * 执行出征战斗结算
+ * 出征部队与守城部队通过多回合战斗引擎交战
+ * @param order - 出征指令
+ * @param gameState - 游戏状态
+ * @param random - 随机数生成器，用于测试时可注入
+ * @param duel - 玩家亲自单挑的结果（缺省时由战斗引擎随机判定）
+ * @returns 出征结果
+ */
+export function executeCampaign(
+  order: CampaignOrder,
+  gameState: GameState,
+  random: () => number = Math.random,
+  duel?: DuelResult
+): CampaignResult {
+  const error = validateCampaignOrder(order, gameState);
+
+  if (error) {
+    return {
+      success: false,
+      result: 'lose',
+      attackerGeneral: '',
+      defenderGeneral: '',
+      attackerCasualties: 0,
+      defenderCasualties: 0,
+      attackerCasualtiesByType: createComposition(),
+      defenderCasualtiesByType: createComposition(),
+      duel: { triggered: false, instantKill: false },
+      attackerMorale: BASE_ARMY_MORALE,
+      defenderMorale: BASE_ARMY_MORALE,
+      routed: null,
+      rounds: [],
+      error,
+    };
+  }
+
+  const fromCity = gameState.cities[order.fromCityId];
+  const toCity = gameState.cities[order.toCityId];
+  const attackers = getCampaignGenerals(order, gameState);
+  const leader = getCampaignLeader(attackers)!;
+  const attackerTroops = attackers.reduce((sum, g) => sum + g.troops, 0);
+
+  // 守方寡不敌众时向邻城求援；两路夹击令守军腹背受敌
+  const reinforcements = findReinforcements(
+    gameState,
+    order.toCityId,
+    fromCity.faction,
+    attackerTroops
+  );
+  const defending = getDefendingForce(toCity, reinforcements, gameState);
+
+  const battle = resolveBattle({
+    attacker: toBattleCommander(leader),
+    attackerTroops,
+    attackerComposition: getCampaignComposition(attackers),
+    attackerMorale: calculateCityArmyMorale(
+      attackers,
+      fromCity,
+      gameState.factions[fromCity.faction]
+    ),
+    defender: defending.commander ? toBattleCommander(defending.commander) : null,
+    defenderTroops: defending.troops,
+    defenderComposition: defending.composition,
+    defenderMorale: defending.morale - (order.pincer ? PINCER_MORALE_PENALTY : 0),
+    cityDefense: toCity.resources.defense,
+    duel,
+    random,
+  });
+
+  return {
+    success: true,
+    result: battle.result,
+    attackerGeneral: leader.id,
+    defenderGeneral: defending.commander?.id || '',
+    attackerCasualties: battle.attackerCasualties,
+    defenderCasualties: battle.defenderCasualties,
+    attackerCasualtiesByType: battle.attackerCasualtiesByType,
+    defenderCasualtiesByType: battle.defenderCasualtiesByType,
+    duel: battle.duel,
+    attackerMorale: battle.attackerMorale,
+    defenderMorale: battle.defenderMorale,
+    routed: battle.routed,
+    rounds: battle.rounds,
+    skills: battle.skills,
+    captured: rollCaptures(
+      gameState,
+      battle,
+      { toCityId: order.toCityId, generalIds: attackers.map((g) => g.id) },
+      random
+    ),
+    reinforcements,
+  };
+}
+
+/**
+ * 判定出征是否触发阵前单挑（触发时由玩家亲自指挥单挑）
+ * 沿用战斗引擎的单挑与秒杀触发条件（含飞将武力加成），秒杀改由单挑中的全力一击决定
+ * @param order - 出征指令
+ * @param gameState - 游戏状态
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 单挑双方主将，未触发或指令无效时返回null
+ */
+export function checkCampaignDuel(
+  order: CampaignOrder,
+  gameState: GameState,
+  random: () => number = Math.random
+): { attacker: General; defender: General } | null {
+  if (validateCampaignOrder(order, gameState)) return null;
+
+  const toCity = gameState.cities[order.toCityId];
+  const attackers = getCampaignGenerals(order, gameState);
+  const attacker = getCampaignLeader(attackers);
+  const reinforcements = findReinforcements(
+    gameState,
+    order.toCityId,
+    gameState.cities[order.fromCityId].faction,
+    attackers.reduce((sum, g) => sum + g.troops, 0)
+  );
+  const { commander: defender, troops } = getDefendingForce(toCity, reinforcements, gameState);
+  if (!attacker || !defender || troops <= 0) return null;
+
+  const check = executeDuelCheck(
+    getDuelWar(attacker.attributes.war, attacker.skills),
+    getDuelWar(defender.attributes.war, defender.skills),
+    attacker.id,
+    defender.id,
+    random(),
+    random(),
+    random()
+  );
+  return check.triggered ? { attacker, defender } : null;
+}
+
+/**
+ * 将出征结果应用到游戏状态
+ * 按兵种扣减双方兵力，攻方获胜时城池易主（与AI攻城相同的处理方式）
+ * @param gameState - 当前游戏状态
+ * @param order - 出征指令
+ * @param result - 出征结果
+ * @returns 更新后的游戏状态
+ */
+export function applyCampaignResult(
+  gameState: GameState,
+  order: CampaignOrder,
+  result: CampaignResult
+): GameState {
+  if (!result.success) return gameState;
+
+  // 深拷贝状态
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const toCity = newState.cities[order.toCityId];
+  if (!toCity) return gameState;
+
+  // 扣减攻方兵力（含夹击部队）
+  applyCasualtiesByType(getCampaignGenerals(order, newState), result.attackerCasualtiesByType);
+
+  // 扣减守方兵力（援军与守军共同承担伤亡），援军势力下回合扣除行动力
+  const reinforcements = result.reinforcements ?? [];
+  applyCasualtiesByType(
+    [
+      ...getCityDefenders(toCity, newState.generals),
+      ...getReinforcementGenerals(newState, reinforcements),
+    ],
+    result.defenderCasualtiesByType
+  );
+  chargeReinforcementCosts(newState, reinforcements);
+
+  // 攻方获胜：城池易主，守军退守相邻己方城市（攻方失利则退回出发城市），败将或被俘
+  if (result.result === 'win') {
+    transferCityControl(newState, {
+      factionId: newState.cities[order.fromCityId].faction,
+      fromCityId: order.fromCityId,
+      toCityId: order.toCityId,
+      generalIds: [...order.generalIds, ...(order.pincer?.generalIds ?? [])],
+      captured: result.captured,
+    });
+  } else if (result.result === 'lose' && result.captured) {
+    capturePrisoners(newState, result.captured, toCity.faction, toCity.id);
+  }
+
+  return newState;
+}
+
+/**
+ * 生成出征战斗事件
+ * @param order - 出征指令
+ * @param result - 出征结果
+ * @param gameState - 出征前的游戏状态
+ * @returns 战斗事件
+ */
+export function createCampaignEvent(
+  order: CampaignOrder,
+  result: CampaignResult,
+  gameState: GameState
+): GameEvent {
+  const fromCity = gameState.cities[order.fromCityId];
+  const toCity = gameState.cities[order.toCityId];
+
+  const data: BattleEventData = {
+    attacker: fromCity.faction,
+    defender: toCity.faction,
+    attackerGeneral: result.attackerGeneral,
+    defenderGeneral: result.defenderGeneral,
+    result: result.result,
+    casualties: {
+      attacker: result.attackerCasualties,
+      defender: result.defenderCasualties,
+    },
+    casualtiesByType: {
+      attacker: result.attackerCasualtiesByType,
+      defender: result.defenderCasualtiesByType,
+    },
+    cityCapture: result.result === 'win' ? order.toCityId : undefined,
+    morale: { attacker: result.attackerMorale, defender: result.defenderMorale },
+    retreat: describeRetreat(gameState, result, order.fromCityId, order.toCityId),
+    rounds: toBattleRoundRecords(result.rounds, result.attackerGeneral, result.defenderGeneral),
+  };
+
+  if (result.captured && result.captured.length > 0) {
+    data.captured = result.captured;
+  }
+
+  if (result.skills && result.skills.length > 0) {
+    data.skills = result.skills;
+  }
+
+  if (result.reinforcements && result.reinforcements.length > 0) {
+    data.reinforcements = result.reinforcements.map((r) => r.generalId);
+  }
+
+  if (order.pincer) {
+    data.pincerCity = order.pincer.fromCityId;
+  }
+
+  if (result.duel.triggered) {
+    data.duel = {
+      occurred: true,
+      winner: result.duel.winner,
+      instantKill: result.duel.instantKill,
+      turns: result.duel.turns,
+      retreated: result.duel.retreated,
+    };
+  }
+
+  return {
+    id: generateId('campaign'),
+    type: 'battle',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
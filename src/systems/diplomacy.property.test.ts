@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  BREAK_TREATY_LOYALTY_PENALTY,
+  BREAK_TREATY_REPUTATION_PENALTY,
+  DIPLOMACY_GOLD_COST,
+  DIPLOMACY_MAX_CHANCE,
+  DIPLOMACY_MIN_CHANCE,
+  TRUCE_MONTHS,
+  applyDiplomacyResult,
+  calculateDiplomacyChance,
+  createDiplomacyEvent,
+  executeDiplomacy,
+  getActiveTruce,
+  getDiplomacyStatus,
+  getFactionReputation,
+  processTruces,
+  validateDiplomacyOrder,
+  type DiplomacyOrder,
+} from './diplomacy';
+import { validateCampaignOrder } from './campaign';
+import { processSieges } from './siege';
+import { RELATION_MAX, RELATION_MIN, getRelationKey } from './relations';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+import type { DiplomacyEventData } from '../types/events';
+import type { Siege } from '../types/siege';
+
+/**
+ * 将日期推后若干月
+ */
+function advanceMonths(state: GameState, months: number): GameState {
+  const total = state.currentDate.year * 12 + (state.currentDate.month - 1) + months;
+  return {
+    ...state,
+    currentDate: { year: Math.floor(total / 12), month: (total % 12) + 1 },
+  };
+}
+
+/**
+ * 曹操自陈留遣使的指令
+ */
+function createOrder(action: DiplomacyOrder['action'], targetFactionId: string): DiplomacyOrder {
+  return { action, envoyId: 'caocao', targetFactionId };
+}
+
+/**
+ * 创建一场围城
+ */
+function createSiege(attackerFaction: string, campCityId: string, targetCityId: string): Siege {
+  return {
+    id: `${attackerFaction}_${targetCityId}`,
+    attackerFaction,
+    campCityId,
+    targetCityId,
+    generalIds: [],
+    startDate: { year: 190, month: 1 },
+    months: 0,
+  };
+}
+
+const attrArb = fc.integer({ min: 0, max: 100 });
+
+const rollArb = fc.double({ min: 0, max: 0.999, noNaN: true });
+
+/**
+ * **Feature: sanguo-190, Property 33: 外交**
+ * *For any* 遣使提议，成功率限制在5%-95%之间且随使者魅力政治提高而不降低；
+ * 对方应允时双方关系对称更新，无论成败均支出金钱；
+ * 停战期间不得出兵，期满后重回交战；撕毁盟约降低信誉与民忠。
+ */
+describe('Property 33: 外交', () => {
+  it('should keep the chance in range and never lower it for a more persuasive envoy', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<DiplomacyOrder['action']>('alliance', 'truce'),
+        attrArb,
+        attrArb,
+        (action, a, b) => {
+          const state = createTestState();
+          const order = createOrder(action, action === 'truce' ? 'dongzhuo' : 'yuanshao');
+
+          state.generals.caocao.attributes.cha = Math.min(a, b);
+          state.generals.caocao.attributes.pol = Math.min(a, b);
+          const low = calculateDiplomacyChance(order, state);
+          state.generals.caocao.attributes.cha = Math.max(a, b);
+          state.generals.caocao.attributes.pol = Math.max(a, b);
+          const high = calculateDiplomacyChance(order, state);
+
+          for (const chance of [low, high]) {
+            expect(chance).toBeGreaterThanOrEqual(DIPLOMACY_MIN_CHANCE);
+            expect(chance).toBeLessThanOrEqual(DIPLOMACY_MAX_CHANCE);
+          }
+          expect(high).toBeGreaterThanOrEqual(low);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should update both sides only when the proposal is accepted and always spend gold', () => {
+    fc.assert(
+      fc.property(fc.constantFrom('yuanshao', 'liubei'), rollArb, (targetId, roll) => {
+        const state = createTestState();
+        const order = createOrder('alliance', targetId);
+        const result = executeDiplomacy(order, state, 'caocao', () => roll);
+        expect(result.success).toBe(true);
+        expect(result.accepted).toBe(roll < calculateDiplomacyChance(order, state));
+
+        const newState = applyDiplomacyResult(state, order, result);
+        const expected = result.accepted ? 'ally' : 'neutral';
+        expect(getDiplomacyStatus(newState, 'caocao', targetId)).toBe(expected);
+        expect(getDiplomacyStatus(newState, targetId, 'caocao')).toBe(expected);
+        expect(newState.cities.chenliu.resources.gold).toBe(
+          state.cities.chenliu.resources.gold - DIPLOMACY_GOLD_COST.alliance
+        );
+
+        const event = createDiplomacyEvent(order, result, state);
+        expect(event?.type).toBe('diplomacy');
+        expect((event?.data as DiplomacyEventData).accepted).toBe(result.accepted);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should forbid campaigns during a truce and resume hostilities when it expires', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: TRUCE_MONTHS * 2 }), (elapsed) => {
+        const state = createTestState();
+        const order = createOrder('truce', 'dongzhuo');
+        const result = executeDiplomacy(order, state, 'caocao', () => 0);
+        expect(result.accepted).toBe(true);
+
+        const truceState = advanceMonths(applyDiplomacyResult(state, order, result), elapsed);
+        const campaign = { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: ['caocao'] };
+        const { state: after, events } = processTruces(truceState);
+
+        if (elapsed < TRUCE_MONTHS) {
+          expect(getActiveTruce(after, 'dongzhuo', 'caocao')).toBeDefined();
+          expect(getDiplomacyStatus(after, 'dongzhuo', 'caocao')).toBe('neutral');
+          expect(validateCampaignOrder(campaign, after)).toBe('停战期间不能出兵');
+          expect(events).toHaveLength(0);
+        } else {
+          expect(getActiveTruce(after, 'dongzhuo', 'caocao')).toBeUndefined();
+          expect(getDiplomacyStatus(after, 'caocao', 'dongzhuo')).toBe('hostile');
+          expect(getDiplomacyStatus(after, 'dongzhuo', 'caocao')).toBe('hostile');
+          expect(validateCampaignOrder(campaign, after)).not.toBe('停战期间不能出兵');
+          expect(events).toHaveLength(1);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should lift sieges between the parties once they sign a truce or alliance', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(
+          { action: 'truce' as const, targetId: 'dongzhuo', targetCity: 'luoyang' },
+          { action: 'alliance' as const, targetId: 'yuanshao', targetCity: 'ye' }
+        ),
+        ({ action, targetId, targetCity }) => {
+          const state = createTestState();
+          const bystander =
+            targetId === 'dongzhuo'
+              ? createSiege('yuanshao', 'ye', 'luoyang')
+              : createSiege('dongzhuo', 'luoyang', 'ye');
+          state.sieges = [
+            createSiege('caocao', 'chenliu', targetCity),
+            createSiege(targetId, targetCity, 'chenliu'),
+            bystander,
+          ];
+          const order = createOrder(action, targetId);
+          const result = executeDiplomacy(order, state, 'caocao', () => 0);
+          expect(result.accepted).toBe(true);
+
+          const newState = applyDiplomacyResult(state, order, result);
+          expect(newState.sieges).toEqual([bystander]);
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should end sieges whose parties are no longer at war', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: RELATION_MIN, max: RELATION_MAX }), (relation) => {
+        const state = createTestState();
+        state.relations = { ...state.relations, [getRelationKey('caocao', 'dongzhuo')]: relation };
+        state.sieges = [{ ...createSiege('caocao', 'chenliu', 'luoyang'), generalIds: ['caoren'] }];
+
+        const { state: after } = processSieges(state, () => 0.999);
+        const hostile = getDiplomacyStatus(state, 'caocao', 'dongzhuo') === 'hostile';
+        expect(after.sieges?.length ?? 0).toBe(hostile ? 1 : 0);
+        if (!hostile) {
+          expect(after.cities.luoyang.resources).toEqual(state.cities.luoyang.resources);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should cost reputation and loyalty when breaking a treaty', () => {
+    const state = createTestState();
+    state.factions.caocao.diplomacy.liubei = 'ally';
+    state.factions.liubei.diplomacy.caocao = 'ally';
+
+    expect(validateDiplomacyOrder(createOrder('declare_war', 'liubei'), state, 'caocao')).toBe(
+      '须先撕毁盟约'
+    );
+    expect(validateDiplomacyOrder(createOrder('alliance', 'dongzhuo'), state, 'caocao')).toBe(
+      '双方交战中，须先议和'
+    );
+    expect(validateDiplomacyOrder(createOrder('truce', 'yuanshao'), state, 'caocao')).toBe(
+      '双方并未交战'
+    );
+
+    const order = createOrder('break_treaty', 'liubei');
+    const newState = applyDiplomacyResult(state, order, executeDiplomacy(order, state, 'caocao'));
+    expect(getDiplomacyStatus(newState, 'liubei', 'caocao')).toBe('neutral');
+    expect(getFactionReputation(newState, 'caocao')).toBe(
+      getFactionReputation(state, 'caocao') - BREAK_TREATY_REPUTATION_PENALTY
+    );
+    expect(newState.cities.chenliu.resources.loyalty).toBe(
+      state.cities.chenliu.resources.loyalty - BREAK_TREATY_LOYALTY_PENALTY
+    );
+  });
+});
@@ -0,0 +1,723 @@
+/**
+ * 外交系统 - 处理结盟、议和、撕毁盟约与宣战
+ * 结盟与议和须遣使说服对方，成功率取决于双方实力、共同敌人、使者魅力政治与己方信誉
+ * @module systems/diplomacy
+ */
+
+import type { GameState } from '../types/gameState';
+import type { General } from '../types/general';
+import type { DiplomacyStatus } from '../types/faction';
+import type { DiplomacyProposal, Truce } from '../types/diplomacy';
+import type {
+  BattleEventData,
+  DiplomacyActionType,
+  DiplomacyEventData,
+  GameEvent,
+  GameTimestamp,
+} from '../types/events';
+import {
+  DEFAULT_FACTION_REPUTATION,
+  FACTION_REPUTATION_MAX,
+  FACTION_REPUTATION_MIN,
+} from '../types/faction';
+import { isPrisoner } from './prisoners';
+import {
+  STATUS_RELATIONS,
+  adjustRelation,
+  deriveDiplomacyStatus,
+  getRelation,
+  setRelation,
+} from './relations';
+import { isGeneralMarching } from './movement';
+import { isBattleEngaged } from './battle';
+import { generateId } from './ids';
+
+/**
+ * 遣使提议（结盟、议和）的基础成功率
+ */
+export const DIPLOMACY_BASE_CHANCE = 0.3;
+
+/**
+ * 遣使提议成功率下限
+ */
+export const DIPLOMACY_MIN_CHANCE = 0.05;
+
+/**
+ * 遣使提议成功率上限
+ */
+export const DIPLOMACY_MAX_CHANCE = 0.95;
+
+/**
+ * 各提议的难度修正（加到成功率上）
+ */
+export const DIPLOMACY_DIFFICULTY: Record<'alliance' | 'truce', number> = {
+  alliance: -0.1,
+  truce: 0.1,
+};
+
+/**
+ * 实力对比权重：己方兵力占双方总兵力的比例每高于一半 10%，成功率提高 4%
+ */
+export const DIPLOMACY_STRENGTH_WEIGHT = 0.4;
+
+/**
+ * 每个共同敌人提高的成功率
+ */
+export const SHARED_ENEMY_BONUS = 0.1;
+
+/**
+ * 各外交行动消耗的金钱（自使者所在城市支出，无论对方是否应允）
+ */
+export const DIPLOMACY_GOLD_COST: Record<DiplomacyActionType, number> = {
+  alliance: 500,
+  truce: 300,
+  break_treaty: 100,
+  declare_war: 100,
+};
+
+/**
+ * 城池数独占鳌头且不少于此数的势力被视为霸主，其余诸侯合纵相抗
+ */
+export const COALITION_MIN_CITIES = 3;
+
+/**
+ * 霸主遣使结盟时的成功率惩罚（诸侯畏其坐大）
+ */
+export const COALITION_LEADER_PENALTY = 0.2;
+
+/**
+ * 停战协定持续月数
+ */
+export const TRUCE_MONTHS = 12;
+
+/**
+ * 缔结停战后双方关系值至少回升至此值（中立区间）
+ */
+export const TRUCE_RELATION = -10;
+
+/**
+ * 撕毁盟约的关系值损失（自关系值与0的较小者起算）
+ */
+export const BETRAYAL_RELATION_PENALTY = 25;
+
+/**
+ * 交战一次双方关系值的损失
+ */
+export const BATTLE_RELATION_PENALTY = 10;
+
+/**
+ * 每个共同敌人每月提高的关系值
+ */
+export const SHARED_ENEMY_RELATION_BONUS = 2;
+
+/**
+ * 同仇敌忾所能提高到的关系值上限（不会因此自动结盟）
+ */
+export const SHARED_ENEMY_RELATION_CAP = 30;
+
+/**
+ * 撕毁盟约的信誉损失
+ */
+export const BREAK_TREATY_REPUTATION_PENALTY = 20;
+
+/**
+ * 撕毁盟约时己方各城的民忠损失
+ */
+export const BREAK_TREATY_LOYALTY_PENALTY = 10;
+
+/**
+ * 外交指令
+ */
+export interface DiplomacyOrder {
+  /** 外交行动 */
+  action: DiplomacyActionType;
+  /** 使者武将ID */
+  envoyId: string;
+  /** 对方势力ID */
+  targetFactionId: string;
+}
+
+/**
+ * 外交执行结果
+ */
+export interface DiplomacyResult {
+  /** 是否成功执行 */
+  success: boolean;
+  /** 外交行动 */
+  action: DiplomacyActionType;
+  /** 对方是否应允（宣战与撕毁盟约恒为true） */
+  accepted: boolean;
+  /** 消耗的金钱 */
+  goldSpent: number;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 答复外交提议的结果
+ */
+export interface DiplomacyProposalResult {
+  /** 更新后的游戏状态 */
+  state: GameState;
+  /** 外交事件，提议已失效时为null */
+  event: GameEvent | null;
+  /** 提议失效的原因 */
+  error?: string;
+}
+
+/**
+ * 停战期满结算结果
+ */
+export interface TruceTurnResult {
+  /** 更新后的游戏状态 */
+  state: GameState;
+  /** 停战期满事件 */
+  events: GameEvent[];
+}
+
+/**
+ * 将日期推后若干月
+ */
+function addMonths(date: GameTimestamp, months: number): GameTimestamp {
+  const total = date.year * 12 + (date.month - 1) + months;
+  return { year: Math.floor(total / 12), month: (total % 12) + 1 };
+}
+
+/**
+ * 判断日期是否已到达或超过另一日期
+ */
+function isOnOrAfter(date: GameTimestamp, target: GameTimestamp): boolean {
+  return date.year * 12 + date.month >= target.year * 12 + target.month;
+}
+
+/**
+ * 判断停战协定是否由两个势力缔结
+ */
+function isTruceBetween(truce: Truce, factionA: string, factionB: string): boolean {
+  return truce.factions.includes(factionA) && truce.factions.includes(factionB);
+}
+
+/**
+ * 解除两势力之间（双向）的围城（直接修改传入的状态）
+ */
+function liftSiegesBetween(state: GameState, factionA: string, factionB: string): void {
+  if (!state.sieges) return;
+  state.sieges = state.sieges.filter((siege) => {
+    const defender = state.cities[siege.targetCityId]?.faction;
+    return !(
+      (siege.attackerFaction === factionA && defender === factionB) ||
+      (siege.attackerFaction === factionB && defender === factionA)
+    );
+  });
+}
+
+/**
+ * 判断外交行动是否需要对方应允
+ */
+export function isDiplomacyProposal(action: DiplomacyActionType): action is 'alliance' | 'truce' {
+  return action === 'alliance' || action === 'truce';
+}
+
+/**
+ * 获取两个势力间的外交关系（由关系值按阈值推定）
+ */
+export function getDiplomacyStatus(
+  gameState: GameState,
+  factionId: string,
+  targetFactionId: string
+): DiplomacyStatus {
+  return deriveDiplomacyStatus(getRelation(gameState, factionId, targetFactionId));
+}
+
+/**
+ * 获取停战协定列表（兼容缺省字段的旧存档）
+ */
+export function getTruces(gameState: GameState): Truce[] {
+  return gameState.truces ?? [];
+}
+
+/**
+ * 获取两个势力间生效中的停战协定
+ * 协定未到期且双方仍为中立时生效，双方因他故重启战端或结盟后即告作废
+ * @param gameState - 游戏状态
+ * @param factionA - 势力ID
+ * @param factionB - 势力ID
+ * @returns 停战协定，无生效协定时返回undefined
+ */
+export function getActiveTruce(
+  gameState: GameState,
+  factionA: string,
+  factionB: string
+): Truce | undefined {
+  if (getDiplomacyStatus(gameState, factionA, factionB) !== 'neutral') return undefined;
+  return getTruces(gameState).find(
+    (t) => isTruceBetween(t, factionA, factionB) && !isOnOrAfter(gameState.currentDate, t.expiresAt)
+  );
+}
+
+/**
+ * 获取待答复的外交提议（兼容缺省字段的旧存档）
+ */
+export function getDiplomacyProposals(gameState: GameState): DiplomacyProposal[] {
+  return gameState.diplomacyProposals ?? [];
+}
+
+/**
+ * 获取霸主势力：城池数多于其他任何势力且不少于合纵门槛
+ * @returns 霸主势力ID，群雄并立时返回null
+ */
+export function getLeadingFaction(gameState: GameState): string | null {
+  const ranked = Object.values(gameState.factions).sort(
+    (a, b) => b.cities.length - a.cities.length
+  );
+  const [first, second] = ranked;
+  if (!first || first.cities.length < COALITION_MIN_CITIES) return null;
+  if (second && second.cities.length >= first.cities.length) return null;
+  return first.id;
+}
+
+/**
+ * 获取势力信誉（缺省时为默认信誉）
+ */
+export function getFactionReputation(gameState: GameState, factionId: string): number {
+  return gameState.factions[factionId]?.reputation ?? DEFAULT_FACTION_REPUTATION;
+}
+
+/**
+ * 计算势力总兵力（存活且未被俘的所属武将统领兵力之和）
+ */
+export function getFactionStrength(gameState: GameState, factionId: string): number {
+  return Object.values(gameState.generals)
+    .filter((g) => g.faction === factionId && g.isAlive && !isPrisoner(gameState, g.id))
+    .reduce((total, g) => total + g.troops, 0);
+}
+
+/**
+ * 获取两个势力的共同敌人（与双方均处于敌对且尚有城池的势力）
+ */
+export function getSharedEnemies(
+  gameState: GameState,
+  factionId: string,
+  targetFactionId: string
+): string[] {
+  return Object.values(gameState.factions)
+    .filter(
+      (f) =>
+        f.id !== factionId &&
+        f.id !== targetFactionId &&
+        f.cities.length > 0 &&
+        getDiplomacyStatus(gameState, factionId, f.id) === 'hostile' &&
+        getDiplomacyStatus(gameState, targetFactionId, f.id) === 'hostile'
+    )
+    .map((f) => f.id);
+}
+
+/**
+ * 获取可出使的武将（驻守于该己方城市、未行军且未被俘的存活武将）
+ * @param gameState - 游戏状态
+ * @param cityId - 使者出发城市ID
+ * @param factionId - 遣使势力ID
+ * @returns 可出使武将列表
+ */
+export function getDiplomacyEnvoys(
+  gameState: GameState,
+  cityId: string,
+  factionId: string
+): General[] {
+  const city = gameState.cities[cityId];
+  if (!city || city.faction !== factionId) return [];
+
+  return city.stationedGenerals
+    .map((id) => gameState.generals[id])
+    .filter(
+      (g): g is General =>
+        g !== undefined &&
+        g.isAlive &&
+        g.faction === factionId &&
+        !isGeneralMarching(gameState, g.id) &&
+        !isPrisoner(gameState, g.id)
+    );
+}
+
+/**
+ * 计算遣使提议的成功率
+ * 公式: 30% + ((魅力 + 政治) ÷ 2 - 50) ÷ 100 + 0.4 × (己方兵力占比 - 50%)
+ *       + 10% × 共同敌人数 + (信誉 - 50) ÷ 200 + 提议难度修正，限制在5%-95%
+ * 霸主遣使结盟时成功率再降低20%
+ * 宣战与撕毁盟约无需对方应允，成功率恒为100%
+ * @param order - 外交指令
+ * @param gameState - 游戏状态
+ * @returns 成功率，使者或对方势力不存在时为0
+ */
+export function calculateDiplomacyChance(order: DiplomacyOrder, gameState: GameState): number {
+  const envoy = gameState.generals[order.envoyId];
+  const target = gameState.factions[order.targetFactionId];
+  if (!envoy || !target) return 0;
+  if (!isDiplomacyProposal(order.action)) return 1;
+
+  const ownStrength = getFactionStrength(gameState, envoy.faction);
+  const totalStrength = ownStrength + getFactionStrength(gameState, target.id);
+  const strengthShare = totalStrength > 0 ? ownStrength / totalStrength : 0.5;
+
+  const chance =
+    DIPLOMACY_BASE_CHANCE +
+    ((envoy.attributes.cha + envoy.attributes.pol) / 2 - 50) / 100 +
+    DIPLOMACY_STRENGTH_WEIGHT * (strengthShare - 0.5) +
+    SHARED_ENEMY_BONUS * getSharedEnemies(gameState, envoy.faction, target.id).length +
+    (getFactionReputation(gameState, envoy.faction) - DEFAULT_FACTION_REPUTATION) / 200 +
+    DIPLOMACY_DIFFICULTY[order.action] -
+    (order.action === 'alliance' && getLeadingFaction(gameState) === envoy.faction
+      ? COALITION_LEADER_PENALTY
+      : 0);
+  return Math.max(DIPLOMACY_MIN_CHANCE, Math.min(DIPLOMACY_MAX_CHANCE, chance));
+}
+
+/**
+ * 校验外交指令
+ * @param order - 外交指令
+ * @param gameState - 游戏状态
+ * @param factionId - 遣使势力ID
+ * @returns 错误信息，校验通过返回null
+ */
+export function validateDiplomacyOrder(
+  order: DiplomacyOrder,
+  gameState: GameState,
+  factionId: string
+): string | null {
+  const target = gameState.factions[order.targetFactionId];
+  if (!target) {
+    return '对方势力不存在';
+  }
+
+  if (target.id === factionId) {
+    return '不能与己方交涉';
+  }
+
+  if (target.cities.length === 0) {
+    return '该势力已覆灭';
+  }
+
+  const envoy = gameState.generals[order.envoyId];
+  if (!envoy) {
+    return '请选择使者';
+  }
+
+  if (!getDiplomacyEnvoys(gameState, envoy.currentCity, factionId).some((g) => g.id === envoy.id)) {
+    return '使者须为驻守己方城市的武将';
+  }
+
+  const home = gameState.cities[envoy.currentCity];
+  if (home.resources.gold < DIPLOMACY_GOLD_COST[order.action]) {
+    return '金钱不足';
+  }
+
+  const status = getDiplomacyStatus(gameState, factionId, target.id);
+  const truce = getActiveTruce(gameState, factionId, target.id);
+
+  switch (order.action) {
+    case 'alliance':
+      if (status === 'ally') return '双方已是盟友';
+      if (status === 'hostile') return '双方交战中，须先议和';
+      break;
+    case 'truce':
+      if (status !== 'hostile') return '双方并未交战';
+      break;
+    case 'break_treaty':
+      if (status !== 'ally' && !truce) return '双方并无盟约';
+      break;
+    case 'declare_war':
+      if (status === 'hostile') return '双方已在交战';
+      if (status === 'ally' || truce) return '须先撕毁盟约';
+      break;
+  }
+
+  return null;
+}
+
+/**
+ * 执行外交指令（判定对方是否应允）
+ * @param order - 外交指令
+ * @param gameState - 游戏状态
+ * @param factionId - 遣使势力ID
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 外交结果
+ */
+export function executeDiplomacy(
+  order: DiplomacyOrder,
+  gameState: GameState,
+  factionId: string,
+  random: () => number = Math.random
+): DiplomacyResult {
+  const error = validateDiplomacyOrder(order, gameState, factionId);
+  if (error) {
+    return { success: false, action: order.action, accepted: false, goldSpent: 0, error };
+  }
+
+  return {
+    success: true,
+    action: order.action,
+    accepted:
+      !isDiplomacyProposal(order.action) || random() < calculateDiplomacyChance(order, gameState),
+    goldSpent: DIPLOMACY_GOLD_COST[order.action],
+  };
+}
+
+/**
+ * 将外交结果应用到游戏状态
+ * - 结盟：关系值升至同盟水平，原有停战协定作废
+ * - 议和：关系值回升至中立区间并缔结停战协定
+ * - 撕毁盟约：关系值降至 min(关系值, 0) - 25（盟友转为中立、停战转为交战），己方信誉与各城民忠下降
+ * - 宣战：关系值降至交战水平
+ * @param gameState - 当前游戏状态
+ * @param order - 外交指令
+ * @param result - 外交结果
+ * @returns 更新后的游戏状态
+ */
+export function applyDiplomacyResult(
+  gameState: GameState,
+  order: DiplomacyOrder,
+  result: DiplomacyResult
+): GameState {
+  if (!result.success) return gameState;
+
+  // 深拷贝状态
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const envoy = newState.generals[order.envoyId];
+  const faction = envoy ? newState.factions[envoy.faction] : undefined;
+  const target = newState.factions[order.targetFactionId];
+  if (!envoy || !faction || !target) return gameState;
+
+  const home = newState.cities[envoy.currentCity];
+  if (home) home.resources.gold = Math.max(0, home.resources.gold - result.goldSpent);
+
+  if (!result.accepted) return newState;
+
+  const relation = getRelation(newState, faction.id, target.id);
+  const otherTruces = getTruces(newState).filter((t) => !isTruceBetween(t, faction.id, target.id));
+
+  switch (result.action) {
+    case 'alliance':
+      setRelation(
+        newState,
+        faction.id,
+        target.id,
+        Math.max(relation, STATUS_RELATIONS.ally),
+        'alliance'
+      );
+      newState.truces = otherTruces;
+      liftSiegesBetween(newState, faction.id, target.id);
+      break;
+    case 'truce':
+      setRelation(newState, faction.id, target.id, Math.max(relation, TRUCE_RELATION), 'truce');
+      newState.truces = [
+        ...otherTruces,
+        {
+          factions: [faction.id, target.id],
+          startedAt: { ...newState.currentDate },
+          expiresAt: addMonths(newState.currentDate, TRUCE_MONTHS),
+        },
+      ];
+      liftSiegesBetween(newState, faction.id, target.id);
+      break;
+    case 'break_treaty':
+      setRelation(
+        newState,
+        faction.id,
+        target.id,
+        Math.min(relation, 0) - BETRAYAL_RELATION_PENALTY,
+        'betrayal'
+      );
+      newState.truces = otherTruces;
+      faction.reputation = Math.max(
+        FACTION_REPUTATION_MIN,
+        Math.min(
+          FACTION_REPUTATION_MAX,
+          getFactionReputation(newState, faction.id) - BREAK_TREATY_REPUTATION_PENALTY
+        )
+      );
+      for (const cityId of faction.cities) {
+        const city = newState.cities[cityId];
+        if (city) {
+          city.resources.loyalty = Math.max(
+            0,
+            city.resources.loyalty - BREAK_TREATY_LOYALTY_PENALTY
+          );
+        }
+      }
+      break;
+    case 'declare_war':
+      setRelation(
+        newState,
+        faction.id,
+        target.id,
+        Math.min(relation, STATUS_RELATIONS.hostile),
+        'declare_war'
+      );
+      break;
+  }
+
+  return newState;
+}
+
+/**
+ * 生成外交事件（无论对方是否应允均载入史册）
+ * @param order - 外交指令
+ * @param result - 外交结果
+ * @param gameState - 遣使前的游戏状态
+ * @returns 外交事件，指令无效时返回null
+ */
+export function createDiplomacyEvent(
+  order: DiplomacyOrder,
+  result: DiplomacyResult,
+  gameState: GameState
+): GameEvent | null {
+  const envoy = gameState.generals[order.envoyId];
+  if (!result.success || !envoy) return null;
+
+  const data: DiplomacyEventData = {
+    faction: envoy.faction,
+    target: order.targetFactionId,
+    action: order.action,
+    envoy: envoy.id,
+    accepted: result.accepted,
+  };
+
+  return {
+    id: generateId('diplomacy_event'),
+    type: 'diplomacy',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
+
+/**
+ * 答复外交提议：无论应允与否，提议方均支出遣使金钱并载入史册
+ * 提议方已无力遣使或双方关系已变时提议作废
+ * @param gameState - 当前游戏状态
+ * @param proposalId - 提议ID
+ * @param accepted - 是否应允
+ * @returns 更新后的状态与外交事件
+ */
+export function resolveDiplomacyProposal(
+  gameState: GameState,
+  proposalId: string,
+  accepted: boolean
+): DiplomacyProposalResult {
+  const proposal = getDiplomacyProposals(gameState).find((p) => p.id === proposalId);
+  if (!proposal) return { state: gameState, event: null, error: '提议不存在' };
+
+  const remaining: GameState = {
+    ...gameState,
+    diplomacyProposals: getDiplomacyProposals(gameState).filter((p) => p.id !== proposalId),
+  };
+  const order: DiplomacyOrder = {
+    action: proposal.action,
+    envoyId: proposal.envoyId,
+    targetFactionId: proposal.to,
+  };
+  const error = validateDiplomacyOrder(order, remaining, proposal.from);
+  if (error) return { state: remaining, event: null, error };
+
+  const result: DiplomacyResult = {
+    success: true,
+    action: proposal.action,
+    accepted,
+    goldSpent: DIPLOMACY_GOLD_COST[proposal.action],
+  };
+  return {
+    state: applyDiplomacyResult(remaining, order, result),
+    event: createDiplomacyEvent(order, result, remaining),
+  };
+}
+
+/**
+ * 结算停战协定：到期且双方仍为中立的协定期满，关系值仍为负时双方重回交战
+ * 已作废（双方结盟或重启战端）的协定一并清理
+ * @param gameState - 当前游戏状态（日期已推进至新月份）
+ * @returns 更新后的状态与停战期满事件
+ */
+export function processTruces(gameState: GameState): TruceTurnResult {
+  const truces = getTruces(gameState);
+  if (truces.length === 0) return { state: gameState, events: [] };
+
+  const state: GameState = JSON.parse(JSON.stringify(gameState));
+  const events: GameEvent[] = [];
+  const remaining: Truce[] = [];
+
+  for (const truce of truces) {
+    const [factionA, factionB] = truce.factions;
+    if (!state.factions[factionA] || !state.factions[factionB]) continue;
+    if (getDiplomacyStatus(state, factionA, factionB) !== 'neutral') continue;
+
+    if (!isOnOrAfter(state.currentDate, truce.expiresAt)) {
+      remaining.push(truce);
+      continue;
+    }
+
+    const relation = getRelation(state, factionA, factionB);
+    if (relation >= 0) continue;
+
+    setRelation(
+      state,
+      factionA,
+      factionB,
+      Math.min(relation, STATUS_RELATIONS.hostile),
+      'truce_expired'
+    );
+    const data: DiplomacyEventData = {
+      faction: factionA,
+      target: factionB,
+      action: 'truce_expired',
+      accepted: true,
+    };
+    events.push({
+      id: generateId('diplomacy_event'),
+      type: 'diplomacy',
+      timestamp: { ...state.currentDate },
+      data,
+    });
+  }
+
+  state.truces = remaining;
+  return { state, events };
+}
+
+/**
+ * 结算本月势力关系变化
+ * - 本月每场真正交兵的战斗使攻守双方关系值降低
+ * - 拥有共同敌人的势力关系值逐月回升，至多升至同仇敌忾上限
+ * @param gameState - 当前游戏状态（日期尚未推进）
+ * @param monthEvents - 本月发生的事件
+ * @returns 更新后的游戏状态
+ */
+export function processRelations(gameState: GameState, monthEvents: GameEvent[]): GameState {
+  const state: GameState = JSON.parse(JSON.stringify(gameState));
+
+  for (const event of monthEvents) {
+    if (event.type !== 'battle') continue;
+    const data = event.data as BattleEventData;
+    if (data.attacker === data.defender || !isBattleEngaged(data)) continue;
+    adjustRelation(state, data.attacker, data.defender, -BATTLE_RELATION_PENALTY, 'battle');
+  }
+
+  const factions = Object.values(state.factions).filter((f) => f.cities.length > 0);
+  for (let i = 0; i < factions.length; i++) {
+    for (let j = i + 1; j < factions.length; j++) {
+      const a = factions[i].id;
+      const b = factions[j].id;
+      const shared = getSharedEnemies(state, a, b).length;
+      const relation = getRelation(state, a, b);
+      if (shared === 0 || relation >= SHARED_ENEMY_RELATION_CAP) continue;
+
+      setRelation(
+        state,
+        a,
+        b,
+        Math.min(SHARED_ENEMY_RELATION_CAP, relation + SHARED_ENEMY_RELATION_BONUS * shared),
+        'shared_enemy'
+      );
+    }
+  }
+
+  return state;
+}
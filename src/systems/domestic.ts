@@ -3,8 +3,10 @@
  * @module systems/domestic
  */
 
-import type { CityResources } from '../types/city';
+import type { City } from '../types/city';
 import { COMMERCE_MAX } from '../types/city';
+import type { TroopType } from '../types/troop';
+import { TROOP_TYPE_STATS, getTrainableTroopTypes } from './troops';
 
 /**
  * 内政开发结果接口
@@ -34,6 +36,8 @@ export interface RecruitResult {
   populationSpent: number;
   /** 获得的士兵数 */
   soldiersGained: number;
+  /** 征募兵种 */
+  troopType: TroopType;
   /** 民忠降低值 */
   loyaltyDecrease: number;
   /** 错误信息 */
@@ -106,17 +110,19 @@ export function calculateYearlyGrain(
 
 /**
  * 计算开发指令的数值增长
- * 公式: 执行武将政治 ÷ 5 + 随机波动(1-5)
+ * 公式: (执行武将政治 ÷ 5 + 随机波动(1-5)) × 特技倍率
  * **Validates: Requirements 5.3**
  * @param executorPol - 执行武将的政治值
  * @param randomValue - 随机波动值 (1-5)，用于测试时可注入
+ * @param skillMultiplier - 特技倍率（屯田开发农业时为1.5，默认1）
  * @returns 数值增长量
  */
 export function calculateDevelopmentIncrease(
   executorPol: number,
-  randomValue: number = Math.floor(Math.random() * 5) + 1
+  randomValue: number = Math.floor(Math.random() * 5) + 1,
+  skillMultiplier: number = 1
 ): number {
-  return Math.floor(executorPol / 5) + randomValue;
+  return Math.floor((Math.floor(executorPol / 5) + randomValue) * skillMultiplier);
 }
 
 /**
@@ -128,6 +134,7 @@ export function calculateDevelopmentIncrease(
  * @param executorPol - 执行武将的政治值
  * @param maxValue - 最大值限制
  * @param randomValue - 随机波动值 (1-5)，用于测试时可注入
+ * @param skillMultiplier - 特技倍率（默认1）
  * @returns 开发结果
  */
 export function executeDevelopment(
@@ -135,7 +142,8 @@ export function executeDevelopment(
   currentValue: number,
   executorPol: number,
   maxValue: number = COMMERCE_MAX,
-  randomValue?: number
+  randomValue?: number,
+  skillMultiplier: number = 1
 ): DomesticResult {
   // 检查金钱是否足够
   if (currentGold < DEVELOPMENT_GOLD_COST) {
@@ -149,7 +157,7 @@ export function executeDevelopment(
   }
 
   // 计算增长值
-  const increase = calculateDevelopmentIncrease(executorPol, randomValue);
+  const increase = calculateDevelopmentIncrease(executorPol, randomValue, skillMultiplier);
   
   // 计算新值，不超过最大值
   const newValue = Math.min(currentValue + increase, maxValue);
@@ -165,14 +173,19 @@ export function executeDevelopment(
 
 /**
  * 计算征兵获得的士兵数
- * 公式: 统帅 × 10 + 魅力 × 5
+ * 公式: (统帅 × 10 + 魅力 × 5) × 特技倍率
  * **Validates: Requirements 5.4**
  * @param lead - 武将统帅值
  * @param cha - 武将魅力值
+ * @param skillMultiplier - 特技倍率（仁德为1.2，默认1）
  * @returns 获得的士兵数
  */
-export function calculateRecruitmentSoldiers(lead: number, cha: number): number {
-  return lead * 10 + cha * 5;
+export function calculateRecruitmentSoldiers(
+  lead: number,
+  cha: number,
+  skillMultiplier: number = 1
+): number {
+  return Math.floor((lead * 10 + cha * 5) * skillMultiplier);
 }
 
 /**
@@ -188,26 +201,82 @@ export function calculateLoyaltyDecrease(cha: number): number {
   return Math.max(1, RECRUITMENT_BASE_LOYALTY_DECREASE - reduction);
 }
 
+/**
+ * 计算征募指定兵种的金钱和人口消耗
+ * 步兵消耗与基础征兵常量一致，其他兵种按兵种属性表计算
+ * @param soldiers - 士兵数
+ * @param troopType - 兵种
+ * @returns 所需金钱和人口
+ */
+export function calculateRecruitmentCost(
+  soldiers: number,
+  troopType: TroopType = 'infantry'
+): { gold: number; population: number } {
+  const stats = TROOP_TYPE_STATS[troopType];
+  return {
+    gold: soldiers * stats.goldPerSoldier,
+    population: soldiers * stats.populationPerSoldier,
+  };
+}
+
 /**
  * 执行征兵指令
- * 消耗金钱和人口，获得士兵，降低民忠
+ * 消耗金钱和人口，获得指定兵种士兵，降低民忠；城市规模与特殊资源决定可征兵种
  * **Validates: Requirements 5.4, 5.5**
- * @param cityResources - 城市资源
+ * @param city - 征兵城市
  * @param executorLead - 执行武将的统帅值
  * @param executorCha - 执行武将的魅力值
+ * @param troopType - 征募兵种（默认步兵）
+ * @param skillMultiplier - 特技倍率（默认1）
+ * @param capacity - 执行武将尚可统领的兵力（官阶上限减现有兵力，默认不限）
  * @returns 征兵结果
  */
 export function executeRecruitment(
-  cityResources: CityResources,
+  city: Pick<City, 'resources' | 'scale' | 'specialResources'>,
   executorLead: number,
-  executorCha: number
+  executorCha: number,
+  troopType: TroopType = 'infantry',
+  skillMultiplier: number = 1,
+  capacity: number = Infinity
 ): RecruitResult {
-  // 计算可获得的士兵数
-  const soldiersGained = calculateRecruitmentSoldiers(executorLead, executorCha);
+  const cityResources = city.resources;
+
+  // 此城无法训练该兵种
+  if (!getTrainableTroopTypes(city).includes(troopType)) {
+    return {
+      success: false,
+      goldSpent: 0,
+      populationSpent: 0,
+      soldiersGained: 0,
+      troopType,
+      loyaltyDecrease: 0,
+      error: '此城无法训练该兵种',
+    };
+  }
+
+  // 兵力已达官阶上限
+  if (capacity <= 0) {
+    return {
+      success: false,
+      goldSpent: 0,
+      populationSpent: 0,
+      soldiersGained: 0,
+      troopType,
+      loyaltyDecrease: 0,
+      error: '兵力已达官阶上限',
+    };
+  }
+
+  // 计算可获得的士兵数（不超过官阶上限）
+  const soldiersGained = Math.min(
+    capacity,
+    calculateRecruitmentSoldiers(executorLead, executorCha, skillMultiplier)
+  );
   
   // 计算所需资源
-  const goldNeeded = soldiersGained * RECRUITMENT_GOLD_PER_SOLDIER;
-  const populationNeeded = soldiersGained * RECRUITMENT_POPULATION_PER_SOLDIER;
+  const cost = calculateRecruitmentCost(soldiersGained, troopType);
+  const goldNeeded = cost.gold;
+  const populationNeeded = cost.population;
   
   // 检查金钱是否足够
   if (cityResources.gold < goldNeeded) {
@@ -216,6 +285,7 @@ export function executeRecruitment(
       goldSpent: 0,
       populationSpent: 0,
       soldiersGained: 0,
+      troopType,
       loyaltyDecrease: 0,
       error: '金钱不足',
     };
@@ -228,6 +298,7 @@ export function executeRecruitment(
       goldSpent: 0,
       populationSpent: 0,
       soldiersGained: 0,
+      troopType,
       loyaltyDecrease: 0,
       error: '人口不足',
     };
@@ -241,6 +312,7 @@ export function executeRecruitment(
     goldSpent: goldNeeded,
     populationSpent: populationNeeded,
     soldiersGained,
+    troopType,
     loyaltyDecrease,
   };
 }
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  DUEL_MAX_HEALTH,
+  DUEL_MAX_STAMINA,
+  DUEL_MAX_TURNS,
+  autoResolveDuel,
+  createDuel,
+  resolveDuelTurn,
+  toDuelResult,
+  type DuelMove,
+} from './duel';
+import { INSTANT_KILL_WAR_DIFF_THRESHOLD, resolveBattle } from './battle';
+
+const warArb = fc.integer({ min: 1, max: 100 });
+
+const moveArb = fc.constantFrom<DuelMove>('attack', 'defend', 'full_strike', 'retreat');
+
+const fightMoveArb = fc.constantFrom<DuelMove>('attack', 'defend', 'full_strike');
+
+const randomArb = fc.double({ min: 0, max: 0.999, noNaN: true }).map((value) => () => value);
+
+/**
+ * **Feature: sanguo-190, Property 27: 回合制单挑**
+ * *For any* 单挑，双方体力与气力保持在有效范围内，至多进行10合即分出胜负；
+ * 拨马而走者落败，秒杀只发生在胜者武力高出败者超过秒杀阈值时；
+ * 单挑结果原样回馈到战斗结算。
+ */
+describe('Property 27: 回合制单挑', () => {
+  it('should keep health and stamina within range for any move sequence', () => {
+    fc.assert(
+      fc.property(
+        warArb,
+        warArb,
+        fc.array(fc.tuple(moveArb, moveArb), { minLength: 1, maxLength: 15 }),
+        randomArb,
+        (attackerWar, defenderWar, moves, random) => {
+          let duel = createDuel({ id: 'a', war: attackerWar }, { id: 'd', war: defenderWar });
+
+          for (const [attackerMove, defenderMove] of moves) {
+            duel = resolveDuelTurn(duel, attackerMove, defenderMove, random);
+            for (const fighter of [duel.attacker, duel.defender]) {
+              expect(fighter.health).toBeGreaterThanOrEqual(0);
+              expect(fighter.health).toBeLessThanOrEqual(DUEL_MAX_HEALTH);
+              expect(fighter.stamina).toBeGreaterThanOrEqual(0);
+              expect(fighter.stamina).toBeLessThanOrEqual(DUEL_MAX_STAMINA);
+            }
+            expect(duel.turn).toBeLessThanOrEqual(DUEL_MAX_TURNS);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should always finish with a winner and only kill with a war advantage', () => {
+    fc.assert(
+      fc.property(warArb, warArb, randomArb, (attackerWar, defenderWar, random) => {
+        const duel = autoResolveDuel(
+          createDuel({ id: 'a', war: attackerWar }, { id: 'd', war: defenderWar }),
+          random
+        );
+
+        expect(duel.finished).toBe(true);
+        expect(duel.turn).toBeLessThanOrEqual(DUEL_MAX_TURNS);
+        expect(['a', 'd']).toContain(duel.winner);
+
+        if (duel.instantKill) {
+          const winnerWar = duel.winner === 'a' ? attackerWar : defenderWar;
+          const loserWar = duel.winner === 'a' ? defenderWar : attackerWar;
+          expect(winnerWar - loserWar).toBeGreaterThan(INSTANT_KILL_WAR_DIFF_THRESHOLD);
+          expect(duel.retreated).toBe(false);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should hand the duel to the opponent of whoever retreats', () => {
+    fc.assert(
+      fc.property(
+        warArb,
+        warArb,
+        fightMoveArb,
+        fc.boolean(),
+        (attackerWar, defenderWar, otherMove, attackerRetreats) => {
+          const duel = resolveDuelTurn(
+            createDuel({ id: 'a', war: attackerWar }, { id: 'd', war: defenderWar }),
+            attackerRetreats ? 'retreat' : otherMove,
+            attackerRetreats ? otherMove : 'retreat'
+          );
+
+          expect(duel.finished).toBe(true);
+          expect(duel.retreated).toBe(true);
+          expect(duel.instantKill).toBe(false);
+          expect(duel.winner).toBe(attackerRetreats ? 'd' : 'a');
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should feed the duel result back into the battle', () => {
+    fc.assert(
+      fc.property(warArb, warArb, randomArb, (attackerWar, defenderWar, random) => {
+        const duel = toDuelResult(
+          autoResolveDuel(
+            createDuel({ id: 'a', war: attackerWar }, { id: 'd', war: defenderWar }),
+            random
+          )
+        );
+        const battle = resolveBattle({
+          attacker: { id: 'a', lead: 50, war: attackerWar, int: 50 },
+          attackerTroops: 5000,
+          defender: { id: 'd', lead: 50, war: defenderWar, int: 50 },
+          defenderTroops: 5000,
+          cityDefense: 0,
+          duel,
+          random,
+        });
+
+        expect(battle.duel).toEqual(duel);
+        if (duel.instantKill) {
+          expect(battle.result).toBe(duel.winner === 'a' ? 'win' : 'lose');
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,429 @@
+/**
+ * 单挑系统 - 处理玩家亲自指挥的回合制单挑
+ * @module systems/duel
+ */
+
+import { INSTANT_KILL_WAR_DIFF_THRESHOLD, type DuelResult } from './battle';
+
+/**
+ * 单挑武将体力上限
+ */
+export const DUEL_MAX_HEALTH = 100;
+
+/**
+ * 单挑武将气力上限
+ */
+export const DUEL_MAX_STAMINA = 100;
+
+/**
+ * 单挑最大回合数（回合用尽时体力高者获胜）
+ */
+export const DUEL_MAX_TURNS = 10;
+
+/**
+ * 攻击消耗的气力
+ */
+export const DUEL_ATTACK_STAMINA_COST = 10;
+
+/**
+ * 全力一击消耗的气力
+ */
+export const DUEL_FULL_STRIKE_STAMINA_COST = 30;
+
+/**
+ * 防御恢复的气力
+ */
+export const DUEL_DEFEND_STAMINA_RECOVERY = 15;
+
+/**
+ * 每点武力造成的基础伤害
+ */
+export const DUEL_DAMAGE_PER_WAR = 0.25;
+
+/**
+ * 全力一击的伤害倍率
+ */
+export const DUEL_FULL_STRIKE_MULTIPLIER = 2;
+
+/**
+ * 全力一击时露出破绽，所受伤害倍率
+ */
+export const DUEL_FULL_STRIKE_EXPOSURE = 1.5;
+
+/**
+ * 防御时所受伤害倍率
+ */
+export const DUEL_DEFEND_DAMAGE_RATIO = 0.4;
+
+/**
+ * 伤害随机浮动范围 (0.8-1.2)
+ */
+export const DUEL_DAMAGE_RANDOM_MIN = 0.8;
+export const DUEL_DAMAGE_RANDOM_MAX = 1.2;
+
+/**
+ * AI体力不高于此值且处于下风时拨马而逃
+ */
+export const DUEL_AI_RETREAT_HEALTH = 20;
+
+/**
+ * 单挑招式
+ * - attack: 攻击
+ * - defend: 防御，减少所受伤害并恢复气力
+ * - full_strike: 全力一击，伤害加倍但露出破绽
+ * - retreat: 拨马而走，认输退回本阵
+ */
+export type DuelMove = 'attack' | 'defend' | 'full_strike' | 'retreat';
+
+/**
+ * 单挑武将状态
+ */
+export interface DuelFighter {
+  /** 武将ID */
+  id: string;
+  /** 武力 */
+  war: number;
+  /** 体力（降至0即落败） */
+  health: number;
+  /** 气力（攻击与全力一击消耗） */
+  stamina: number;
+}
+
+/**
+ * 单回合单挑记录
+ */
+export interface DuelTurnLog {
+  /** 回合序号（从1开始） */
+  turn: number;
+  /** 攻方招式 */
+  attackerMove: DuelMove;
+  /** 守方招式 */
+  defenderMove: DuelMove;
+  /** 攻方所受伤害 */
+  damageToAttacker: number;
+  /** 守方所受伤害 */
+  damageToDefender: number;
+}
+
+/**
+ * 单挑状态
+ */
+export interface DuelState {
+  /** 攻方武将 */
+  attacker: DuelFighter;
+  /** 守方武将 */
+  defender: DuelFighter;
+  /** 已进行回合数 */
+  turn: number;
+  /** 逐回合记录 */
+  log: DuelTurnLog[];
+  /** 是否已分出胜负 */
+  finished: boolean;
+  /** 胜者ID */
+  winner?: string;
+  /** 是否以全力一击重创敌将（秒杀） */
+  instantKill: boolean;
+  /** 败方是否拨马而逃 */
+  retreated: boolean;
+}
+
+/**
+ * 开始单挑
+ * @param attacker - 攻方主将
+ * @param defender - 守方主将
+ * @returns 初始单挑状态
+ */
+export function createDuel(
+  attacker: { id: string; war: number },
+  defender: { id: string; war: number }
+): DuelState {
+  const fighter = (general: { id: string; war: number }): DuelFighter => ({
+    id: general.id,
+    war: general.war,
+    health: DUEL_MAX_HEALTH,
+    stamina: DUEL_MAX_STAMINA,
+  });
+  return {
+    attacker: fighter(attacker),
+    defender: fighter(defender),
+    turn: 0,
+    log: [],
+    finished: false,
+    instantKill: false,
+    retreated: false,
+  };
+}
+
+/**
+ * 获取武将当前可用的招式（气力不足时无法攻击）
+ */
+export function getAvailableDuelMoves(fighter: DuelFighter): DuelMove[] {
+  const moves: DuelMove[] = [];
+  if (fighter.stamina >= DUEL_ATTACK_STAMINA_COST) moves.push('attack');
+  moves.push('defend');
+  if (fighter.stamina >= DUEL_FULL_STRIKE_STAMINA_COST) moves.push('full_strike');
+  moves.push('retreat');
+  return moves;
+}
+
+/**
+ * 判断武将是否具备秒杀的武力优势
+ * 武力高出对手超过秒杀阈值时，全力一击击倒对手即为秒杀，败将负伤败走
+ */
+export function canInstantKill(striker: DuelFighter, target: DuelFighter): boolean {
+  return striker.war - target.war > INSTANT_KILL_WAR_DIFF_THRESHOLD;
+}
+
+/**
+ * 计算单挑伤害
+ * 公式: 武力 × 0.25 × (2 × 武力 ÷ 双方武力之和) × 招式倍率 × 对手姿态倍率 × 随机浮动
+ * @param striker - 出招武将
+ * @param target - 受招武将
+ * @param move - 出招招式
+ * @param targetMove - 对手招式
+ * @param randomValue - 随机值 (0-1)
+ * @returns 伤害值（非攻击招式为0）
+ */
+export function calculateDuelDamage(
+  striker: DuelFighter,
+  target: DuelFighter,
+  move: DuelMove,
+  targetMove: DuelMove,
+  randomValue: number
+): number {
+  if (move !== 'attack' && move !== 'full_strike') return 0;
+
+  const totalWar = striker.war + target.war;
+  const advantage = totalWar > 0 ? (2 * striker.war) / totalWar : 1;
+  const moveMultiplier = move === 'full_strike' ? DUEL_FULL_STRIKE_MULTIPLIER : 1;
+  const stanceMultiplier =
+    targetMove === 'defend'
+      ? DUEL_DEFEND_DAMAGE_RATIO
+      : targetMove === 'full_strike'
+        ? DUEL_FULL_STRIKE_EXPOSURE
+        : 1;
+  const randomFactor =
+    DUEL_DAMAGE_RANDOM_MIN + randomValue * (DUEL_DAMAGE_RANDOM_MAX - DUEL_DAMAGE_RANDOM_MIN);
+
+  return Math.round(
+    striker.war * DUEL_DAMAGE_PER_WAR * advantage * moveMultiplier * stanceMultiplier * randomFactor
+  );
+}
+
+/**
+ * 结算气力变化
+ */
+function spendStamina(fighter: DuelFighter, move: DuelMove): number {
+  switch (move) {
+    case 'attack':
+      return fighter.stamina - DUEL_ATTACK_STAMINA_COST;
+    case 'full_strike':
+      return fighter.stamina - DUEL_FULL_STRIKE_STAMINA_COST;
+    case 'defend':
+      return Math.min(DUEL_MAX_STAMINA, fighter.stamina + DUEL_DEFEND_STAMINA_RECOVERY);
+    case 'retreat':
+      return fighter.stamina;
+  }
+}
+
+/**
+ * 按体力判定胜者（体力相同时武力高者胜，仍相同则守方凭地利获胜）
+ */
+function leadingFighter(attacker: DuelFighter, defender: DuelFighter): DuelFighter {
+  if (attacker.health !== defender.health) {
+    return attacker.health > defender.health ? attacker : defender;
+  }
+  return attacker.war > defender.war ? attacker : defender;
+}
+
+/**
+ * 结算一回合单挑
+ * 双方同时出招；拨马而走者直接落败（双方同退时体力低者为败），
+ * 体力降至0者落败，以全力一击击倒武力差距超过秒杀阈值的对手即为秒杀
+ * @param state - 当前单挑状态
+ * @param attackerMove - 攻方招式
+ * @param defenderMove - 守方招式
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 新的单挑状态
+ */
+export function resolveDuelTurn(
+  state: DuelState,
+  attackerMove: DuelMove,
+  defenderMove: DuelMove,
+  random: () => number = Math.random
+): DuelState {
+  if (state.finished) return state;
+
+  // 气力不足时招式退化为防御
+  const aMove = getAvailableDuelMoves(state.attacker).includes(attackerMove)
+    ? attackerMove
+    : 'defend';
+  const dMove = getAvailableDuelMoves(state.defender).includes(defenderMove)
+    ? defenderMove
+    : 'defend';
+  const turn = state.turn + 1;
+
+  // 拨马而走
+  if (aMove === 'retreat' || dMove === 'retreat') {
+    const loser =
+      aMove === 'retreat' && dMove === 'retreat'
+        ? leadingFighter(state.attacker, state.defender) === state.attacker
+          ? state.defender
+          : state.attacker
+        : aMove === 'retreat'
+          ? state.attacker
+          : state.defender;
+    const winner = loser === state.attacker ? state.defender : state.attacker;
+    return {
+      ...state,
+      turn,
+      log: [
+        ...state.log,
+        {
+          turn,
+          attackerMove: aMove,
+          defenderMove: dMove,
+          damageToAttacker: 0,
+          damageToDefender: 0,
+        },
+      ],
+      finished: true,
+      winner: winner.id,
+      retreated: true,
+    };
+  }
+
+  const damageToDefender = calculateDuelDamage(
+    state.attacker,
+    state.defender,
+    aMove,
+    dMove,
+    random()
+  );
+  const damageToAttacker = calculateDuelDamage(
+    state.defender,
+    state.attacker,
+    dMove,
+    aMove,
+    random()
+  );
+
+  const attacker: DuelFighter = {
+    ...state.attacker,
+    health: Math.max(0, state.attacker.health - damageToAttacker),
+    stamina: spendStamina(state.attacker, aMove),
+  };
+  const defender: DuelFighter = {
+    ...state.defender,
+    health: Math.max(0, state.defender.health - damageToDefender),
+    stamina: spendStamina(state.defender, dMove),
+  };
+
+  const next: DuelState = {
+    ...state,
+    attacker,
+    defender,
+    turn,
+    log: [
+      ...state.log,
+      { turn, attackerMove: aMove, defenderMove: dMove, damageToAttacker, damageToDefender },
+    ],
+  };
+
+  const attackerDown = attacker.health <= 0;
+  const defenderDown = defender.health <= 0;
+
+  // 一方落马
+  if (attackerDown !== defenderDown) {
+    const winner = attackerDown ? defender : attacker;
+    const loser = attackerDown ? attacker : defender;
+    const finishingMove = attackerDown ? dMove : aMove;
+    return {
+      ...next,
+      finished: true,
+      winner: winner.id,
+      instantKill: finishingMove === 'full_strike' && canInstantKill(winner, loser),
+    };
+  }
+
+  // 同归于尽或回合用尽：以伤势轻重论胜负
+  if ((attackerDown && defenderDown) || turn >= DUEL_MAX_TURNS) {
+    const winner =
+      attackerDown && defenderDown
+        ? damageToDefender >= damageToAttacker
+          ? attacker
+          : defender
+        : leadingFighter(attacker, defender);
+    return { ...next, finished: true, winner: winner.id };
+  }
+
+  return next;
+}
+
+/**
+ * 选择AI武将的单挑招式
+ * 处于下风且体力将尽时拨马而走；可一击秒杀时全力一击；气力不足时防御；其余随机出招
+ * @param self - 出招武将
+ * @param opponent - 对手
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 招式
+ */
+export function chooseDuelMove(
+  self: DuelFighter,
+  opponent: DuelFighter,
+  random: () => number = Math.random
+): DuelMove {
+  if (self.health <= DUEL_AI_RETREAT_HEALTH && opponent.health > self.health) {
+    return 'retreat';
+  }
+
+  const moves = getAvailableDuelMoves(self);
+  if (!moves.includes('attack')) return 'defend';
+
+  if (
+    moves.includes('full_strike') &&
+    canInstantKill(self, opponent) &&
+    opponent.health <= calculateDuelDamage(self, opponent, 'full_strike', 'attack', 0)
+  ) {
+    return 'full_strike';
+  }
+
+  const roll = random();
+  if (roll < 0.2) return 'defend';
+  if (roll < 0.45 && moves.includes('full_strike')) return 'full_strike';
+  return 'attack';
+}
+
+/**
+ * 由AI代为完成剩余的单挑
+ * @param state - 当前单挑状态
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 结束的单挑状态
+ */
+export function autoResolveDuel(state: DuelState, random: () => number = Math.random): DuelState {
+  let current = state;
+  while (!current.finished) {
+    current = resolveDuelTurn(
+      current,
+      chooseDuelMove(current.attacker, current.defender, random),
+      chooseDuelMove(current.defender, current.attacker, random),
+      random
+    );
+  }
+  return current;
+}
+
+/**
+ * 将单挑状态转换为战斗引擎使用的单挑结果
+ * @param state - 已结束的单挑状态
+ * @returns 单挑结果
+ */
+export function toDuelResult(state: DuelState): DuelResult {
+  return {
+    triggered: true,
+    instantKill: state.instantKill,
+    winner: state.winner,
+    turns: state.turn,
+    retreated: state.retreated,
+  };
+}
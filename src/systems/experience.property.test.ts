@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  BATTLE_EXPERIENCE,
+  DOMESTIC_EXPERIENCE,
+  EXPERIENCE_PER_POINT,
+  VICTORY_EXPERIENCE_BONUS,
+  collectExperience,
+  gainExperience,
+  processExperience,
+} from './experience';
+import { createTestState } from '../test/fixtures';
+import type { GameEvent, GeneralEventData } from '../types/events';
+import { ATTRIBUTE_MAX, isValidGeneralAttributes } from '../types/general';
+
+/**
+ * 生成一场战斗事件
+ */
+function battleEvent(result: 'win' | 'lose' | 'draw'): GameEvent {
+  return {
+    id: `battle_${result}`,
+    type: 'battle',
+    timestamp: { year: 190, month: 1 },
+    data: {
+      attacker: 'caocao',
+      defender: 'dongzhuo',
+      attackerGeneral: 'caoren',
+      defenderGeneral: 'huaxiong',
+      result,
+      casualties: { attacker: 100, defender: 100 },
+    },
+  };
+}
+
+/**
+ * 生成一次内政事件
+ */
+function domesticEvent(action: 'develop_commerce' | 'recruit', executor: string): GameEvent {
+  return {
+    id: `domestic_${action}`,
+    type: 'domestic',
+    timestamp: { year: 190, month: 1 },
+    data: { city: 'chenliu', action, executor, value: 10 },
+  };
+}
+
+/**
+ * **Feature: sanguo-190, Property 43: 武将成长**
+ * *For any* 本月事件，参战主将积累统帅与武力经验、施计者积累智力、开发者积累政治、征兵与出使者积累魅力；
+ * 经验每满100点对应属性提升1点且不超过上限，属性提升时生成晋升事件，未提升时状态不变。
+ */
+describe('Property 43: 武将成长', () => {
+  it('should credit battle experience to both commanders with a bonus for the victor', () => {
+    fc.assert(
+      fc.property(fc.constantFrom<'win' | 'lose' | 'draw'>('win', 'lose', 'draw'), (result) => {
+        const gains = collectExperience([battleEvent(result)]);
+        const attackerAmount =
+          BATTLE_EXPERIENCE + (result === 'win' ? VICTORY_EXPERIENCE_BONUS : 0);
+        const defenderAmount =
+          BATTLE_EXPERIENCE + (result === 'lose' ? VICTORY_EXPERIENCE_BONUS : 0);
+        expect(gains.caoren).toEqual({ lead: attackerAmount, war: attackerAmount });
+        expect(gains.huaxiong).toEqual({ lead: defenderAmount, war: defenderAmount });
+      }),
+      { numRuns: 10 }
+    );
+
+    const gains = collectExperience([
+      domesticEvent('develop_commerce', 'caocao'),
+      domesticEvent('recruit', 'caohong'),
+    ]);
+    expect(Object.keys(gains.caocao)).toEqual(['pol']);
+    expect(Object.keys(gains.caohong)).toEqual(['cha']);
+  });
+
+  it('should not credit battles that never came to blows', () => {
+    const siegeStart = battleEvent('draw');
+    const withdrawn = battleEvent('lose');
+    const bloodless = battleEvent('win');
+    Object.assign(siegeStart.data, {
+      siege: { city: 'luoyang', phase: 'start', months: 0 },
+    });
+    Object.assign(withdrawn.data, {
+      siege: { city: 'luoyang', phase: 'end', months: 2, outcome: 'withdrawn' },
+    });
+    Object.assign(bloodless.data, { casualties: { attacker: 0, defender: 0 } });
+
+    expect(collectExperience([siegeStart, withdrawn, bloodless])).toEqual({});
+  });
+
+  it('should raise one attribute point per full share of experience within bounds', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: ATTRIBUTE_MAX }),
+        fc.integer({ min: 0, max: EXPERIENCE_PER_POINT - 1 }),
+        fc.integer({ min: 1, max: 1000 }),
+        (war, stored, gained) => {
+          const state = createTestState();
+          const general = state.generals.caoren;
+          general.attributes.war = war;
+          general.experience = { war: stored };
+
+          const growth = gainExperience(state, 'caoren', { war: gained });
+          const expected = Math.min(
+            Math.floor((stored + gained) / EXPERIENCE_PER_POINT),
+            ATTRIBUTE_MAX - war
+          );
+          expect(growth.war ?? 0).toBe(expected);
+          expect(general.attributes.war).toBe(war + expected);
+          expect(isValidGeneralAttributes(general.attributes)).toBe(true);
+          if (general.attributes.war < ATTRIBUTE_MAX) {
+            expect(general.experience.war).toBe((stored + gained) % EXPERIENCE_PER_POINT);
+          } else {
+            expect(general.experience.war).toBeUndefined();
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should emit a promoted event only for generals whose attributes grew', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: EXPERIENCE_PER_POINT - 1 }), (stored) => {
+        const state = createTestState();
+        state.generals.caocao.experience = { pol: stored };
+        const before = state.generals.caocao.attributes.pol;
+
+        const result = processExperience(state, [domesticEvent('develop_commerce', 'caocao')]);
+        const grew = before < ATTRIBUTE_MAX && stored + DOMESTIC_EXPERIENCE >= EXPERIENCE_PER_POINT;
+        expect(result.state.generals.caocao.attributes.pol).toBe(before + (grew ? 1 : 0));
+        expect(result.events).toHaveLength(grew ? 1 : 0);
+        if (grew) {
+          expect(result.events[0].data as GeneralEventData).toMatchObject({
+            general: 'caocao',
+            event: 'promoted',
+          });
+        }
+        // 原状态不受影响
+        expect(state.generals.caocao.experience?.pol).toBe(stored);
+      }),
+      { numRuns: 50 }
+    );
+
+    const state = createTestState();
+    expect(processExperience(state, []).state).toBe(state);
+  });
+});
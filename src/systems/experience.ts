@@ -0,0 +1,254 @@
+/**
+ * 经验系统 - 武将历练积累经验，经验满额后提升对应属性
+ * 领兵作战积累统帅与武力、施展计略积累智力、内政开发积累政治、征兵与出使积累魅力；
+ * 每月末依本月事件结算，属性提升时载入史册
+ * @module systems/experience
+ */
+
+import type { GameState } from '../types/gameState';
+import type { GeneralAttributes } from '../types/general';
+import type {
+  BattleEventData,
+  DiplomacyEventData,
+  DomesticEventData,
+  GameEvent,
+  GeneralEventData,
+  StratagemEventData,
+} from '../types/events';
+import { ATTRIBUTE_MAX } from '../types/general';
+import { isBattleEngaged } from './battle';
+import { generateId } from './ids';
+
+/**
+ * 每提升1点属性所需的经验
+ */
+export const EXPERIENCE_PER_POINT = 100;
+
+/**
+ * 参战主将获得的统帅与武力经验
+ */
+export const BATTLE_EXPERIENCE = 20;
+
+/**
+ * 战胜一方主将额外获得的统帅与武力经验
+ */
+export const VICTORY_EXPERIENCE_BONUS = 10;
+
+/**
+ * 单挑胜者额外获得的武力经验
+ */
+export const DUEL_EXPERIENCE = 30;
+
+/**
+ * 计略得逞时施计武将获得的智力经验
+ */
+export const STRATAGEM_EXPERIENCE = 25;
+
+/**
+ * 计略败露时施计武将获得的智力经验
+ */
+export const FAILED_STRATAGEM_EXPERIENCE = 10;
+
+/**
+ * 内政开发获得的政治经验
+ */
+export const DOMESTIC_EXPERIENCE = 20;
+
+/**
+ * 征兵或出使获得的魅力经验
+ */
+export const CHARISMA_EXPERIENCE = 20;
+
+/**
+ * 武将属性键
+ */
+export type AttributeKey = keyof GeneralAttributes;
+
+/**
+ * 经验结算结果
+ */
+export interface ExperienceTurnResult {
+  /** 更新后的游戏状态 */
+  state: GameState;
+  /** 属性提升事件 */
+  events: GameEvent[];
+}
+
+/**
+ * 属性中文名
+ */
+const ATTRIBUTE_NAMES: Record<AttributeKey, string> = {
+  lead: '统帅',
+  war: '武力',
+  int: '智力',
+  pol: '政治',
+  cha: '魅力',
+};
+
+/**
+ * 属性结算顺序
+ */
+const ATTRIBUTE_KEYS: AttributeKey[] = ['lead', 'war', 'int', 'pol', 'cha'];
+
+/**
+ * 经验记账：武将ID → 各属性本月所得经验
+ */
+type ExperienceGains = Record<string, Partial<GeneralAttributes>>;
+
+/**
+ * 记入经验
+ */
+function addGain(
+  gains: ExperienceGains,
+  generalId: string | undefined,
+  key: AttributeKey,
+  amount: number
+): void {
+  if (!generalId || amount <= 0) return;
+  const entry = (gains[generalId] ??= {});
+  entry[key] = (entry[key] ?? 0) + amount;
+}
+
+/**
+ * 统计事件带来的经验
+ * - 战斗：真正交兵时双方主将各得统帅、武力经验，胜方另加；单挑胜者另得武力经验
+ * - 计略：施计武将得智力经验，得逞者更多
+ * - 内政：开发者得政治经验，征兵者得魅力经验
+ * - 外交：使者得魅力经验
+ * @param events - 本月发生的事件
+ * @returns 各武将所得经验
+ */
+export function collectExperience(events: GameEvent[]): ExperienceGains {
+  const gains: ExperienceGains = {};
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'battle': {
+        const data = event.data as BattleEventData;
+        if (!isBattleEngaged(data)) break;
+        const sides: [string, boolean][] = [
+          [data.attackerGeneral, data.result === 'win'],
+          [data.defenderGeneral, data.result === 'lose'],
+        ];
+        for (const [generalId, won] of sides) {
+          const amount = BATTLE_EXPERIENCE + (won ? VICTORY_EXPERIENCE_BONUS : 0);
+          addGain(gains, generalId, 'lead', amount);
+          addGain(gains, generalId, 'war', amount);
+        }
+        if (data.duel?.occurred) {
+          addGain(gains, data.duel.winner, 'war', DUEL_EXPERIENCE);
+        }
+        break;
+      }
+      case 'stratagem': {
+        const data = event.data as StratagemEventData;
+        addGain(
+          gains,
+          data.executor,
+          'int',
+          data.succeeded ? STRATAGEM_EXPERIENCE : FAILED_STRATAGEM_EXPERIENCE
+        );
+        break;
+      }
+      case 'domestic': {
+        const data = event.data as DomesticEventData;
+        if (data.action === 'recruit') {
+          addGain(gains, data.executor, 'cha', CHARISMA_EXPERIENCE);
+        } else if (data.action.startsWith('develop_')) {
+          addGain(gains, data.executor, 'pol', DOMESTIC_EXPERIENCE);
+        }
+        break;
+      }
+      case 'diplomacy': {
+        const data = event.data as DiplomacyEventData;
+        addGain(gains, data.envoy, 'cha', CHARISMA_EXPERIENCE);
+        break;
+      }
+    }
+  }
+
+  return gains;
+}
+
+/**
+ * 为武将积累经验，经验满额时提升属性（直接修改传入的状态）
+ * 属性已达上限时不再积累该项经验
+ * @param state - 可修改的游戏状态副本
+ * @param generalId - 武将ID
+ * @param gained - 各属性所得经验
+ * @returns 各属性的提升值
+ */
+export function gainExperience(
+  state: GameState,
+  generalId: string,
+  gained: Partial<GeneralAttributes>
+): Partial<GeneralAttributes> {
+  const general = state.generals[generalId];
+  const growth: Partial<GeneralAttributes> = {};
+  if (!general || !general.isAlive) return growth;
+
+  const experience = { ...general.experience };
+  for (const key of ATTRIBUTE_KEYS) {
+    const amount = gained[key] ?? 0;
+    if (amount <= 0) continue;
+    if (general.attributes[key] >= ATTRIBUTE_MAX) {
+      delete experience[key];
+      continue;
+    }
+
+    const total = (experience[key] ?? 0) + amount;
+    const points = Math.min(
+      Math.floor(total / EXPERIENCE_PER_POINT),
+      ATTRIBUTE_MAX - general.attributes[key]
+    );
+    general.attributes[key] += points;
+    if (general.attributes[key] >= ATTRIBUTE_MAX) {
+      delete experience[key];
+    } else {
+      experience[key] = total - points * EXPERIENCE_PER_POINT;
+    }
+    if (points > 0) {
+      growth[key] = points;
+    }
+  }
+  general.experience = experience;
+  return growth;
+}
+
+/**
+ * 月末结算武将经验
+ * 依本月事件为相关武将积累经验，属性提升者生成晋升事件
+ * @param gameState - 游戏状态
+ * @param events - 本月发生的事件
+ * @returns 更新后的游戏状态与晋升事件
+ */
+export function processExperience(gameState: GameState, events: GameEvent[]): ExperienceTurnResult {
+  const gains = collectExperience(events);
+  if (Object.keys(gains).length === 0) return { state: gameState, events: [] };
+
+  // 深拷贝状态
+  const state: GameState = JSON.parse(JSON.stringify(gameState));
+  const promotions: GameEvent[] = [];
+
+  for (const [generalId, gained] of Object.entries(gains)) {
+    const growth = gainExperience(state, generalId, gained);
+    const improved = ATTRIBUTE_KEYS.filter((key) => (growth[key] ?? 0) > 0);
+    if (improved.length === 0) continue;
+
+    const general = state.generals[generalId];
+    const details = improved.map((key) => `${ATTRIBUTE_NAMES[key]}+${growth[key]}`).join('、');
+    const data: GeneralEventData = {
+      general: generalId,
+      event: 'promoted',
+      details: `${general.name}久经历练，${details}`,
+    };
+    promotions.push({
+      id: generateId('experience_event'),
+      type: 'general',
+      timestamp: { ...state.currentDate },
+      data,
+    });
+  }
+
+  return { state, events: promotions };
+}
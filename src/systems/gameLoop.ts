@@ -10,6 +10,16 @@ import type { GameState, GamePhase } from '../types/gameState';
 import type { GameEvent } from '../types/events';
 import { processTurnEnd, restoreActionPoints } from './turnSystem';
 import { executeAITurns, applyAIStateUpdates } from './aiSystem';
+import { executeAISieges, processSieges } from './siege';
+import { processAIPrisoners } from './prisoners';
+import { processRelations, processTruces } from './diplomacy';
+import { processLoyalty } from './loyalty';
+import { processAging, processSuccession } from './aging';
+import { processMovements } from './movement';
+import { processDelegation } from './governor';
+import { processExperience } from './experience';
+import { processAIPromotions, processMerit } from './ranks';
+import { clearReinforcementCosts, getReinforcementAPCost } from './reinforcements';
 import {
   createHistorianService,
   createEventContextFromState,
@@ -80,11 +90,62 @@ export class GameLoopController {
       // 2. 执行AI回合
       const aiResult = executeAITurns(currentState, currentState.currentFaction);
 
+      // AI势力已在本回合扣除上回合派出援军的行动力
+      currentState = clearReinforcementCosts(
+        currentState,
+        Object.keys(currentState.factions).filter(id => id !== currentState.currentFaction)
+      );
+
       // 应用AI状态更新
       if (aiResult.stateUpdates.length > 0) {
         currentState = applyAIStateUpdates(currentState, aiResult.stateUpdates);
       }
 
+      // AI围城决策（突击、解围、发起围城）
+      const aiSiegeResult = executeAISieges(currentState, currentState.currentFaction);
+      currentState = aiSiegeResult.state;
+
+      // 结算本月围城（城防削减、粮草消耗、城破或投降）
+      const siegeResult = processSieges(currentState);
+      currentState = siegeResult.state;
+
+      // AI处置俘虏（招降、释放或处斩）
+      const prisonerResult = processAIPrisoners(currentState, currentState.currentFaction);
+      currentState = prisonerResult.state;
+      const turnEvents = [
+        ...aiResult.events,
+        ...aiSiegeResult.events,
+        ...siegeResult.events,
+        ...prisonerResult.events,
+      ];
+
+      // 本月战事与共同敌人影响势力关系
+      const { year, month } = currentState.currentDate;
+      const monthEvents = [
+        ...currentState.eventLog.filter(
+          e => e.timestamp.year === year && e.timestamp.month === month
+        ),
+        ...turnEvents,
+      ];
+      currentState = processRelations(currentState, monthEvents);
+
+      // 各路行军前进一城
+      currentState = processMovements(currentState);
+
+      // 委任城市由太守按方针自行经营
+      const delegationResult = processDelegation(currentState);
+      currentState = delegationResult.state;
+      turnEvents.push(...delegationResult.events);
+
+      // 历练、授官与忠诚涨落
+      const personnelResult = processPersonnel(
+        currentState,
+        [...monthEvents, ...delegationResult.events],
+        currentState.currentFaction
+      );
+      currentState = personnelResult.state;
+      turnEvents.push(...personnelResult.events);
+
       // 3. 处理回合结束（月份推进、收入计算等）
       this.callbacks.onLoadingChange(true, '正在结算回合...');
       const turnResult = processTurnEnd(currentState);
@@ -114,8 +175,18 @@ export class GameLoopController {
           ...currentState,
           generals: turnResult.updatedGenerals,
         };
+
+        // 年迈者寿终、少壮者成长，后起之秀登场
+        const agingResult = processAging(currentState);
+        currentState = agingResult.state;
+        turnEvents.push(...agingResult.events);
       }
 
+      // 君主身故则由继承人接掌，后继无人则势力覆灭
+      const successionResult = processSuccession(currentState);
+      currentState = successionResult.state;
+      turnEvents.push(...successionResult.events);
+
       // 七月：粮食发放
       if (turnResult.grainIncome) {
         for (const [cityId, grain] of Object.entries(turnResult.grainIncome)) {
@@ -131,14 +202,19 @@ export class GameLoopController {
         }
       }
 
+      // 停战期满的势力重回交战
+      const truceResult = processTruces(currentState);
+      currentState = truceResult.state;
+      turnEvents.push(...truceResult.events);
+
       // 4. 进入叙事阶段
       // **Validates: Requirements 9.9**
       this.callbacks.onPhaseChange('narrative');
       this.callbacks.onLoadingChange(true, '史官正在记录...');
 
-      // 处理AI事件叙事
-      if (aiResult.events.length > 0) {
-        const processedEvents = await this.processNarrativePhase(aiResult.events, currentState);
+      // 处理AI与围城事件叙事
+      if (turnEvents.length > 0) {
+        const processedEvents = await this.processNarrativePhase(turnEvents, currentState);
 
         // 添加事件到日志
         currentState = {
@@ -152,10 +228,11 @@ export class GameLoopController {
       // 5. 自动保存
       storageService.autoSave(currentState);
 
-      // 6. 恢复行动力，进入新回合
+      // 6. 恢复行动力（扣除派出援军的消耗），进入新回合
+      const reinforcementCost = getReinforcementAPCost(currentState, currentState.currentFaction);
       currentState = {
-        ...currentState,
-        actionPoints: restoreActionPoints(),
+        ...clearReinforcementCosts(currentState, [currentState.currentFaction]),
+        actionPoints: Math.max(0, restoreActionPoints() - reinforcementCost),
         phase: 'player',
       };
 
@@ -224,6 +301,38 @@ export function createGameLoopController(callbacks: GameLoopCallbacks): GameLoop
   return new GameLoopController(callbacks);
 }
 
+/**
+ * 月末人事结算
+ * 1. 武将依本月历练积累经验，经验满额则属性提升
+ * 2. 历练同时计为功绩，AI势力为功绩足够的部将授官
+ * 3. 武将忠诚随战败、晋升（含本月的属性提升与授官）、君主魅力与相性涨落，忠诚过低者率部投奔邻国
+ * @param gameState - 游戏状态
+ * @param events - 本月发生的事件
+ * @param playerFactionId - 玩家势力ID（不代为授官）
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 更新后的游戏状态与晋升、叛投事件
+ */
+export function processPersonnel(
+  gameState: GameState,
+  events: GameEvent[],
+  playerFactionId: string,
+  random: () => number = Math.random
+): { state: GameState; events: GameEvent[] } {
+  const experienceResult = processExperience(gameState, events);
+  const meritState = processMerit(experienceResult.state, events);
+  const promotionResult = processAIPromotions(meritState, playerFactionId);
+  const loyaltyResult = processLoyalty(
+    promotionResult.state,
+    [...events, ...experienceResult.events, ...promotionResult.events],
+    random
+  );
+
+  return {
+    state: loyaltyResult.state,
+    events: [...experienceResult.events, ...promotionResult.events, ...loyaltyResult.events],
+  };
+}
+
 /**
  * 检查是否应该显示加载指示器
  * **Validates: Requirements 9.7**
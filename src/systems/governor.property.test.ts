@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  DELEGATION_RECRUIT_MIN_GOLD,
+  applyGovernorResult,
+  createGovernorEvent,
+  executeGovernorOrder,
+  getCityGovernor,
+  processDelegation,
+  validateGovernorOrder,
+  type GovernorOrder,
+} from './governor';
+import { transferCityControl } from './aiSystem';
+import { calculateDevelopmentIncrease } from './domestic';
+import { getDevelopmentMultiplier } from './skills';
+import { applyMovementResult, executeMovement } from './movement';
+import { createTestState } from '../test/fixtures';
+import type { DelegationMode } from '../types/city';
+import { DEFENSE_MAX } from '../types/city';
+
+const governorArb = fc.constantFrom('caocao', 'xiaohoudun', 'xiahouyuan', 'caoren', 'caohong');
+const delegationArb = fc.constantFrom<DelegationMode | null>(
+  null,
+  'commerce',
+  'agriculture',
+  'defense',
+  'recruit'
+);
+
+/**
+ * **Feature: sanguo-190, Property 41: 太守委任**
+ * *For any* 太守任免，太守只能是驻守该城的己方武将，委任须先有太守，任免载入史册；
+ * 委任城市每月由太守按方针开发或征兵，花费城中钱粮且不越上限；太守离城或城池易主时委任中止。
+ */
+describe('Property 41: 太守委任', () => {
+  it('should appoint a stationed general as governor with an optional delegation mode', () => {
+    fc.assert(
+      fc.property(governorArb, delegationArb, (governorId, delegation) => {
+        const state = createTestState();
+        const order: GovernorOrder = { cityId: 'chenliu', governorId, delegation };
+        const result = executeGovernorOrder(order, state, 'caocao');
+        if (governorId === 'caocao' && delegation === null) {
+          expect(result).toEqual({ success: false, error: '太守与委任方针均未变动' });
+          return;
+        }
+        expect(result.success).toBe(true);
+
+        const newState = applyGovernorResult(state, order, result);
+        expect(newState.cities.chenliu.governor).toBe(governorId);
+        expect(newState.cities.chenliu.delegation ?? null).toBe(delegation);
+        expect(getCityGovernor(newState, 'chenliu')?.id).toBe(governorId);
+        expect(createGovernorEvent(order, result, state)?.data).toMatchObject({
+          general: governorId,
+          event: 'appointed',
+        });
+      }),
+      { numRuns: 50 }
+    );
+
+    const state = createTestState();
+    const order: GovernorOrder = { cityId: 'chenliu', governorId: 'guanyu', delegation: null };
+    expect(validateGovernorOrder(order, state, 'caocao')).toBe('太守须为驻守该城的己方武将');
+    expect(
+      validateGovernorOrder({ ...order, governorId: null, delegation: 'commerce' }, state, 'caocao')
+    ).toBe('委任须先任命太守');
+    expect(validateGovernorOrder({ ...order, cityId: 'pingyuan' }, state, 'caocao')).toBe(
+      '只能任命己方城市的太守'
+    );
+
+    // 罢免太守记为原太守卸任
+    const dismissal: GovernorOrder = { cityId: 'chenliu', governorId: null, delegation: null };
+    const dismissed = executeGovernorOrder(dismissal, state, 'caocao');
+    expect(createGovernorEvent(dismissal, dismissed, state)?.data).toMatchObject({
+      general: 'caocao',
+      event: 'dismissed',
+    });
+    expect(
+      createGovernorEvent(order, executeGovernorOrder(order, state, 'caocao'), state)
+    ).toBeNull();
+  });
+
+  it('should let the governor develop the delegated field or recruit with city funds', () => {
+    fc.assert(
+      fc.property(
+        governorArb,
+        fc.constantFrom<DelegationMode>('commerce', 'agriculture', 'defense', 'recruit'),
+        fc.integer({ min: 0, max: DEFENSE_MAX }),
+        (governorId, delegation, defense) => {
+          const state = createTestState();
+          const city = state.cities.chenliu;
+          city.governor = governorId;
+          city.delegation = delegation;
+          city.resources.defense = defense;
+          city.resources.gold = DELEGATION_RECRUIT_MIN_GOLD * 10;
+          const governor = state.generals[governorId];
+
+          const result = processDelegation(state);
+          const after = result.state.cities.chenliu.resources;
+          const before = city.resources;
+
+          if (delegation === 'recruit') {
+            expect(result.events).toHaveLength(1);
+            expect(result.state.generals[governorId].troops).toBeGreaterThan(governor.troops);
+            expect(after.gold).toBeLessThan(before.gold);
+            return;
+          }
+
+          if (delegation === 'defense' && defense >= DEFENSE_MAX) {
+            expect(result.events).toHaveLength(0);
+            expect(result.state).toBe(state);
+            return;
+          }
+
+          const maxGain = calculateDevelopmentIncrease(
+            governor.attributes.pol,
+            5,
+            getDevelopmentMultiplier(governor.skills, delegation)
+          );
+          const gain = after[delegation] - before[delegation];
+          expect(result.events).toHaveLength(1);
+          expect(after.gold).toBe(before.gold - 100);
+          expect(gain).toBeGreaterThan(0);
+          expect(gain).toBeLessThanOrEqual(
+            delegation === 'defense' ? Math.ceil(maxGain / 2) : maxGain
+          );
+          expect(after.defense).toBeLessThanOrEqual(DEFENSE_MAX);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should suspend the delegation once the governor leaves or the city falls', () => {
+    const state = createTestState();
+    state.cities.chenliu.governor = 'xiaohoudun';
+    state.cities.chenliu.delegation = 'commerce';
+
+    // 太守调离后职位空缺，委任暂停
+    state.factions.caocao.cities.push('pingyuan');
+    state.factions.liubei.cities = [];
+    state.cities.pingyuan.faction = 'caocao';
+    const moveOrder = {
+      fromCityId: 'chenliu',
+      toCityId: 'pingyuan',
+      generalIds: ['xiaohoudun'],
+      gold: 0,
+      grain: 0,
+    };
+    const moved = applyMovementResult(
+      state,
+      moveOrder,
+      executeMovement(moveOrder, state, 'caocao')
+    );
+    expect(moved.cities.chenliu.governor).toBeNull();
+    expect(getCityGovernor(moved, 'chenliu')).toBeNull();
+    expect(processDelegation(moved).events).toHaveLength(0);
+
+    // 城池易主时太守与委任方针作废
+    const captured = createTestState();
+    captured.cities.chenliu.delegation = 'commerce';
+    transferCityControl(captured, {
+      factionId: 'dongzhuo',
+      fromCityId: 'luoyang',
+      toCityId: 'chenliu',
+      generalIds: ['lvbu'],
+    });
+    expect(captured.cities.chenliu.governor).toBeNull();
+    expect(captured.cities.chenliu.delegation).toBeUndefined();
+  });
+});
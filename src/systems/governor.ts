@@ -0,0 +1,319 @@
+/**
+ * 太守系统 - 处理太守任命与委任经营
+ * 太守须为驻守该城的己方武将，其政治决定城池收入；委任后太守每月按方针自行动用城中钱粮，
+ * 开发与征兵沿用AI的内政逻辑
+ * @module systems/governor
+ */
+
+import type { GameState } from '../types/gameState';
+import type { DelegationMode } from '../types/city';
+import type { General } from '../types/general';
+import type { GameEvent, GeneralEventData } from '../types/events';
+import { AGRICULTURE_MAX, COMMERCE_MAX, DEFENSE_MAX } from '../types/city';
+import {
+  applyAIStateUpdates,
+  chooseRecruitTroopType,
+  executeAIDevelop,
+  executeAIRecruit,
+  type AIStateUpdate,
+} from './aiSystem';
+import { isGeneralMarching } from './movement';
+import { isPrisoner } from './prisoners';
+import { generateId } from './ids';
+
+/**
+ * 委任征兵所需的最低城中金钱
+ */
+export const DELEGATION_RECRUIT_MIN_GOLD = 1000;
+
+/**
+ * 委任征兵所需的最低城中人口
+ */
+export const DELEGATION_RECRUIT_MIN_POPULATION = 500;
+
+/**
+ * 委任方针列表
+ */
+export const DELEGATION_MODES: DelegationMode[] = ['commerce', 'agriculture', 'defense', 'recruit'];
+
+/**
+ * 委任方针名称
+ */
+export const DELEGATION_LABELS: Record<DelegationMode, string> = {
+  commerce: '专注商业',
+  agriculture: '专注农业',
+  defense: '专注城防',
+  recruit: '专注征兵',
+};
+
+/**
+ * 太守指令
+ */
+export interface GovernorOrder {
+  /** 城市ID */
+  cityId: string;
+  /** 新任太守ID（为null时罢免太守） */
+  governorId: string | null;
+  /** 委任方针（为null时由玩家亲自经营） */
+  delegation: DelegationMode | null;
+}
+
+/**
+ * 太守指令结果
+ */
+export interface GovernorResult {
+  /** 指令是否有效 */
+  success: boolean;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 委任经营结算结果
+ */
+export interface DelegationTurnResult {
+  /** 更新后的游戏状态 */
+  state: GameState;
+  /** 太守开发、征兵事件 */
+  events: GameEvent[];
+}
+
+/**
+ * 获取城中可任太守的武将（驻守该城、未行军、未被俘的己方存活武将）
+ */
+export function getGovernorCandidates(gameState: GameState, cityId: string): General[] {
+  const city = gameState.cities[cityId];
+  if (!city) return [];
+
+  return city.stationedGenerals
+    .map((id) => gameState.generals[id])
+    .filter(
+      (g): g is General =>
+        g !== undefined &&
+        g.isAlive &&
+        g.faction === city.faction &&
+        !isGeneralMarching(gameState, g.id) &&
+        !isPrisoner(gameState, g.id)
+    );
+}
+
+/**
+ * 获取城市的在任太守（太守已离城、阵亡、被俘或改投他处时视为空缺）
+ */
+export function getCityGovernor(gameState: GameState, cityId: string): General | null {
+  const city = gameState.cities[cityId];
+  if (!city?.governor) return null;
+
+  const governor = gameState.generals[city.governor];
+  if (
+    !governor ||
+    !governor.isAlive ||
+    governor.faction !== city.faction ||
+    governor.currentCity !== city.id ||
+    isPrisoner(gameState, governor.id)
+  ) {
+    return null;
+  }
+  return governor;
+}
+
+/**
+ * 校验太守指令
+ * @param order - 太守指令
+ * @param gameState - 游戏状态
+ * @param factionId - 下令势力ID
+ * @returns 错误信息，校验通过返回null
+ */
+export function validateGovernorOrder(
+  order: GovernorOrder,
+  gameState: GameState,
+  factionId: string
+): string | null {
+  const city = gameState.cities[order.cityId];
+  if (!city || city.faction !== factionId) {
+    return '只能任命己方城市的太守';
+  }
+
+  if (
+    order.governorId !== null &&
+    !getGovernorCandidates(gameState, city.id).some((g) => g.id === order.governorId)
+  ) {
+    return '太守须为驻守该城的己方武将';
+  }
+
+  if (order.delegation !== null) {
+    if (!DELEGATION_MODES.includes(order.delegation)) {
+      return '委任方针无效';
+    }
+    if (order.governorId === null) {
+      return '委任须先任命太守';
+    }
+  }
+
+  if (order.governorId === city.governor && order.delegation === (city.delegation ?? null)) {
+    return '太守与委任方针均未变动';
+  }
+
+  return null;
+}
+
+/**
+ * 执行太守指令
+ * @param order - 太守指令
+ * @param gameState - 游戏状态
+ * @param factionId - 下令势力ID
+ * @returns 太守指令结果
+ */
+export function executeGovernorOrder(
+  order: GovernorOrder,
+  gameState: GameState,
+  factionId: string
+): GovernorResult {
+  const error = validateGovernorOrder(order, gameState, factionId);
+  return error ? { success: false, error } : { success: true };
+}
+
+/**
+ * 将太守指令结果应用到游戏状态
+ * @param gameState - 当前游戏状态
+ * @param order - 太守指令
+ * @param result - 太守指令结果
+ * @returns 更新后的游戏状态
+ */
+export function applyGovernorResult(
+  gameState: GameState,
+  order: GovernorOrder,
+  result: GovernorResult
+): GameState {
+  if (!result.success) return gameState;
+
+  // 深拷贝状态
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const city = newState.cities[order.cityId];
+  if (!city) return gameState;
+
+  city.governor = order.governorId;
+  if (order.delegation) {
+    city.delegation = order.delegation;
+  } else {
+    delete city.delegation;
+  }
+  return newState;
+}
+
+/**
+ * 生成太守任免事件
+ * 新任太守记为出任，罢免记为卸任，仅调整委任方针时记为续任
+ * @param order - 太守指令
+ * @param result - 太守指令结果
+ * @param gameState - 任免前的游戏状态
+ * @returns 任免事件，指令无效或城中本无太守可罢免时返回null
+ */
+export function createGovernorEvent(
+  order: GovernorOrder,
+  result: GovernorResult,
+  gameState: GameState
+): GameEvent | null {
+  const city = gameState.cities[order.cityId];
+  if (!result.success || !city) return null;
+
+  const governor = order.governorId ? gameState.generals[order.governorId] : undefined;
+  const previous = getCityGovernor(gameState, city.id);
+  const policy = order.delegation ? `，${DELEGATION_LABELS[order.delegation]}` : '';
+  let data: GeneralEventData;
+  if (governor) {
+    data = {
+      general: governor.id,
+      event: 'appointed',
+      details:
+        previous?.id === governor.id
+          ? `${governor.name}续任${city.name}太守${policy || '，政务听凭主公亲裁'}`
+          : `${governor.name}出任${city.name}太守${policy}`,
+    };
+  } else if (previous) {
+    data = {
+      general: previous.id,
+      event: 'dismissed',
+      details: `${previous.name}卸任${city.name}太守`,
+    };
+  } else {
+    return null;
+  }
+
+  return {
+    id: generateId('governor_event'),
+    type: 'general',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
+
+/**
+ * 月末结算委任经营：各委任城市的太守按方针开发一项或征兵一次
+ * - 商业、农业、城防：花费开发金钱，已达上限时不再投入
+ * - 征兵：城中金钱、人口充足时由太守募兵，兵种按AI的选兵逻辑
+ * 太守空缺的城市暂停委任
+ * @param gameState - 游戏状态
+ * @returns 更新后的游戏状态与开发、征兵事件
+ */
+export function processDelegation(gameState: GameState): DelegationTurnResult {
+  const events: GameEvent[] = [];
+  const updates: AIStateUpdate[] = [];
+
+  for (const city of Object.values(gameState.cities)) {
+    if (!city.delegation) continue;
+    const governor = getCityGovernor(gameState, city.id);
+    if (!governor) continue;
+
+    if (city.delegation === 'recruit') {
+      if (
+        city.resources.gold < DELEGATION_RECRUIT_MIN_GOLD ||
+        city.resources.population < DELEGATION_RECRUIT_MIN_POPULATION
+      ) {
+        continue;
+      }
+      const troopType = chooseRecruitTroopType(city, gameState);
+      const result = executeAIRecruit(
+        { type: 'recruit', cityId: city.id, generalId: governor.id, troopType },
+        gameState
+      );
+      if (result) {
+        events.push(result.event);
+        updates.push({
+          type: 'recruit',
+          factionId: city.faction,
+          cityId: city.id,
+          generalId: governor.id,
+          troopType,
+          value: result.soldiersGained,
+        });
+      }
+      continue;
+    }
+
+    const target = city.delegation;
+    const maxValue = { commerce: COMMERCE_MAX, agriculture: AGRICULTURE_MAX, defense: DEFENSE_MAX }[
+      target
+    ];
+    if (city.resources[target] >= maxValue) continue;
+
+    const result = executeAIDevelop(
+      { type: 'develop', cityId: city.id, generalId: governor.id, target },
+      gameState
+    );
+    if (result) {
+      events.push(result.event);
+      updates.push({
+        type: 'develop',
+        factionId: city.faction,
+        cityId: city.id,
+        generalId: governor.id,
+        target,
+        value: result.valueIncrease,
+      });
+    }
+  }
+
+  if (updates.length === 0) return { state: gameState, events };
+  return { state: applyAIStateUpdates(gameState, updates), events };
+}
@@ -0,0 +1,13 @@
+/**
+ * ID生成 - 为游戏事件与各类记录生成唯一ID
+ * @module systems/ids
+ */
+
+/**
+ * 生成唯一ID，形如 `event_1700000000000_k3j9x2m1a`
+ * @param prefix - ID前缀
+ * @returns 唯一ID
+ */
+export function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  SCOUT_RANGE,
+  SCOUT_REPORT_MONTHS,
+  getDistanceToFaction,
+  getVisibleCityIds,
+  isCityVisible,
+  scoutCity,
+  validateScoutOrder,
+} from './intelligence';
+import { buildAdvisorContext, buildAdvisorPrompt } from '../services/llm/advisorPrompt';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+
+/**
+ * 将日期推后若干月
+ */
+function advanceMonths(state: GameState, months: number): GameState {
+  const total = state.currentDate.year * 12 + (state.currentDate.month - 1) + months;
+  return {
+    ...state,
+    currentDate: { year: Math.floor(total / 12), month: (total % 12) + 1 },
+  };
+}
+
+const cityIdArb = fc.constantFrom<string>(
+  'luoyang',
+  'changan',
+  'chenliu',
+  'nanpi',
+  'ye',
+  'pingyuan'
+);
+
+const factionIdArb = fc.constantFrom('caocao', 'dongzhuo', 'yuanshao', 'liubei');
+
+/**
+ * **Feature: sanguo-190, Property 32: 战争迷雾与侦察**
+ * *For any* 势力与城市，仅己方城市、与己方城池接壤的城市以及持有近期侦察情报的城市可见；
+ * 侦察只能针对射程内未接壤的敌城，情报在有效月数后失效；
+ * 军师只使用玩家可见的情报。
+ */
+describe('Property 32: 战争迷雾与侦察', () => {
+  it('should only reveal own, bordering and freshly scouted cities', () => {
+    fc.assert(
+      fc.property(
+        factionIdArb,
+        fc.array(cityIdArb, { maxLength: 3 }),
+        fc.integer({ min: 0, max: 6 }),
+        (factionId, scouted, elapsed) => {
+          let state = createTestState();
+          for (const cityId of scouted) {
+            state = scoutCity(state, cityId, factionId);
+          }
+          state = advanceMonths(state, elapsed);
+
+          for (const cityId of Object.keys(state.cities)) {
+            const distance = getDistanceToFaction(state, cityId, factionId);
+            const validScout = scouted.includes(cityId) && distance >= 2 && distance <= SCOUT_RANGE;
+            const expected = distance <= 1 || (validScout && elapsed < SCOUT_REPORT_MONTHS);
+            expect(isCityVisible(state, cityId, factionId)).toBe(expected);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject scouting own, bordering or unreachable cities', () => {
+    fc.assert(
+      fc.property(factionIdArb, cityIdArb, (factionId, cityId) => {
+        const state = createTestState();
+        const distance = getDistanceToFaction(state, cityId, factionId);
+        const error = validateScoutOrder(state, cityId, factionId);
+
+        expect(error === null).toBe(distance >= 2 && distance <= SCOUT_RANGE);
+        if (error) {
+          expect(scoutCity(state, cityId, factionId)).toBe(state);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should keep hidden cities out of the advisor context', () => {
+    const state = createTestState();
+    const visible = getVisibleCityIds(state, 'caocao');
+    expect([...visible].sort()).toEqual(['chenliu', 'luoyang', 'pingyuan']);
+
+    const build = (cityId: string, visibleCityIds: ReadonlySet<string>) =>
+      buildAdvisorContext(
+        state.cities[cityId],
+        state.cities,
+        state.factions,
+        state.generals,
+        'caocao',
+        state.currentDate,
+        visibleCityIds
+      );
+
+    // 洛阳可见，但其邻城长安与邺城仍在迷雾中
+    const luoyang = build('luoyang', visible);
+    expect(luoyang.cityVisible).toBe(true);
+    expect(luoyang.nearbyThreats.map((t) => t.cityName)).toEqual([]);
+
+    const ye = build('ye', visible);
+    expect(ye.cityVisible).toBe(false);
+    expect(buildAdvisorPrompt(ye)).not.toContain('人口');
+
+    // 侦察邺城后军师即可获知其兵力
+    const scouted = scoutCity(state, 'ye', 'caocao');
+    const afterScout = build('luoyang', getVisibleCityIds(scouted, 'caocao'));
+    expect(afterScout.nearbyThreats.map((t) => t.cityName)).toEqual([state.cities.ye.name]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * 情报系统 - 处理战争迷雾与斥候侦察
+ * 敌方城市的钱粮、兵力与守将仅在与己方城池接壤或持有近期侦察情报时可见
+ * @module systems/intelligence
+ */
+
+import type { GameState } from '../types/gameState';
+import type { GameTimestamp } from '../types/events';
+import type { ScoutReport } from '../types/scout';
+
+/**
+ * 侦察情报有效月数（侦察当月起算）
+ */
+export const SCOUT_REPORT_MONTHS = 3;
+
+/**
+ * 斥候可侦察的最远距离（距己方最近城池的相邻城市数）
+ */
+export const SCOUT_RANGE = 2;
+
+/**
+ * 计算两个日期相隔的月数
+ */
+function monthsBetween(from: GameTimestamp, to: GameTimestamp): number {
+  return (to.year - from.year) * 12 + (to.month - from.month);
+}
+
+/**
+ * 获取侦察情报列表（兼容缺省字段的旧存档）
+ */
+export function getScoutReports(gameState: GameState): ScoutReport[] {
+  return gameState.scoutReports ?? [];
+}
+
+/**
+ * 判断侦察情报是否仍然有效
+ * @param gameState - 游戏状态
+ * @param report - 侦察情报
+ * @returns 侦察后未满有效月数时为true
+ */
+export function isScoutReportFresh(gameState: GameState, report: ScoutReport): boolean {
+  return monthsBetween(report.scoutedAt, gameState.currentDate) < SCOUT_REPORT_MONTHS;
+}
+
+/**
+ * 获取势力对某城市的有效侦察情报
+ */
+export function getScoutReport(
+  gameState: GameState,
+  factionId: string,
+  cityId: string
+): ScoutReport | undefined {
+  return getScoutReports(gameState).find(
+    (r) => r.factionId === factionId && r.cityId === cityId && isScoutReportFresh(gameState, r)
+  );
+}
+
+/**
+ * 计算城市距势力最近城池的距离（相邻城市数）
+ * @param gameState - 游戏状态
+ * @param cityId - 城市ID
+ * @param factionId - 势力ID
+ * @returns 距离，己方城市为0，势力已无城池或不连通时为Infinity
+ */
+export function getDistanceToFaction(
+  gameState: GameState,
+  cityId: string,
+  factionId: string
+): number {
+  const visited = new Set<string>([cityId]);
+  let frontier = [cityId];
+
+  for (let distance = 0; frontier.length > 0; distance++) {
+    if (frontier.some((id) => gameState.cities[id]?.faction === factionId)) return distance;
+
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighborId of gameState.cities[id]?.connectedCities ?? []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+        next.push(neighborId);
+      }
+    }
+    frontier = next;
+  }
+
+  return Infinity;
+}
+
+/**
+ * 判断势力能否看到城市详情
+ * 己方城市、与己方城池接壤的城市以及持有有效侦察情报的城市可见
+ * @param gameState - 游戏状态
+ * @param cityId - 城市ID
+ * @param factionId - 观察方势力ID
+ * @returns 是否可见
+ */
+export function isCityVisible(gameState: GameState, cityId: string, factionId: string): boolean {
+  const city = gameState.cities[cityId];
+  if (!city) return false;
+  if (city.faction === factionId) return true;
+
+  const bordersOwnCity = city.connectedCities.some(
+    (id) => gameState.cities[id]?.faction === factionId
+  );
+  return bordersOwnCity || getScoutReport(gameState, factionId, cityId) !== undefined;
+}
+
+/**
+ * 获取势力可见的城市ID集合
+ * @param gameState - 游戏状态
+ * @param factionId - 观察方势力ID
+ * @returns 可见城市ID集合
+ */
+export function getVisibleCityIds(gameState: GameState, factionId: string): Set<string> {
+  return new Set(
+    Object.keys(gameState.cities).filter((cityId) => isCityVisible(gameState, cityId, factionId))
+  );
+}
+
+/**
+ * 校验侦察指令
+ * @param gameState - 游戏状态
+ * @param cityId - 侦察目标城市ID
+ * @param factionId - 侦察方势力ID
+ * @returns 错误信息，校验通过返回null
+ */
+export function validateScoutOrder(
+  gameState: GameState,
+  cityId: string,
+  factionId: string
+): string | null {
+  const city = gameState.cities[cityId];
+  if (!city) {
+    return '目标城市不存在';
+  }
+
+  const distance = getDistanceToFaction(gameState, cityId, factionId);
+  if (distance === 0) {
+    return '己方城市无需侦察';
+  }
+
+  if (distance === 1) {
+    return '该城与我方城池接壤，情报已明';
+  }
+
+  if (distance > SCOUT_RANGE) {
+    return '该城距我方城池太远，斥候无法抵达';
+  }
+
+  return null;
+}
+
+/**
+ * 派出斥候侦察城市，取代该势力对此城的旧情报并清理过期情报
+ * @param gameState - 当前游戏状态
+ * @param cityId - 侦察目标城市ID
+ * @param factionId - 侦察方势力ID
+ * @returns 更新后的游戏状态，指令无效时返回原状态
+ */
+export function scoutCity(gameState: GameState, cityId: string, factionId: string): GameState {
+  if (validateScoutOrder(gameState, cityId, factionId)) return gameState;
+
+  const reports = getScoutReports(gameState).filter(
+    (r) => isScoutReportFresh(gameState, r) && !(r.factionId === factionId && r.cityId === cityId)
+  );
+
+  return {
+    ...gameState,
+    scoutReports: [...reports, { factionId, cityId, scoutedAt: { ...gameState.currentDate } }],
+  };
+}
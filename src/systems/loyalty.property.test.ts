@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  DEFEAT_LOYALTY_PENALTY,
+  DEFECTOR_LOYALTY,
+  LOYALTY_DRIFT_PER_MONTH,
+  POACH_RELATION_PENALTY,
+  applyPersonnelResult,
+  calculateDefectionChance,
+  calculateLoyaltyTarget,
+  calculatePoachChance,
+  calculateRewardLoyalty,
+  createPersonnelEvent,
+  executePersonnel,
+  processLoyalty,
+  validatePersonnelOrder,
+  type PersonnelOrder,
+} from './loyalty';
+import { getGeneralLoyalty } from './prisoners';
+import { getRelation } from './relations';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+import type { BattleEventData, GameEvent, GeneralEventData } from '../types/events';
+import { FREE_FACTION_ID } from '../types/general';
+
+/**
+ * 创建吕布兵败的战斗事件
+ */
+function createDefeatEvent(): GameEvent {
+  const data: BattleEventData = {
+    attacker: 'dongzhuo',
+    defender: 'caocao',
+    attackerGeneral: 'lvbu',
+    defenderGeneral: 'caocao',
+    result: 'lose',
+    casualties: { attacker: 1000, defender: 500 },
+  };
+  return { id: 'battle', type: 'battle', timestamp: { year: 190, month: 1 }, data };
+}
+
+/**
+ * 检查在任武将所属势力与驻守城市是否一致（在野武将不属任何势力）
+ */
+function expectConsistentRoster(state: GameState): void {
+  for (const general of Object.values(state.generals)) {
+    if (general.faction === FREE_FACTION_ID) continue;
+    expect(state.factions[general.faction].generals).toContain(general.id);
+    expect(state.cities[general.currentCity].stationedGenerals).toContain(general.id);
+  }
+}
+
+/**
+ * **Feature: sanguo-190, Property 37: 武将忠诚**
+ * *For any* 月末结算，武将忠诚至多向天然忠诚靠拢一步，战败主将忠诚下降；
+ * 忠诚过低的武将率部投奔相邻他国并载入史册；赏赐按金额提高忠诚；
+ * 挖角按成功率判定，得手后敌将改投说客所在城市，无论成败两国关系恶化。
+ */
+describe('Property 37: 武将忠诚', () => {
+  it('should drift loyalty toward the lord-driven target and punish defeated commanders', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 100 }), (loyalty) => {
+        const state = createTestState();
+        state.generals.lvbu.loyalty = loyalty;
+        const result = processLoyalty(state, [createDefeatEvent()], () => 1);
+        expect(result.events).toHaveLength(0);
+
+        for (const general of Object.values(state.generals)) {
+          const before = getGeneralLoyalty(state, general);
+          const after = getGeneralLoyalty(result.state, result.state.generals[general.id]);
+          // 君主与在野武将的忠诚不变
+          if (
+            general.faction === FREE_FACTION_ID ||
+            general.id === state.factions[general.faction].lordId
+          ) {
+            expect(after).toBe(before);
+            continue;
+          }
+          const start =
+            general.id === 'lvbu' ? Math.max(0, before - DEFEAT_LOYALTY_PENALTY) : before;
+          const target = calculateLoyaltyTarget(state, general, general.faction);
+          expect(Math.abs(after - start)).toBeLessThanOrEqual(LOYALTY_DRIFT_PER_MONTH);
+          expect(Math.abs(target - after)).toBeLessThanOrEqual(Math.abs(target - start));
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should not punish commanders who withdrew from a siege without a fight', () => {
+    const state = createTestState();
+    const event = createDefeatEvent();
+    Object.assign(event.data, {
+      casualties: { attacker: 0, defender: 0 },
+      siege: { city: 'chenliu', phase: 'end', months: 2, outcome: 'withdrawn' },
+    });
+    const withdrawn = processLoyalty(state, [event], () => 1);
+    const idle = processLoyalty(state, [], () => 1);
+    expect(getGeneralLoyalty(withdrawn.state, withdrawn.state.generals.lvbu)).toBe(
+      getGeneralLoyalty(idle.state, idle.state.generals.lvbu)
+    );
+  });
+
+  it('should let disloyal generals defect with their troops to a neighbouring faction', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 40 }),
+        fc.double({ min: 0, max: 0.999, noNaN: true }),
+        (loyalty, roll) => {
+          const state = createTestState();
+          state.generals.lvbu.loyalty = loyalty;
+          const target = calculateLoyaltyTarget(state, state.generals.lvbu, 'dongzhuo');
+          const drifted = loyalty + Math.sign(target - loyalty) * LOYALTY_DRIFT_PER_MONTH;
+          const result = processLoyalty(state, [], () => roll);
+          const lvbu = result.state.generals.lvbu;
+
+          expectConsistentRoster(result.state);
+          expect(result.events).toHaveLength(lvbu.faction === 'dongzhuo' ? 0 : 1);
+          expect(lvbu.faction !== 'dongzhuo').toBe(roll < calculateDefectionChance(drifted));
+          if (lvbu.faction === 'dongzhuo') return;
+
+          expect(state.cities.luoyang.connectedCities).toContain(lvbu.currentCity);
+          expect(result.state.cities[lvbu.currentCity].faction).toBe(lvbu.faction);
+          expect(lvbu.troops).toBe(state.generals.lvbu.troops);
+          expect(lvbu.loyalty).toBe(DEFECTOR_LOYALTY);
+          expect(result.events[0].type).toBe('general');
+          expect(result.events[0].data).toMatchObject({ general: 'lvbu', event: 'defect' });
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    // 忠诚不低于阈值者不会叛投
+    const state = createTestState();
+    expect(processLoyalty(state, [], () => 0).events).toHaveLength(0);
+  });
+
+  it('should raise loyalty by reward value and spend the gold', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom('xiaohoudun', 'xiahouyuan', 'caoren', 'caohong'),
+        fc.integer({ min: 0, max: 99 }),
+        fc.integer({ min: 100, max: 5000 }),
+        (generalId, loyalty, gold) => {
+          const state = createTestState();
+          state.generals[generalId].loyalty = loyalty;
+          const order: PersonnelOrder = { action: 'reward', generalId, cityId: 'chenliu', gold };
+          const result = executePersonnel(order, state, 'caocao');
+          expect(result.success).toBe(true);
+
+          const newState = applyPersonnelResult(state, order, result);
+          expect(newState.cities.chenliu.resources.gold).toBe(
+            state.cities.chenliu.resources.gold - gold
+          );
+          expect(newState.generals[generalId].loyalty).toBe(
+            Math.min(100, loyalty + calculateRewardLoyalty(gold))
+          );
+          expect(createPersonnelEvent(order, result, state)).toBeNull();
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    const state = createTestState();
+    expect(
+      validatePersonnelOrder(
+        { action: 'reward', generalId: 'caocao', cityId: 'chenliu', gold: 1000 },
+        state,
+        'caocao'
+      )
+    ).toBe('只能赏赐己方麾下武将');
+  });
+
+  it('should poach neighbouring enemy generals by chance and sour relations either way', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 60 }),
+        fc.integer({ min: 0, max: 3000 }),
+        fc.double({ min: 0, max: 0.999, noNaN: true }),
+        (loyalty, gold, roll) => {
+          const state = createTestState();
+          state.generals.lvbu.loyalty = loyalty;
+          const order: PersonnelOrder = {
+            action: 'poach',
+            generalId: 'lvbu',
+            cityId: 'chenliu',
+            gold,
+            envoyId: 'caocao',
+          };
+          const chance = calculatePoachChance(order, state, 'caocao');
+          fc.pre(chance > 0);
+
+          const result = executePersonnel(order, state, 'caocao', () => roll);
+          expect(result).toMatchObject({ success: true, poached: roll < chance });
+
+          const newState = applyPersonnelResult(state, order, result);
+          expectConsistentRoster(newState);
+          expect(getRelation(newState, 'caocao', 'dongzhuo')).toBe(
+            Math.max(-100, getRelation(state, 'caocao', 'dongzhuo') - POACH_RELATION_PENALTY)
+          );
+          expect(newState.cities.chenliu.resources.gold).toBe(
+            state.cities.chenliu.resources.gold - gold
+          );
+
+          const event = createPersonnelEvent(order, result, state);
+          if (result.poached) {
+            expect(newState.generals.lvbu).toMatchObject({
+              faction: 'caocao',
+              currentCity: 'chenliu',
+              troops: state.generals.lvbu.troops,
+            });
+            expect((event?.data as GeneralEventData).event).toBe('defect');
+          } else {
+            expect(newState.generals.lvbu.faction).toBe('dongzhuo');
+            expect(event).toBeNull();
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    // 不相邻城市的敌将、敌国君主均不可挖角
+    const state = createTestState();
+    expect(
+      validatePersonnelOrder(
+        { action: 'poach', generalId: 'yanliang', cityId: 'chenliu', gold: 0, envoyId: 'caocao' },
+        state,
+        'caocao'
+      )
+    ).toBe('只能挖角相邻城市中的敌将');
+    expect(
+      validatePersonnelOrder(
+        { action: 'poach', generalId: 'dongzhuo', cityId: 'chenliu', gold: 0, envoyId: 'caocao' },
+        state,
+        'caocao'
+      )
+    ).toBe('只能挖角相邻城市中的敌将');
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * 忠诚系统 - 处理武将忠诚的涨落、赏赐、挖角与叛投
+ * 忠诚每月向君主魅力、相性与武将关系决定的天然忠诚靠拢，战败降低忠诚、晋升提高忠诚；
+ * 忠诚过低的武将于月末率部投奔邻国，敌国亦可遣使挖角
+ * @module systems/loyalty
+ */
+
+import type { GameState } from '../types/gameState';
+import type { General } from '../types/general';
+import type { BattleEventData, GameEvent, GeneralEventData } from '../types/events';
+import { COMPATIBILITY_RANGE, GENERAL_LOYALTY_MAX, GENERAL_LOYALTY_MIN } from '../types/general';
+import { clampGeneralLoyalty, getGeneralLoyalty, isLord, isPrisoner } from './prisoners';
+import { getStratagemExecutors, getStratagemTargets } from './stratagem';
+import { adjustRelation } from './relations';
+import { calculateBondLoyalty } from './bonds';
+import { isBattleEngaged } from './battle';
+import { generateId } from './ids';
+
+/**
+ * 天然忠诚基准（君主魅力50、相性相合时）
+ */
+export const LOYALTY_TARGET_BASE = 70;
+
+/**
+ * 君主魅力每高出50一点，天然忠诚提高的值
+ */
+export const LORD_CHA_LOYALTY_WEIGHT = 0.6;
+
+/**
+ * 与君主相性每相差一点，天然忠诚降低的值
+ */
+export const COMPATIBILITY_LOYALTY_WEIGHT = 0.6;
+
+/**
+ * 忠诚每月向天然忠诚靠拢的幅度
+ */
+export const LOYALTY_DRIFT_PER_MONTH = 1;
+
+/**
+ * 战败主将的忠诚下降
+ */
+export const DEFEAT_LOYALTY_PENALTY = 5;
+
+/**
+ * 晋升武将的忠诚提高
+ */
+export const PROMOTION_LOYALTY_BONUS = 10;
+
+/**
+ * 赏赐每此数额金钱提高1点忠诚
+ */
+export const REWARD_GOLD_PER_LOYALTY = 100;
+
+/**
+ * 单次赏赐至多提高的忠诚
+ */
+export const REWARD_LOYALTY_CAP = 20;
+
+/**
+ * 叛投阈值：忠诚低于此值的武将可能于月末投奔邻国
+ */
+export const DEFECTION_THRESHOLD = 30;
+
+/**
+ * 忠诚降至0时的叛投概率（忠诚越接近阈值概率越低）
+ */
+export const DEFECTION_MAX_CHANCE = 0.5;
+
+/**
+ * 叛将与被挖角武将在新主麾下的初始忠诚
+ */
+export const DEFECTOR_LOYALTY = 50;
+
+/**
+ * 挖角基础成功率
+ */
+export const POACH_BASE_CHANCE = 0.1;
+
+/**
+ * 挖角许以每此数额金钱提高1%成功率
+ */
+export const POACH_GOLD_PER_PERCENT = 100;
+
+/**
+ * 挖角金钱带来的成功率加成上限
+ */
+export const POACH_GOLD_BONUS_CAP = 0.2;
+
+/**
+ * 挖角成功率上限
+ */
+export const POACH_MAX_CHANCE = 0.8;
+
+/**
+ * 挖角（无论成败）造成的双方关系值损失
+ */
+export const POACH_RELATION_PENALTY = 5;
+
+/**
+ * 人事类型
+ * - reward: 赏赐己方武将
+ * - poach: 挖角敌方武将
+ */
+export type PersonnelAction = 'reward' | 'poach';
+
+/**
+ * 人事指令
+ */
+export interface PersonnelOrder {
+  /** 人事类型 */
+  action: PersonnelAction;
+  /** 目标武将ID（赏赐为己方武将，挖角为敌将） */
+  generalId: string;
+  /** 出资的己方城市ID（挖角时为说客驻守城市） */
+  cityId: string;
+  /** 赏赐金额或挖角许以的金钱 */
+  gold: number;
+  /** 说客武将ID（仅挖角） */
+  envoyId?: string;
+}
+
+/**
+ * 人事执行结果
+ */
+export interface PersonnelResult {
+  /** 是否成功执行 */
+  success: boolean;
+  /** 人事类型 */
+  action: PersonnelAction;
+  /** 挖角是否得手（仅挖角） */
+  poached: boolean;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 月末忠诚结算结果
+ */
+export interface LoyaltyTurnResult {
+  /** 更新后的游戏状态 */
+  state: GameState;
+  /** 叛投产生的事件 */
+  events: GameEvent[];
+}
+
+/**
+ * 叛投去向
+ */
+export interface DefectionDestination {
+  /** 投奔的势力ID */
+  factionId: string;
+  /** 投奔的城市ID */
+  cityId: string;
+}
+
+/**
+ * 计算两名武将的相性差（环形取值，0-75），任一方缺省相性时视为相合
+ */
+export function getCompatibilityDistance(a: General, b: General): number {
+  if (a.compatibility === undefined || b.compatibility === undefined) return 0;
+  const diff = Math.abs(a.compatibility - b.compatibility) % COMPATIBILITY_RANGE;
+  return Math.min(diff, COMPATIBILITY_RANGE - diff);
+}
+
+/**
+ * 计算武将在某势力麾下的天然忠诚
+ * 公式: 70 + (君主魅力 - 50) × 0.6 - 相性差 × 0.6 + 武将关系增减，限制在0-100
+ * @param gameState - 游戏状态
+ * @param general - 武将
+ * @param factionId - 效力的势力ID
+ * @returns 天然忠诚，势力或君主不存在时为0
+ */
+export function calculateLoyaltyTarget(
+  gameState: GameState,
+  general: General,
+  factionId: string
+): number {
+  const lord = gameState.generals[gameState.factions[factionId]?.lordId ?? ''];
+  if (!lord) return GENERAL_LOYALTY_MIN;
+
+  return clampGeneralLoyalty(
+    LOYALTY_TARGET_BASE +
+      (lord.attributes.cha - 50) * LORD_CHA_LOYALTY_WEIGHT -
+      getCompatibilityDistance(general, lord) * COMPATIBILITY_LOYALTY_WEIGHT +
+      calculateBondLoyalty(gameState, general, factionId)
+  );
+}
+
+/**
+ * 判断武将的忠诚是否会涨落（在势力中任职、未被俘的存活武将，君主除外）
+ */
+function isLoyaltyEligible(gameState: GameState, general: General): boolean {
+  return (
+    general.isAlive &&
+    !isLord(gameState, general) &&
+    !isPrisoner(gameState, general.id) &&
+    !!gameState.factions[general.faction]?.generals.includes(general.id)
+  );
+}
+
+/**
+ * 调整武将忠诚（直接修改传入的状态）
+ */
+function adjustGeneralLoyalty(state: GameState, generalId: string, delta: number): void {
+  const general = state.generals[generalId];
+  if (!general || !isLoyaltyEligible(state, general)) return;
+  general.loyalty = clampGeneralLoyalty(getGeneralLoyalty(state, general) + delta);
+}
+
+/**
+ * 计算赏赐提高的忠诚
+ */
+export function calculateRewardLoyalty(gold: number): number {
+  return Math.min(REWARD_LOYALTY_CAP, Math.floor(gold / REWARD_GOLD_PER_LOYALTY));
+}
+
+/**
+ * 计算月末叛投概率
+ * 公式: (30 - 忠诚) ÷ 30 × 50%，忠诚不低于30时为0
+ */
+export function calculateDefectionChance(loyalty: number): number {
+  if (loyalty >= DEFECTION_THRESHOLD) return 0;
+  return ((DEFECTION_THRESHOLD - loyalty) / DEFECTION_THRESHOLD) * DEFECTION_MAX_CHANCE;
+}
+
+/**
+ * 计算挖角成功率
+ * 公式: 10% + (说客魅力 + 在我方麾下的天然忠诚 - 2 × 现忠诚) ÷ 200 + 许以金钱 ÷ 10000（至多20%），
+ * 限制在0-80%
+ * @param order - 人事指令
+ * @param gameState - 游戏状态
+ * @param factionId - 挖角势力ID
+ * @returns 成功率 (0-0.8)，说客或目标不存在时为0
+ */
+export function calculatePoachChance(
+  order: PersonnelOrder,
+  gameState: GameState,
+  factionId: string
+): number {
+  const target = gameState.generals[order.generalId];
+  const envoy = order.envoyId ? gameState.generals[order.envoyId] : undefined;
+  if (!target || !envoy) return 0;
+
+  const chance =
+    POACH_BASE_CHANCE +
+    (envoy.attributes.cha +
+      calculateLoyaltyTarget(gameState, target, factionId) -
+      2 * getGeneralLoyalty(gameState, target)) /
+      200 +
+    Math.min(POACH_GOLD_BONUS_CAP, order.gold / POACH_GOLD_PER_PERCENT / 100);
+  return Math.max(0, Math.min(POACH_MAX_CHANCE, chance));
+}
+
+/**
+ * 获取可赏赐的己方武将
+ */
+export function getRewardableGenerals(gameState: GameState, factionId: string): General[] {
+  return (gameState.factions[factionId]?.generals ?? [])
+    .map((id) => gameState.generals[id])
+    .filter((g): g is General => g !== undefined && isLoyaltyEligible(gameState, g));
+}
+
+/**
+ * 获取可自某城挖角的敌将（相邻他国城市中的非君主武将）
+ */
+export function getPoachTargets(gameState: GameState, cityId: string): General[] {
+  const city = gameState.cities[cityId];
+  if (!city) return [];
+
+  return city.connectedCities
+    .filter((id) => {
+      const neighbour = gameState.cities[id];
+      return neighbour !== undefined && neighbour.faction !== city.faction;
+    })
+    .flatMap((id) => getStratagemTargets(gameState, id))
+    .filter((g) => !isPrisoner(gameState, g.id));
+}
+
+/**
+ * 校验人事指令
+ * @param order - 人事指令
+ * @param gameState - 游戏状态
+ * @param factionId - 下令势力ID
+ * @returns 错误信息，校验通过返回null
+ */
+export function validatePersonnelOrder(
+  order: PersonnelOrder,
+  gameState: GameState,
+  factionId: string
+): string | null {
+  const city = gameState.cities[order.cityId];
+  if (!city || city.faction !== factionId) {
+    return '须自己方城市出资';
+  }
+
+  if (!Number.isInteger(order.gold) || order.gold < 0) {
+    return '金钱数额无效';
+  }
+
+  if (city.resources.gold < order.gold) {
+    return '金钱不足';
+  }
+
+  const general = gameState.generals[order.generalId];
+  if (!general) {
+    return '请选择目标武将';
+  }
+
+  if (order.action === 'reward') {
+    if (!getRewardableGenerals(gameState, factionId).some((g) => g.id === general.id)) {
+      return '只能赏赐己方麾下武将';
+    }
+    if (calculateRewardLoyalty(order.gold) <= 0) {
+      return `赏赐至少需${REWARD_GOLD_PER_LOYALTY}金`;
+    }
+    if (getGeneralLoyalty(gameState, general) >= GENERAL_LOYALTY_MAX) {
+      return '该武将忠诚已满';
+    }
+    return null;
+  }
+
+  const envoy = order.envoyId ? gameState.generals[order.envoyId] : undefined;
+  if (!envoy) {
+    return '请选择说客';
+  }
+
+  if (!getPoachTargets(gameState, city.id).some((g) => g.id === general.id)) {
+    return '只能挖角相邻城市中的敌将';
+  }
+
+  if (
+    envoy.currentCity !== city.id ||
+    !getStratagemExecutors(gameState, general.currentCity, factionId).some((g) => g.id === envoy.id)
+  ) {
+    return '说客须驻守于出资城市';
+  }
+
+  if (calculatePoachChance(order, gameState, factionId) <= 0) {
+    return '此人忠心耿耿，无从策反';
+  }
+
+  return null;
+}
+
+/**
+ * 执行人事指令（挖角时判定成败）
+ * @param order - 人事指令
+ * @param gameState - 游戏状态
+ * @param factionId - 下令势力ID
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 人事结果
+ */
+export function executePersonnel(
+  order: PersonnelOrder,
+  gameState: GameState,
+  factionId: string,
+  random: () => number = Math.random
+): PersonnelResult {
+  const error = validatePersonnelOrder(order, gameState, factionId);
+  if (error) {
+    return { success: false, action: order.action, poached: false, error };
+  }
+
+  if (order.action === 'reward') {
+    return { success: true, action: 'reward', poached: false };
+  }
+
+  return {
+    success: true,
+    action: 'poach',
+    poached: random() < calculatePoachChance(order, gameState, factionId),
+  };
+}
+
+/**
+ * 武将改投他国（直接修改传入的状态）
+ * 武将率所部兵马离开原势力与原驻城市，驻守新主城市，忠诚重置为叛将初始忠诚
+ * @param state - 可修改的游戏状态副本
+ * @param generalId - 武将ID
+ * @param factionId - 新主势力ID
+ * @param cityId - 新驻守城市ID
+ */
+export function transferGeneral(
+  state: GameState,
+  generalId: string,
+  factionId: string,
+  cityId: string
+): void {
+  const general = state.generals[generalId];
+  const faction = state.factions[factionId];
+  const city = state.cities[cityId];
+  if (!general || !faction || !city || general.faction === factionId) return;
+
+  const oldFaction = state.factions[general.faction];
+  if (oldFaction) {
+    oldFaction.generals = oldFaction.generals.filter((id) => id !== generalId);
+  }
+  const oldCity = state.cities[general.currentCity];
+  if (oldCity) {
+    oldCity.stationedGenerals = oldCity.stationedGenerals.filter((id) => id !== generalId);
+    if (oldCity.governor === generalId) {
+      oldCity.governor = null;
+    }
+  }
+  if (state.sieges) {
+    state.sieges = state.sieges
+      .map((siege) => ({
+        ...siege,
+        generalIds: siege.generalIds.filter((id) => id !== generalId),
+      }))
+      .filter((siege) => siege.generalIds.length > 0);
+  }
+
+  general.faction = factionId;
+  general.currentCity = cityId;
+  general.loyalty = DEFECTOR_LOYALTY;
+  faction.generals.push(generalId);
+  city.stationedGenerals.push(generalId);
+}
+
+/**
+ * 将人事结果应用到游戏状态
+ * - 赏赐：自出资城市支出金钱，武将忠诚按赏赐金额提高
+ * - 挖角：无论成败均支出许以的金钱、两国关系恶化；得手时敌将率部投奔说客所在城市
+ * @param gameState - 当前游戏状态
+ * @param order - 人事指令
+ * @param result - 人事结果
+ * @returns 更新后的游戏状态
+ */
+export function applyPersonnelResult(
+  gameState: GameState,
+  order: PersonnelOrder,
+  result: PersonnelResult
+): GameState {
+  if (!result.success) return gameState;
+
+  // 深拷贝状态
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const city = newState.cities[order.cityId];
+  const general = newState.generals[order.generalId];
+  if (!city || !general) return gameState;
+
+  city.resources.gold -= order.gold;
+
+  if (result.action === 'reward') {
+    adjustGeneralLoyalty(newState, general.id, calculateRewardLoyalty(order.gold));
+    return newState;
+  }
+
+  // 同一回合内目标已改投他处时仅损失金钱
+  if (general.faction === city.faction || !isLoyaltyEligible(newState, general)) {
+    return newState;
+  }
+
+  adjustRelation(newState, city.faction, general.faction, -POACH_RELATION_PENALTY, 'poach');
+  if (result.poached) {
+    transferGeneral(newState, general.id, city.faction, city.id);
+  }
+  return newState;
+}
+
+/**
+ * 生成叛投事件
+ */
+function createDefectEvent(gameState: GameState, generalId: string, details: string): GameEvent {
+  const data: GeneralEventData = { general: generalId, event: 'defect', details };
+  return {
+    id: generateId('loyalty_event'),
+    type: 'general',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
+
+/**
+ * 生成人事事件（仅挖角得手时载入史册）
+ * @param order - 人事指令
+ * @param result - 人事结果
+ * @param gameState - 执行前的游戏状态
+ * @returns 叛投事件，赏赐或挖角未果时返回null
+ */
+export function createPersonnelEvent(
+  order: PersonnelOrder,
+  result: PersonnelResult,
+  gameState: GameState
+): GameEvent | null {
+  if (!result.success || !result.poached) return null;
+
+  const general = gameState.generals[order.generalId];
+  const envoy = order.envoyId ? gameState.generals[order.envoyId] : undefined;
+  const city = gameState.cities[order.cityId];
+  if (!general || !city) return null;
+
+  const oldName = gameState.factions[general.faction]?.name ?? '';
+  const newName = gameState.factions[city.faction]?.name ?? '';
+  return createDefectEvent(
+    gameState,
+    general.id,
+    `${general.name}受${envoy?.name ?? '说客'}游说，弃${oldName}投奔${newName}`
+  );
+}
+
+/**
+ * 为忠诚过低的武将寻找投奔去向：所在城市相邻的他国城市中，天然忠诚最高的势力
+ * @param gameState - 游戏状态
+ * @param general - 武将
+ * @returns 投奔去向，无邻国可投时返回null
+ */
+export function findDefectionDestination(
+  gameState: GameState,
+  general: General
+): DefectionDestination | null {
+  const city = gameState.cities[general.currentCity];
+  if (!city) return null;
+
+  let best: (DefectionDestination & { target: number }) | null = null;
+  for (const cityId of city.connectedCities) {
+    const neighbour = gameState.cities[cityId];
+    if (!neighbour || neighbour.faction === general.faction) continue;
+    if (!gameState.factions[neighbour.faction]) continue;
+
+    const target = calculateLoyaltyTarget(gameState, general, neighbour.faction);
+    if (!best || target > best.target) {
+      best = { factionId: neighbour.faction, cityId, target };
+    }
+  }
+
+  return best ? { factionId: best.factionId, cityId: best.cityId } : null;
+}
+
+/**
+ * 月末结算武将忠诚
+ * 1. 本月战败的主将忠诚下降，晋升的武将忠诚提高
+ * 2. 所有武将的忠诚向天然忠诚靠拢
+ * 3. 忠诚低于叛投阈值的武将按概率率部投奔邻国
+ * @param gameState - 游戏状态
+ * @param events - 本月发生的事件
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 更新后的游戏状态与叛投事件
+ */
+export function processLoyalty(
+  gameState: GameState,
+  events: GameEvent[],
+  random: () => number = Math.random
+): LoyaltyTurnResult {
+  // 深拷贝状态
+  const state: GameState = JSON.parse(JSON.stringify(gameState));
+  const defectEvents: GameEvent[] = [];
+
+  for (const event of events) {
+    if (event.type === 'battle') {
+      const data = event.data as BattleEventData;
+      if (!isBattleEngaged(data)) continue;
+      if (data.result === 'lose') {
+        adjustGeneralLoyalty(state, data.attackerGeneral, -DEFEAT_LOYALTY_PENALTY);
+      } else if (data.result === 'win') {
+        adjustGeneralLoyalty(state, data.defenderGeneral, -DEFEAT_LOYALTY_PENALTY);
+      }
+    } else if (event.type === 'general') {
+      const data = event.data as GeneralEventData;
+      if (data.event === 'promoted') {
+        adjustGeneralLoyalty(state, data.general, PROMOTION_LOYALTY_BONUS);
+      }
+    }
+  }
+
+  for (const general of Object.values(state.generals)) {
+    if (!isLoyaltyEligible(state, general)) continue;
+    const loyalty = getGeneralLoyalty(state, general);
+    const target = calculateLoyaltyTarget(state, general, general.faction);
+    const drift = Math.max(
+      -LOYALTY_DRIFT_PER_MONTH,
+      Math.min(LOYALTY_DRIFT_PER_MONTH, target - loyalty)
+    );
+    general.loyalty = clampGeneralLoyalty(loyalty + drift);
+  }
+
+  for (const general of Object.values(state.generals)) {
+    if (!isLoyaltyEligible(state, general)) continue;
+    if (random() >= calculateDefectionChance(getGeneralLoyalty(state, general))) continue;
+
+    const destination = findDefectionDestination(state, general);
+    if (!destination) continue;
+
+    const oldName = state.factions[general.faction]?.name ?? '';
+    const newName = state.factions[destination.factionId]?.name ?? '';
+    const troops = general.troops > 0 ? `率${general.troops}兵马` : '';
+    defectEvents.push(
+      createDefectEvent(state, general.id, `${general.name}不满${oldName}，${troops}投奔${newName}`)
+    );
+    transferGeneral(state, general.id, destination.factionId, destination.cityId);
+  }
+
+  return { state, events: defectEvents };
+}
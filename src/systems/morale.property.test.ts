@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  MORALE_MAX,
+  MORALE_MIN,
+  calculateArmyMorale,
+  describeRetreat,
+  isRouted,
+} from './morale';
+import { resolveBattle, type BattleCommander } from './battle';
+import { applyCampaignResult, type CampaignResult } from './campaign';
+import { GENERALS_190 } from '../data/scenario190';
+import { createTestState } from '../test/fixtures';
+import { createComposition } from './troops';
+
+const generalsArb = fc.subarray(GENERALS_190, { minLength: 1, maxLength: 5 });
+
+const commanderArb = (id: string): fc.Arbitrary<BattleCommander> =>
+  fc.record({
+    id: fc.constant(id),
+    lead: fc.integer({ min: 1, max: 100 }),
+    war: fc.integer({ min: 1, max: 100 }),
+    int: fc.integer({ min: 1, max: 100 }),
+  });
+
+const moraleArb = fc.integer({ min: MORALE_MIN, max: MORALE_MAX });
+
+/**
+ * 攻占洛阳的出征结果
+ */
+function createCaptureResult(): CampaignResult {
+  return {
+    success: true,
+    result: 'win',
+    attackerGeneral: 'caocao',
+    defenderGeneral: 'lvbu',
+    attackerCasualties: 0,
+    defenderCasualties: 0,
+    attackerCasualtiesByType: createComposition(),
+    defenderCasualtiesByType: createComposition(),
+    duel: { triggered: false, instantKill: false },
+    attackerMorale: 60,
+    defenderMorale: 10,
+    routed: 'defender',
+    rounds: [],
+  };
+}
+
+/**
+ * **Feature: sanguo-190, Property 25: 士气与撤退**
+ * *For any* 部队，士气保持在0-100之间，君主亲征不降低士气、缺粮不提高士气；
+ * 战斗中因士气崩溃而溃退的一方必为败方；失城守军退守相邻己方城市，无路可退则全军溃散。
+ */
+describe('Property 25: 士气与撤退', () => {
+  it('should keep army morale within range and honour lord presence and grain', () => {
+    fc.assert(
+      fc.property(generalsArb, fc.boolean(), (generals, grainShortage) => {
+        const lordId = generals[0].id;
+        const withLord = calculateArmyMorale({ generals, lordId, grainShortage });
+        const withoutLord = calculateArmyMorale({ generals, grainShortage });
+        const fed = calculateArmyMorale({ generals, grainShortage: false });
+        const starving = calculateArmyMorale({ generals, grainShortage: true });
+
+        for (const morale of [withLord, withoutLord, fed, starving]) {
+          expect(morale).toBeGreaterThanOrEqual(MORALE_MIN);
+          expect(morale).toBeLessThanOrEqual(MORALE_MAX);
+        }
+        expect(withLord).toBeGreaterThanOrEqual(withoutLord);
+        expect(starving).toBeLessThanOrEqual(fed);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should only rout the losing side and keep round morale within range', () => {
+    fc.assert(
+      fc.property(
+        commanderArb('attacker'),
+        commanderArb('defender'),
+        fc.integer({ min: 100, max: 100000 }),
+        fc.integer({ min: 100, max: 100000 }),
+        moraleArb,
+        moraleArb,
+        (attacker, defender, attackerTroops, defenderTroops, attackerMorale, defenderMorale) => {
+          const battle = resolveBattle({
+            attacker,
+            attackerTroops,
+            attackerMorale,
+            defender,
+            defenderTroops,
+            defenderMorale,
+            cityDefense: 0,
+          });
+
+          for (const round of battle.rounds) {
+            expect(round.attackerMorale).toBeGreaterThanOrEqual(MORALE_MIN);
+            expect(round.attackerMorale).toBeLessThanOrEqual(MORALE_MAX);
+            expect(round.defenderMorale).toBeGreaterThanOrEqual(MORALE_MIN);
+            expect(round.defenderMorale).toBeLessThanOrEqual(MORALE_MAX);
+          }
+          if (battle.routed === 'attacker') {
+            expect(battle.result).toBe('lose');
+            expect(isRouted(battle.attackerMorale)).toBe(true);
+          } else if (battle.routed === 'defender') {
+            expect(battle.result).toBe('win');
+            expect(isRouted(battle.defenderMorale)).toBe(true);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should retreat defenders to an adjacent friendly city after losing it', () => {
+    const state = createTestState();
+    const order = { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: ['caocao'] };
+    const defenders = state.cities.luoyang.stationedGenerals;
+    const result = createCaptureResult();
+
+    const retreat = describeRetreat(state, result, order.fromCityId, order.toCityId);
+    expect(retreat).toEqual({ side: 'defender', toCity: 'changan', routed: true });
+
+    const newState = applyCampaignResult(state, order, result);
+    for (const id of defenders) {
+      expect(newState.generals[id].currentCity).toBe('changan');
+      expect(newState.cities.changan.stationedGenerals).toContain(id);
+      expect(newState.generals[id].troops).toBe(state.generals[id].troops);
+    }
+  });
+
+  it('should scatter defenders with no adjacent friendly city', () => {
+    const state = createTestState();
+    // 长安失守后洛阳无相邻己方城市
+    state.cities.changan.faction = 'yuanshao';
+    state.factions.dongzhuo.cities = ['luoyang'];
+    state.factions.yuanshao.cities.push('changan');
+    const order = { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: ['caocao'] };
+    const defenders = state.cities.luoyang.stationedGenerals;
+
+    const retreat = describeRetreat(state, createCaptureResult(), 'chenliu', 'luoyang');
+    expect(retreat?.toCity).toBeUndefined();
+
+    const newState = applyCampaignResult(state, order, createCaptureResult());
+    for (const id of defenders) {
+      expect(newState.generals[id].troops).toBe(0);
+    }
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * 士气系统 - 处理野战部队士气的计算、溃败判定与败军撤退
+ * @module systems/morale
+ */
+
+import type { GameState } from '../types/gameState';
+import type { City } from '../types/city';
+import type { General } from '../types/general';
+import type { Faction } from '../types/faction';
+import type { BattleRetreat } from '../types/events';
+import { calculateBondMorale } from './bonds';
+
+/**
+ * 士气上限
+ */
+export const MORALE_MAX = 100;
+
+/**
+ * 士气下限
+ */
+export const MORALE_MIN = 0;
+
+/**
+ * 部队基础士气
+ */
+export const BASE_ARMY_MORALE = 60;
+
+/**
+ * 君主亲征的士气加成
+ */
+export const LORD_PRESENCE_MORALE_BONUS = 15;
+
+/**
+ * 魅力基准值（高于此值提升士气，低于此值降低士气）
+ */
+export const CHA_MORALE_BASELINE = 50;
+
+/**
+ * 每多少点魅力差影响1点士气
+ */
+export const CHA_MORALE_DIVISOR = 5;
+
+/**
+ * 缺粮的士气惩罚
+ */
+export const GRAIN_SHORTAGE_MORALE_PENALTY = 20;
+
+/**
+ * 每名士兵每月所需军粮（低于此存量视为缺粮）
+ */
+export const ARMY_GRAIN_PER_SOLDIER = 0.1;
+
+/**
+ * 两路夹击时守军腹背受敌的士气下降
+ */
+export const PINCER_MORALE_PENALTY = 10;
+
+/**
+ * 单挑获胜的士气加成（败方等量下降）
+ */
+export const DUEL_MORALE_SWING = 15;
+
+/**
+ * 阵前重创敌将的士气加成（败方主将负伤败走，士气崩溃）
+ */
+export const INSTANT_KILL_MORALE_BONUS = 30;
+
+/**
+ * 伤亡士气系数：每损失1%初始兵力，士气下降1点
+ */
+export const CASUALTY_MORALE_FACTOR = 100;
+
+/**
+ * 溃败阈值 - 士气不高于此值时全军溃退
+ */
+export const ROUT_MORALE_THRESHOLD = 20;
+
+/**
+ * 将士气限制在有效范围内
+ */
+export function clampMorale(morale: number): number {
+  return Math.max(MORALE_MIN, Math.min(MORALE_MAX, Math.round(morale)));
+}
+
+/**
+ * 计算部队初始士气
+ * 公式: 60 + 君主亲征15 + (最高魅力 - 50) ÷ 5 + 同军武将关系增减 - 缺粮20
+ * @param params - 参战武将、所属势力君主与是否缺粮
+ * @returns 初始士气 (0-100)
+ */
+export function calculateArmyMorale(params: {
+  generals: General[];
+  lordId?: string;
+  grainShortage: boolean;
+}): number {
+  const { generals, lordId, grainShortage } = params;
+  if (generals.length === 0) return BASE_ARMY_MORALE;
+
+  const maxCha = Math.max(...generals.map((g) => g.attributes.cha));
+  const lordPresent = !!lordId && generals.some((g) => g.id === lordId);
+
+  return clampMorale(
+    BASE_ARMY_MORALE +
+      (lordPresent ? LORD_PRESENCE_MORALE_BONUS : 0) +
+      (maxCha - CHA_MORALE_BASELINE) / CHA_MORALE_DIVISOR +
+      calculateBondMorale(generals) -
+      (grainShortage ? GRAIN_SHORTAGE_MORALE_PENALTY : 0)
+  );
+}
+
+/**
+ * 判断城市存粮是否不足以供给部队一个月
+ * @param city - 供给城市
+ * @param troops - 部队兵力
+ */
+export function hasGrainShortage(city: City, troops: number): boolean {
+  return city.resources.grain < Math.ceil(troops * ARMY_GRAIN_PER_SOLDIER);
+}
+
+/**
+ * 计算由城市供给的部队初始士气
+ * @param generals - 参战武将
+ * @param city - 供给城市
+ * @param faction - 所属势力
+ * @returns 初始士气
+ */
+export function calculateCityArmyMorale(
+  generals: General[],
+  city: City,
+  faction: Faction | undefined
+): number {
+  const troops = generals.reduce((sum, g) => sum + g.troops, 0);
+  return calculateArmyMorale({
+    generals,
+    lordId: faction?.lordId,
+    grainShortage: hasGrainShortage(city, troops),
+  });
+}
+
+/**
+ * 计算伤亡造成的士气下降
+ * @param casualties - 本回合伤亡
+ * @param initialTroops - 战前兵力
+ * @returns 士气下降值
+ */
+export function calculateCasualtyMoraleLoss(casualties: number, initialTroops: number): number {
+  if (initialTroops <= 0) return 0;
+  return (casualties / initialTroops) * CASUALTY_MORALE_FACTOR;
+}
+
+/**
+ * 判断部队是否因士气崩溃而溃退
+ */
+export function isRouted(morale: number): boolean {
+  return morale <= ROUT_MORALE_THRESHOLD;
+}
+
+/**
+ * 查找败军可退守的相邻己方城市
+ * @param gameState - 游戏状态
+ * @param cityId - 战场所在城市ID
+ * @param factionId - 败军所属势力ID
+ * @returns 退守城市ID，无路可退时返回null
+ */
+export function findRetreatCity(
+  gameState: GameState,
+  cityId: string,
+  factionId: string
+): string | null {
+  const city = gameState.cities[cityId];
+  if (!city) return null;
+
+  const candidates = city.connectedCities
+    .map((id) => gameState.cities[id])
+    .filter((c): c is City => c !== undefined && c.faction === factionId);
+  if (candidates.length === 0) return null;
+
+  // 优先退守城防最高的城市
+  return candidates.reduce((best, c) => (c.resources.defense > best.resources.defense ? c : best))
+    .id;
+}
+
+/**
+ * 描述攻城战后败军的撤退
+ * 攻方败退回出发城市；守方失城后退守相邻己方城市，无路可退则全军溃散
+ * @param gameState - 战前游戏状态
+ * @param battle - 战斗结果与溃退方
+ * @param fromCityId - 攻方出发城市ID
+ * @param toCityId - 被攻城市ID
+ * @returns 撤退记录（平局或空城时为undefined）
+ */
+export function describeRetreat(
+  gameState: GameState,
+  battle: { result: 'win' | 'lose' | 'draw'; routed: 'attacker' | 'defender' | null },
+  fromCityId: string,
+  toCityId: string
+): BattleRetreat | undefined {
+  if (battle.result === 'lose') {
+    return { side: 'attacker', toCity: fromCityId, routed: battle.routed === 'attacker' };
+  }
+
+  const toCity = gameState.cities[toCityId];
+  if (battle.result === 'draw' || !toCity) return undefined;
+
+  const hasDefenders = toCity.stationedGenerals.some((id) => {
+    const general = gameState.generals[id];
+    return general && general.isAlive && general.faction === toCity.faction;
+  });
+  if (!hasDefenders) return undefined;
+
+  return {
+    side: 'defender',
+    toCity: findRetreatCity(gameState, toCityId, toCity.faction) ?? undefined,
+    routed: battle.routed === 'defender',
+  };
+}
@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  applyMovementResult,
+  createMovementEvent,
+  executeMovement,
+  findMovementRoute,
+  getMovableGenerals,
+  isGeneralMarching,
+  processMovements,
+  validateMovementOrder,
+  type MovementOrder,
+} from './movement';
+import { decideMovement, executeAIAttack } from './aiSystem';
+import { validateCampaignOrder } from './campaign';
+import { validateSiegeBreakOrder } from './siege';
+import { getStratagemExecutors } from './stratagem';
+import { getDiplomacyEnvoys } from './diplomacy';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+
+/**
+ * 将邺城划归董卓，使长安经洛阳至邺城成为两程的行军路线
+ */
+function giveYeToDongzhuo(state: GameState): void {
+  const ye = state.cities.ye;
+  state.factions.yuanshao.cities = state.factions.yuanshao.cities.filter((id) => id !== 'ye');
+  state.factions.dongzhuo.cities.push('ye');
+  ye.faction = 'dongzhuo';
+}
+
+/**
+ * 检查各城驻守武将与武将所在城市是否一致
+ */
+function expectConsistentStations(state: GameState): void {
+  for (const city of Object.values(state.cities)) {
+    for (const id of city.stationedGenerals) {
+      expect(state.generals[id].currentCity).toBe(city.id);
+    }
+  }
+  for (const faction of Object.values(state.factions)) {
+    for (const id of faction.generals) {
+      expect(state.cities[state.generals[id].currentCity].stationedGenerals).toContain(id);
+    }
+  }
+}
+
+/**
+ * 统计某势力城中钱粮与在途钱粮之和
+ */
+function totalResources(state: GameState, factionId: string): { gold: number; grain: number } {
+  const cities = state.factions[factionId].cities.map((id) => state.cities[id]);
+  const movements = (state.movements ?? []).filter((m) => m.factionId === factionId);
+  return {
+    gold:
+      cities.reduce((sum, c) => sum + c.resources.gold, 0) +
+      movements.reduce((sum, m) => sum + m.gold, 0),
+    grain:
+      cities.reduce((sum, c) => sum + c.resources.grain, 0) +
+      movements.reduce((sum, m) => sum + m.grain, 0),
+  };
+}
+
+const generalsArb = fc.subarray(['huaxiong', 'lijue', 'guosi'], { minLength: 1 });
+const ratioArb = fc.double({ min: 0, max: 0.999, noNaN: true });
+
+/**
+ * **Feature: sanguo-190, Property 40: 兵力调动**
+ * *For any* 调动，武将率部与钱粮只能沿己方城市调往己方城市：相邻城市当月抵达，远途每月末前进一城；
+ * 行军全程驻守城市与武将所在城市保持一致，钱粮不增不减，调动载入史册；AI将后方兵马调往前线。
+ */
+describe('Property 40: 兵力调动', () => {
+  it('should move generals with troops and cargo to an adjacent city at once', () => {
+    fc.assert(
+      fc.property(generalsArb, ratioArb, ratioArb, (generalIds, goldRatio, grainRatio) => {
+        const state = createTestState('dongzhuo', 'changan');
+        const changan = state.cities.changan;
+        const order: MovementOrder = {
+          fromCityId: 'changan',
+          toCityId: 'luoyang',
+          generalIds,
+          gold: Math.floor(changan.resources.gold * goldRatio),
+          grain: Math.floor(changan.resources.grain * grainRatio),
+        };
+        const result = executeMovement(order, state, 'dongzhuo');
+        expect(result).toMatchObject({ success: true, route: ['luoyang'], arrived: true });
+        expect(createMovementEvent(order, result, state)?.data).toMatchObject({
+          general: generalIds[0],
+          event: 'dispatched',
+        });
+
+        const newState = applyMovementResult(state, order, result);
+        for (const id of generalIds) {
+          expect(newState.generals[id].currentCity).toBe('luoyang');
+          expect(newState.generals[id].troops).toBe(state.generals[id].troops);
+        }
+        expect(newState.cities.luoyang.resources.gold).toBe(
+          state.cities.luoyang.resources.gold + order.gold
+        );
+        expect(newState.cities.luoyang.resources.grain).toBe(
+          state.cities.luoyang.resources.grain + order.grain
+        );
+        expect(newState.movements ?? []).toHaveLength(0);
+        expect(totalResources(newState, 'dongzhuo')).toEqual(totalResources(state, 'dongzhuo'));
+        expectConsistentStations(newState);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should march one city per month along a multi-hop route and deposit cargo on arrival', () => {
+    fc.assert(
+      fc.property(generalsArb, ratioArb, (generalIds, goldRatio) => {
+        const state = createTestState('dongzhuo', 'changan');
+        giveYeToDongzhuo(state);
+        const order: MovementOrder = {
+          fromCityId: 'changan',
+          toCityId: 'ye',
+          generalIds,
+          gold: Math.floor(state.cities.changan.resources.gold * goldRatio),
+          grain: 0,
+        };
+        const result = executeMovement(order, state, 'dongzhuo');
+        expect(result).toMatchObject({ success: true, route: ['luoyang', 'ye'], arrived: false });
+
+        const marching = applyMovementResult(state, order, result);
+        expect(marching.movements).toHaveLength(1);
+        for (const id of generalIds) {
+          expect(marching.generals[id].currentCity).toBe('luoyang');
+          expect(isGeneralMarching(marching, id)).toBe(true);
+        }
+        expect(getMovableGenerals(marching, 'luoyang').map((g) => g.id)).not.toContain(
+          generalIds[0]
+        );
+        expect(totalResources(marching, 'dongzhuo')).toEqual(totalResources(state, 'dongzhuo'));
+        expectConsistentStations(marching);
+
+        const arrived = processMovements(marching);
+        for (const id of generalIds) {
+          expect(arrived.generals[id].currentCity).toBe('ye');
+        }
+        expect(arrived.movements).toHaveLength(0);
+        expect(arrived.cities.ye.resources.gold).toBe(state.cities.ye.resources.gold + order.gold);
+        expect(totalResources(arrived, 'dongzhuo')).toEqual(totalResources(state, 'dongzhuo'));
+        expectConsistentStations(arrived);
+      }),
+      { numRuns: 50 }
+    );
+
+    // 前路城池易主时就地驻扎，钱粮存入所在城市
+    const state = createTestState('dongzhuo', 'changan');
+    giveYeToDongzhuo(state);
+    const order: MovementOrder = {
+      fromCityId: 'changan',
+      toCityId: 'ye',
+      generalIds: ['huaxiong'],
+      gold: 100,
+      grain: 0,
+    };
+    const marching = applyMovementResult(state, order, executeMovement(order, state, 'dongzhuo'));
+    marching.cities.ye.faction = 'yuanshao';
+    const halted = processMovements(marching);
+    expect(halted.generals.huaxiong.currentCity).toBe('luoyang');
+    expect(halted.cities.luoyang.resources.gold).toBe(state.cities.luoyang.resources.gold + 100);
+    expect(halted.movements).toHaveLength(0);
+  });
+
+  it('should keep marching generals out of campaigns, sieges, stratagems and diplomacy', () => {
+    const state = createTestState('dongzhuo', 'changan');
+    giveYeToDongzhuo(state);
+    const order: MovementOrder = {
+      fromCityId: 'changan',
+      toCityId: 'ye',
+      generalIds: ['huaxiong'],
+      gold: 100,
+      grain: 100,
+    };
+    const marching = applyMovementResult(state, order, executeMovement(order, state, 'dongzhuo'));
+    expect(marching.generals.huaxiong.currentCity).toBe('luoyang');
+
+    // 途经洛阳的华雄不能就地出征、施计或出使，吕布则不受影响
+    const campaign = { fromCityId: 'luoyang', toCityId: 'chenliu', generalIds: ['huaxiong'] };
+    expect(validateCampaignOrder(campaign, marching)).toBe('出征武将正在行军');
+    expect(validateCampaignOrder({ ...campaign, generalIds: ['lvbu'] }, marching)).toBeNull();
+    expect(
+      executeAIAttack(
+        { type: 'attack', fromCity: 'luoyang', toCity: 'chenliu', generalId: 'huaxiong' },
+        marching
+      )
+    ).toBeNull();
+
+    const executors = getStratagemExecutors(marching, 'chenliu', 'dongzhuo').map((g) => g.id);
+    expect(executors).toContain('lvbu');
+    expect(executors).not.toContain('huaxiong');
+    const envoys = getDiplomacyEnvoys(marching, 'luoyang', 'dongzhuo').map((g) => g.id);
+    expect(envoys).toContain('lvbu');
+    expect(envoys).not.toContain('huaxiong');
+
+    marching.sieges = [
+      {
+        id: 'siege',
+        attackerFaction: 'caocao',
+        campCityId: 'chenliu',
+        targetCityId: 'luoyang',
+        generalIds: ['caoren'],
+        startDate: { ...marching.currentDate },
+        months: 0,
+        morale: 80,
+      },
+    ];
+    const sally = { siegeId: 'siege', fromCityId: 'luoyang', generalIds: ['huaxiong'] };
+    expect(validateSiegeBreakOrder(sally, marching)).toBe('出战武将正在行军');
+    expect(validateSiegeBreakOrder({ ...sally, generalIds: ['lvbu'] }, marching)).toBeNull();
+  });
+
+  it('should reject routes through foreign cities and generals not in the city', () => {
+    const state = createTestState('dongzhuo', 'changan');
+    const order: MovementOrder = {
+      fromCityId: 'changan',
+      toCityId: 'luoyang',
+      generalIds: ['huaxiong'],
+      gold: 0,
+      grain: 0,
+    };
+    expect(validateMovementOrder({ ...order, toCityId: 'chenliu' }, state, 'dongzhuo')).toBe(
+      '目的地须为己方其他城市'
+    );
+    expect(validateMovementOrder({ ...order, generalIds: ['lvbu'] }, state, 'dongzhuo')).toBe(
+      '只能调动城中未出征、未行军的己方武将'
+    );
+    expect(
+      validateMovementOrder(
+        { ...order, gold: state.cities.changan.resources.gold + 1 },
+        state,
+        'dongzhuo'
+      )
+    ).toBe('金钱不足');
+    const invalid = { ...order, generalIds: ['lvbu'] };
+    expect(
+      createMovementEvent(invalid, executeMovement(invalid, state, 'dongzhuo'), state)
+    ).toBeNull();
+
+    // 邺城虽归董卓，但洛阳失守后长安无路可达
+    giveYeToDongzhuo(state);
+    state.cities.luoyang.faction = 'caocao';
+    expect(findMovementRoute(state, 'dongzhuo', 'changan', 'ye')).toBeNull();
+  });
+
+  it('should let the AI send its strongest rear general toward the frontier', () => {
+    const state = createTestState('dongzhuo', 'changan');
+    const action = decideMovement('dongzhuo', state);
+    const strongest = ['huaxiong', 'lijue', 'guosi'].reduce((best, id) =>
+      state.generals[id].troops > state.generals[best].troops ? id : best
+    );
+    expect(action).toMatchObject({
+      type: 'movement',
+      fromCityId: 'changan',
+      toCityId: 'luoyang',
+      generalIds: [strongest],
+    });
+
+    // 曹操只有陈留一城，并无后方可调
+    expect(decideMovement('caocao', state)).toBeNull();
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * 调动系统 - 处理武将率部（可携带钱粮）在己方城市之间的调动
+ * 调往相邻城市当回合抵达；路途较远时沿己方城市分月行军，每月末前进一城
+ * @module systems/movement
+ */
+
+import type { GameState } from '../types/gameState';
+import type { City } from '../types/city';
+import type { General } from '../types/general';
+import type { Movement } from '../types/movement';
+import type { GameEvent, GeneralEventData } from '../types/events';
+import { isPrisoner } from './prisoners';
+import { generateId } from './ids';
+
+/**
+ * 调动指令
+ */
+export interface MovementOrder {
+  /** 出发城市ID */
+  fromCityId: string;
+  /** 目的城市ID */
+  toCityId: string;
+  /** 调动武将ID列表 */
+  generalIds: string[];
+  /** 随军金钱 */
+  gold: number;
+  /** 随军粮草 */
+  grain: number;
+}
+
+/**
+ * 调动结果
+ */
+export interface MovementResult {
+  /** 指令是否有效 */
+  success: boolean;
+  /** 行军路线（不含出发城市，末尾为目的城市） */
+  route: string[];
+  /** 是否当回合抵达 */
+  arrived: boolean;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 获取所有行军（兼容旧存档）
+ */
+export function getMovements(gameState: GameState): Movement[] {
+  return gameState.movements ?? [];
+}
+
+/**
+ * 判断武将是否正在行军
+ */
+export function isGeneralMarching(gameState: GameState, generalId: string): boolean {
+  return getMovements(gameState).some((movement) => movement.generalIds.includes(generalId));
+}
+
+/**
+ * 寻找两座己方城市之间经由己方城市的最短路线
+ * @param gameState - 游戏状态
+ * @param factionId - 势力ID
+ * @param fromCityId - 出发城市ID
+ * @param toCityId - 目的城市ID
+ * @returns 行军路线（不含出发城市，末尾为目的城市），无路可达时返回null
+ */
+export function findMovementRoute(
+  gameState: GameState,
+  factionId: string,
+  fromCityId: string,
+  toCityId: string
+): string[] | null {
+  if (fromCityId === toCityId) return null;
+
+  const previous: Record<string, string> = { [fromCityId]: fromCityId };
+  const queue = [fromCityId];
+  while (queue.length > 0) {
+    const cityId = queue.shift()!;
+    for (const nextId of gameState.cities[cityId]?.connectedCities ?? []) {
+      if (previous[nextId] || gameState.cities[nextId]?.faction !== factionId) continue;
+      previous[nextId] = cityId;
+      if (nextId === toCityId) {
+        const route = [toCityId];
+        while (previous[route[0]] !== fromCityId) {
+          route.unshift(previous[route[0]]);
+        }
+        return route;
+      }
+      queue.push(nextId);
+    }
+  }
+  return null;
+}
+
+/**
+ * 获取可自某城调往的己方城市（经由己方城市可达）
+ */
+export function getMovementDestinations(gameState: GameState, cityId: string): City[] {
+  const city = gameState.cities[cityId];
+  const faction = city ? gameState.factions[city.faction] : undefined;
+  if (!city || !faction) return [];
+
+  return faction.cities
+    .filter((id) => findMovementRoute(gameState, faction.id, cityId, id) !== null)
+    .map((id) => gameState.cities[id]);
+}
+
+/**
+ * 获取城中可调动的武将（未围城、未行军、未被俘的己方存活武将）
+ */
+export function getMovableGenerals(gameState: GameState, cityId: string): General[] {
+  const city = gameState.cities[cityId];
+  if (!city) return [];
+
+  const besieging = (gameState.sieges ?? []).flatMap((siege) => siege.generalIds);
+  return city.stationedGenerals
+    .map((id) => gameState.generals[id])
+    .filter(
+      (g): g is General =>
+        g !== undefined &&
+        g.isAlive &&
+        g.faction === city.faction &&
+        !besieging.includes(g.id) &&
+        !isGeneralMarching(gameState, g.id) &&
+        !isPrisoner(gameState, g.id)
+    );
+}
+
+/**
+ * 校验调动指令
+ * @param order - 调动指令
+ * @param gameState - 游戏状态
+ * @param factionId - 下令势力ID
+ * @returns 错误信息，校验通过返回null
+ */
+export function validateMovementOrder(
+  order: MovementOrder,
+  gameState: GameState,
+  factionId: string
+): string | null {
+  const fromCity = gameState.cities[order.fromCityId];
+  if (!fromCity || fromCity.faction !== factionId) {
+    return '只能从己方城市调动';
+  }
+
+  if ((gameState.sieges ?? []).some((siege) => siege.targetCityId === fromCity.id)) {
+    return '城池被围，无法调动';
+  }
+
+  const toCity = gameState.cities[order.toCityId];
+  if (!toCity || toCity.faction !== factionId || toCity.id === fromCity.id) {
+    return '目的地须为己方其他城市';
+  }
+
+  if (!findMovementRoute(gameState, factionId, fromCity.id, toCity.id)) {
+    return '沿途须经己方城市，无路可达';
+  }
+
+  if (order.generalIds.length === 0) {
+    return '请选择调动武将';
+  }
+
+  const movable = getMovableGenerals(gameState, fromCity.id).map((g) => g.id);
+  if (
+    new Set(order.generalIds).size !== order.generalIds.length ||
+    order.generalIds.some((id) => !movable.includes(id))
+  ) {
+    return '只能调动城中未出征、未行军的己方武将';
+  }
+
+  if (
+    !Number.isInteger(order.gold) ||
+    !Number.isInteger(order.grain) ||
+    order.gold < 0 ||
+    order.grain < 0
+  ) {
+    return '钱粮数额无效';
+  }
+
+  if (fromCity.resources.gold < order.gold) {
+    return '金钱不足';
+  }
+
+  if (fromCity.resources.grain < order.grain) {
+    return '粮草不足';
+  }
+
+  return null;
+}
+
+/**
+ * 执行调动指令（规划行军路线）
+ * @param order - 调动指令
+ * @param gameState - 游戏状态
+ * @param factionId - 下令势力ID
+ * @returns 调动结果
+ */
+export function executeMovement(
+  order: MovementOrder,
+  gameState: GameState,
+  factionId: string
+): MovementResult {
+  const error = validateMovementOrder(order, gameState, factionId);
+  if (error) {
+    return { success: false, route: [], arrived: false, error };
+  }
+
+  const route = findMovementRoute(gameState, factionId, order.fromCityId, order.toCityId)!;
+  return { success: true, route, arrived: route.length === 1 };
+}
+
+/**
+ * 将武将移入另一座城市（直接修改传入的状态）
+ */
+function relocateGenerals(state: GameState, generalIds: string[], cityId: string): void {
+  const city = state.cities[cityId];
+  if (!city) return;
+
+  for (const generalId of generalIds) {
+    const general = state.generals[generalId];
+    if (!general) continue;
+    const oldCity = state.cities[general.currentCity];
+    if (oldCity) {
+      oldCity.stationedGenerals = oldCity.stationedGenerals.filter((id) => id !== generalId);
+      if (oldCity.governor === generalId) {
+        oldCity.governor = null;
+      }
+    }
+    city.stationedGenerals.push(generalId);
+    general.currentCity = cityId;
+  }
+}
+
+/**
+ * 将调动结果应用到游戏状态
+ * 出发城市支出随军钱粮，武将率部抵达路线上的第一座城市；
+ * 已抵达目的城市时钱粮随即入库，否则记为行军，此后每月末前进一城
+ * @param gameState - 当前游戏状态
+ * @param order - 调动指令
+ * @param result - 调动结果
+ * @returns 更新后的游戏状态
+ */
+export function applyMovementResult(
+  gameState: GameState,
+  order: MovementOrder,
+  result: MovementResult
+): GameState {
+  if (!result.success || result.route.length === 0) return gameState;
+
+  // 深拷贝状态
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const fromCity = newState.cities[order.fromCityId];
+  const firstCity = newState.cities[result.route[0]];
+  if (!fromCity || !firstCity) return gameState;
+
+  fromCity.resources.gold -= order.gold;
+  fromCity.resources.grain -= order.grain;
+  relocateGenerals(newState, order.generalIds, firstCity.id);
+
+  if (result.arrived) {
+    firstCity.resources.gold += order.gold;
+    firstCity.resources.grain += order.grain;
+    return newState;
+  }
+
+  newState.movements = [
+    ...getMovements(newState),
+    {
+      id: generateId('movement'),
+      factionId: fromCity.faction,
+      generalIds: [...order.generalIds],
+      currentCityId: firstCity.id,
+      route: result.route.slice(1),
+      gold: order.gold,
+      grain: order.grain,
+      departedAt: { ...newState.currentDate },
+    },
+  ];
+  return newState;
+}
+
+/**
+ * 生成调动事件（以首位调动武将记入武将事件）
+ * @param order - 调动指令
+ * @param result - 调动结果
+ * @param gameState - 调动前的游戏状态
+ * @returns 调动事件，调动无效时返回null
+ */
+export function createMovementEvent(
+  order: MovementOrder,
+  result: MovementResult,
+  gameState: GameState
+): GameEvent | null {
+  const generals = order.generalIds
+    .map((id) => gameState.generals[id])
+    .filter((g): g is General => g !== undefined);
+  const fromCity = gameState.cities[order.fromCityId];
+  const toCity = gameState.cities[order.toCityId];
+  if (!result.success || generals.length === 0 || !fromCity || !toCity) return null;
+
+  const supplies = [
+    order.gold > 0 ? `金${order.gold}` : '',
+    order.grain > 0 ? `粮${order.grain}` : '',
+  ].filter(Boolean);
+  const data: GeneralEventData = {
+    general: generals[0].id,
+    event: 'dispatched',
+    details:
+      `${generals.map((g) => g.name).join('、')}率部自${fromCity.name}调往${toCity.name}` +
+      (result.arrived ? '，当月抵达' : `，需行军${result.route.length}月`) +
+      (supplies.length > 0 ? `，随军${supplies.join('、')}` : ''),
+  };
+  return {
+    id: generateId('movement_event'),
+    type: 'general',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
+
+/**
+ * 月末结算行军：各路行军前进一城，抵达目的城市后钱粮入库
+ * 已被调作他用、阵亡或被俘的武将脱离行军；前路城池易主时就地驻扎，钱粮存入所在城市；
+ * 行军武将尽失或所在城市失守时，随军钱粮散失
+ * @param gameState - 游戏状态
+ * @returns 更新后的游戏状态
+ */
+export function processMovements(gameState: GameState): GameState {
+  if (getMovements(gameState).length === 0) return gameState;
+
+  // 深拷贝状态
+  const state: GameState = JSON.parse(JSON.stringify(gameState));
+  const remaining: Movement[] = [];
+
+  for (const movement of getMovements(state)) {
+    const generalIds = movement.generalIds.filter((id) => {
+      const general = state.generals[id];
+      return (
+        general !== undefined &&
+        general.isAlive &&
+        general.faction === movement.factionId &&
+        general.currentCity === movement.currentCityId &&
+        !isPrisoner(state, id)
+      );
+    });
+    const currentCity = state.cities[movement.currentCityId];
+    if (generalIds.length === 0 || currentCity?.faction !== movement.factionId) continue;
+
+    const nextCity = state.cities[movement.route[0]];
+    if (!nextCity || nextCity.faction !== movement.factionId) {
+      currentCity.resources.gold += movement.gold;
+      currentCity.resources.grain += movement.grain;
+      continue;
+    }
+
+    relocateGenerals(state, generalIds, nextCity.id);
+    if (movement.route.length === 1) {
+      nextCity.resources.gold += movement.gold;
+      nextCity.resources.grain += movement.grain;
+    } else {
+      remaining.push({
+        ...movement,
+        generalIds,
+        currentCityId: nextCity.id,
+        route: movement.route.slice(1),
+      });
+    }
+  }
+
+  state.movements = remaining;
+  return state;
+}
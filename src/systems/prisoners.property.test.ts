@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  CAPTURE_MAX_CHANCE,
+  RECRUIT_MAX_CHANCE,
+  applyPrisonerAction,
+  calculateCaptureChance,
+  calculateRecruitChance,
+  capturePrisoners,
+  createPrisonerEvent,
+  executePrisonerAction,
+  getPrisoner,
+  getPrisoners,
+  rollCaptures,
+  type PrisonerAction,
+} from './prisoners';
+import { applyCampaignResult, type CampaignResult } from './campaign';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+import type { GeneralEventData } from '../types/events';
+import { createComposition } from './troops';
+
+/**
+ * 创建吕布被曹操俘虏、关押于陈留的状态
+ */
+function createPrisonerState(): GameState {
+  const state = createTestState();
+  capturePrisoners(state, ['lvbu'], 'caocao', 'chenliu');
+  return state;
+}
+
+/**
+ * 攻占洛阳的出征结果
+ */
+function createCaptureResult(captured: string[]): CampaignResult {
+  return {
+    success: true,
+    result: 'win',
+    attackerGeneral: 'caocao',
+    defenderGeneral: 'lvbu',
+    attackerCasualties: 0,
+    defenderCasualties: 0,
+    attackerCasualtiesByType: createComposition(),
+    defenderCasualtiesByType: createComposition(),
+    duel: { triggered: false, instantKill: false },
+    attackerMorale: 60,
+    defenderMorale: 10,
+    routed: 'defender',
+    rounds: [],
+    captured,
+  };
+}
+
+const randomArb = fc.double({ min: 0, max: 0.999, noNaN: true }).map((value) => () => value);
+
+/**
+ * 统计势力武将与其被俘武将总数
+ */
+function countFactionMembers(state: GameState, factionId: string): number {
+  const prisoners = getPrisoners(state).filter((p) => p.originalFaction === factionId);
+  return state.factions[factionId].generals.length + prisoners.length;
+}
+
+/**
+ * **Feature: sanguo-190, Property 26: 俘虏处置**
+ * *For any* 败将，被俘概率在0-90%之间，溃退不降低、武力不提高被俘概率；
+ * 被俘武将离开原势力与驻守城市，无处可逃的守将必被俘；
+ * 招降成功则归于俘获方，释放则归返旧主，处斩则身亡且两国交恶，并生成相应武将事件。
+ */
+describe('Property 26: 俘虏处置', () => {
+  it('should keep capture chance within range and honour rout and war', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 100 }),
+        fc.integer({ min: 0, max: 100 }),
+        fc.boolean(),
+        (war, higherWar, scattered) => {
+          const calm = calculateCaptureChance({ war, routed: false, scattered });
+          const routed = calculateCaptureChance({ war, routed: true, scattered });
+          const stronger = calculateCaptureChance({
+            war: Math.max(war, higherWar),
+            routed: false,
+            scattered,
+          });
+
+          for (const chance of [calm, routed, stronger]) {
+            expect(chance).toBeGreaterThanOrEqual(0);
+            expect(chance).toBeLessThanOrEqual(CAPTURE_MAX_CHANCE);
+          }
+          expect(routed).toBeGreaterThanOrEqual(calm);
+          expect(stronger).toBeLessThanOrEqual(calm);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should move captured defenders out of their faction and keep them accounted for', () => {
+    fc.assert(
+      fc.property(fc.subarray(['lvbu', 'liru']), (captured) => {
+        const state = createTestState();
+        const order = { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: ['caocao'] };
+        const before = countFactionMembers(state, 'dongzhuo');
+
+        const newState = applyCampaignResult(state, order, createCaptureResult(captured));
+
+        for (const id of captured) {
+          expect(getPrisoner(newState, id)).toMatchObject({
+            captorFaction: 'caocao',
+            originalFaction: 'dongzhuo',
+            cityId: 'luoyang',
+          });
+          expect(newState.factions.dongzhuo.generals).not.toContain(id);
+          expect(newState.generals[id].troops).toBe(0);
+          for (const city of Object.values(newState.cities)) {
+            expect(city.stationedGenerals).not.toContain(id);
+          }
+        }
+        expect(countFactionMembers(newState, 'dongzhuo')).toBe(before);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should capture every defender with nowhere left to flee', () => {
+    fc.assert(
+      fc.property(randomArb, (random) => {
+        const state = createTestState();
+        state.cities.changan.faction = 'yuanshao';
+        state.factions.dongzhuo.cities = ['luoyang'];
+        state.factions.yuanshao.cities.push('changan');
+        const order = { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: ['caocao'] };
+        const defenders = [...state.cities.luoyang.stationedGenerals];
+
+        const captured = rollCaptures(state, { result: 'win', routed: null }, order, random);
+        expect(captured.sort()).toEqual([...defenders].sort());
+
+        const newState = applyCampaignResult(state, order, createCaptureResult(captured));
+        for (const id of defenders) {
+          expect(newState.cities.luoyang.stationedGenerals).not.toContain(id);
+          expect(getPrisoner(newState, id)?.captorFaction).toBe('caocao');
+        }
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should recruit, release or execute prisoners with matching events', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<PrisonerAction>('recruit', 'release', 'execute'),
+        randomArb,
+        (action, random) => {
+          const state = createPrisonerState();
+          const order = { generalId: 'lvbu', action };
+          const result = executePrisonerAction(order, state, 'caocao', random);
+          expect(result.success).toBe(true);
+
+          const newState = applyPrisonerAction(state, order, result);
+          const event = createPrisonerEvent(order, result, state);
+          const lvbu = newState.generals.lvbu;
+
+          if (action === 'recruit' && !result.recruited) {
+            expect(getPrisoner(newState, 'lvbu')).toBeDefined();
+            expect(event).toBeNull();
+            return;
+          }
+
+          expect(getPrisoner(newState, 'lvbu')).toBeUndefined();
+          const data = event?.data as GeneralEventData;
+          expect(data.general).toBe('lvbu');
+
+          if (action === 'recruit') {
+            expect(data.event).toBe('recruited');
+            expect(lvbu.faction).toBe('caocao');
+            expect(newState.factions.caocao.generals).toContain('lvbu');
+            expect(newState.cities[lvbu.currentCity].stationedGenerals).toContain('lvbu');
+          } else if (action === 'release') {
+            expect(data.event).toBe('released');
+            expect(lvbu.faction).toBe('dongzhuo');
+            expect(newState.factions.dongzhuo.generals).toContain('lvbu');
+            expect(newState.cities[lvbu.currentCity].faction).toBe('dongzhuo');
+          } else {
+            expect(data.event).toBe('death');
+            expect(lvbu.isAlive).toBe(false);
+            expect(newState.factions.dongzhuo.diplomacy.caocao).toBe('hostile');
+            expect(newState.factions.caocao.diplomacy.dongzhuo).toBe('hostile');
+            expect(newState.cities.chenliu.resources.loyalty).toBeLessThan(
+              state.cities.chenliu.resources.loyalty
+            );
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should keep recruit chance within range and refuse enemy lords', () => {
+    const state = createTestState();
+    capturePrisoners(state, ['lvbu', 'dongzhuo'], 'caocao', 'chenliu');
+
+    const chance = calculateRecruitChance(state, getPrisoner(state, 'lvbu')!);
+    expect(chance).toBeGreaterThan(0);
+    expect(chance).toBeLessThanOrEqual(RECRUIT_MAX_CHANCE);
+    expect(calculateRecruitChance(state, getPrisoner(state, 'dongzhuo')!)).toBe(0);
+
+    const result = executePrisonerAction(
+      { generalId: 'dongzhuo', action: 'recruit' },
+      state,
+      'caocao'
+    );
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,636 @@
+/**
+ * 俘虏系统 - 处理败将被俘，以及对俘虏的招降、释放与处斩
+ * @module systems/prisoners
+ */
+
+import type { GameState } from '../types/gameState';
+import type { General } from '../types/general';
+import type { GameEvent, GeneralEventData } from '../types/events';
+import type { Prisoner } from '../types/prisoner';
+import { DEFAULT_GENERAL_LOYALTY, GENERAL_LOYALTY_MAX, GENERAL_LOYALTY_MIN } from '../types/general';
+import { LOYALTY_MAX } from '../types/city';
+import { createComposition } from './troops';
+import { findRetreatCity } from './morale';
+import { STATUS_RELATIONS, getRelation, setRelation } from './relations';
+import { calculateBondRecruitBonus } from './bonds';
+import { generateId } from './ids';
+
+/**
+ * 败将基础被俘概率
+ */
+export const CAPTURE_BASE_CHANCE = 0.2;
+
+/**
+ * 士气崩溃溃退时的被俘概率加成
+ */
+export const CAPTURE_ROUT_BONUS = 0.2;
+
+/**
+ * 无路可退、全军溃散时的被俘概率加成
+ */
+export const CAPTURE_SCATTER_BONUS = 0.3;
+
+/**
+ * 被俘概率上限
+ */
+export const CAPTURE_MAX_CHANCE = 0.9;
+
+/**
+ * 武力减免系数：武力100的武将被俘概率减半
+ */
+export const CAPTURE_WAR_DIVISOR = 200;
+
+/**
+ * 招降基础成功率
+ */
+export const RECRUIT_BASE_CHANCE = 0.5;
+
+/**
+ * 原势力已无城池时的招降成功率加成
+ */
+export const RECRUIT_MASTERLESS_BONUS = 0.2;
+
+/**
+ * 招降成功率下限
+ */
+export const RECRUIT_MIN_CHANCE = 0.05;
+
+/**
+ * 招降成功率上限
+ */
+export const RECRUIT_MAX_CHANCE = 0.95;
+
+/**
+ * 降将初始忠诚度
+ */
+export const RECRUITED_PRISONER_LOYALTY = 50;
+
+/**
+ * 处斩俘虏时关押城市的民忠下降
+ */
+export const EXECUTE_CITY_LOYALTY_PENALTY = 10;
+
+/**
+ * 处斩俘虏时己方武将的忠诚下降
+ */
+export const EXECUTE_GENERAL_LOYALTY_PENALTY = 5;
+
+/**
+ * 释放俘虏时关押城市的民忠提升
+ */
+export const RELEASE_CITY_LOYALTY_BONUS = 5;
+
+/**
+ * 获释武将感念不杀之恩，对旧主的忠诚下降
+ */
+export const RELEASE_PRISONER_LOYALTY_PENALTY = 10;
+
+/**
+ * AI尝试招降的最低成功率
+ */
+export const AI_PRISONER_RECRUIT_THRESHOLD = 0.3;
+
+/**
+ * AI关押俘虏的最长月数（超过后处斩或释放）
+ */
+export const AI_PRISONER_HOLD_MONTHS = 3;
+
+/**
+ * AI处斩俘虏的武力阈值（勇将不放虎归山）
+ */
+export const AI_EXECUTE_WAR_THRESHOLD = 90;
+
+/**
+ * 俘虏处置方式
+ */
+export type PrisonerAction = 'recruit' | 'release' | 'execute';
+
+/**
+ * 俘虏处置指令
+ */
+export interface PrisonerOrder {
+  /** 俘虏武将ID */
+  generalId: string;
+  /** 处置方式 */
+  action: PrisonerAction;
+}
+
+/**
+ * 俘虏处置结果
+ */
+export interface PrisonerActionResult {
+  /** 是否成功执行 */
+  success: boolean;
+  /** 处置方式 */
+  action: PrisonerAction;
+  /** 招降是否成功（仅招降） */
+  recruited: boolean;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * AI处置俘虏的结果
+ */
+export interface PrisonerTurnResult {
+  /** 更新后的游戏状态 */
+  state: GameState;
+  /** 处置产生的事件 */
+  events: GameEvent[];
+}
+
+/**
+ * 获取关押中的俘虏列表（兼容缺省字段的旧存档）
+ */
+export function getPrisoners(gameState: GameState): Prisoner[] {
+  return gameState.prisoners ?? [];
+}
+
+/**
+ * 获取某势力关押的俘虏
+ */
+export function getFactionPrisoners(gameState: GameState, factionId: string): Prisoner[] {
+  return getPrisoners(gameState).filter((p) => p.captorFaction === factionId);
+}
+
+/**
+ * 获取武将的俘虏记录
+ */
+export function getPrisoner(gameState: GameState, generalId: string): Prisoner | undefined {
+  return getPrisoners(gameState).find((p) => p.generalId === generalId);
+}
+
+/**
+ * 判断武将是否身陷囹圄
+ */
+export function isPrisoner(gameState: GameState, generalId: string): boolean {
+  return getPrisoner(gameState, generalId) !== undefined;
+}
+
+/**
+ * 判断武将是否为某势力的君主
+ */
+export function isLord(gameState: GameState, general: General): boolean {
+  return Object.values(gameState.factions).some((f) => f.lordId === general.id);
+}
+
+/**
+ * 获取武将忠诚度（君主恒为满忠诚，缺省时为默认忠诚度）
+ */
+export function getGeneralLoyalty(gameState: GameState, general: General): number {
+  if (isLord(gameState, general)) return GENERAL_LOYALTY_MAX;
+  return general.loyalty ?? DEFAULT_GENERAL_LOYALTY;
+}
+
+/**
+ * 将忠诚度限制在有效范围内
+ */
+export function clampGeneralLoyalty(loyalty: number): number {
+  return Math.max(GENERAL_LOYALTY_MIN, Math.min(GENERAL_LOYALTY_MAX, Math.round(loyalty)));
+}
+
+/**
+ * 计算败将被俘概率
+ * 公式: (20% + 溃退20% + 溃散30%) × (1 - 武力 ÷ 200)，上限90%
+ * @param params - 败将武力、是否溃退、是否无路可退
+ * @returns 被俘概率 (0-0.9)
+ */
+export function calculateCaptureChance(params: {
+  war: number;
+  routed: boolean;
+  scattered: boolean;
+}): number {
+  const { war, routed, scattered } = params;
+  const chance =
+    (CAPTURE_BASE_CHANCE +
+      (routed ? CAPTURE_ROUT_BONUS : 0) +
+      (scattered ? CAPTURE_SCATTER_BONUS : 0)) *
+    (1 - war / CAPTURE_WAR_DIVISOR);
+  return Math.max(0, Math.min(CAPTURE_MAX_CHANCE, chance));
+}
+
+/**
+ * 结算攻城战后被俘的败方武将
+ * 攻方失利时出征武将可能被俘；城破时守将可能被俘，君主有亲卫护送突围，
+ * 但守军已无任何城池可投奔时全部被俘
+ * @param gameState - 战前游戏状态
+ * @param battle - 战斗结果与溃退方
+ * @param order - 出征武将与被攻城市
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 被俘武将ID列表
+ */
+export function rollCaptures(
+  gameState: GameState,
+  battle: { result: 'win' | 'lose' | 'draw'; routed: 'attacker' | 'defender' | null },
+  order: { toCityId: string; generalIds: string[] },
+  random: () => number = Math.random
+): string[] {
+  const toCity = gameState.cities[order.toCityId];
+  if (!toCity || battle.result === 'draw') return [];
+
+  if (battle.result === 'lose') {
+    return order.generalIds.filter((id) => {
+      const general = gameState.generals[id];
+      if (!general || !general.isAlive || isLord(gameState, general)) return false;
+      const chance = calculateCaptureChance({
+        war: general.attributes.war,
+        routed: battle.routed === 'attacker',
+        scattered: false,
+      });
+      return random() < chance;
+    });
+  }
+
+  const oldFaction = gameState.factions[toCity.faction];
+  const retreatCity = findRetreatCity(gameState, toCity.id, toCity.faction);
+  const hasRefuge = !!retreatCity || !!oldFaction?.cities.some((c) => c !== toCity.id);
+
+  return toCity.stationedGenerals.filter((id) => {
+    const general = gameState.generals[id];
+    if (!general || !general.isAlive || general.faction !== toCity.faction) return false;
+    if (!hasRefuge) return true;
+    if (isLord(gameState, general)) return false;
+    const chance = calculateCaptureChance({
+      war: general.attributes.war,
+      routed: battle.routed === 'defender',
+      scattered: !retreatCity,
+    });
+    return random() < chance;
+  });
+}
+
+/**
+ * 俘获武将（直接修改传入的状态）
+ * 俘虏离开原势力的武将列表与驻守城市，所部兵马溃散，关押于俘获方城市
+ * @param state - 可修改的游戏状态副本
+ * @param generalIds - 被俘武将ID列表
+ * @param captorFaction - 俘获方势力ID
+ * @param cityId - 关押城市ID
+ */
+export function capturePrisoners(
+  state: GameState,
+  generalIds: string[],
+  captorFaction: string,
+  cityId: string
+): void {
+  for (const generalId of generalIds) {
+    const general = state.generals[generalId];
+    if (!general || !general.isAlive || general.faction === captorFaction) continue;
+    if (isPrisoner(state, generalId)) continue;
+
+    const originalFaction = state.factions[general.faction];
+    if (originalFaction) {
+      originalFaction.generals = originalFaction.generals.filter((id) => id !== generalId);
+    }
+    const currentCity = state.cities[general.currentCity];
+    if (currentCity) {
+      currentCity.stationedGenerals = currentCity.stationedGenerals.filter(
+        (id) => id !== generalId
+      );
+    }
+    if (state.sieges) {
+      state.sieges = state.sieges
+        .map((siege) => ({
+          ...siege,
+          generalIds: siege.generalIds.filter((id) => id !== generalId),
+        }))
+        .filter((siege) => siege.generalIds.length > 0);
+    }
+
+    general.troops = 0;
+    general.troopTypes = createComposition();
+    general.currentCity = cityId;
+
+    state.prisoners = [
+      ...getPrisoners(state),
+      {
+        generalId,
+        captorFaction,
+        originalFaction: general.faction,
+        cityId,
+        capturedAt: { ...state.currentDate },
+      },
+    ];
+  }
+}
+
+/**
+ * 城池易主时移交城中关押的俘虏（直接修改传入的状态）
+ * 攻占方自己的被俘武将获救归队，其余俘虏改由攻占方关押
+ * @param state - 可修改的游戏状态副本
+ * @param cityId - 易主城市ID
+ * @param factionId - 攻占方势力ID
+ */
+export function transferCityPrisoners(state: GameState, cityId: string, factionId: string): void {
+  const city = state.cities[cityId];
+  const faction = state.factions[factionId];
+  if (!city || !faction || !state.prisoners) return;
+
+  state.prisoners = state.prisoners.filter((prisoner) => {
+    if (prisoner.cityId !== cityId) return true;
+    if (prisoner.originalFaction !== factionId) {
+      prisoner.captorFaction = factionId;
+      return true;
+    }
+
+    const general = state.generals[prisoner.generalId];
+    if (general) {
+      faction.generals.push(general.id);
+      city.stationedGenerals.push(general.id);
+      general.currentCity = cityId;
+    }
+    return false;
+  });
+}
+
+/**
+ * 计算招降成功率
+ * 公式: 50% + (君主魅力 - 俘虏忠诚) ÷ 100，原势力已灭亡时 +20%，
+ * 与招降势力武将有情谊时 +20%、宿敌效力于招降势力时 -20%，限制在5%-95%
+ * 他国君主宁死不降
+ * @param gameState - 游戏状态
+ * @param prisoner - 俘虏记录
+ * @returns 招降成功率 (0-0.95)
+ */
+export function calculateRecruitChance(gameState: GameState, prisoner: Prisoner): number {
+  const general = gameState.generals[prisoner.generalId];
+  const captor = gameState.factions[prisoner.captorFaction];
+  if (!general || !captor || isLord(gameState, general)) return 0;
+
+  const lord = gameState.generals[captor.lordId];
+  const lordCha = lord?.attributes.cha ?? 0;
+  const masterless = (gameState.factions[prisoner.originalFaction]?.cities.length ?? 0) === 0;
+
+  const chance =
+    RECRUIT_BASE_CHANCE +
+    (lordCha - getGeneralLoyalty(gameState, general)) / 100 +
+    (masterless ? RECRUIT_MASTERLESS_BONUS : 0) +
+    calculateBondRecruitBonus(gameState, general, captor.id);
+  return Math.max(RECRUIT_MIN_CHANCE, Math.min(RECRUIT_MAX_CHANCE, chance));
+}
+
+/**
+ * 校验俘虏处置指令
+ * @param order - 处置指令
+ * @param gameState - 游戏状态
+ * @param factionId - 下令势力ID
+ * @returns 错误信息，校验通过返回null
+ */
+export function validatePrisonerOrder(
+  order: PrisonerOrder,
+  gameState: GameState,
+  factionId: string
+): string | null {
+  const prisoner = getPrisoner(gameState, order.generalId);
+  if (!prisoner || prisoner.captorFaction !== factionId) {
+    return '该武将不是我方俘虏';
+  }
+
+  if (order.action === 'recruit' && calculateRecruitChance(gameState, prisoner) <= 0) {
+    return '此人宁死不降';
+  }
+
+  if (
+    order.action === 'release' &&
+    (gameState.factions[prisoner.originalFaction]?.cities.length ?? 0) === 0
+  ) {
+    return '其旧主已无城池，无处可归';
+  }
+
+  return null;
+}
+
+/**
+ * 执行俘虏处置（招降时判定成败）
+ * @param order - 处置指令
+ * @param gameState - 游戏状态
+ * @param factionId - 下令势力ID
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 处置结果
+ */
+export function executePrisonerAction(
+  order: PrisonerOrder,
+  gameState: GameState,
+  factionId: string,
+  random: () => number = Math.random
+): PrisonerActionResult {
+  const error = validatePrisonerOrder(order, gameState, factionId);
+  if (error) {
+    return { success: false, action: order.action, recruited: false, error };
+  }
+
+  if (order.action !== 'recruit') {
+    return { success: true, action: order.action, recruited: false };
+  }
+
+  const prisoner = getPrisoner(gameState, order.generalId)!;
+  return {
+    success: true,
+    action: 'recruit',
+    recruited: random() < calculateRecruitChance(gameState, prisoner),
+  };
+}
+
+/**
+ * 将俘虏处置结果应用到游戏状态
+ * - 招降成功：加入俘获方，驻守关押城市；招降失败则继续关押
+ * - 释放：归返旧主城市，关押城市民心感佩
+ * - 处斩：武将身亡，关押城市民忠下降、己方武将心寒，两国势成水火
+ * @param gameState - 当前游戏状态
+ * @param order - 处置指令
+ * @param result - 处置结果
+ * @returns 更新后的游戏状态
+ */
+export function applyPrisonerAction(
+  gameState: GameState,
+  order: PrisonerOrder,
+  result: PrisonerActionResult
+): GameState {
+  if (!result.success || (result.action === 'recruit' && !result.recruited)) return gameState;
+
+  const prisoner = getPrisoner(gameState, order.generalId);
+  if (!prisoner) return gameState;
+
+  // 深拷贝状态
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const general = newState.generals[prisoner.generalId];
+  const captor = newState.factions[prisoner.captorFaction];
+  const original = newState.factions[prisoner.originalFaction];
+  const city = newState.cities[prisoner.cityId];
+  if (!general || !captor) return gameState;
+
+  newState.prisoners = getPrisoners(newState).filter((p) => p.generalId !== prisoner.generalId);
+
+  switch (result.action) {
+    case 'recruit': {
+      general.faction = captor.id;
+      general.loyalty = RECRUITED_PRISONER_LOYALTY;
+      captor.generals.push(general.id);
+      const garrison = city?.faction === captor.id ? city : newState.cities[captor.cities[0]];
+      if (garrison) {
+        garrison.stationedGenerals.push(general.id);
+        general.currentCity = garrison.id;
+      }
+      break;
+    }
+    case 'release': {
+      if (!original) return gameState;
+      const homeCity =
+        findRetreatCity(newState, prisoner.cityId, original.id) ?? original.cities[0];
+      general.loyalty = clampGeneralLoyalty(
+        getGeneralLoyalty(newState, general) - RELEASE_PRISONER_LOYALTY_PENALTY
+      );
+      original.generals.push(general.id);
+      newState.cities[homeCity].stationedGenerals.push(general.id);
+      general.currentCity = homeCity;
+      if (city) {
+        city.resources.loyalty = Math.min(
+          LOYALTY_MAX,
+          city.resources.loyalty + RELEASE_CITY_LOYALTY_BONUS
+        );
+      }
+      break;
+    }
+    case 'execute': {
+      general.isAlive = false;
+      if (city) {
+        city.resources.loyalty = Math.max(
+          0,
+          city.resources.loyalty - EXECUTE_CITY_LOYALTY_PENALTY
+        );
+      }
+      for (const id of captor.generals) {
+        const own = newState.generals[id];
+        if (!own || !own.isAlive || id === captor.lordId) continue;
+        own.loyalty = clampGeneralLoyalty(
+          getGeneralLoyalty(newState, own) - EXECUTE_GENERAL_LOYALTY_PENALTY
+        );
+      }
+      if (original && original.id !== captor.id) {
+        setRelation(
+          newState,
+          original.id,
+          captor.id,
+          Math.min(getRelation(newState, original.id, captor.id), STATUS_RELATIONS.hostile),
+          'execution'
+        );
+      }
+      break;
+    }
+  }
+
+  return newState;
+}
+
+/**
+ * 生成俘虏处置事件（招降未果不生成事件）
+ * @param order - 处置指令
+ * @param result - 处置结果
+ * @param gameState - 处置前的游戏状态
+ * @returns 武将事件，招降未果或指令无效时返回null
+ */
+export function createPrisonerEvent(
+  order: PrisonerOrder,
+  result: PrisonerActionResult,
+  gameState: GameState
+): GameEvent | null {
+  const prisoner = getPrisoner(gameState, order.generalId);
+  if (!result.success || !prisoner) return null;
+  if (result.action === 'recruit' && !result.recruited) return null;
+
+  const general = gameState.generals[prisoner.generalId];
+  const captorName = gameState.factions[prisoner.captorFaction]?.name ?? '';
+  const originalName = gameState.factions[prisoner.originalFaction]?.name ?? '';
+  const name = general?.name ?? prisoner.generalId;
+
+  const data: GeneralEventData =
+    result.action === 'recruit'
+      ? {
+          general: prisoner.generalId,
+          event: 'recruited',
+          details: `${name}被俘后归降${captorName}`,
+        }
+      : result.action === 'release'
+        ? {
+            general: prisoner.generalId,
+            event: 'released',
+            details: `${captorName}释放俘虏${name}，归返${originalName}`,
+          }
+        : {
+            general: prisoner.generalId,
+            event: 'death',
+            details: `${name}被俘不降，为${captorName}所斩`,
+          };
+
+  return {
+    id: generateId('prisoner_event'),
+    type: 'general',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
+
+/**
+ * 选择AI对俘虏的处置
+ * 有望招降则招降；关押期满后处斩勇将、释放其余俘虏；他国君主及无处可归者继续关押
+ * @param gameState - 游戏状态
+ * @param prisoner - 俘虏记录
+ * @returns 处置方式，继续关押时返回null
+ */
+export function chooseAIPrisonerAction(
+  gameState: GameState,
+  prisoner: Prisoner
+): PrisonerAction | null {
+  const general = gameState.generals[prisoner.generalId];
+  if (!general) return null;
+
+  if (calculateRecruitChance(gameState, prisoner) >= AI_PRISONER_RECRUIT_THRESHOLD) {
+    return 'recruit';
+  }
+
+  const months =
+    (gameState.currentDate.year - prisoner.capturedAt.year) * 12 +
+    (gameState.currentDate.month - prisoner.capturedAt.month);
+  if (months < AI_PRISONER_HOLD_MONTHS || isLord(gameState, general)) return null;
+
+  if (general.attributes.war >= AI_EXECUTE_WAR_THRESHOLD) return 'execute';
+
+  // 旧主已无城池则继续关押
+  const releaseError = validatePrisonerOrder(
+    { generalId: general.id, action: 'release' },
+    gameState,
+    prisoner.captorFaction
+  );
+  return releaseError ? null : 'release';
+}
+
+/**
+ * 执行AI势力对俘虏的处置
+ * @param gameState - 游戏状态
+ * @param playerFactionId - 玩家势力ID（跳过）
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 更新后的游戏状态与事件
+ */
+export function processAIPrisoners(
+  gameState: GameState,
+  playerFactionId: string,
+  random: () => number = Math.random
+): PrisonerTurnResult {
+  let state = gameState;
+  const events: GameEvent[] = [];
+
+  for (const prisoner of getPrisoners(gameState)) {
+    if (prisoner.captorFaction === playerFactionId) continue;
+
+    const action = chooseAIPrisonerAction(state, prisoner);
+    if (!action) continue;
+
+    const order: PrisonerOrder = { generalId: prisoner.generalId, action };
+    const result = executePrisonerAction(order, state, prisoner.captorFaction, random);
+    const event = createPrisonerEvent(order, result, state);
+    state = applyPrisonerAction(state, order, result);
+    if (event) events.push(event);
+  }
+
+  return { state, events };
+}
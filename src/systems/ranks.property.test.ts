@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  applyRankResult,
+  createRankEvent,
+  executeRankGrant,
+  getMaxTroops,
+  getRecruitCapacity,
+  processAIPromotions,
+  processMerit,
+  validateRankOrder,
+} from './ranks';
+import { executeRecruitment } from './domestic';
+import { executeAIRecruit } from './aiSystem';
+import { processPersonnel } from './gameLoop';
+import { PROMOTION_LOYALTY_BONUS } from './loyalty';
+import { createTestState } from '../test/fixtures';
+import type { GameEvent } from '../types/events';
+import { LORD_MAX_TROOPS, RANKS } from '../types/rank';
+
+const rankArb = fc.integer({ min: 0, max: RANKS.length - 1 });
+
+/**
+ * **Feature: sanguo-190, Property 44: 官阶统兵**
+ * *For any* 武将，官阶决定其统兵上限（君主不受限），玩家与AI征兵均不超出此限；
+ * 功绩达到下一级官阶要求时方可授官，授官扣除功绩并生成晋升事件；AI势力自行为部将授官。
+ */
+describe('Property 44: 官阶统兵', () => {
+  it('should never recruit beyond the rank troop cap', () => {
+    fc.assert(
+      fc.property(rankArb, fc.integer({ min: 0, max: 25000 }), (rank, troops) => {
+        const state = createTestState();
+        const general = state.generals.caohong;
+        general.rank = rank;
+        general.troops = troops;
+        state.cities.chenliu.resources.gold = 1_000_000;
+        state.cities.chenliu.resources.population = 1_000_000;
+
+        const capacity = getRecruitCapacity(state, general);
+        expect(getMaxTroops(state, general)).toBe(RANKS[rank].maxTroops);
+        expect(capacity).toBe(Math.max(0, RANKS[rank].maxTroops - troops));
+
+        const result = executeRecruitment(
+          state.cities.chenliu,
+          general.attributes.lead,
+          general.attributes.cha,
+          'infantry',
+          1,
+          capacity
+        );
+        expect(result.success).toBe(capacity > 0);
+        expect(result.soldiersGained).toBeLessThanOrEqual(capacity);
+
+        const ai = executeAIRecruit(
+          { type: 'recruit', cityId: 'chenliu', generalId: 'caohong', troopType: 'infantry' },
+          state
+        );
+        expect(ai === null).toBe(capacity === 0);
+        expect(ai?.soldiersGained ?? 0).toBeLessThanOrEqual(capacity);
+      }),
+      { numRuns: 100 }
+    );
+
+    const state = createTestState();
+    expect(getMaxTroops(state, state.generals.caocao)).toBe(LORD_MAX_TROOPS);
+  });
+
+  it('should grant the next rank only with enough merit and spend it', () => {
+    fc.assert(
+      fc.property(rankArb, fc.integer({ min: 0, max: 2000 }), (rank, merit) => {
+        const state = createTestState();
+        state.generals.caohong.rank = rank;
+        state.generals.caohong.merit = merit;
+        const order = { generalId: 'caohong' };
+        const next = RANKS[rank + 1];
+
+        const result = executeRankGrant(order, state, 'caocao');
+        const eligible = !!next && merit >= next.merit;
+        expect(result.success).toBe(eligible);
+        if (!next) expect(result.error).toBe('已是最高官阶');
+
+        const newState = applyRankResult(state, order, result);
+        const event = createRankEvent(order, result, state);
+        if (!eligible) {
+          expect(newState).toBe(state);
+          expect(event).toBeNull();
+          return;
+        }
+        expect(newState.generals.caohong.rank).toBe(rank + 1);
+        expect(newState.generals.caohong.merit).toBe(merit - next.merit);
+        expect(event?.data).toMatchObject({ general: 'caohong', event: 'promoted' });
+      }),
+      { numRuns: 100 }
+    );
+
+    const state = createTestState();
+    expect(validateRankOrder({ generalId: 'caocao' }, state, 'caocao')).toBe('君主无需授官');
+    expect(validateRankOrder({ generalId: 'lvbu' }, state, 'caocao')).toBe('只能为麾下武将授官');
+  });
+
+  it('should accrue merit from deeds and let AI factions promote their own officers', () => {
+    const event: GameEvent = {
+      id: 'domestic',
+      type: 'domestic',
+      timestamp: { year: 190, month: 1 },
+      data: { city: 'ye', action: 'develop_commerce', executor: 'jushou', value: 10 },
+    };
+    const state = processMerit(createTestState(), [event]);
+    expect(state.generals.jushou.merit).toBeGreaterThan(0);
+
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 2000 }), (merit) => {
+        const before = createTestState();
+        before.generals.jushou.merit = merit;
+        before.generals.caohong.merit = merit;
+        const rank = before.generals.jushou.rank ?? 0;
+        const next = RANKS[rank + 1];
+
+        const result = processAIPromotions(before, 'caocao');
+        const promoted = merit >= next.merit;
+        expect(result.state.generals.jushou.rank ?? 0).toBe(promoted ? rank + 1 : rank);
+        expect(
+          result.events.some(
+            (e) => (e.data as { general: string; event: string }).general === 'jushou'
+          )
+        ).toBe(promoted);
+        // 玩家麾下武将不由AI代为授官
+        expect(result.state.generals.caohong.rank).toBe(before.generals.caohong.rank);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should raise loyalty for AI promotions in the month they happen', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 2000 }), (merit) => {
+        const before = createTestState();
+        before.generals.jushou.loyalty = 30;
+        const unpromoted = processPersonnel(before, [], 'caocao', () => 1).state;
+
+        before.generals.jushou.merit = merit;
+        const next = RANKS[(before.generals.jushou.rank ?? 0) + 1];
+        const after = processPersonnel(before, [], 'caocao', () => 1).state;
+
+        const bonus = merit >= next.merit ? PROMOTION_LOYALTY_BONUS : 0;
+        expect(after.generals.jushou.loyalty).toBe(unpromoted.generals.jushou.loyalty! + bonus);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
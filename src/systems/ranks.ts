@@ -0,0 +1,276 @@
+/**
+ * 官阶系统 - 处理武将功绩的积累、官阶的授予与统兵上限
+ * 武将随征战、施计与内政积累功绩，君主以功绩为武将授予官阶；
+ * 官阶决定武将可统领的兵力上限，征兵不得超出此限，君主不受官阶限制
+ * @module systems/ranks
+ */
+
+import type { GameState } from '../types/gameState';
+import type { General } from '../types/general';
+import type { GameEvent, GeneralEventData } from '../types/events';
+import type { Rank } from '../types/rank';
+import { LORD_MAX_TROOPS, RANKS } from '../types/rank';
+import { collectExperience } from './experience';
+import { isLord, isPrisoner } from './prisoners';
+import { generateId } from './ids';
+
+/**
+ * 授官指令
+ */
+export interface RankOrder {
+  /** 受封武将ID */
+  generalId: string;
+}
+
+/**
+ * 授官结果
+ */
+export interface RankResult {
+  /** 指令是否有效 */
+  success: boolean;
+  /** 授予的官阶序号 */
+  rank: number;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 官阶结算结果
+ */
+export interface RankTurnResult {
+  /** 更新后的游戏状态 */
+  state: GameState;
+  /** 授官事件 */
+  events: GameEvent[];
+}
+
+/**
+ * 获取武将的官阶序号（兼容旧存档，越界时取最近的官阶）
+ */
+export function getRankLevel(general: General): number {
+  return Math.max(0, Math.min(RANKS.length - 1, general.rank ?? 0));
+}
+
+/**
+ * 获取武将的官阶
+ */
+export function getRank(general: General): Rank {
+  return RANKS[getRankLevel(general)];
+}
+
+/**
+ * 获取武将的下一级官阶，已是最高官阶时返回null
+ */
+export function getNextRank(general: General): Rank | null {
+  return RANKS[getRankLevel(general) + 1] ?? null;
+}
+
+/**
+ * 获取武将积累的功绩
+ */
+export function getMerit(general: General): number {
+  return general.merit ?? 0;
+}
+
+/**
+ * 获取武将可统领的兵力上限（君主不受官阶限制）
+ */
+export function getMaxTroops(gameState: GameState, general: General): number {
+  return isLord(gameState, general) ? LORD_MAX_TROOPS : getRank(general).maxTroops;
+}
+
+/**
+ * 获取武将尚可征募的兵力（已达或超出上限时为0）
+ */
+export function getRecruitCapacity(gameState: GameState, general: General): number {
+  return Math.max(0, getMaxTroops(gameState, general) - general.troops);
+}
+
+/**
+ * 获取某势力可授官的武将（存活、未被俘的非君主部将）
+ */
+export function getRankableGenerals(gameState: GameState, factionId: string): General[] {
+  const faction = gameState.factions[factionId];
+  if (!faction) return [];
+
+  return faction.generals
+    .map((id) => gameState.generals[id])
+    .filter(
+      (g): g is General =>
+        g !== undefined &&
+        g.isAlive &&
+        g.faction === factionId &&
+        !isLord(gameState, g) &&
+        !isPrisoner(gameState, g.id)
+    );
+}
+
+/**
+ * 校验授官指令
+ * @param order - 授官指令
+ * @param gameState - 游戏状态
+ * @param factionId - 授官势力ID
+ * @returns 错误信息，校验通过返回null
+ */
+export function validateRankOrder(
+  order: RankOrder,
+  gameState: GameState,
+  factionId: string
+): string | null {
+  const general = gameState.generals[order.generalId];
+  if (!general || !general.isAlive || general.faction !== factionId) {
+    return '只能为麾下武将授官';
+  }
+
+  if (isLord(gameState, general)) {
+    return '君主无需授官';
+  }
+
+  if (isPrisoner(gameState, general.id)) {
+    return '身陷敌营的武将无法授官';
+  }
+
+  const next = getNextRank(general);
+  if (!next) {
+    return '已是最高官阶';
+  }
+
+  if (getMerit(general) < next.merit) {
+    return '功绩不足';
+  }
+
+  return null;
+}
+
+/**
+ * 执行授官指令：晋升一级官阶
+ * @param order - 授官指令
+ * @param gameState - 游戏状态
+ * @param factionId - 授官势力ID
+ * @returns 授官结果
+ */
+export function executeRankGrant(
+  order: RankOrder,
+  gameState: GameState,
+  factionId: string
+): RankResult {
+  const error = validateRankOrder(order, gameState, factionId);
+  const general = gameState.generals[order.generalId];
+  if (error) {
+    return { success: false, rank: general ? getRankLevel(general) : 0, error };
+  }
+
+  return { success: true, rank: getRankLevel(general) + 1 };
+}
+
+/**
+ * 授予官阶（直接修改传入的武将），扣除该官阶所需的功绩
+ */
+function grantRank(general: General, rank: number): void {
+  general.rank = rank;
+  general.merit = Math.max(0, getMerit(general) - RANKS[rank].merit);
+}
+
+/**
+ * 将授官结果应用到游戏状态
+ * @param gameState - 当前游戏状态
+ * @param order - 授官指令
+ * @param result - 授官结果
+ * @returns 更新后的游戏状态
+ */
+export function applyRankResult(
+  gameState: GameState,
+  order: RankOrder,
+  result: RankResult
+): GameState {
+  if (!result.success) return gameState;
+
+  // 深拷贝状态
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const general = newState.generals[order.generalId];
+  if (!general) return gameState;
+
+  grantRank(general, result.rank);
+  return newState;
+}
+
+/**
+ * 生成晋升事件
+ */
+function createPromotionEvent(gameState: GameState, general: General, rank: number): GameEvent {
+  const title = RANKS[rank];
+  const data: GeneralEventData = {
+    general: general.id,
+    event: 'promoted',
+    details: `${general.name}功勋卓著，受封${title.name}，可统兵${title.maxTroops}`,
+  };
+  return {
+    id: generateId('rank_event'),
+    type: 'general',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
+
+/**
+ * 生成授官事件
+ * @param order - 授官指令
+ * @param result - 授官结果
+ * @param gameState - 授官前的游戏状态
+ * @returns 晋升事件，授官无效时返回null
+ */
+export function createRankEvent(
+  order: RankOrder,
+  result: RankResult,
+  gameState: GameState
+): GameEvent | null {
+  const general = gameState.generals[order.generalId];
+  if (!result.success || !general) return null;
+  return createPromotionEvent(gameState, general, result.rank);
+}
+
+/**
+ * 月末结算功绩：依本月事件，武将所得经验同时计为功绩
+ * @param gameState - 游戏状态
+ * @param events - 本月发生的事件
+ * @returns 更新后的游戏状态
+ */
+export function processMerit(gameState: GameState, events: GameEvent[]): GameState {
+  const gains = collectExperience(events);
+  if (Object.keys(gains).length === 0) return gameState;
+
+  // 深拷贝状态
+  const state: GameState = JSON.parse(JSON.stringify(gameState));
+  for (const [generalId, gained] of Object.entries(gains)) {
+    const general = state.generals[generalId];
+    if (!general || !general.isAlive) continue;
+    const total = Object.values(gained).reduce((sum, value) => sum + (value ?? 0), 0);
+    general.merit = getMerit(general) + total;
+  }
+  return state;
+}
+
+/**
+ * AI势力为功绩足够的部将授官（每月每人至多晋升一级）
+ * @param gameState - 游戏状态
+ * @param playerFactionId - 玩家势力ID（不代为授官）
+ * @returns 更新后的游戏状态与晋升事件
+ */
+export function processAIPromotions(gameState: GameState, playerFactionId: string): RankTurnResult {
+  // 深拷贝状态
+  const state: GameState = JSON.parse(JSON.stringify(gameState));
+  const events: GameEvent[] = [];
+
+  for (const faction of Object.values(state.factions)) {
+    if (faction.id === playerFactionId) continue;
+
+    for (const general of getRankableGenerals(state, faction.id)) {
+      if (validateRankOrder({ generalId: general.id }, state, faction.id)) continue;
+      const rank = getRankLevel(general) + 1;
+      grantRank(general, rank);
+      events.push(createPromotionEvent(state, general, rank));
+    }
+  }
+
+  return { state, events };
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  REINFORCEMENT_AP_COST,
+  REINFORCEMENT_MAX_GENERALS,
+  REINFORCEMENT_TRIGGER_RATIO,
+  findReinforcements,
+  getReinforcementAPCost,
+} from './reinforcements';
+import {
+  applyCampaignResult,
+  executeCampaign,
+  validateCampaignOrder,
+  type CampaignOrder,
+} from './campaign';
+import { getDefendingForce, makeDecision } from './aiSystem';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+import { splitLossByType } from './troops';
+
+/**
+ * 将南皮及其守将划归曹操，使陈留与南皮可夹击平原
+ */
+function giveNanpiToCaocao(state: GameState): void {
+  state.cities.nanpi.faction = 'caocao';
+  state.factions.yuanshao.cities = state.factions.yuanshao.cities.filter((c) => c !== 'nanpi');
+  state.factions.caocao.cities.push('nanpi');
+  for (const id of state.cities.nanpi.stationedGenerals) {
+    state.generals[id].faction = 'caocao';
+    state.factions.yuanshao.generals = state.factions.yuanshao.generals.filter((g) => g !== id);
+    state.factions.caocao.generals.push(id);
+  }
+}
+
+/**
+ * 统计平原守军与袁绍南皮守将的兵力之和
+ */
+function countDefendingTroops(state: GameState): number {
+  return [...state.cities.pingyuan.stationedGenerals, 'yanliang'].reduce(
+    (sum, id) => sum + state.generals[id].troops,
+    0
+  );
+}
+
+/**
+ * **Feature: sanguo-190, Property 29: 援军与夹击**
+ * *For any* 被攻打的城市，仅当守军寡不敌众时才从相邻的己方或同盟城市召集援军，
+ * 行军途中的武将不能出援，援军与守军共同承担伤亡并消耗其势力下回合的行动力；
+ * 两路夹击须从另一座相邻己方城市出兵，获胜后两路兵马一同入城。
+ */
+describe('Property 29: 援军与夹击', () => {
+  it('should only call reinforcements from own or allied neighbours when outmatched', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 50000 }), fc.boolean(), (attackerTroops, allied) => {
+        const state = createTestState();
+        if (allied) {
+          state.factions.yuanshao.diplomacy.liubei = 'ally';
+          state.factions.liubei.diplomacy.yuanshao = 'ally';
+        }
+        const defending = state.cities.pingyuan.stationedGenerals.reduce(
+          (sum, id) => sum + state.generals[id].troops,
+          0
+        );
+
+        const reinforcements = findReinforcements(state, 'pingyuan', 'caocao', attackerTroops);
+
+        expect(reinforcements.length).toBeLessThanOrEqual(REINFORCEMENT_MAX_GENERALS);
+        if (attackerTroops <= defending * REINFORCEMENT_TRIGGER_RATIO || !allied) {
+          expect(reinforcements).toEqual([]);
+        } else {
+          expect(reinforcements.length).toBeGreaterThan(0);
+        }
+        for (const r of reinforcements) {
+          expect(state.cities.pingyuan.connectedCities).toContain(r.cityId);
+          expect(r.factionId).toBe('yuanshao');
+          expect(state.cities[r.cityId].stationedGenerals).toContain(r.generalId);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should not call on generals who are on the march', () => {
+    const state = createTestState();
+    state.factions.yuanshao.diplomacy.liubei = 'ally';
+    state.factions.liubei.diplomacy.yuanshao = 'ally';
+    const helpers = findReinforcements(state, 'pingyuan', 'caocao', 50000);
+    expect(helpers.length).toBeGreaterThan(0);
+
+    state.movements = helpers.map((r) => ({
+      id: `movement_${r.generalId}`,
+      factionId: r.factionId,
+      generalIds: [r.generalId],
+      currentCityId: r.cityId,
+      route: [r.cityId],
+      gold: 0,
+      grain: 0,
+      departedAt: { ...state.currentDate },
+    }));
+    const marching = new Set(helpers.map((r) => r.generalId));
+    for (const r of findReinforcements(state, 'pingyuan', 'caocao', 50000)) {
+      expect(marching.has(r.generalId)).toBe(false);
+    }
+  });
+
+  it('should share casualties with reinforcements and charge the helper AP', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 8000 }), (defenderCasualties) => {
+        const state = createTestState();
+        state.factions.yuanshao.diplomacy.liubei = 'ally';
+        const order: CampaignOrder = {
+          fromCityId: 'chenliu',
+          toCityId: 'pingyuan',
+          generalIds: ['caocao', 'xiaohoudun', 'xiahouyuan'],
+        };
+        const result = executeCampaign(order, state, () => 0.5);
+        expect(result.reinforcements?.map((r) => r.generalId)).toEqual(['yanliang']);
+
+        const before = countDefendingTroops(state);
+        const { composition } = getDefendingForce(
+          state.cities.pingyuan,
+          result.reinforcements ?? [],
+          state
+        );
+        const newState = applyCampaignResult(state, order, {
+          ...result,
+          result: 'lose',
+          defenderCasualties,
+          defenderCasualtiesByType: splitLossByType(composition, defenderCasualties),
+          captured: [],
+        });
+
+        expect(newState.generals.yanliang.troops).toBeLessThanOrEqual(
+          state.generals.yanliang.troops
+        );
+        expect(countDefendingTroops(newState)).toBe(before - defenderCasualties);
+        expect(getReinforcementAPCost(newState, 'yuanshao')).toBe(REINFORCEMENT_AP_COST);
+        expect(getReinforcementAPCost(newState, 'liubei')).toBe(0);
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should validate pincers and move both forces into a captured city', () => {
+    const state = createTestState();
+    giveNanpiToCaocao(state);
+
+    const farPincer: CampaignOrder = {
+      fromCityId: 'chenliu',
+      toCityId: 'luoyang',
+      generalIds: ['caocao'],
+      pincer: { fromCityId: 'nanpi', generalIds: ['yanliang'] },
+    };
+    expect(validateCampaignOrder(farPincer, state)).not.toBeNull();
+
+    const order: CampaignOrder = {
+      fromCityId: 'chenliu',
+      toCityId: 'pingyuan',
+      generalIds: ['caocao'],
+      pincer: { fromCityId: 'nanpi', generalIds: ['yanliang'] },
+    };
+    expect(validateCampaignOrder(order, state)).toBeNull();
+
+    const result = executeCampaign(order, state, () => 0.5);
+    expect(result.success).toBe(true);
+    const newState = applyCampaignResult(state, order, { ...result, result: 'win', captured: [] });
+
+    expect(newState.cities.pingyuan.faction).toBe('caocao');
+    for (const id of ['caocao', 'yanliang']) {
+      expect(newState.cities.pingyuan.stationedGenerals).toContain(id);
+      expect(newState.generals[id].currentCity).toBe('pingyuan');
+    }
+    expect(newState.cities.nanpi.stationedGenerals).not.toContain('yanliang');
+    expect(newState.cities.chenliu.stationedGenerals).not.toContain('caocao');
+  });
+
+  it('should deduct owed reinforcement AP from the AI turn', () => {
+    const state = createTestState();
+    state.reinforcementCosts = { yuanshao: 3 };
+    expect(makeDecision('yuanshao', state)).toEqual([]);
+  });
+});
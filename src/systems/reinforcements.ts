@@ -0,0 +1,180 @@
+/**
+ * 援军系统 - 处理守城方向相邻己方或同盟城市求援，以及援军的行动力消耗
+ * @module systems/reinforcements
+ */
+
+import type { GameState } from '../types/gameState';
+import type { City } from '../types/city';
+import type { General } from '../types/general';
+import { getDiplomacyStatus } from './diplomacy';
+import { isGeneralMarching } from './movement';
+
+/**
+ * 求援阈值：攻方兵力超过守军兵力的此倍数时，守方向邻城求援
+ */
+export const REINFORCEMENT_TRIGGER_RATIO = 1.2;
+
+/**
+ * 单场战斗最多赶来的援军数（每座城市至多派出一名武将）
+ */
+export const REINFORCEMENT_MAX_GENERALS = 2;
+
+/**
+ * 每支援军消耗其势力下回合的行动力
+ */
+export const REINFORCEMENT_AP_COST = 1;
+
+/**
+ * 援军信息
+ */
+export interface Reinforcement {
+  /** 援军武将ID */
+  generalId: string;
+  /** 援军出发城市ID */
+  cityId: string;
+  /** 援军所属势力ID */
+  factionId: string;
+}
+
+/**
+ * 获取城市中兵力最多、可以出城救援的武将（不含正在围城或行军途中的武将）
+ */
+function getAvailableHelper(state: GameState, city: City): General | null {
+  let helper: General | null = null;
+
+  for (const generalId of city.stationedGenerals) {
+    const general = state.generals[generalId];
+    if (!general || !general.isAlive || general.faction !== city.faction) continue;
+    if (general.troops <= 0) continue;
+    if (state.sieges?.some((siege) => siege.generalIds.includes(generalId))) continue;
+    if (isGeneralMarching(state, generalId)) continue;
+    if (!helper || general.troops > helper.troops) helper = general;
+  }
+
+  return helper;
+}
+
+/**
+ * 判断城市势力是否会救援被攻打的城市（同一势力或与守方结盟，且不与攻方为同一势力）
+ */
+function isHelperCity(
+  state: GameState,
+  city: City,
+  defenderFactionId: string,
+  attackerFactionId: string
+): boolean {
+  if (city.faction === attackerFactionId) return false;
+  if (city.faction === defenderFactionId) return true;
+  return getDiplomacyStatus(state, city.faction, defenderFactionId) === 'ally';
+}
+
+/**
+ * 计算守城兵力（城市势力的存活守将）
+ */
+function getDefendingTroops(state: GameState, city: City): number {
+  return city.stationedGenerals.reduce((sum, generalId) => {
+    const general = state.generals[generalId];
+    if (!general || !general.isAlive || general.faction !== city.faction) return sum;
+    return sum + general.troops;
+  }, 0);
+}
+
+/**
+ * 守方寡不敌众时，从相邻的己方或同盟城市召集援军
+ * 被围困的城市与正在围城、行军途中的武将无法出援，兵力多者优先，援军足以抗衡攻方时不再召集
+ * @param state - 游戏状态
+ * @param toCityId - 被攻打城市ID
+ * @param attackerFactionId - 攻方势力ID
+ * @param attackerTroops - 攻方兵力
+ * @returns 援军列表（无需或无法求援时为空）
+ */
+export function findReinforcements(
+  state: GameState,
+  toCityId: string,
+  attackerFactionId: string,
+  attackerTroops: number
+): Reinforcement[] {
+  const toCity = state.cities[toCityId];
+  if (!toCity) return [];
+
+  let defendingTroops = getDefendingTroops(state, toCity);
+  if (attackerTroops <= defendingTroops * REINFORCEMENT_TRIGGER_RATIO) return [];
+
+  const candidates: { general: General; city: City }[] = [];
+  for (const cityId of toCity.connectedCities) {
+    const city = state.cities[cityId];
+    if (!city || !isHelperCity(state, city, toCity.faction, attackerFactionId)) continue;
+    if (state.sieges?.some((siege) => siege.targetCityId === cityId)) continue;
+
+    const general = getAvailableHelper(state, city);
+    if (general) candidates.push({ general, city });
+  }
+  candidates.sort((a, b) => b.general.troops - a.general.troops);
+
+  const reinforcements: Reinforcement[] = [];
+  for (const { general, city } of candidates) {
+    if (reinforcements.length >= REINFORCEMENT_MAX_GENERALS) break;
+    if (attackerTroops <= defendingTroops * REINFORCEMENT_TRIGGER_RATIO) break;
+
+    reinforcements.push({ generalId: general.id, cityId: city.id, factionId: city.faction });
+    defendingTroops += general.troops;
+  }
+
+  return reinforcements;
+}
+
+/**
+ * 获取援军武将
+ * @param state - 游戏状态
+ * @param reinforcements - 援军列表
+ * @returns 仍然存活的援军武将
+ */
+export function getReinforcementGenerals(
+  state: GameState,
+  reinforcements: Reinforcement[]
+): General[] {
+  return reinforcements
+    .map((r) => state.generals[r.generalId])
+    .filter((g): g is General => g !== undefined && g.isAlive);
+}
+
+/**
+ * 获取势力下回合需扣除的援军行动力
+ * @param state - 游戏状态
+ * @param factionId - 势力ID
+ * @returns 待扣除的行动力
+ */
+export function getReinforcementAPCost(state: GameState, factionId: string): number {
+  return state.reinforcementCosts?.[factionId] ?? 0;
+}
+
+/**
+ * 记录援军的行动力消耗，于其势力下回合扣除（直接修改传入的状态）
+ * @param state - 可修改的游戏状态副本
+ * @param reinforcements - 援军列表
+ */
+export function chargeReinforcementCosts(state: GameState, reinforcements: Reinforcement[]): void {
+  if (reinforcements.length === 0) return;
+
+  const costs = { ...(state.reinforcementCosts ?? {}) };
+  for (const reinforcement of reinforcements) {
+    costs[reinforcement.factionId] = (costs[reinforcement.factionId] ?? 0) + REINFORCEMENT_AP_COST;
+  }
+  state.reinforcementCosts = costs;
+}
+
+/**
+ * 清除已在本回合扣除的援军行动力
+ * @param state - 游戏状态
+ * @param factionIds - 已扣除行动力的势力ID列表
+ * @returns 更新后的游戏状态
+ */
+export function clearReinforcementCosts(state: GameState, factionIds: string[]): GameState {
+  if (!state.reinforcementCosts) return state;
+
+  const costs = { ...state.reinforcementCosts };
+  for (const factionId of factionIds) {
+    delete costs[factionId];
+  }
+  return { ...state, reinforcementCosts: costs };
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  ALLY_THRESHOLD,
+  HOSTILE_THRESHOLD,
+  RELATION_HISTORY_LIMIT,
+  RELATION_MAX,
+  RELATION_MIN,
+  adjustRelation,
+  deriveDiplomacyStatus,
+  getRelation,
+  getRelationHistory,
+  setRelation,
+} from './relations';
+import {
+  BATTLE_RELATION_PENALTY,
+  SHARED_ENEMY_RELATION_CAP,
+  getDiplomacyStatus,
+  processRelations,
+} from './diplomacy';
+import { getRequiredAttackProbability } from './aiSystem';
+import { createTestState } from '../test/fixtures';
+import type { GameEvent } from '../types/events';
+
+/**
+ * 创建两个势力间的战斗事件
+ */
+function createBattleEvent(attacker: string, defender: string, casualties = 100): GameEvent {
+  return {
+    id: `battle-${attacker}-${defender}`,
+    type: 'battle',
+    timestamp: { year: 190, month: 1 },
+    data: {
+      attacker,
+      defender,
+      attackerGeneral: '',
+      defenderGeneral: '',
+      result: 'draw',
+      casualties: { attacker: casualties, defender: casualties },
+    },
+  };
+}
+
+const factionArb = fc.constantFrom('caocao', 'yuanshao', 'liubei', 'dongzhuo');
+
+const relationArb = fc.integer({ min: RELATION_MIN * 2, max: RELATION_MAX * 2 });
+
+/**
+ * **Feature: sanguo-190, Property 34: 势力关系**
+ * *For any* 两个势力，关系值对称且限制在-100~100之间，外交关系由关系值按阈值推定；
+ * 每次变化均记入历史；交战降低关系，共同敌人使关系逐月回暖但不会自动结盟；
+ * 关系越好，AI进攻所需的胜算越高，对盟友不会进攻。
+ */
+describe('Property 34: 势力关系', () => {
+  it('should keep relations symmetric, clamped and in step with diplomacy status', () => {
+    fc.assert(
+      fc.property(factionArb, factionArb, relationArb, (a, b, value) => {
+        fc.pre(a !== b);
+        const state = createTestState();
+        setRelation(state, a, b, value, 'gift');
+
+        const relation = getRelation(state, a, b);
+        expect(getRelation(state, b, a)).toBe(relation);
+        expect(relation).toBe(Math.max(RELATION_MIN, Math.min(RELATION_MAX, value)));
+
+        const status = deriveDiplomacyStatus(relation);
+        expect(status).toBe(
+          relation >= ALLY_THRESHOLD
+            ? 'ally'
+            : relation <= HOSTILE_THRESHOLD
+              ? 'hostile'
+              : 'neutral'
+        );
+        expect(getDiplomacyStatus(state, a, b)).toBe(status);
+        expect(state.factions[a].diplomacy[b]).toBe(status);
+        expect(state.factions[b].diplomacy[a]).toBe(status);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should record every change in a bounded history', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: -40, max: 40 }), { minLength: 1, maxLength: 150 }),
+        (deltas) => {
+          const state = createTestState();
+          let changes = 0;
+          for (const delta of deltas) {
+            const before = getRelation(state, 'caocao', 'liubei');
+            adjustRelation(state, 'liubei', 'caocao', delta, 'gift');
+            const after = getRelation(state, 'caocao', 'liubei');
+            if (after !== before) {
+              changes++;
+              const last = getRelationHistory(state).at(-1);
+              expect(last?.delta).toBe(after - before);
+              expect(last?.value).toBe(after);
+            }
+          }
+          expect(getRelationHistory(state)).toHaveLength(Math.min(changes, RELATION_HISTORY_LIMIT));
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should sour relations after battles and warm them toward a cap against shared enemies', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 30 }), (months) => {
+        let state = createTestState();
+        const start = getRelation(state, 'caocao', 'yuanshao');
+
+        const afterBattle = processRelations(state, [createBattleEvent('caocao', 'dongzhuo')]);
+        expect(getRelation(afterBattle, 'caocao', 'dongzhuo')).toBe(
+          getRelation(state, 'caocao', 'dongzhuo') - BATTLE_RELATION_PENALTY
+        );
+        // 未曾交兵（双方均无伤亡）的战斗不伤关系
+        const skirmish = createBattleEvent('caocao', 'dongzhuo', 0);
+        expect(getRelation(processRelations(state, [skirmish]), 'caocao', 'dongzhuo')).toBe(
+          getRelation(state, 'caocao', 'dongzhuo')
+        );
+
+        for (let i = 0; i < months; i++) {
+          const previous = getRelation(state, 'caocao', 'yuanshao');
+          state = processRelations(state, []);
+          const current = getRelation(state, 'caocao', 'yuanshao');
+          expect(current).toBeGreaterThanOrEqual(previous);
+          expect(current).toBeLessThanOrEqual(Math.max(start, SHARED_ENEMY_RELATION_CAP));
+        }
+        expect(getDiplomacyStatus(state, 'caocao', 'yuanshao')).not.toBe('ally');
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should never attack allies and demand better odds from friendlier targets', () => {
+    fc.assert(
+      fc.property(relationArb, relationArb, (x, y) => {
+        const state = createTestState();
+        setRelation(state, 'caocao', 'liubei', Math.min(x, y), 'gift');
+        const low = getRequiredAttackProbability(state, 'caocao', 'liubei');
+        setRelation(state, 'caocao', 'liubei', Math.max(x, y), 'gift');
+        const high = getRequiredAttackProbability(state, 'caocao', 'liubei');
+
+        if (getDiplomacyStatus(state, 'caocao', 'liubei') === 'ally') {
+          expect(high).toBeNull();
+        } else {
+          expect(low).not.toBeNull();
+          expect(high).not.toBeNull();
+          expect(high!).toBeGreaterThanOrEqual(low!);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
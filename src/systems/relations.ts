@@ -0,0 +1,142 @@
+/**
+ * 势力关系系统 - 以 -100~100 的关系值刻画势力间的亲疏
+ * 外交关系（交战、中立、同盟）由关系值按阈值推定，势力的 diplomacy 字段随关系值同步更新
+ * @module systems/relations
+ */
+
+import type { GameState } from '../types/gameState';
+import type { DiplomacyStatus } from '../types/faction';
+import type { RelationChangeReason, RelationRecord } from '../types/diplomacy';
+
+/**
+ * 关系值下限
+ */
+export const RELATION_MIN = -100;
+
+/**
+ * 关系值上限
+ */
+export const RELATION_MAX = 100;
+
+/**
+ * 同盟阈值：关系值不低于此值时双方为同盟
+ */
+export const ALLY_THRESHOLD = 50;
+
+/**
+ * 交战阈值：关系值不高于此值时双方交战
+ */
+export const HOSTILE_THRESHOLD = -30;
+
+/**
+ * 各外交关系对应的典型关系值（旧存档缺省关系值时据此推定）
+ */
+export const STATUS_RELATIONS: Record<DiplomacyStatus, number> = {
+  hostile: -60,
+  neutral: 0,
+  ally: 60,
+};
+
+/**
+ * 关系变化记录保留条数
+ */
+export const RELATION_HISTORY_LIMIT = 100;
+
+/**
+ * 获取两个势力的关系键（与参数顺序无关）
+ */
+export function getRelationKey(factionA: string, factionB: string): string {
+  return [factionA, factionB].sort().join(':');
+}
+
+/**
+ * 将关系值限制在有效范围内
+ */
+export function clampRelation(value: number): number {
+  return Math.max(RELATION_MIN, Math.min(RELATION_MAX, Math.round(value)));
+}
+
+/**
+ * 由关系值推定外交关系
+ * @param value - 关系值
+ * @returns 不低于同盟阈值为同盟，不高于交战阈值为交战，其余为中立
+ */
+export function deriveDiplomacyStatus(value: number): DiplomacyStatus {
+  if (value >= ALLY_THRESHOLD) return 'ally';
+  if (value <= HOSTILE_THRESHOLD) return 'hostile';
+  return 'neutral';
+}
+
+/**
+ * 获取两个势力间的关系值（未记载时按外交关系推定）
+ */
+export function getRelation(gameState: GameState, factionA: string, factionB: string): number {
+  const stored = gameState.relations?.[getRelationKey(factionA, factionB)];
+  if (stored !== undefined) return stored;
+  return STATUS_RELATIONS[gameState.factions[factionA]?.diplomacy[factionB] ?? 'neutral'];
+}
+
+/**
+ * 获取关系变化记录（兼容缺省字段的旧存档）
+ */
+export function getRelationHistory(gameState: GameState): RelationRecord[] {
+  return gameState.relationHistory ?? [];
+}
+
+/**
+ * 设置两个势力间的关系值，同步双方外交关系并记录变化（直接修改传入的状态）
+ * @param state - 可修改的游戏状态
+ * @param factionA - 势力ID
+ * @param factionB - 势力ID
+ * @param value - 新关系值
+ * @param reason - 变化原因
+ */
+export function setRelation(
+  state: GameState,
+  factionA: string,
+  factionB: string,
+  value: number,
+  reason: RelationChangeReason
+): void {
+  const a = state.factions[factionA];
+  const b = state.factions[factionB];
+  if (!a || !b || a.id === b.id) return;
+
+  const previous = getRelation(state, a.id, b.id);
+  const next = clampRelation(value);
+  const status = deriveDiplomacyStatus(next);
+
+  state.relations = { ...state.relations, [getRelationKey(a.id, b.id)]: next };
+  a.diplomacy[b.id] = status;
+  b.diplomacy[a.id] = status;
+
+  if (next === previous) return;
+  state.relationHistory = [
+    ...getRelationHistory(state),
+    {
+      factions: [a.id, b.id] as [string, string],
+      date: { ...state.currentDate },
+      reason,
+      delta: next - previous,
+      value: next,
+    },
+  ].slice(-RELATION_HISTORY_LIMIT);
+}
+
+/**
+ * 调整两个势力间的关系值（直接修改传入的状态）
+ * @param state - 可修改的游戏状态
+ * @param factionA - 势力ID
+ * @param factionB - 势力ID
+ * @param delta - 变化值
+ * @param reason - 变化原因
+ */
+export function adjustRelation(
+  state: GameState,
+  factionA: string,
+  factionB: string,
+  delta: number,
+  reason: RelationChangeReason
+): void {
+  setRelation(state, factionA, factionB, getRelation(state, factionA, factionB) + delta, reason);
+}
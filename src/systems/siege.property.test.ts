@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  SIEGE_LOYALTY_DECREASE,
+  SIEGE_SURRENDER_LOYALTY,
+  applySiegeBreakResult,
+  beginSiege,
+  getSiegeBreakMode,
+  getSieges,
+  processSieges,
+  validateSiegeOrder,
+  type SiegeBreakResult,
+} from './siege';
+import { distributeJulyGrain } from './turnSystem';
+import { RELATION_MAX, RELATION_MIN, getRelationKey } from './relations';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+import { createComposition } from './troops';
+
+/**
+ * 创建陈留围困洛阳的状态
+ */
+function createSiegeState(generalIds: string[]): GameState {
+  return beginSiege(createTestState(), {
+    fromCityId: 'chenliu',
+    toCityId: 'luoyang',
+    generalIds,
+  });
+}
+
+const chenliuGeneralsArb = fc.subarray(
+  ['caocao', 'xiaohoudun', 'xiahouyuan', 'caoren', 'caohong'],
+  { minLength: 1 }
+);
+
+const randomArb = fc.double({ min: 0, max: 0.999, noNaN: true }).map((value) => () => value);
+
+/**
+ * **Feature: sanguo-190, Property 24: 围城结算**
+ * *For any* 围城，被围城市城防逐月不升且不低于0、七月无粮食收入；
+ * 粮尽或民忠崩溃时城池归围城方所有，围城随之解除。
+ */
+describe('Property 24: 围城结算', () => {
+  it('should never raise defense or drop it below zero while besieged', () => {
+    fc.assert(
+      fc.property(
+        chenliuGeneralsArb,
+        fc.integer({ min: 1, max: 12 }),
+        randomArb,
+        (generalIds, months, random) => {
+          let state = createSiegeState(generalIds);
+          expect(getSieges(state)).toHaveLength(1);
+
+          for (let i = 0; i < months && getSieges(state).length > 0; i++) {
+            const before = state.cities.luoyang.resources.defense;
+            const campGrain = state.cities.chenliu.resources.grain;
+            state = processSieges(state, random).state;
+
+            expect(state.cities.luoyang.resources.defense).toBeLessThanOrEqual(before);
+            expect(state.cities.luoyang.resources.defense).toBeGreaterThanOrEqual(0);
+            expect(state.cities.chenliu.resources.grain).toBeLessThanOrEqual(campGrain);
+            expect(state.cities.luoyang.resources.grain).toBeGreaterThanOrEqual(0);
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should cut off July grain income of besieged cities', () => {
+    fc.assert(
+      fc.property(chenliuGeneralsArb, (generalIds) => {
+        const state = createSiegeState(generalIds);
+        const income = distributeJulyGrain(state);
+        const freeIncome = distributeJulyGrain(createTestState());
+
+        expect(income.luoyang).toBe(0);
+        expect(income.chenliu).toBe(freeIncome.chenliu);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should transfer the city when grain or loyalty runs out', () => {
+    fc.assert(
+      fc.property(
+        chenliuGeneralsArb,
+        fc.boolean(),
+        fc.integer({ min: 0, max: SIEGE_SURRENDER_LOYALTY + SIEGE_LOYALTY_DECREASE }),
+        (generalIds, starve, loyalty) => {
+          const state = createSiegeState(generalIds);
+          if (starve) {
+            state.cities.luoyang.resources.grain = 0;
+          } else {
+            state.cities.luoyang.resources.loyalty = loyalty;
+          }
+
+          const { state: newState, events } = processSieges(state, () => 0.5);
+
+          expect(newState.cities.luoyang.faction).toBe('caocao');
+          expect(newState.factions.caocao.cities).toContain('luoyang');
+          expect(newState.factions.dongzhuo.cities).not.toContain('luoyang');
+          expect(getSieges(newState)).toHaveLength(0);
+          expect(events.some((e) => 'siege' in e.data && e.data.siege?.outcome === 'surrendered')).toBe(
+            true
+          );
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should lift the siege when a sally wins and keep it otherwise', () => {
+    fc.assert(
+      fc.property(
+        chenliuGeneralsArb,
+        fc.constantFrom<SiegeBreakResult['result']>('win', 'lose', 'draw'),
+        (generalIds, outcome) => {
+          const state = createSiegeState(generalIds);
+          const siege = getSieges(state)[0];
+          const order = { siegeId: siege.id, fromCityId: 'luoyang', generalIds: ['lvbu'] };
+          const result: SiegeBreakResult = {
+            success: true,
+            mode: 'sally',
+            result: outcome,
+            attackerGeneral: 'lvbu',
+            defenderGeneral: generalIds[0],
+            attackerCasualties: 0,
+            defenderCasualties: 0,
+            attackerCasualtiesByType: createComposition(),
+            defenderCasualtiesByType: createComposition(),
+            duel: { triggered: false, instantKill: false },
+            attackerMorale: 60,
+            defenderMorale: 60,
+            routed: null,
+            rounds: [],
+          };
+
+          const newState = applySiegeBreakResult(state, order, result);
+          expect(getSieges(newState)).toHaveLength(outcome === 'win' ? 0 : 1);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should reject besieging an already besieged city', () => {
+    const state = createSiegeState(['caocao']);
+    const error = validateSiegeOrder(
+      { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: ['caoren'] },
+      state
+    );
+    expect(error).toBe('目标城市已被围困');
+  });
+
+  it('should let allies relieve a siege according to the relation score', () => {
+    const state = createSiegeState(['caocao']);
+    const siege = getSieges(state)[0];
+    const key = getRelationKey('yuanshao', 'dongzhuo');
+
+    state.relations = { ...state.relations, [key]: RELATION_MAX };
+    expect(getSiegeBreakMode(siege, state.cities.ye, state)).toBe('relief');
+    state.relations = { ...state.relations, [key]: RELATION_MIN };
+    expect(getSiegeBreakMode(siege, state.cities.ye, state)).toBeNull();
+  });
+});
@@ -0,0 +1,990 @@
+/**
+ * 围城系统 - 处理围城的发起、每月消耗、出城突击、援军解围与围城结束
+ * @module systems/siege
+ */
+
+import type { GameState } from '../types/gameState';
+import type { City } from '../types/city';
+import type { General } from '../types/general';
+import type { GameEvent, BattleEventData } from '../types/events';
+import type { Siege, SiegeOutcome } from '../types/siege';
+import type { SkillTrigger } from '../types/skill';
+import type { TroopComposition } from '../types/troop';
+import {
+  resolveBattle,
+  toBattleRoundRecords,
+  type BattleRoundLog,
+  type DuelResult,
+} from './battle';
+import {
+  applyCasualtiesByType,
+  calculateCityTroopComposition,
+  calculateCityTroops,
+  evaluateAttackTarget,
+  getCityDefenders,
+  getStrongestGeneral,
+  toBattleCommander,
+  transferCityControl,
+} from './aiSystem';
+import { getCampaignComposition, getCampaignLeader, validateCampaignOrder } from './campaign';
+import type { CampaignOrder } from './campaign';
+import { createComposition, sumComposition } from './troops';
+import { BASE_ARMY_MORALE, calculateCityArmyMorale, clampMorale, isRouted } from './morale';
+import { rollCaptures } from './prisoners';
+import { getActiveTruce, getDiplomacyStatus } from './diplomacy';
+import { isGeneralMarching } from './movement';
+import { generateId } from './ids';
+
+/**
+ * 围城所需最少兵力
+ */
+export const SIEGE_MIN_TROOPS = 1000;
+
+/**
+ * 每月基础城防削减
+ */
+export const SIEGE_BASE_DEFENSE_DAMAGE = 3;
+
+/**
+ * 每多少围城兵力额外削减1点城防
+ */
+export const SIEGE_TROOPS_PER_DEFENSE_POINT = 5000;
+
+/**
+ * 每多少器械额外削减1点城防
+ */
+export const SIEGE_ENGINES_PER_DEFENSE_POINT = 500;
+
+/**
+ * 每月城防削减上限
+ */
+export const SIEGE_MAX_DEFENSE_DAMAGE = 20;
+
+/**
+ * 每名士兵每月消耗粮食（围城双方）
+ */
+export const SIEGE_GRAIN_PER_SOLDIER = 0.1;
+
+/**
+ * 被围城市每月民忠下降
+ */
+export const SIEGE_LOYALTY_DECREASE = 3;
+
+/**
+ * 民忠低于此值时开城投降
+ */
+export const SIEGE_SURRENDER_LOYALTY = 10;
+
+/**
+ * 围城部队每月士气下降（久围师老）
+ */
+export const SIEGE_MORALE_DECAY = 2;
+
+/**
+ * AI发起围城的最低胜率（低于强攻阈值但足以长期围困）
+ */
+export const AI_SIEGE_MIN_SUCCESS_PROBABILITY = 0.3;
+
+/**
+ * AI出城突击或解围所需的兵力优势倍数
+ */
+export const AI_SIEGE_BREAK_TROOPS_RATIO = 1.2;
+
+/**
+ * 解围方式：出城突击或援军解围
+ */
+export type SiegeBreakMode = 'sally' | 'relief';
+
+/**
+ * 解围指令接口
+ */
+export interface SiegeBreakOrder {
+  /** 围城ID */
+  siegeId: string;
+  /** 出兵城市ID（突击为被围城市，解围为相邻城市） */
+  fromCityId: string;
+  /** 出战武将ID列表 */
+  generalIds: string[];
+}
+
+/**
+ * 解围战斗结果接口
+ */
+export interface SiegeBreakResult {
+  /** 是否成功执行 */
+  success: boolean;
+  /** 解围方式 */
+  mode: SiegeBreakMode;
+  /** 战斗结果（出战方视角） */
+  result: 'win' | 'lose' | 'draw';
+  /** 出战方主将ID */
+  attackerGeneral: string;
+  /** 围城方主将ID */
+  defenderGeneral: string;
+  /** 出战方伤亡 */
+  attackerCasualties: number;
+  /** 围城方伤亡 */
+  defenderCasualties: number;
+  /** 出战方各兵种伤亡 */
+  attackerCasualtiesByType: TroopComposition;
+  /** 围城方各兵种伤亡 */
+  defenderCasualtiesByType: TroopComposition;
+  /** 单挑结果 */
+  duel: DuelResult;
+  /** 出战方战后士气 */
+  attackerMorale: number;
+  /** 围城方战后士气 */
+  defenderMorale: number;
+  /** 因士气崩溃而溃退的一方 */
+  routed: 'attacker' | 'defender' | null;
+  /** 逐回合战斗记录 */
+  rounds: BattleRoundLog[];
+  /** 双方主将发动的特技 */
+  skills?: SkillTrigger[];
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 每月围城结算结果
+ */
+export interface SiegeTurnResult {
+  /** 更新后的游戏状态 */
+  state: GameState;
+  /** 围城产生的事件 */
+  events: GameEvent[];
+}
+
+/**
+ * 获取进行中的围城列表（兼容缺省字段的旧存档）
+ */
+export function getSieges(gameState: GameState): Siege[] {
+  return gameState.sieges ?? [];
+}
+
+/**
+ * 获取围困指定城市的围城
+ * @param gameState - 游戏状态
+ * @param cityId - 城市ID
+ * @returns 围城或undefined
+ */
+export function getCitySiege(gameState: GameState, cityId: string): Siege | undefined {
+  return getSieges(gameState).find((siege) => siege.targetCityId === cityId);
+}
+
+/**
+ * 判断城市是否被围
+ */
+export function isCityBesieged(gameState: GameState, cityId: string): boolean {
+  return getCitySiege(gameState, cityId) !== undefined;
+}
+
+/**
+ * 判断武将是否正在围城
+ */
+export function isGeneralBesieging(gameState: GameState, generalId: string): boolean {
+  return getSieges(gameState).some((siege) => siege.generalIds.includes(generalId));
+}
+
+/**
+ * 获取围城部队中仍然有效的武将（存活、仍驻扎在出发城市且有兵力）
+ * @param siege - 围城
+ * @param gameState - 游戏状态
+ * @returns 围城武将列表
+ */
+export function getSiegeGenerals(siege: Siege, gameState: GameState): General[] {
+  const camp = gameState.cities[siege.campCityId];
+  if (!camp) return [];
+
+  return siege.generalIds
+    .map((id) => gameState.generals[id])
+    .filter(
+      (g): g is General =>
+        g !== undefined &&
+        g.isAlive &&
+        g.faction === siege.attackerFaction &&
+        g.troops > 0 &&
+        camp.stationedGenerals.includes(g.id)
+    );
+}
+
+/**
+ * 获取围城部队士气（旧存档缺省时按出发城市重新计算）
+ * @param siege - 围城
+ * @param gameState - 游戏状态
+ * @returns 围城部队士气
+ */
+export function getSiegeMorale(siege: Siege, gameState: GameState): number {
+  if (siege.morale !== undefined) return siege.morale;
+  const camp = gameState.cities[siege.campCityId];
+  if (!camp) return BASE_ARMY_MORALE;
+  return calculateCityArmyMorale(
+    getSiegeGenerals(siege, gameState),
+    camp,
+    gameState.factions[siege.attackerFaction]
+  );
+}
+
+/**
+ * 计算每月城防削减
+ * 公式: 3 + 兵力 ÷ 5000 + 器械 ÷ 500，上限20
+ * @param composition - 围城部队兵种构成
+ * @returns 城防削减值
+ */
+export function calculateSiegeDefenseDamage(composition: TroopComposition): number {
+  const damage =
+    SIEGE_BASE_DEFENSE_DAMAGE +
+    Math.floor(sumComposition(composition) / SIEGE_TROOPS_PER_DEFENSE_POINT) +
+    Math.floor(composition.siege / SIEGE_ENGINES_PER_DEFENSE_POINT);
+  return Math.min(SIEGE_MAX_DEFENSE_DAMAGE, damage);
+}
+
+/**
+ * 计算围城一个月的粮食消耗
+ * @param troops - 兵力
+ * @returns 粮食消耗
+ */
+export function calculateSiegeGrainConsumption(troops: number): number {
+  return Math.ceil(troops * SIEGE_GRAIN_PER_SOLDIER);
+}
+
+/**
+ * 校验围城指令
+ * 在出征校验基础上，要求目标未被围、武将未在围城中且兵力达到下限
+ * @param order - 围城指令（与出征指令相同）
+ * @param gameState - 游戏状态
+ * @returns 错误信息，合法时返回null
+ */
+export function validateSiegeOrder(order: CampaignOrder, gameState: GameState): string | null {
+  const error = validateCampaignOrder(order, gameState);
+  if (error) return error;
+
+  if (order.pincer) return '围城须由一路兵马驻营';
+  if (isCityBesieged(gameState, order.toCityId)) return '目标城市已被围困';
+  if (order.generalIds.some((id) => isGeneralBesieging(gameState, id))) {
+    return '所选武将正在围城';
+  }
+
+  const troops = order.generalIds.reduce((sum, id) => sum + gameState.generals[id].troops, 0);
+  if (troops < SIEGE_MIN_TROOPS) return `围城至少需要${SIEGE_MIN_TROOPS}兵力`;
+
+  return null;
+}
+
+/**
+ * 发起围城
+ * @param gameState - 当前游戏状态
+ * @param order - 围城指令
+ * @returns 更新后的游戏状态（指令非法时原样返回）
+ */
+export function beginSiege(gameState: GameState, order: CampaignOrder): GameState {
+  if (validateSiegeOrder(order, gameState)) return gameState;
+
+  const camp = gameState.cities[order.fromCityId];
+  const siege: Siege = {
+    id: generateId('siege'),
+    attackerFaction: camp.faction,
+    campCityId: order.fromCityId,
+    targetCityId: order.toCityId,
+    generalIds: [...order.generalIds],
+    startDate: { ...gameState.currentDate },
+    months: 0,
+    morale: calculateCityArmyMorale(
+      order.generalIds.map((id) => gameState.generals[id]),
+      camp,
+      gameState.factions[camp.faction]
+    ),
+  };
+
+  return {
+    ...gameState,
+    sieges: [...getSieges(gameState), siege],
+  };
+}
+
+/**
+ * 撤除围城
+ * @param gameState - 当前游戏状态
+ * @param siegeId - 围城ID
+ * @returns 更新后的游戏状态
+ */
+export function withdrawSiege(gameState: GameState, siegeId: string): GameState {
+  return {
+    ...gameState,
+    sieges: getSieges(gameState).filter((siege) => siege.id !== siegeId),
+  };
+}
+
+/**
+ * 判断解围方式
+ * 从被围城市出兵为出城突击；从相邻的己方或同盟城市出兵为援军解围
+ * @param siege - 围城
+ * @param fromCity - 出兵城市
+ * @param gameState - 游戏状态
+ * @returns 解围方式，不可解围时返回null
+ */
+export function getSiegeBreakMode(
+  siege: Siege,
+  fromCity: City,
+  gameState: GameState
+): SiegeBreakMode | null {
+  const target = gameState.cities[siege.targetCityId];
+  if (!target) return null;
+
+  if (fromCity.id === target.id) return 'sally';
+
+  const isFriendly =
+    fromCity.faction === target.faction ||
+    getDiplomacyStatus(gameState, fromCity.faction, target.faction) === 'ally';
+  const isAdjacent =
+    fromCity.connectedCities.includes(target.id) ||
+    fromCity.connectedCities.includes(siege.campCityId);
+
+  return isFriendly && isAdjacent && fromCity.faction !== siege.attackerFaction ? 'relief' : null;
+}
+
+/**
+ * 校验解围指令
+ * @param order - 解围指令
+ * @param gameState - 游戏状态
+ * @returns 错误信息，合法时返回null
+ */
+export function validateSiegeBreakOrder(
+  order: SiegeBreakOrder,
+  gameState: GameState
+): string | null {
+  const siege = getSieges(gameState).find((s) => s.id === order.siegeId);
+  if (!siege) return '围城不存在';
+
+  const fromCity = gameState.cities[order.fromCityId];
+  if (!fromCity) return '城市不存在';
+  if (!getSiegeBreakMode(siege, fromCity, gameState)) return '该城市无法出兵解围';
+  if (order.generalIds.length === 0) return '请选择出战武将';
+
+  for (const generalId of order.generalIds) {
+    const general = gameState.generals[generalId];
+    if (!general || !general.isAlive || !fromCity.stationedGenerals.includes(generalId)) {
+      return '出战武将不在出兵城市';
+    }
+    if (isGeneralMarching(gameState, generalId)) {
+      return '出战武将正在行军';
+    }
+  }
+
+  const troops = order.generalIds.reduce((sum, id) => sum + gameState.generals[id].troops, 0);
+  if (troops <= 0) return '出战部队没有兵力';
+
+  return null;
+}
+
+/**
+ * 执行解围战斗
+ * 出战部队与围城部队野战，双方均无城防加成
+ * @param order - 解围指令
+ * @param gameState - 游戏状态
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 解围结果
+ */
+export function executeSiegeBreak(
+  order: SiegeBreakOrder,
+  gameState: GameState,
+  random: () => number = Math.random
+): SiegeBreakResult {
+  const error = validateSiegeBreakOrder(order, gameState);
+  const siege = getSieges(gameState).find((s) => s.id === order.siegeId);
+
+  if (error || !siege) {
+    return {
+      success: false,
+      mode: 'relief',
+      result: 'lose',
+      attackerGeneral: '',
+      defenderGeneral: '',
+      attackerCasualties: 0,
+      defenderCasualties: 0,
+      attackerCasualtiesByType: createComposition(),
+      defenderCasualtiesByType: createComposition(),
+      duel: { triggered: false, instantKill: false },
+      attackerMorale: BASE_ARMY_MORALE,
+      defenderMorale: BASE_ARMY_MORALE,
+      routed: null,
+      rounds: [],
+      error: error ?? '围城不存在',
+    };
+  }
+
+  const fromCity = gameState.cities[order.fromCityId];
+  const mode = getSiegeBreakMode(siege, fromCity, gameState)!;
+  const breakers = order.generalIds.map((id) => gameState.generals[id]);
+  const besiegers = getSiegeGenerals(siege, gameState);
+  const leader = getCampaignLeader(breakers)!;
+  const siegeLeader = getCampaignLeader(besiegers);
+
+  const battle = resolveBattle({
+    attacker: toBattleCommander(leader),
+    attackerTroops: breakers.reduce((sum, g) => sum + g.troops, 0),
+    attackerComposition: getCampaignComposition(breakers),
+    attackerMorale: calculateCityArmyMorale(breakers, fromCity, gameState.factions[fromCity.faction]),
+    defender: siegeLeader ? toBattleCommander(siegeLeader) : null,
+    defenderTroops: besiegers.reduce((sum, g) => sum + g.troops, 0),
+    defenderComposition: getCampaignComposition(besiegers),
+    defenderMorale: getSiegeMorale(siege, gameState),
+    cityDefense: 0,
+    random,
+  });
+
+  return {
+    success: true,
+    mode,
+    result: battle.result,
+    attackerGeneral: leader.id,
+    defenderGeneral: siegeLeader?.id || '',
+    attackerCasualties: battle.attackerCasualties,
+    defenderCasualties: battle.defenderCasualties,
+    attackerCasualtiesByType: battle.attackerCasualtiesByType,
+    defenderCasualtiesByType: battle.defenderCasualtiesByType,
+    duel: battle.duel,
+    attackerMorale: battle.attackerMorale,
+    defenderMorale: battle.defenderMorale,
+    routed: battle.routed,
+    rounds: battle.rounds,
+    skills: battle.skills,
+  };
+}
+
+/**
+ * 将解围结果应用到游戏状态
+ * 扣减双方兵力，出战方获胜或围城部队士气崩溃时围城解除
+ * @param gameState - 当前游戏状态
+ * @param order - 解围指令
+ * @param result - 解围结果
+ * @returns 更新后的游戏状态
+ */
+export function applySiegeBreakResult(
+  gameState: GameState,
+  order: SiegeBreakOrder,
+  result: SiegeBreakResult
+): GameState {
+  if (!result.success) return gameState;
+
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const siege = getSieges(newState).find((s) => s.id === order.siegeId);
+  if (!siege) return gameState;
+
+  const breakers = order.generalIds
+    .map((id) => newState.generals[id])
+    .filter((g): g is General => g !== undefined);
+  applyCasualtiesByType(breakers, result.attackerCasualtiesByType);
+  applyCasualtiesByType(getSiegeGenerals(siege, newState), result.defenderCasualtiesByType);
+
+  siege.morale = result.defenderMorale;
+  if (result.result === 'win' || isRouted(result.defenderMorale)) {
+    newState.sieges = getSieges(newState).filter((s) => s.id !== siege.id);
+  }
+
+  return newState;
+}
+
+/**
+ * 生成围城相关战斗事件
+ * @param params - 事件参数
+ * @returns 战斗事件
+ */
+function createSiegeEvent(params: {
+  gameState: GameState;
+  attacker: string;
+  defender: string;
+  attackerGeneral: string;
+  defenderGeneral: string;
+  result: 'win' | 'lose' | 'draw';
+  casualties: { attacker: number; defender: number };
+  casualtiesByType?: BattleEventData['casualtiesByType'];
+  duel?: DuelResult;
+  cityCapture?: string;
+  morale?: BattleEventData['morale'];
+  retreat?: BattleEventData['retreat'];
+  captured?: string[];
+  rounds?: BattleRoundLog[];
+  skills?: SkillTrigger[];
+  siege: NonNullable<BattleEventData['siege']>;
+}): GameEvent {
+  const data: BattleEventData = {
+    attacker: params.attacker,
+    defender: params.defender,
+    attackerGeneral: params.attackerGeneral,
+    defenderGeneral: params.defenderGeneral,
+    result: params.result,
+    casualties: params.casualties,
+    casualtiesByType: params.casualtiesByType,
+    cityCapture: params.cityCapture,
+    siege: params.siege,
+    morale: params.morale,
+    retreat: params.retreat,
+  };
+
+  if (params.captured && params.captured.length > 0) {
+    data.captured = params.captured;
+  }
+
+  if (params.rounds && params.rounds.length > 0) {
+    data.rounds = toBattleRoundRecords(
+      params.rounds,
+      params.attackerGeneral,
+      params.defenderGeneral
+    );
+  }
+
+  if (params.skills && params.skills.length > 0) {
+    data.skills = params.skills;
+  }
+
+  if (params.duel?.triggered) {
+    data.duel = {
+      occurred: true,
+      winner: params.duel.winner,
+      instantKill: params.duel.instantKill,
+    };
+  }
+
+  return {
+    id: generateId('siege_event'),
+    type: 'battle',
+    timestamp: { ...params.gameState.currentDate },
+    data,
+  };
+}
+
+/**
+ * 生成围城开始事件
+ * @param order - 围城指令
+ * @param gameState - 发起围城前的游戏状态
+ * @returns 战斗事件
+ */
+export function createSiegeStartEvent(order: CampaignOrder, gameState: GameState): GameEvent {
+  const generals = order.generalIds.map((id) => gameState.generals[id]).filter(Boolean);
+  const target = gameState.cities[order.toCityId];
+  const defender = getStrongestGeneral(target, gameState.generals);
+
+  return createSiegeEvent({
+    gameState,
+    attacker: gameState.cities[order.fromCityId].faction,
+    defender: target.faction,
+    attackerGeneral: getCampaignLeader(generals)?.id || '',
+    defenderGeneral: defender?.id || '',
+    result: 'draw',
+    casualties: { attacker: 0, defender: 0 },
+    siege: { city: order.toCityId, phase: 'start', months: 0 },
+  });
+}
+
+/**
+ * 生成围城结束事件（撤围）
+ * @param siege - 围城
+ * @param gameState - 撤围前的游戏状态
+ * @returns 战斗事件
+ */
+export function createSiegeWithdrawEvent(siege: Siege, gameState: GameState): GameEvent {
+  const target = gameState.cities[siege.targetCityId];
+  const leader = getCampaignLeader(getSiegeGenerals(siege, gameState));
+  const defender = target ? getStrongestGeneral(target, gameState.generals) : null;
+
+  return createSiegeEvent({
+    gameState,
+    attacker: siege.attackerFaction,
+    defender: target?.faction || '',
+    attackerGeneral: leader?.id || siege.generalIds[0] || '',
+    defenderGeneral: defender?.id || '',
+    result: 'lose',
+    casualties: { attacker: 0, defender: 0 },
+    siege: { city: siege.targetCityId, phase: 'end', months: siege.months, outcome: 'withdrawn' },
+  });
+}
+
+/**
+ * 生成解围战斗事件
+ * @param order - 解围指令
+ * @param result - 解围结果
+ * @param gameState - 解围前的游戏状态
+ * @returns 战斗事件
+ */
+export function createSiegeBreakEvent(
+  order: SiegeBreakOrder,
+  result: SiegeBreakResult,
+  gameState: GameState
+): GameEvent {
+  const siege = getSieges(gameState).find((s) => s.id === order.siegeId)!;
+  const outcome: SiegeOutcome = result.mode === 'sally' ? 'broken' : 'relieved';
+
+  return createSiegeEvent({
+    gameState,
+    attacker: gameState.cities[order.fromCityId].faction,
+    defender: siege.attackerFaction,
+    attackerGeneral: result.attackerGeneral,
+    defenderGeneral: result.defenderGeneral,
+    result: result.result,
+    casualties: { attacker: result.attackerCasualties, defender: result.defenderCasualties },
+    casualtiesByType: {
+      attacker: result.attackerCasualtiesByType,
+      defender: result.defenderCasualtiesByType,
+    },
+    duel: result.duel,
+    morale: { attacker: result.attackerMorale, defender: result.defenderMorale },
+    rounds: result.rounds,
+    skills: result.skills,
+    retreat:
+      result.result === 'draw'
+        ? undefined
+        : result.result === 'lose'
+          ? { side: 'attacker', toCity: order.fromCityId, routed: result.routed === 'attacker' }
+          : { side: 'defender', toCity: siege.campCityId, routed: result.routed === 'defender' },
+    siege: {
+      city: siege.targetCityId,
+      phase: result.result === 'win' ? 'end' : 'assault',
+      months: siege.months,
+      outcome: result.result === 'win' ? outcome : undefined,
+    },
+  });
+}
+
+/**
+ * 城破或投降后，守城武将的处理
+ * 投降时守军放下武器，兵力清零
+ */
+function disarmGarrison(state: GameState, city: City): void {
+  for (const generalId of city.stationedGenerals) {
+    const general = state.generals[generalId];
+    if (general && general.faction === city.faction) {
+      general.troops = 0;
+      general.troopTypes = createComposition();
+    }
+  }
+}
+
+/**
+ * 结算一个月的围城
+ * 围城部队消耗出发城市粮草、士气逐月下降；被围城市城防下降、粮草被消耗、民忠下降且七月无粮食收入。
+ * 城防耗尽时围城部队强攻；守军覆灭即城破；粮尽或民忠崩溃时开城投降；围城部队士气崩溃则撤围。
+ * @param gameState - 当前游戏状态
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 更新后的游戏状态与围城事件
+ */
+export function processSieges(
+  gameState: GameState,
+  random: () => number = Math.random
+): SiegeTurnResult {
+  const sieges = getSieges(gameState);
+  if (sieges.length === 0) return { state: gameState, events: [] };
+
+  const state: GameState = JSON.parse(JSON.stringify(gameState));
+  const events: GameEvent[] = [];
+  const remaining: Siege[] = [];
+
+  const endSiege = (
+    siege: Siege,
+    outcome: SiegeOutcome,
+    extra: Partial<Parameters<typeof createSiegeEvent>[0]> = {}
+  ) => {
+    const target = state.cities[siege.targetCityId];
+    const leader = getCampaignLeader(getSiegeGenerals(siege, state));
+    events.push(
+      createSiegeEvent({
+        gameState: state,
+        attacker: siege.attackerFaction,
+        defender: target.faction,
+        attackerGeneral: leader?.id || siege.generalIds[0] || '',
+        defenderGeneral: getStrongestGeneral(target, state.generals)?.id || '',
+        result: outcome === 'captured' || outcome === 'surrendered' ? 'win' : 'lose',
+        casualties: { attacker: 0, defender: 0 },
+        siege: { city: siege.targetCityId, phase: 'end', months: siege.months, outcome },
+        ...extra,
+      })
+    );
+  };
+
+  for (const original of sieges) {
+    const siege: Siege = {
+      ...original,
+      months: original.months + 1,
+      morale: clampMorale(getSiegeMorale(original, state) - SIEGE_MORALE_DECAY),
+    };
+    const camp = state.cities[siege.campCityId];
+    const target = state.cities[siege.targetCityId];
+
+    // 城池已易主或出发城市失守：围城自然解除
+    if (!camp || !target || camp.faction !== siege.attackerFaction) continue;
+    if (target.faction === siege.attackerFaction) continue;
+
+    // 双方已结盟或停战：围城随之解除
+    if (
+      getDiplomacyStatus(state, siege.attackerFaction, target.faction) !== 'hostile' ||
+      getActiveTruce(state, siege.attackerFaction, target.faction)
+    ) {
+      continue;
+    }
+
+    const besiegers = getSiegeGenerals(siege, state);
+    siege.generalIds = besiegers.map((g) => g.id);
+    const siegeTroops = besiegers.reduce((sum, g) => sum + g.troops, 0);
+
+    // 围城部队溃散、粮草断绝或士气崩溃：撤围
+    const supply = calculateSiegeGrainConsumption(siegeTroops);
+    if (besiegers.length === 0 || camp.resources.grain < supply || isRouted(siege.morale!)) {
+      endSiege(siege, 'withdrawn', {
+        retreat: { side: 'attacker', toCity: camp.id, routed: isRouted(siege.morale!) },
+      });
+      continue;
+    }
+    camp.resources.grain -= supply;
+
+    // 城防下降
+    const composition = getCampaignComposition(besiegers);
+    target.resources.defense = Math.max(
+      0,
+      target.resources.defense - calculateSiegeDefenseDamage(composition)
+    );
+
+    // 被围城市消耗粮草、民心动摇
+    const garrisonTroops = calculateCityTroops(target, state.generals);
+    target.resources.grain = Math.max(
+      0,
+      target.resources.grain - calculateSiegeGrainConsumption(garrisonTroops)
+    );
+    target.resources.loyalty = Math.max(0, target.resources.loyalty - SIEGE_LOYALTY_DECREASE);
+
+    const defender = getStrongestGeneral(target, state.generals);
+    const leader = getCampaignLeader(besiegers)!;
+
+    // 城池陷落时守将可能被俘
+    const rollFallenCaptures = (battle: Parameters<typeof rollCaptures>[1]) =>
+      rollCaptures(state, battle, { toCityId: target.id, generalIds: siege.generalIds }, random);
+
+    // 守军覆灭：城破
+    if (garrisonTroops <= 0 || !defender) {
+      const captured = rollFallenCaptures({ result: 'win', routed: 'defender' });
+      endSiege(siege, 'captured', { cityCapture: target.id, captured });
+      transferCityControl(state, {
+        factionId: siege.attackerFaction,
+        fromCityId: camp.id,
+        toCityId: target.id,
+        generalIds: siege.generalIds,
+        captured,
+      });
+      continue;
+    }
+
+    // 粮尽或民心崩溃：开城投降
+    if (
+      target.resources.grain <= 0 ||
+      target.resources.loyalty <= SIEGE_SURRENDER_LOYALTY
+    ) {
+      const captured = rollFallenCaptures({ result: 'win', routed: 'defender' });
+      endSiege(siege, 'surrendered', { cityCapture: target.id, captured });
+      disarmGarrison(state, target);
+      transferCityControl(state, {
+        factionId: siege.attackerFaction,
+        fromCityId: camp.id,
+        toCityId: target.id,
+        generalIds: siege.generalIds,
+        captured,
+      });
+      continue;
+    }
+
+    // 城防耗尽：围城部队强攻
+    if (target.resources.defense <= 0) {
+      const battle = resolveBattle({
+        attacker: toBattleCommander(leader),
+        attackerTroops: siegeTroops,
+        attackerComposition: composition,
+        attackerMorale: siege.morale,
+        defender: toBattleCommander(defender),
+        defenderTroops: garrisonTroops,
+        defenderComposition: calculateCityTroopComposition(target, state.generals),
+        defenderMorale: calculateCityArmyMorale(
+          getCityDefenders(target, state.generals),
+          target,
+          state.factions[target.faction]
+        ),
+        cityDefense: 0,
+        random,
+      });
+      siege.morale = battle.attackerMorale;
+
+      applyCasualtiesByType(besiegers, battle.attackerCasualtiesByType);
+      applyCasualtiesByType(
+        getCityDefenders(target, state.generals),
+        battle.defenderCasualtiesByType
+      );
+
+      const captured = battle.result === 'win';
+      const routed = battle.routed === 'attacker';
+      const capturedGenerals = captured ? rollFallenCaptures(battle) : [];
+      events.push(
+        createSiegeEvent({
+          gameState: state,
+          attacker: siege.attackerFaction,
+          defender: target.faction,
+          attackerGeneral: leader.id,
+          defenderGeneral: defender.id,
+          result: battle.result,
+          casualties: { attacker: battle.attackerCasualties, defender: battle.defenderCasualties },
+          casualtiesByType: {
+            attacker: battle.attackerCasualtiesByType,
+            defender: battle.defenderCasualtiesByType,
+          },
+          duel: battle.duel,
+          cityCapture: captured ? target.id : undefined,
+          morale: { attacker: battle.attackerMorale, defender: battle.defenderMorale },
+          retreat: routed ? { side: 'attacker', toCity: camp.id, routed } : undefined,
+          captured: capturedGenerals,
+          rounds: battle.rounds,
+          skills: battle.skills,
+          siege: {
+            city: target.id,
+            phase: captured || routed ? 'end' : 'assault',
+            months: siege.months,
+            outcome: captured ? 'captured' : routed ? 'withdrawn' : undefined,
+          },
+        })
+      );
+
+      // 强攻失利且士气崩溃：撤围
+      if (routed) continue;
+
+      if (captured) {
+        transferCityControl(state, {
+          factionId: siege.attackerFaction,
+          fromCityId: camp.id,
+          toCityId: target.id,
+          generalIds: siege.generalIds,
+          captured: capturedGenerals,
+        });
+        continue;
+      }
+    }
+
+    remaining.push(siege);
+  }
+
+  // 城池易主可能使其他围城失效（出发城市失守或目标已归己方）
+  state.sieges = remaining.filter(
+    (siege) =>
+      state.cities[siege.campCityId]?.faction === siege.attackerFaction &&
+      state.cities[siege.targetCityId]?.faction !== siege.attackerFaction
+  );
+
+  return { state, events };
+}
+
+/**
+ * 执行AI势力的围城决策
+ * 被围时兵力占优则出城突击，相邻城市兵力占优则出兵解围；
+ * 强攻胜算不足但尚可一战的目标则发起围城。每个势力每回合最多一次围城行动。
+ * @param gameState - 游戏状态
+ * @param playerFactionId - 玩家势力ID（跳过）
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 更新后的游戏状态与事件
+ */
+export function executeAISieges(
+  gameState: GameState,
+  playerFactionId: string,
+  random: () => number = Math.random
+): SiegeTurnResult {
+  let state = gameState;
+  const events: GameEvent[] = [];
+
+  for (const [factionId, faction] of Object.entries(gameState.factions)) {
+    if (factionId === playerFactionId || faction.cities.length === 0) continue;
+
+    const acted = tryAISiegeBreak(state, factionId, random) ?? tryAIBeginSiege(state, factionId);
+    if (acted) {
+      state = acted.state;
+      events.push(...acted.events);
+    }
+  }
+
+  return { state, events };
+}
+
+/**
+ * AI尝试出城突击或援军解围
+ */
+function tryAISiegeBreak(
+  state: GameState,
+  factionId: string,
+  random: () => number
+): SiegeTurnResult | null {
+  const faction = state.factions[factionId];
+
+  for (const siege of getSieges(state)) {
+    const target = state.cities[siege.targetCityId];
+    if (!target || target.faction !== factionId) continue;
+
+    const siegeTroops = getSiegeGenerals(siege, state).reduce((sum, g) => sum + g.troops, 0);
+
+    // 依次考虑被围城市本身（突击）与相邻己方城市（解围）
+    const candidates = [target.id, ...target.connectedCities]
+      .map((id) => state.cities[id])
+      .filter((city): city is City => city !== undefined && faction.cities.includes(city.id));
+
+    for (const city of candidates) {
+      const general = getStrongestGeneral(city, state.generals);
+      if (!general || isGeneralBesieging(state, general.id)) continue;
+      if (general.troops < siegeTroops * AI_SIEGE_BREAK_TROOPS_RATIO) continue;
+
+      const order: SiegeBreakOrder = {
+        siegeId: siege.id,
+        fromCityId: city.id,
+        generalIds: [general.id],
+      };
+      const result = executeSiegeBreak(order, state, random);
+      if (!result.success) continue;
+
+      return {
+        state: applySiegeBreakResult(state, order, result),
+        events: [createSiegeBreakEvent(order, result, state)],
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * AI尝试发起围城
+ */
+function tryAIBeginSiege(state: GameState, factionId: string): SiegeTurnResult | null {
+  const faction = state.factions[factionId];
+
+  for (const cityId of faction.cities) {
+    const city = state.cities[cityId];
+    if (!city) continue;
+
+    const general = getStrongestGeneral(city, state.generals);
+    if (!general || isGeneralBesieging(state, general.id)) continue;
+
+    for (const targetId of city.connectedCities) {
+      const target = state.cities[targetId];
+      if (!target || getDiplomacyStatus(state, factionId, target.faction) !== 'hostile') continue;
+
+      const evaluation = evaluateAttackTarget(city, target, state);
+      if (evaluation.successProbability < AI_SIEGE_MIN_SUCCESS_PROBABILITY) continue;
+
+      const order: CampaignOrder = {
+        fromCityId: cityId,
+        toCityId: targetId,
+        generalIds: [general.id],
+      };
+      // 以AI势力视角校验与发起围城，完成后恢复玩家势力
+      const aiView: GameState = { ...state, currentFaction: factionId };
+      if (validateSiegeOrder(order, aiView)) continue;
+
+      return {
+        state: { ...beginSiege(aiView, order), currentFaction: state.currentFaction },
+        events: [createSiegeStartEvent(order, state)],
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,243 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  FEIJIANG_DUEL_WAR_BONUS,
+  GUIMOU_CHANCE_BONUS,
+  HUOJI_CHANCE_BONUS,
+  SHENSU_ATTACK_BONUS,
+  TUNTIAN_DEVELOPMENT_MULTIPLIER,
+  applyCasualtySkills,
+  getDevelopmentMultiplier,
+  getDuelWar,
+  getRecruitmentMultiplier,
+  getStratagemChanceBonus,
+} from './skills';
+import { calculateAttackPower, resolveBattle, type BattleCommander } from './battle';
+import { calculateDevelopmentIncrease, calculateRecruitmentSoldiers } from './domestic';
+import {
+  calculateStratagemChance,
+  calculateStratagemEffect,
+  createStratagemEvent,
+  type StratagemOrder,
+} from './stratagem';
+import { checkCampaignDuel } from './campaign';
+import { buildBattlePrompt, buildStratagemPrompt } from '../services/llm/historianPrompt';
+import { createTestState } from '../test/fixtures';
+import type { SkillId } from '../types/skill';
+import type { StratagemType } from '../types/events';
+
+const attributeArb = fc.integer({ min: 1, max: 100 });
+const skillsArb = fc.subarray<SkillId>([
+  'shensu',
+  'huoji',
+  'tuntian',
+  'mingyi',
+  'guimou',
+  'feijiang',
+  'rende',
+]);
+const stratagemArb = fc.constantFrom<StratagemType>('rumor', 'discord', 'revolt', 'fire', 'bribe');
+
+const context = {
+  getGeneralName: (id: string) => id,
+  getCityName: (id: string) => id,
+  getFactionName: (id: string) => id,
+};
+
+/**
+ * **Feature: sanguo-190, Property 42: 武将特技**
+ * *For any* 身怀特技的武将，神速提升攻击力、名医减少伤亡、飞将提升单挑武力，
+ * 屯田提升农业开发、仁德提升征兵、鬼谋与火计提升计略成功率，无特技者数值不变；
+ * 战斗与计略中发动的特技记入事件并写入史官提示词。
+ */
+describe('Property 42: 武将特技', () => {
+  it('should scale battle numbers only for generals with the matching skill', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 100, max: 50000 }),
+        attributeArb,
+        attributeArb,
+        skillsArb,
+        (troops, war, lead, skills) => {
+          const base = calculateAttackPower(troops, war, lead);
+          const boosted = calculateAttackPower(troops, war, lead, 'infantry', skills);
+          const expected = skills.includes('shensu') ? base * (1 + SHENSU_ATTACK_BONUS) : base;
+          expect(boosted).toBeCloseTo(expected, 6);
+
+          const casualties = applyCasualtySkills(troops, skills);
+          expect(casualties).toBeLessThanOrEqual(troops);
+          expect(casualties < troops).toBe(skills.includes('mingyi'));
+
+          expect(getDuelWar(war, skills)).toBe(
+            war + (skills.includes('feijiang') ? FEIJIANG_DUEL_WAR_BONUS : 0)
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should apply the feijiang duel bonus when checking campaign duels', () => {
+    fc.assert(
+      fc.property(skillsArb, (skills) => {
+        const state = createTestState();
+        for (const id of state.cities.luoyang.stationedGenerals) {
+          state.generals[id].attributes.war = 80;
+          state.generals[id].skills = [];
+        }
+        // 武力相差15：本不足以单挑，飞将加成后方可触发
+        state.generals.caoren.attributes.war = 65;
+        state.generals.caoren.skills = skills;
+
+        const duel = checkCampaignDuel(
+          { fromCityId: 'chenliu', toCityId: 'luoyang', generalIds: ['caoren'] },
+          state,
+          () => 0
+        );
+        expect(duel !== null).toBe(skills.includes('feijiang'));
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should boost domestic output only with tuntian on agriculture and rende on recruitment', () => {
+    fc.assert(
+      fc.property(
+        attributeArb,
+        attributeArb,
+        fc.integer({ min: 1, max: 5 }),
+        skillsArb,
+        fc.constantFrom<'commerce' | 'agriculture' | 'defense'>(
+          'commerce',
+          'agriculture',
+          'defense'
+        ),
+        (pol, cha, roll, skills, target) => {
+          const base = calculateDevelopmentIncrease(pol, roll);
+          const boosted = calculateDevelopmentIncrease(
+            pol,
+            roll,
+            getDevelopmentMultiplier(skills, target)
+          );
+          if (target === 'agriculture' && skills.includes('tuntian')) {
+            expect(boosted).toBe(Math.floor(base * TUNTIAN_DEVELOPMENT_MULTIPLIER));
+          } else {
+            expect(boosted).toBe(base);
+          }
+
+          const soldiers = calculateRecruitmentSoldiers(pol, cha);
+          const recruited = calculateRecruitmentSoldiers(
+            pol,
+            cha,
+            getRecruitmentMultiplier(skills)
+          );
+          expect(recruited > soldiers).toBe(skills.includes('rende'));
+          expect(recruited).toBeGreaterThanOrEqual(soldiers);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should raise stratagem odds with guimou and huoji and record them in the chronicle', () => {
+    fc.assert(
+      fc.property(skillsArb, stratagemArb, (skills, stratagem) => {
+        const expected =
+          (skills.includes('guimou') ? GUIMOU_CHANCE_BONUS : 0) +
+          (stratagem === 'fire' && skills.includes('huoji') ? HUOJI_CHANCE_BONUS : 0);
+        expect(getStratagemChanceBonus(skills, stratagem)).toBeCloseTo(expected, 6);
+
+        const state = createTestState();
+        state.generals.caohong.skills = skills;
+        const order: StratagemOrder = {
+          stratagem,
+          executorId: 'caohong',
+          targetCityId: 'luoyang',
+          targetGeneralId: 'lvbu',
+        };
+        const plain = createTestState();
+        plain.generals.caohong.skills = [];
+        expect(calculateStratagemChance(order, state)).toBeGreaterThanOrEqual(
+          calculateStratagemChance(order, plain)
+        );
+        expect(calculateStratagemEffect(order, state)).toBeLessThanOrEqual(
+          stratagem === 'fire' ? state.cities.luoyang.resources.grain : Infinity
+        );
+
+        const event = createStratagemEvent(
+          order,
+          { success: true, stratagem, succeeded: true, value: 10, goldSpent: 0 },
+          state
+        );
+        const fired = (event?.data as { skills?: { skill: SkillId }[] }).skills ?? [];
+        expect(fired.some((s) => s.skill === 'guimou')).toBe(skills.includes('guimou'));
+        expect(fired.some((s) => s.skill === 'huoji')).toBe(
+          stratagem === 'fire' && skills.includes('huoji')
+        );
+        expect(buildStratagemPrompt(event!, context).includes('特技：')).toBe(fired.length > 0);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should report the skills that fired in battle to the historian', () => {
+    fc.assert(
+      fc.property(skillsArb, skillsArb, (attackerSkills, defenderSkills) => {
+        const attacker: BattleCommander = {
+          id: 'lvbu',
+          war: 100,
+          lead: 90,
+          int: 30,
+          skills: attackerSkills,
+        };
+        const defender: BattleCommander = {
+          id: 'huaxiong',
+          war: 85,
+          lead: 70,
+          int: 40,
+          skills: defenderSkills,
+        };
+        const battle = resolveBattle({
+          attacker,
+          attackerTroops: 8000,
+          defender,
+          defenderTroops: 6000,
+          cityDefense: 30,
+          random: () => 0.99,
+        });
+
+        for (const trigger of battle.skills) {
+          const owner = trigger.general === 'lvbu' ? attackerSkills : defenderSkills;
+          expect(owner).toContain(trigger.skill);
+          expect(['shensu', 'mingyi', 'feijiang']).toContain(trigger.skill);
+        }
+        expect(battle.skills.some((s) => s.general === 'lvbu' && s.skill === 'shensu')).toBe(
+          attackerSkills.includes('shensu')
+        );
+
+        const prompt = buildBattlePrompt(
+          {
+            id: 'battle',
+            type: 'battle',
+            timestamp: { year: 190, month: 1 },
+            data: {
+              attacker: 'dongzhuo',
+              defender: 'caocao',
+              attackerGeneral: 'lvbu',
+              defenderGeneral: 'huaxiong',
+              result: battle.result,
+              casualties: {
+                attacker: battle.attackerCasualties,
+                defender: battle.defenderCasualties,
+              },
+              skills: battle.skills.length > 0 ? battle.skills : undefined,
+            },
+          },
+          context
+        );
+        expect(prompt.includes('特技：')).toBe(battle.skills.length > 0);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
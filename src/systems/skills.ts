@@ -0,0 +1,149 @@
+/**
+ * 特技系统 - 定义武将特技及其在战斗、内政与计略中的效果
+ * @module systems/skills
+ */
+
+import type { SkillId, SkillTrigger } from '../types/skill';
+import type { General } from '../types/general';
+import type { StratagemType } from '../types/events';
+
+/**
+ * 神速的攻击力加成
+ */
+export const SHENSU_ATTACK_BONUS = 0.15;
+
+/**
+ * 名医减少的战斗伤亡比例
+ */
+export const MINGYI_CASUALTY_REDUCTION = 0.2;
+
+/**
+ * 飞将的单挑武力加成
+ */
+export const FEIJIANG_DUEL_WAR_BONUS = 10;
+
+/**
+ * 屯田的农业开发倍率
+ */
+export const TUNTIAN_DEVELOPMENT_MULTIPLIER = 1.5;
+
+/**
+ * 仁德的征兵倍率
+ */
+export const RENDE_RECRUITMENT_MULTIPLIER = 1.2;
+
+/**
+ * 鬼谋的计略成功率加成
+ */
+export const GUIMOU_CHANCE_BONUS = 0.15;
+
+/**
+ * 火计的火计成功率加成
+ */
+export const HUOJI_CHANCE_BONUS = 0.2;
+
+/**
+ * 火计的焚粮倍率
+ */
+export const HUOJI_EFFECT_MULTIPLIER = 1.5;
+
+/**
+ * 判断是否身怀某项特技
+ */
+export function hasSkill(skills: SkillId[] | undefined, skill: SkillId): boolean {
+  return (skills ?? []).includes(skill);
+}
+
+/**
+ * 计算特技带来的攻击力倍率（神速）
+ */
+export function getAttackMultiplier(skills: SkillId[] | undefined): number {
+  return hasSkill(skills, 'shensu') ? 1 + SHENSU_ATTACK_BONUS : 1;
+}
+
+/**
+ * 计算特技减免后的战斗伤亡（名医）
+ */
+export function applyCasualtySkills(casualties: number, skills: SkillId[] | undefined): number {
+  return hasSkill(skills, 'mingyi')
+    ? Math.floor(casualties * (1 - MINGYI_CASUALTY_REDUCTION))
+    : casualties;
+}
+
+/**
+ * 计算单挑时的有效武力（飞将）
+ */
+export function getDuelWar(war: number, skills: SkillId[] | undefined): number {
+  return hasSkill(skills, 'feijiang') ? war + FEIJIANG_DUEL_WAR_BONUS : war;
+}
+
+/**
+ * 计算开发指令的特技倍率（屯田仅作用于农业）
+ */
+export function getDevelopmentMultiplier(
+  skills: SkillId[] | undefined,
+  target: 'commerce' | 'agriculture' | 'defense'
+): number {
+  return target === 'agriculture' && hasSkill(skills, 'tuntian')
+    ? TUNTIAN_DEVELOPMENT_MULTIPLIER
+    : 1;
+}
+
+/**
+ * 计算征兵的特技倍率（仁德）
+ */
+export function getRecruitmentMultiplier(skills: SkillId[] | undefined): number {
+  return hasSkill(skills, 'rende') ? RENDE_RECRUITMENT_MULTIPLIER : 1;
+}
+
+/**
+ * 计算计略成功率的特技加成（鬼谋作用于一切计略，火计仅作用于火计）
+ */
+export function getStratagemChanceBonus(
+  skills: SkillId[] | undefined,
+  stratagem: StratagemType
+): number {
+  let bonus = hasSkill(skills, 'guimou') ? GUIMOU_CHANCE_BONUS : 0;
+  if (stratagem === 'fire' && hasSkill(skills, 'huoji')) {
+    bonus += HUOJI_CHANCE_BONUS;
+  }
+  return bonus;
+}
+
+/**
+ * 生成特技发动记录
+ */
+function toTriggers(general: General, skills: SkillId[]): SkillTrigger[] {
+  return skills.map((skill) => ({ general: general.id, skill }));
+}
+
+/**
+ * 获取开发指令中发动的特技
+ */
+export function getDevelopmentSkills(
+  general: General,
+  target: 'commerce' | 'agriculture' | 'defense'
+): SkillTrigger[] {
+  return getDevelopmentMultiplier(general.skills, target) > 1
+    ? toTriggers(general, ['tuntian'])
+    : [];
+}
+
+/**
+ * 获取征兵中发动的特技
+ */
+export function getRecruitmentSkills(general: General): SkillTrigger[] {
+  return hasSkill(general.skills, 'rende') ? toTriggers(general, ['rende']) : [];
+}
+
+/**
+ * 获取计略中发动的特技
+ */
+export function getStratagemSkills(general: General, stratagem: StratagemType): SkillTrigger[] {
+  return toTriggers(
+    general,
+    (general.skills ?? []).filter(
+      (id) => id === 'guimou' || (id === 'huoji' && stratagem === 'fire')
+    )
+  );
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  BRIBE_GOLD_COST,
+  STRATAGEM_MAX_CHANCE,
+  STRATAGEM_MIN_CHANCE,
+  applyStratagemResult,
+  calculateStratagemChance,
+  createStratagemEvent,
+  executeStratagem,
+  validateStratagemOrder,
+  type StratagemOrder,
+} from './stratagem';
+import { getGeneralLoyalty } from './prisoners';
+import { ALLY_THRESHOLD, setRelation } from './relations';
+import { TRUCE_RELATION } from './diplomacy';
+import { createTestState } from '../test/fixtures';
+import type { StratagemEventData, StratagemType } from '../types/events';
+
+const stratagemArb = fc.constantFrom<StratagemType>('rumor', 'discord', 'revolt', 'fire', 'bribe');
+
+const intArb = fc.integer({ min: 0, max: 100 });
+
+/**
+ * 构造曹操自陈留对洛阳吕布施计的指令
+ */
+function createOrder(stratagem: StratagemType): StratagemOrder {
+  return { stratagem, executorId: 'caocao', targetCityId: 'luoyang', targetGeneralId: 'lvbu' };
+}
+
+/**
+ * **Feature: sanguo-190, Property 31: 计略**
+ * *For any* 计略，成功率限制在5%-95%之间且随施计武将智力提高而不降低；
+ * 计略得逞时目标数值恰好降低效果值，未得逞时目标城市与武将不变，贿赂无论成败均支出金钱；
+ * 施计武将须驻守于与目标相邻的己方城市，君主不受离间，不可对盟友与停战对象施计。
+ */
+describe('Property 31: 计略', () => {
+  it('should keep the chance in range and never lower it for a smarter executor', () => {
+    fc.assert(
+      fc.property(stratagemArb, intArb, intArb, (stratagem, a, b) => {
+        const state = createTestState();
+        const order = createOrder(stratagem);
+
+        state.generals.caocao.attributes.int = Math.min(a, b);
+        const low = calculateStratagemChance(order, state);
+        state.generals.caocao.attributes.int = Math.max(a, b);
+        const high = calculateStratagemChance(order, state);
+
+        for (const chance of [low, high]) {
+          expect(chance).toBeGreaterThanOrEqual(STRATAGEM_MIN_CHANCE);
+          expect(chance).toBeLessThanOrEqual(STRATAGEM_MAX_CHANCE);
+        }
+        expect(high).toBeGreaterThanOrEqual(low);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should lower the target by exactly the effect value only when the stratagem succeeds', () => {
+    fc.assert(
+      fc.property(
+        stratagemArb,
+        fc.double({ min: 0, max: 0.999, noNaN: true }),
+        (stratagem, roll) => {
+          const state = createTestState();
+          const order = createOrder(stratagem);
+          const result = executeStratagem(order, state, 'caocao', () => roll);
+          expect(result.success).toBe(true);
+          expect(result.succeeded).toBe(roll < calculateStratagemChance(order, state));
+
+          const newState = applyStratagemResult(state, order, result);
+          const before = state.cities.luoyang.resources;
+          const after = newState.cities.luoyang.resources;
+          const loyaltyBefore = getGeneralLoyalty(state, state.generals.lvbu);
+          const loyaltyAfter = getGeneralLoyalty(newState, newState.generals.lvbu);
+          const value = result.succeeded ? result.value : 0;
+
+          expect(after.loyalty).toBe(
+            before.loyalty - (stratagem === 'rumor' || stratagem === 'revolt' ? value : 0)
+          );
+          expect(after.defense).toBe(before.defense - (stratagem === 'revolt' ? value : 0));
+          expect(after.grain).toBe(before.grain - (stratagem === 'fire' ? value : 0));
+          expect(loyaltyAfter).toBe(
+            loyaltyBefore - (stratagem === 'discord' || stratagem === 'bribe' ? value : 0)
+          );
+          expect(newState.cities.chenliu.resources.gold).toBe(
+            state.cities.chenliu.resources.gold - (stratagem === 'bribe' ? BRIBE_GOLD_COST : 0)
+          );
+
+          const event = createStratagemEvent(order, result, state);
+          expect(event?.type).toBe('stratagem');
+          expect((event?.data as StratagemEventData).succeeded).toBe(result.succeeded);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject executors far from the target, own cities, lords, allies and truce partners', () => {
+    const state = createTestState();
+
+    expect(
+      validateStratagemOrder(
+        { stratagem: 'rumor', executorId: 'caocao', targetCityId: 'ye' },
+        state,
+        'caocao'
+      )
+    ).not.toBeNull();
+    expect(
+      validateStratagemOrder(
+        { stratagem: 'rumor', executorId: 'caocao', targetCityId: 'chenliu' },
+        state,
+        'caocao'
+      )
+    ).not.toBeNull();
+    expect(
+      validateStratagemOrder(
+        { ...createOrder('discord'), targetGeneralId: 'dongzhuo' },
+        state,
+        'caocao'
+      )
+    ).not.toBeNull();
+    expect(validateStratagemOrder(createOrder('discord'), state, 'caocao')).toBeNull();
+
+    // 盟友与停战对象不可施计
+    setRelation(state, 'caocao', 'dongzhuo', ALLY_THRESHOLD, 'gift');
+    expect(validateStratagemOrder(createOrder('discord'), state, 'caocao')).not.toBeNull();
+    setRelation(state, 'caocao', 'dongzhuo', TRUCE_RELATION, 'truce');
+    state.truces = [
+      {
+        factions: ['caocao', 'dongzhuo'],
+        startedAt: { ...state.currentDate },
+        expiresAt: { year: state.currentDate.year + 1, month: state.currentDate.month },
+      },
+    ];
+    expect(validateStratagemOrder(createOrder('fire'), state, 'caocao')).not.toBeNull();
+    state.truces = [];
+    expect(validateStratagemOrder(createOrder('fire'), state, 'caocao')).toBeNull();
+
+    state.cities.chenliu.resources.gold = BRIBE_GOLD_COST - 1;
+    const result = executeStratagem(createOrder('bribe'), state, 'caocao', () => 0);
+    expect(result.success).toBe(false);
+    expect(applyStratagemResult(state, createOrder('bribe'), result)).toBe(state);
+  });
+});
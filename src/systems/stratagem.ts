@@ -0,0 +1,421 @@
+/**
+ * 计略系统 - 处理流言、离间、煽动、火计与贿赂等对敌方城市施展的计略
+ * @module systems/stratagem
+ */
+
+import type { GameState } from '../types/gameState';
+import type { General } from '../types/general';
+import type { GameEvent, StratagemEventData, StratagemType } from '../types/events';
+import { getGeneralLoyalty, isLord, isPrisoner } from './prisoners';
+import {
+  HUOJI_EFFECT_MULTIPLIER,
+  getStratagemChanceBonus,
+  getStratagemSkills,
+  hasSkill,
+} from './skills';
+import { isGeneralMarching } from './movement';
+import { getActiveTruce, getDiplomacyStatus } from './diplomacy';
+import { generateId } from './ids';
+
+/**
+ * 计略基础成功率
+ */
+export const STRATAGEM_BASE_CHANCE = 0.5;
+
+/**
+ * 计略成功率下限
+ */
+export const STRATAGEM_MIN_CHANCE = 0.05;
+
+/**
+ * 计略成功率上限
+ */
+export const STRATAGEM_MAX_CHANCE = 0.95;
+
+/**
+ * 各计略的难度修正（加到成功率上）
+ */
+export const STRATAGEM_DIFFICULTY: Record<StratagemType, number> = {
+  rumor: 0.1,
+  discord: -0.1,
+  revolt: -0.2,
+  fire: 0,
+  bribe: 0.1,
+};
+
+/**
+ * 煽动民变的民忠基准：民忠低于此值时更易得逞，高于此值时更难
+ */
+export const REVOLT_LOYALTY_PIVOT = 50;
+
+/**
+ * 流言、离间、煽动的基础效果（另加施计武将智力 ÷ 10）
+ */
+export const STRATAGEM_BASE_EFFECT = 5;
+
+/**
+ * 贿赂的基础忠诚降低（另加施计武将智力 ÷ 10）
+ */
+export const BRIBE_BASE_EFFECT = 15;
+
+/**
+ * 贿赂消耗的金钱（自施计武将所在城市支出）
+ */
+export const BRIBE_GOLD_COST = 300;
+
+/**
+ * 火计基础焚粮比例（另加施计武将智力 ÷ 500）
+ */
+export const FIRE_BASE_RATIO = 0.1;
+
+/**
+ * 计略指令
+ */
+export interface StratagemOrder {
+  /** 计略类型 */
+  stratagem: StratagemType;
+  /** 施计武将ID */
+  executorId: string;
+  /** 目标城市ID */
+  targetCityId: string;
+  /** 目标武将ID（仅离间、贿赂） */
+  targetGeneralId?: string;
+}
+
+/**
+ * 计略执行结果
+ */
+export interface StratagemResult {
+  /** 是否成功执行 */
+  success: boolean;
+  /** 计略类型 */
+  stratagem: StratagemType;
+  /** 计略是否得逞 */
+  succeeded: boolean;
+  /** 效果数值（未得逞时为0） */
+  value: number;
+  /** 消耗的金钱（贿赂无论成败均支出） */
+  goldSpent: number;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 判断计略是否针对敌将
+ */
+export function isGeneralStratagem(stratagem: StratagemType): boolean {
+  return stratagem === 'discord' || stratagem === 'bribe';
+}
+
+/**
+ * 获取可对目标城市施计的武将（驻守于相邻己方城市、未行军且未被俘的存活武将）
+ * @param gameState - 游戏状态
+ * @param targetCityId - 目标城市ID
+ * @param factionId - 施计势力ID
+ * @returns 可施计武将列表
+ */
+export function getStratagemExecutors(
+  gameState: GameState,
+  targetCityId: string,
+  factionId: string
+): General[] {
+  const target = gameState.cities[targetCityId];
+  if (!target) return [];
+
+  return target.connectedCities
+    .map((cityId) => gameState.cities[cityId])
+    .filter((city) => city && city.faction === factionId)
+    .flatMap((city) => city.stationedGenerals)
+    .map((id) => gameState.generals[id])
+    .filter(
+      (g): g is General =>
+        g !== undefined &&
+        g.isAlive &&
+        g.faction === factionId &&
+        !isGeneralMarching(gameState, g.id) &&
+        !isPrisoner(gameState, g.id)
+    );
+}
+
+/**
+ * 获取目标城市中可被离间或贿赂的敌将（君主不受离间）
+ * @param gameState - 游戏状态
+ * @param targetCityId - 目标城市ID
+ * @returns 敌将列表
+ */
+export function getStratagemTargets(gameState: GameState, targetCityId: string): General[] {
+  const city = gameState.cities[targetCityId];
+  if (!city) return [];
+
+  return city.stationedGenerals
+    .map((id) => gameState.generals[id])
+    .filter(
+      (g): g is General =>
+        g !== undefined && g.isAlive && g.faction === city.faction && !isLord(gameState, g)
+    );
+}
+
+/**
+ * 获取守城武将中的最高智力（无守将时为0）
+ * @param gameState - 游戏状态
+ * @param cityId - 城市ID
+ * @returns 最高智力
+ */
+export function getDefenderBestInt(gameState: GameState, cityId: string): number {
+  const city = gameState.cities[cityId];
+  if (!city) return 0;
+
+  return city.stationedGenerals.reduce((best, id) => {
+    const general = gameState.generals[id];
+    if (!general || !general.isAlive || general.faction !== city.faction) return best;
+    return Math.max(best, general.attributes.int);
+  }, 0);
+}
+
+/**
+ * 计算计略成功率
+ * 公式: 50% + (施计武将智力 - 守方最高智力) ÷ 100 + 计略难度修正 + 特技加成，限制在5%-95%
+ * 煽动另按 (50 - 城市民忠) ÷ 100 修正；鬼谋 +15%，火计特技施展火计时另 +20%
+ * @param order - 计略指令
+ * @param gameState - 游戏状态
+ * @returns 成功率 (0.05-0.95)，施计武将或目标城市不存在时为0
+ */
+export function calculateStratagemChance(order: StratagemOrder, gameState: GameState): number {
+  const executor = gameState.generals[order.executorId];
+  const city = gameState.cities[order.targetCityId];
+  if (!executor || !city) return 0;
+
+  let chance =
+    STRATAGEM_BASE_CHANCE +
+    (executor.attributes.int - getDefenderBestInt(gameState, city.id)) / 100 +
+    STRATAGEM_DIFFICULTY[order.stratagem] +
+    getStratagemChanceBonus(executor.skills, order.stratagem);
+  if (order.stratagem === 'revolt') {
+    chance += (REVOLT_LOYALTY_PIVOT - city.resources.loyalty) / 100;
+  }
+  return Math.max(STRATAGEM_MIN_CHANCE, Math.min(STRATAGEM_MAX_CHANCE, chance));
+}
+
+/**
+ * 计算计略得逞时的效果
+ * - 流言：城市民忠降低 5 + 智力 ÷ 10
+ * - 离间：敌将忠诚降低 5 + 智力 ÷ 10
+ * - 煽动：城防与民忠各降低 5 + 智力 ÷ 10
+ * - 火计：焚毁城中粮草的 10% + 智力 ÷ 500（身怀火计特技者 ×1.5）
+ * - 贿赂：敌将忠诚降低 15 + 智力 ÷ 10
+ * 降低值不超过当前数值
+ * @param order - 计略指令
+ * @param gameState - 游戏状态
+ * @returns 效果数值（煽动为城防降低值）
+ */
+export function calculateStratagemEffect(order: StratagemOrder, gameState: GameState): number {
+  const executor = gameState.generals[order.executorId];
+  const city = gameState.cities[order.targetCityId];
+  if (!executor || !city) return 0;
+
+  const int = executor.attributes.int;
+  const base = STRATAGEM_BASE_EFFECT + Math.floor(int / 10);
+
+  switch (order.stratagem) {
+    case 'rumor':
+      return Math.min(city.resources.loyalty, base);
+    case 'revolt':
+      return Math.min(city.resources.defense, base);
+    case 'fire': {
+      const multiplier = hasSkill(executor.skills, 'huoji') ? HUOJI_EFFECT_MULTIPLIER : 1;
+      return Math.min(
+        city.resources.grain,
+        Math.floor(city.resources.grain * (FIRE_BASE_RATIO + int / 500) * multiplier)
+      );
+    }
+    case 'discord':
+    case 'bribe': {
+      const target = order.targetGeneralId ? gameState.generals[order.targetGeneralId] : undefined;
+      if (!target) return 0;
+      const effect = order.stratagem === 'bribe' ? BRIBE_BASE_EFFECT + Math.floor(int / 10) : base;
+      return Math.min(getGeneralLoyalty(gameState, target), effect);
+    }
+  }
+}
+
+/**
+ * 校验计略指令
+ * @param order - 计略指令
+ * @param gameState - 游戏状态
+ * @param factionId - 施计势力ID
+ * @returns 错误信息，校验通过返回null
+ */
+export function validateStratagemOrder(
+  order: StratagemOrder,
+  gameState: GameState,
+  factionId: string
+): string | null {
+  const city = gameState.cities[order.targetCityId];
+  if (!city) {
+    return '目标城市不存在';
+  }
+
+  if (city.faction === factionId) {
+    return '不能对己方城市施计';
+  }
+
+  if (getDiplomacyStatus(gameState, factionId, city.faction) === 'ally') {
+    return '不能对盟友施计，须先撕毁盟约';
+  }
+  if (getActiveTruce(gameState, factionId, city.faction)) {
+    return '停战期间不能施计';
+  }
+
+  const executor = gameState.generals[order.executorId];
+  if (!executor) {
+    return '请选择施计武将';
+  }
+
+  if (!getStratagemExecutors(gameState, city.id, factionId).some((g) => g.id === executor.id)) {
+    return '施计武将须驻守于与目标相邻的己方城市';
+  }
+
+  if (isGeneralStratagem(order.stratagem)) {
+    if (!order.targetGeneralId) {
+      return '请选择目标武将';
+    }
+    if (!getStratagemTargets(gameState, city.id).some((g) => g.id === order.targetGeneralId)) {
+      return '目标武将不在该城或不可离间';
+    }
+  }
+
+  if (order.stratagem === 'bribe') {
+    const home = gameState.cities[executor.currentCity];
+    if (!home || home.resources.gold < BRIBE_GOLD_COST) {
+      return '金钱不足';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 执行计略（判定成败）
+ * @param order - 计略指令
+ * @param gameState - 游戏状态
+ * @param factionId - 施计势力ID
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 计略结果
+ */
+export function executeStratagem(
+  order: StratagemOrder,
+  gameState: GameState,
+  factionId: string,
+  random: () => number = Math.random
+): StratagemResult {
+  const error = validateStratagemOrder(order, gameState, factionId);
+  if (error) {
+    return {
+      success: false,
+      stratagem: order.stratagem,
+      succeeded: false,
+      value: 0,
+      goldSpent: 0,
+      error,
+    };
+  }
+
+  const succeeded = random() < calculateStratagemChance(order, gameState);
+  return {
+    success: true,
+    stratagem: order.stratagem,
+    succeeded,
+    value: succeeded ? calculateStratagemEffect(order, gameState) : 0,
+    goldSpent: order.stratagem === 'bribe' ? BRIBE_GOLD_COST : 0,
+  };
+}
+
+/**
+ * 将计略结果应用到游戏状态
+ * @param gameState - 当前游戏状态
+ * @param order - 计略指令
+ * @param result - 计略结果
+ * @returns 更新后的游戏状态
+ */
+export function applyStratagemResult(
+  gameState: GameState,
+  order: StratagemOrder,
+  result: StratagemResult
+): GameState {
+  if (!result.success) return gameState;
+
+  // 深拷贝状态
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const city = newState.cities[order.targetCityId];
+  const executor = newState.generals[order.executorId];
+  if (!city || !executor) return gameState;
+
+  if (result.goldSpent > 0) {
+    const home = newState.cities[executor.currentCity];
+    if (home) home.resources.gold = Math.max(0, home.resources.gold - result.goldSpent);
+  }
+
+  if (!result.succeeded) return newState;
+
+  switch (result.stratagem) {
+    case 'rumor':
+      city.resources.loyalty = Math.max(0, city.resources.loyalty - result.value);
+      break;
+    case 'revolt':
+      city.resources.defense = Math.max(0, city.resources.defense - result.value);
+      city.resources.loyalty = Math.max(0, city.resources.loyalty - result.value);
+      break;
+    case 'fire':
+      city.resources.grain = Math.max(0, city.resources.grain - result.value);
+      break;
+    case 'discord':
+    case 'bribe': {
+      const target = order.targetGeneralId ? newState.generals[order.targetGeneralId] : undefined;
+      if (target) {
+        target.loyalty = Math.max(0, getGeneralLoyalty(newState, target) - result.value);
+      }
+      break;
+    }
+  }
+
+  return newState;
+}
+
+/**
+ * 生成计略事件（无论成败均载入史册）
+ * @param order - 计略指令
+ * @param result - 计略结果
+ * @param gameState - 施计前的游戏状态
+ * @returns 计略事件，指令无效时返回null
+ */
+export function createStratagemEvent(
+  order: StratagemOrder,
+  result: StratagemResult,
+  gameState: GameState
+): GameEvent | null {
+  const executor = gameState.generals[order.executorId];
+  if (!result.success || !executor) return null;
+
+  const data: StratagemEventData = {
+    city: order.targetCityId,
+    stratagem: order.stratagem,
+    executor: executor.id,
+    faction: executor.faction,
+    succeeded: result.succeeded,
+    value: result.value,
+  };
+  if (isGeneralStratagem(order.stratagem) && order.targetGeneralId) {
+    data.target = order.targetGeneralId;
+  }
+  const skills = getStratagemSkills(executor, order.stratagem);
+  if (skills.length > 0) {
+    data.skills = skills;
+  }
+
+  return {
+    id: generateId('stratagem_event'),
+    type: 'stratagem',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
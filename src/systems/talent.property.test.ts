@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  applyTalentResult,
+  calculateSearchChance,
+  calculateTalentRecruitChance,
+  createTalentEvent,
+  executeTalent,
+  getDiscoveredTalents,
+  getHiddenTalents,
+  validateTalentOrder,
+  type TalentOrder,
+} from './talent';
+import { createTestState } from '../test/fixtures';
+import { FREE_FACTION_ID } from '../types/general';
+
+/**
+ * 依次返回给定随机数的生成器
+ */
+function sequence(values: number[]): () => number {
+  let index = 0;
+  return () => values[index++ % values.length];
+}
+
+const executorArb = fc.constantFrom('caocao', 'xiaohoudun', 'xiahouyuan', 'caoren', 'caohong');
+const rollArb = fc.double({ min: 0, max: 0.999, noNaN: true });
+
+/**
+ * **Feature: sanguo-190, Property 39: 人才探索**
+ * *For any* 人才探索，仅当城中尚有未发现的在野武将且掷骰低于智力魅力决定的成功率时，
+ * 方能发现其中一人，已发现者不会再被发现；登用只能针对已发现者，成功后该武将加入势力与驻守城市并载入史册，
+ * 失败则仍在野。
+ */
+describe('Property 39: 人才探索', () => {
+  it('should discover hidden talent by chance and never rediscover it', () => {
+    fc.assert(
+      fc.property(executorArb, rollArb, rollArb, (executorId, roll, pick) => {
+        const state = createTestState();
+        const order: TalentOrder = { action: 'search', cityId: 'chenliu', executorId };
+        const hidden = getHiddenTalents(state, 'chenliu', 'caocao');
+        expect(hidden.length).toBeGreaterThan(0);
+
+        const result = executeTalent(order, state, 'caocao', sequence([roll, pick]));
+        const chance = calculateSearchChance(state.generals[executorId]);
+        expect(result.success).toBe(true);
+        expect(result.discovered !== null).toBe(roll < chance);
+        expect(createTalentEvent(order, result, state)).toBeNull();
+
+        const newState = applyTalentResult(state, order, result);
+        if (!result.discovered) {
+          expect(newState).toBe(state);
+          return;
+        }
+        expect(hidden.map((g) => g.id)).toContain(result.discovered);
+        expect(newState.generals[result.discovered].discoveredBy).toEqual(['caocao']);
+        expect(newState.generals[result.discovered].faction).toBe(FREE_FACTION_ID);
+        expect(getHiddenTalents(newState, 'chenliu', 'caocao')).toHaveLength(hidden.length - 1);
+        expect(getDiscoveredTalents(newState, 'chenliu', 'caocao')).toHaveLength(1);
+      }),
+      { numRuns: 100 }
+    );
+
+    // 城中人才尽数发现后不再有所得
+    const state = createTestState();
+    for (const general of getHiddenTalents(state, 'chenliu', 'caocao')) {
+      general.discoveredBy = ['caocao'];
+    }
+    const order: TalentOrder = { action: 'search', cityId: 'chenliu', executorId: 'caocao' };
+    expect(executeTalent(order, state, 'caocao', () => 0).discovered).toBeNull();
+  });
+
+  it('should recruit discovered talent into the faction and the city by chance', () => {
+    fc.assert(
+      fc.property(executorArb, rollArb, (executorId, roll) => {
+        const state = createTestState();
+        state.generals.dianwei.discoveredBy = ['caocao'];
+        const order: TalentOrder = {
+          action: 'recruit',
+          cityId: 'chenliu',
+          executorId,
+          generalId: 'dianwei',
+        };
+        const chance = calculateTalentRecruitChance(
+          state,
+          state.generals[executorId],
+          state.generals.dianwei,
+          'caocao'
+        );
+
+        const result = executeTalent(order, state, 'caocao', () => roll);
+        expect(result).toMatchObject({ success: true, recruited: roll < chance });
+
+        const newState = applyTalentResult(state, order, result);
+        const event = createTalentEvent(order, result, state);
+        if (result.recruited) {
+          expect(newState.generals.dianwei.faction).toBe('caocao');
+          expect(newState.factions.caocao.generals).toContain('dianwei');
+          expect(newState.cities.chenliu.stationedGenerals).toContain('dianwei');
+          expect(event?.data).toMatchObject({ general: 'dianwei', event: 'recruited' });
+        } else {
+          expect(newState.generals.dianwei.faction).toBe(FREE_FACTION_ID);
+          expect(newState.cities.chenliu.stationedGenerals).not.toContain('dianwei');
+          expect(event).toBeNull();
+        }
+      }),
+      { numRuns: 100 }
+    );
+
+    // 未发现的在野武将、他城的在野武将均不可登用
+    const state = createTestState();
+    const order: TalentOrder = {
+      action: 'recruit',
+      cityId: 'chenliu',
+      executorId: 'caocao',
+      generalId: 'xuchu',
+    };
+    expect(validateTalentOrder(order, state, 'caocao')).toBe('只能登用城中已发现的在野武将');
+    state.generals.guojia.discoveredBy = ['caocao'];
+    expect(validateTalentOrder({ ...order, generalId: 'guojia' }, state, 'caocao')).toBe(
+      '只能登用城中已发现的在野武将'
+    );
+    expect(
+      validateTalentOrder(
+        { action: 'search', cityId: 'luoyang', executorId: 'caocao' },
+        state,
+        'caocao'
+      )
+    ).toBe('只能在己方城市寻访人才');
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * 人才系统 - 处理在野武将的探索与登用
+ * 在野武将隐于各城，须遣武将于所在城市探访方能发现；发现后可再行登用，
+ * 成功率取决于执行武将的魅力与在野武将对我方君主的天然忠诚
+ * @module systems/talent
+ */
+
+import type { GameState } from '../types/gameState';
+import type { General } from '../types/general';
+import type { GameEvent, GeneralEventData } from '../types/events';
+import { FREE_FACTION_ID } from '../types/general';
+import { calculateLoyaltyTarget } from './loyalty';
+import { isPrisoner } from './prisoners';
+import { generateId } from './ids';
+
+/**
+ * 探索成功率上限
+ */
+export const TALENT_SEARCH_MAX_CHANCE = 0.8;
+
+/**
+ * 智力对探索成功率的权重（每点智力 +0.5%）
+ */
+export const TALENT_SEARCH_INT_WEIGHT = 0.005;
+
+/**
+ * 魅力对探索成功率的权重（每点魅力 +0.3%）
+ */
+export const TALENT_SEARCH_CHA_WEIGHT = 0.003;
+
+/**
+ * 登用基础成功率
+ */
+export const TALENT_RECRUIT_BASE_CHANCE = 0.3;
+
+/**
+ * 登用成功率下限
+ */
+export const TALENT_RECRUIT_MIN_CHANCE = 0.05;
+
+/**
+ * 登用成功率上限
+ */
+export const TALENT_RECRUIT_MAX_CHANCE = 0.95;
+
+/**
+ * 人才指令类型
+ * - search: 探索，于执行武将所在城市寻访尚未发现的在野武将
+ * - recruit: 登用，招揽已发现的在野武将
+ */
+export type TalentAction = 'search' | 'recruit';
+
+/**
+ * 人才指令
+ */
+export interface TalentOrder {
+  /** 指令类型 */
+  action: TalentAction;
+  /** 执行城市ID */
+  cityId: string;
+  /** 执行武将ID */
+  executorId: string;
+  /** 登用目标武将ID（仅登用） */
+  generalId?: string;
+}
+
+/**
+ * 人才指令结果
+ */
+export interface TalentResult {
+  /** 指令是否有效 */
+  success: boolean;
+  /** 指令类型 */
+  action: TalentAction;
+  /** 探索发现的在野武将ID（未发现时为null） */
+  discovered: string | null;
+  /** 登用是否成功 */
+  recruited: boolean;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 判断武将是否为在野武将（存活、不属任何势力且未被俘）
+ */
+export function isFreeGeneral(gameState: GameState, general: General): boolean {
+  return (
+    general.isAlive && general.faction === FREE_FACTION_ID && !isPrisoner(gameState, general.id)
+  );
+}
+
+/**
+ * 获取隐于某城、尚未被某势力发现的在野武将
+ */
+export function getHiddenTalents(
+  gameState: GameState,
+  cityId: string,
+  factionId: string
+): General[] {
+  return Object.values(gameState.generals).filter(
+    (g) =>
+      g.currentCity === cityId &&
+      isFreeGeneral(gameState, g) &&
+      !(g.discoveredBy ?? []).includes(factionId)
+  );
+}
+
+/**
+ * 获取某势力已于某城发现的在野武将
+ */
+export function getDiscoveredTalents(
+  gameState: GameState,
+  cityId: string,
+  factionId: string
+): General[] {
+  return Object.values(gameState.generals).filter(
+    (g) =>
+      g.currentCity === cityId &&
+      isFreeGeneral(gameState, g) &&
+      (g.discoveredBy ?? []).includes(factionId)
+  );
+}
+
+/**
+ * 计算探索成功率
+ * 公式: 智力 × 0.5% + 魅力 × 0.3%，至多80%
+ */
+export function calculateSearchChance(executor: General): number {
+  return Math.min(
+    TALENT_SEARCH_MAX_CHANCE,
+    executor.attributes.int * TALENT_SEARCH_INT_WEIGHT +
+      executor.attributes.cha * TALENT_SEARCH_CHA_WEIGHT
+  );
+}
+
+/**
+ * 计算登用成功率
+ * 公式: 30% + (执行武将魅力 - 50) ÷ 100 + (在我方麾下的天然忠诚 - 50) ÷ 100，限制在5%-95%
+ * @param gameState - 游戏状态
+ * @param executor - 执行武将
+ * @param target - 在野武将
+ * @param factionId - 登用势力ID
+ * @returns 成功率 (0.05-0.95)
+ */
+export function calculateTalentRecruitChance(
+  gameState: GameState,
+  executor: General,
+  target: General,
+  factionId: string
+): number {
+  const chance =
+    TALENT_RECRUIT_BASE_CHANCE +
+    (executor.attributes.cha - 50) / 100 +
+    (calculateLoyaltyTarget(gameState, target, factionId) - 50) / 100;
+  return Math.max(TALENT_RECRUIT_MIN_CHANCE, Math.min(TALENT_RECRUIT_MAX_CHANCE, chance));
+}
+
+/**
+ * 校验人才指令
+ * @param order - 人才指令
+ * @param gameState - 游戏状态
+ * @param factionId - 下令势力ID
+ * @returns 错误信息，校验通过返回null
+ */
+export function validateTalentOrder(
+  order: TalentOrder,
+  gameState: GameState,
+  factionId: string
+): string | null {
+  const city = gameState.cities[order.cityId];
+  if (!city || city.faction !== factionId) {
+    return '只能在己方城市寻访人才';
+  }
+
+  const executor = gameState.generals[order.executorId];
+  if (
+    !executor ||
+    !executor.isAlive ||
+    executor.faction !== factionId ||
+    !city.stationedGenerals.includes(executor.id)
+  ) {
+    return '执行武将须驻守于该城';
+  }
+
+  if (order.action === 'search') {
+    return null;
+  }
+
+  const target = order.generalId ? gameState.generals[order.generalId] : undefined;
+  if (!target) {
+    return '请选择登用对象';
+  }
+
+  if (!getDiscoveredTalents(gameState, city.id, factionId).some((g) => g.id === target.id)) {
+    return '只能登用城中已发现的在野武将';
+  }
+
+  return null;
+}
+
+/**
+ * 执行人才指令（判定探索或登用成败）
+ * @param order - 人才指令
+ * @param gameState - 游戏状态
+ * @param factionId - 下令势力ID
+ * @param random - 随机数生成器，用于测试时可注入
+ * @returns 人才指令结果
+ */
+export function executeTalent(
+  order: TalentOrder,
+  gameState: GameState,
+  factionId: string,
+  random: () => number = Math.random
+): TalentResult {
+  const error = validateTalentOrder(order, gameState, factionId);
+  if (error) {
+    return { success: false, action: order.action, discovered: null, recruited: false, error };
+  }
+
+  const executor = gameState.generals[order.executorId];
+
+  if (order.action === 'search') {
+    const hidden = getHiddenTalents(gameState, order.cityId, factionId);
+    if (hidden.length === 0 || random() >= calculateSearchChance(executor)) {
+      return { success: true, action: 'search', discovered: null, recruited: false };
+    }
+    const index = Math.min(hidden.length - 1, Math.floor(random() * hidden.length));
+    return { success: true, action: 'search', discovered: hidden[index].id, recruited: false };
+  }
+
+  const target = gameState.generals[order.generalId!];
+  return {
+    success: true,
+    action: 'recruit',
+    discovered: null,
+    recruited: random() < calculateTalentRecruitChance(gameState, executor, target, factionId),
+  };
+}
+
+/**
+ * 将人才指令结果应用到游戏状态
+ * - 探索：记录我方已发现该在野武将
+ * - 登用：在野武将出仕，加入势力并驻守执行城市，忠诚为其在我方麾下的天然忠诚
+ * @param gameState - 当前游戏状态
+ * @param order - 人才指令
+ * @param result - 人才指令结果
+ * @returns 更新后的游戏状态
+ */
+export function applyTalentResult(
+  gameState: GameState,
+  order: TalentOrder,
+  result: TalentResult
+): GameState {
+  if (!result.success || (!result.discovered && !result.recruited)) return gameState;
+
+  // 深拷贝状态
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const city = newState.cities[order.cityId];
+  const faction = city ? newState.factions[city.faction] : undefined;
+  if (!city || !faction) return gameState;
+
+  if (result.discovered) {
+    const general = newState.generals[result.discovered];
+    if (!general || !isFreeGeneral(newState, general)) return gameState;
+    general.discoveredBy = [...(general.discoveredBy ?? []), faction.id];
+    return newState;
+  }
+
+  const general = order.generalId ? newState.generals[order.generalId] : undefined;
+  // 同一回合内已被他人登用时不再生效
+  if (!general || !isFreeGeneral(newState, general)) return gameState;
+
+  general.faction = faction.id;
+  general.currentCity = city.id;
+  general.loyalty = calculateLoyaltyTarget(newState, general, faction.id);
+  delete general.discoveredBy;
+  faction.generals.push(general.id);
+  city.stationedGenerals.push(general.id);
+  return newState;
+}
+
+/**
+ * 生成登用事件（仅登用成功时载入史册，探索仍记为内政事件）
+ * @param order - 人才指令
+ * @param result - 人才指令结果
+ * @param gameState - 执行前的游戏状态
+ * @returns 武将事件，未登用成功时返回null
+ */
+export function createTalentEvent(
+  order: TalentOrder,
+  result: TalentResult,
+  gameState: GameState
+): GameEvent | null {
+  if (!result.success || !result.recruited || !order.generalId) return null;
+
+  const general = gameState.generals[order.generalId];
+  const executor = gameState.generals[order.executorId];
+  const city = gameState.cities[order.cityId];
+  if (!general || !city) return null;
+
+  const factionName = gameState.factions[city.faction]?.name ?? '';
+  const data: GeneralEventData = {
+    general: general.id,
+    event: 'recruited',
+    details: `${general.name}受${executor?.name ?? '使者'}礼聘，于${city.name}出仕${factionName}`,
+  };
+  return {
+    id: generateId('talent_event'),
+    type: 'general',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  TRIBUTE_REFUSED_RELATION_PENALTY,
+  TRIBUTE_RELATION_PENALTY,
+  applyTradeResult,
+  calculateGiftRelation,
+  createTradeEvent,
+  executeTrade,
+  getTreasuryCity,
+  validateTradeOrder,
+  type TradeOrder,
+} from './trade';
+import { AI_WEIGHTS, scoreTradeOffer } from './aiSystem';
+import { RELATION_MAX, getRelation } from './relations';
+import { createTestState } from '../test/fixtures';
+import type { GameState } from '../types/gameState';
+import type { TradeEventData } from '../types/events';
+
+/**
+ * 自陈留发出的贸易指令
+ */
+function createOrder(
+  kind: TradeOrder['kind'],
+  targetFactionId: string,
+  give: Partial<TradeOrder['give']>,
+  take: Partial<TradeOrder['take']>
+): TradeOrder {
+  return {
+    kind,
+    fromCityId: 'chenliu',
+    targetFactionId,
+    give: { gold: 0, grain: 0, ...give },
+    take: { gold: 0, grain: 0, ...take },
+  };
+}
+
+/**
+ * 计算双方城市的钱粮总和
+ */
+function totalGoods(state: GameState, targetFactionId: string): [number, number] {
+  const treasury = getTreasuryCity(state, targetFactionId)!;
+  const city = state.cities.chenliu;
+  return [
+    city.resources.gold + treasury.resources.gold,
+    city.resources.grain + treasury.resources.grain,
+  ];
+}
+
+/**
+ * **Feature: sanguo-190, Property 36: 贸易**
+ * *For any* 达成的交易，双方钱粮总量守恒且载入史册；馈赠总被接受并按价值提高关系；
+ * 只能向兵力较弱的接壤势力索贡，对方按畏惧程度决定是否纳贡，无论纳贡与否关系均下降；
+ * 互市须对方有利可图，交战中不得互市。
+ */
+describe('Property 36: 贸易', () => {
+  it('should always accept gifts, conserve goods and improve relations by value', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom('yuanshao', 'liubei', 'dongzhuo'),
+        fc.integer({ min: 0, max: 15000 }),
+        fc.integer({ min: 0, max: 30000 }),
+        (targetId, gold, grain) => {
+          fc.pre(gold + grain > 0);
+          const state = createTestState();
+          const order = createOrder('gift', targetId, { gold, grain }, {});
+          const result = executeTrade(order, state, 'caocao');
+          expect(result).toMatchObject({ success: true, accepted: true });
+
+          const newState = applyTradeResult(state, order, result);
+          expect(totalGoods(newState, targetId)).toEqual(totalGoods(state, targetId));
+          expect(newState.cities.chenliu.resources.gold).toBe(
+            state.cities.chenliu.resources.gold - gold
+          );
+          expect(getRelation(newState, 'caocao', targetId)).toBe(
+            Math.min(
+              RELATION_MAX,
+              getRelation(state, 'caocao', targetId) + calculateGiftRelation(order.give)
+            )
+          );
+
+          const event = createTradeEvent(order, result, state);
+          expect(event?.type).toBe('trade');
+          expect((event?.data as TradeEventData).give).toEqual({ gold, grain });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should only let weaker neighbours pay tribute when they fear the demand enough', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 5000 }),
+        fc.integer({ min: 0, max: 10000 }),
+        (gold, grain) => {
+          fc.pre(gold + grain > 0);
+          const state = createTestState();
+          const order = createOrder('tribute', 'liubei', {}, { gold, grain });
+          const result = executeTrade(order, state, 'caocao');
+          expect(result.success).toBe(true);
+          expect(result.accepted).toBe(scoreTradeOffer(order, state, 'caocao') >= 0);
+
+          const newState = applyTradeResult(state, order, result);
+          const before = getRelation(state, 'caocao', 'liubei');
+          if (result.accepted) {
+            expect(newState.cities.chenliu.resources.gold).toBe(
+              state.cities.chenliu.resources.gold + gold
+            );
+            expect(totalGoods(newState, 'liubei')).toEqual(totalGoods(state, 'liubei'));
+            expect(getRelation(newState, 'caocao', 'liubei')).toBe(
+              before - TRIBUTE_RELATION_PENALTY
+            );
+          } else {
+            expect(newState.cities.chenliu.resources).toEqual(state.cities.chenliu.resources);
+            expect(getRelation(newState, 'caocao', 'liubei')).toBe(
+              before - TRIBUTE_REFUSED_RELATION_PENALTY
+            );
+            expect(createTradeEvent(order, result, state)).toBeNull();
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    const state = createTestState();
+    expect(
+      validateTradeOrder(createOrder('tribute', 'yuanshao', {}, { gold: 100 }), state, 'caocao')
+    ).toBe('只能向接壤势力索贡');
+    expect(
+      validateTradeOrder(createOrder('tribute', 'dongzhuo', {}, { gold: 100 }), state, 'caocao')
+    ).toBe('对方兵力不弱于我，不会纳贡');
+  });
+
+  it('should swap grain for gold only when the other side profits', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 30000 }),
+        fc.integer({ min: 1, max: 15000 }),
+        (grain, gold) => {
+          const state = createTestState();
+          const order = createOrder('trade', 'yuanshao', { grain }, { gold });
+          const result = executeTrade(order, state, 'caocao');
+          expect(result.success).toBe(true);
+          expect(result.accepted).toBe(
+            grain * AI_WEIGHTS.TRADE_GRAIN_VALUE >= gold * (1 + AI_WEIGHTS.TRADE_MARGIN)
+          );
+
+          const newState = applyTradeResult(state, order, result);
+          expect(totalGoods(newState, 'yuanshao')).toEqual(totalGoods(state, 'yuanshao'));
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    const state = createTestState();
+    expect(
+      validateTradeOrder(
+        createOrder('trade', 'dongzhuo', { grain: 1000 }, { gold: 100 }),
+        state,
+        'caocao'
+      )
+    ).toBe('双方交战中，无法互市');
+    expect(
+      validateTradeOrder(
+        createOrder('trade', 'yuanshao', { grain: 1000, gold: 10 }, { gold: 100 }),
+        state,
+        'caocao'
+      )
+    ).toBe('互市须以粮易金或以金易粮');
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * 贸易系统 - 处理势力间的馈赠、索贡与钱粮互市
+ * 馈赠钱粮改善关系；向较弱邻邦索贡须对方畏服；以粮易金须对方有利可图
+ * 对方是否应允由AI评分决定
+ * @module systems/trade
+ */
+
+import type { GameState } from '../types/gameState';
+import type { City } from '../types/city';
+import type { GameEvent, TradeEventData, TradeGoods, TradeKind } from '../types/events';
+import { scoreTradeOffer } from './aiSystem';
+import { getDiplomacyStatus, getFactionStrength } from './diplomacy';
+import { adjustRelation } from './relations';
+import { generateId } from './ids';
+
+/**
+ * 馈赠时粮草折合金钱的比价
+ */
+export const GRAIN_GOLD_VALUE = 0.5;
+
+/**
+ * 馈赠每折合此数额金钱提高1点关系值
+ */
+export const GIFT_GOLD_PER_RELATION = 500;
+
+/**
+ * 单次馈赠至多提高的关系值
+ */
+export const GIFT_RELATION_CAP = 20;
+
+/**
+ * 对方纳贡后双方关系值的损失
+ */
+export const TRIBUTE_RELATION_PENALTY = 10;
+
+/**
+ * 对方拒绝纳贡后双方关系值的损失
+ */
+export const TRIBUTE_REFUSED_RELATION_PENALTY = 5;
+
+/**
+ * 互市达成后双方关系值的提高
+ */
+export const TRADE_RELATION_BONUS = 2;
+
+/**
+ * 贸易指令
+ */
+export interface TradeOrder {
+  /** 贸易类型 */
+  kind: TradeKind;
+  /** 己方出发城市ID（钱粮自此城支出或运入） */
+  fromCityId: string;
+  /** 对方势力ID */
+  targetFactionId: string;
+  /** 己方付出的钱粮 */
+  give: TradeGoods;
+  /** 向对方索取的钱粮 */
+  take: TradeGoods;
+}
+
+/**
+ * 贸易执行结果
+ */
+export interface TradeResult {
+  /** 是否成功执行 */
+  success: boolean;
+  /** 贸易类型 */
+  kind: TradeKind;
+  /** 对方是否应允 */
+  accepted: boolean;
+  /** 错误信息 */
+  error?: string;
+}
+
+/**
+ * 判断数额是否为非负整数
+ */
+function isValidAmount(value: number): boolean {
+  return Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * 判断钱粮是否为空
+ */
+function isEmptyGoods(goods: TradeGoods): boolean {
+  return goods.gold === 0 && goods.grain === 0;
+}
+
+/**
+ * 计算钱粮折合的金钱价值
+ */
+export function getGoodsValue(goods: TradeGoods): number {
+  return goods.gold + goods.grain * GRAIN_GOLD_VALUE;
+}
+
+/**
+ * 计算馈赠提高的关系值
+ */
+export function calculateGiftRelation(goods: TradeGoods): number {
+  return Math.min(GIFT_RELATION_CAP, Math.floor(getGoodsValue(goods) / GIFT_GOLD_PER_RELATION));
+}
+
+/**
+ * 获取势力的府库城市（君主所在的己方城市，君主不在己方城中时取首座城市）
+ */
+export function getTreasuryCity(gameState: GameState, factionId: string): City | undefined {
+  const faction = gameState.factions[factionId];
+  if (!faction) return undefined;
+
+  const lordCity = gameState.generals[faction.lordId]?.currentCity;
+  const cityId = lordCity && faction.cities.includes(lordCity) ? lordCity : faction.cities[0];
+  return cityId ? gameState.cities[cityId] : undefined;
+}
+
+/**
+ * 判断两个势力是否接壤（任一城市相邻）
+ */
+export function areNeighbours(
+  gameState: GameState,
+  factionId: string,
+  targetFactionId: string
+): boolean {
+  const faction = gameState.factions[factionId];
+  if (!faction) return false;
+
+  return faction.cities.some((cityId) =>
+    (gameState.cities[cityId]?.connectedCities ?? []).some(
+      (id) => gameState.cities[id]?.faction === targetFactionId
+    )
+  );
+}
+
+/**
+ * 校验贸易指令
+ * @param order - 贸易指令
+ * @param gameState - 游戏状态
+ * @param factionId - 发起势力ID
+ * @returns 错误信息，校验通过返回null
+ */
+export function validateTradeOrder(
+  order: TradeOrder,
+  gameState: GameState,
+  factionId: string
+): string | null {
+  const target = gameState.factions[order.targetFactionId];
+  if (!target) {
+    return '对方势力不存在';
+  }
+
+  if (target.id === factionId) {
+    return '不能与己方交易';
+  }
+
+  if (target.cities.length === 0) {
+    return '该势力已覆灭';
+  }
+
+  const city = gameState.cities[order.fromCityId];
+  if (!city || city.faction !== factionId) {
+    return '须自己方城市交易';
+  }
+
+  const amounts = [order.give.gold, order.give.grain, order.take.gold, order.take.grain];
+  if (!amounts.every(isValidAmount) || amounts.every((v) => v === 0)) {
+    return '请指定钱粮数额';
+  }
+
+  switch (order.kind) {
+    case 'gift':
+      if (!isEmptyGoods(order.take)) return '馈赠不能索取钱粮';
+      break;
+    case 'tribute':
+      if (!isEmptyGoods(order.give)) return '索贡无需付出钱粮';
+      if (!areNeighbours(gameState, factionId, target.id)) return '只能向接壤势力索贡';
+      if (getFactionStrength(gameState, target.id) >= getFactionStrength(gameState, factionId)) {
+        return '对方兵力不弱于我，不会纳贡';
+      }
+      break;
+    case 'trade': {
+      const sellGrain =
+        order.give.grain > 0 && order.take.gold > 0 && order.give.gold + order.take.grain === 0;
+      const buyGrain =
+        order.give.gold > 0 && order.take.grain > 0 && order.give.grain + order.take.gold === 0;
+      if (!sellGrain && !buyGrain) {
+        return '互市须以粮易金或以金易粮';
+      }
+      if (getDiplomacyStatus(gameState, factionId, target.id) === 'hostile') {
+        return '双方交战中，无法互市';
+      }
+      break;
+    }
+  }
+
+  if (city.resources.gold < order.give.gold) {
+    return '金钱不足';
+  }
+  if (city.resources.grain < order.give.grain) {
+    return '粮草不足';
+  }
+
+  const treasury = getTreasuryCity(gameState, target.id);
+  if (
+    !treasury ||
+    treasury.resources.gold < order.take.gold ||
+    treasury.resources.grain < order.take.grain
+  ) {
+    return '对方府库钱粮不足';
+  }
+
+  return null;
+}
+
+/**
+ * 执行贸易指令（由对方AI评分决定是否应允）
+ * @param order - 贸易指令
+ * @param gameState - 游戏状态
+ * @param factionId - 发起势力ID
+ * @returns 贸易结果
+ */
+export function executeTrade(
+  order: TradeOrder,
+  gameState: GameState,
+  factionId: string
+): TradeResult {
+  const error = validateTradeOrder(order, gameState, factionId);
+  if (error) {
+    return { success: false, kind: order.kind, accepted: false, error };
+  }
+
+  return {
+    success: true,
+    kind: order.kind,
+    accepted: scoreTradeOffer(order, gameState, factionId) >= 0,
+  };
+}
+
+/**
+ * 将贸易结果应用到游戏状态
+ * - 馈赠：钱粮运往对方府库，关系值按馈赠价值提高
+ * - 索贡：对方自府库输送钱粮，双方关系值下降；对方拒绝时关系值亦下降
+ * - 互市：钱粮互换，双方关系值略有提高
+ * @param gameState - 当前游戏状态
+ * @param order - 贸易指令
+ * @param result - 贸易结果
+ * @returns 更新后的游戏状态
+ */
+export function applyTradeResult(
+  gameState: GameState,
+  order: TradeOrder,
+  result: TradeResult
+): GameState {
+  if (!result.success) return gameState;
+
+  // 深拷贝状态
+  const newState: GameState = JSON.parse(JSON.stringify(gameState));
+  const city = newState.cities[order.fromCityId];
+  const treasury = getTreasuryCity(newState, order.targetFactionId);
+  if (!city || !treasury) return gameState;
+
+  if (!result.accepted) {
+    if (order.kind === 'tribute') {
+      adjustRelation(
+        newState,
+        city.faction,
+        order.targetFactionId,
+        -TRIBUTE_REFUSED_RELATION_PENALTY,
+        'tribute'
+      );
+    }
+    return newState;
+  }
+
+  city.resources.gold += order.take.gold - order.give.gold;
+  city.resources.grain += order.take.grain - order.give.grain;
+  treasury.resources.gold += order.give.gold - order.take.gold;
+  treasury.resources.grain += order.give.grain - order.take.grain;
+
+  switch (order.kind) {
+    case 'gift':
+      adjustRelation(
+        newState,
+        city.faction,
+        order.targetFactionId,
+        calculateGiftRelation(order.give),
+        'gift'
+      );
+      break;
+    case 'tribute':
+      adjustRelation(
+        newState,
+        city.faction,
+        order.targetFactionId,
+        -TRIBUTE_RELATION_PENALTY,
+        'tribute'
+      );
+      break;
+    case 'trade':
+      adjustRelation(newState, city.faction, order.targetFactionId, TRADE_RELATION_BONUS, 'trade');
+      break;
+  }
+
+  return newState;
+}
+
+/**
+ * 生成贸易事件（仅达成的交易载入史册）
+ * @param order - 贸易指令
+ * @param result - 贸易结果
+ * @param gameState - 交易前的游戏状态
+ * @returns 贸易事件，交易未达成时返回null
+ */
+export function createTradeEvent(
+  order: TradeOrder,
+  result: TradeResult,
+  gameState: GameState
+): GameEvent | null {
+  const city = gameState.cities[order.fromCityId];
+  if (!result.success || !result.accepted || !city) return null;
+
+  const data: TradeEventData = {
+    faction: city.faction,
+    target: order.targetFactionId,
+    kind: order.kind,
+    give: { ...order.give },
+    take: { ...order.take },
+  };
+
+  return {
+    id: generateId('trade_event'),
+    type: 'trade',
+    timestamp: { ...gameState.currentDate },
+    data,
+  };
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  COUNTER_ADVANTAGE_MULTIPLIER,
+  COUNTER_DISADVANTAGE_MULTIPLIER,
+  TROOP_COUNTERS,
+  getCounterMultiplier,
+  getTrainableTroopTypes,
+  getTroopComposition,
+  splitLossByType,
+  sumComposition,
+} from './troops';
+import { resolveBattle, type BattleCommander } from './battle';
+import { executeRecruitment } from './domestic';
+import { TROOP_TYPES, type TroopComposition, type TroopType } from '../types/troop';
+import type { CityScale, CitySpecialResource } from '../types/city';
+
+// 生成器定义
+const compositionArb: fc.Arbitrary<TroopComposition> = fc.record({
+  infantry: fc.integer({ min: 0, max: 30000 }),
+  cavalry: fc.integer({ min: 0, max: 30000 }),
+  archer: fc.integer({ min: 0, max: 30000 }),
+  siege: fc.integer({ min: 0, max: 5000 }),
+});
+
+const troopTypeArb = fc.constantFrom<TroopType>(...TROOP_TYPES);
+
+const commanderArb = (id: string): fc.Arbitrary<BattleCommander> =>
+  fc.record({
+    id: fc.constant(id),
+    lead: fc.integer({ min: 1, max: 100 }),
+    war: fc.integer({ min: 1, max: 100 }),
+    int: fc.integer({ min: 1, max: 100 }),
+  });
+
+/**
+ * **Feature: sanguo-190, Property 23: 兵种构成与克制**
+ * *For any* 兵种构成，按兵种分摊的损失之和等于实际损失且不超过各兵种兵力；
+ * 克制关系构成骑兵→弓兵→步兵→骑兵的循环；战斗中各兵种伤亡之和等于总伤亡。
+ */
+describe('Property 23: 兵种构成与克制', () => {
+  it('should split losses exactly without exceeding each troop type', () => {
+    fc.assert(
+      fc.property(compositionArb, fc.integer({ min: 0, max: 150000 }), (composition, loss) => {
+        const losses = splitLossByType(composition, loss);
+        const total = sumComposition(composition);
+
+        expect(sumComposition(losses)).toBe(Math.min(loss, total));
+        for (const type of TROOP_TYPES) {
+          expect(losses[type]).toBeGreaterThanOrEqual(0);
+          expect(losses[type]).toBeLessThanOrEqual(composition[type]);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should form a counter triangle of cavalry, archer and infantry', () => {
+    expect(TROOP_COUNTERS.cavalry).toBe('archer');
+    expect(TROOP_COUNTERS.archer).toBe('infantry');
+    expect(TROOP_COUNTERS.infantry).toBe('cavalry');
+
+    fc.assert(
+      fc.property(troopTypeArb, troopTypeArb, (a, b) => {
+        const forward = getCounterMultiplier(a, b);
+        const backward = getCounterMultiplier(b, a);
+        if (forward === COUNTER_ADVANTAGE_MULTIPLIER) {
+          expect(backward).toBe(COUNTER_DISADVANTAGE_MULTIPLIER);
+        } else if (forward === 1) {
+          expect(backward).toBe(1);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should keep normalized composition consistent with troops', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 100000 }),
+        fc.option(compositionArb, { nil: undefined }),
+        (troops, troopTypes) => {
+          const composition = getTroopComposition({ troops, troopTypes });
+          expect(sumComposition(composition)).toBe(troops);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should report per-type casualties summing to battle casualties', () => {
+    fc.assert(
+      fc.property(
+        commanderArb('attacker'),
+        commanderArb('defender'),
+        compositionArb.filter((c) => sumComposition(c) > 0),
+        compositionArb.filter((c) => sumComposition(c) > 0),
+        fc.integer({ min: 0, max: 100 }),
+        (attacker, defender, attackerComposition, defenderComposition, cityDefense) => {
+          const result = resolveBattle({
+            attacker,
+            attackerTroops: sumComposition(attackerComposition),
+            attackerComposition,
+            defender,
+            defenderTroops: sumComposition(defenderComposition),
+            defenderComposition,
+            cityDefense,
+          });
+
+          expect(sumComposition(result.attackerCasualtiesByType)).toBe(result.attackerCasualties);
+          expect(sumComposition(result.defenderCasualtiesByType)).toBe(result.defenderCasualties);
+          for (const type of TROOP_TYPES) {
+            expect(result.attackerCasualtiesByType[type]).toBeLessThanOrEqual(
+              attackerComposition[type]
+            );
+            expect(result.defenderCasualtiesByType[type]).toBeLessThanOrEqual(
+              defenderComposition[type]
+            );
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should limit trainable troop types by city scale and resources', () => {
+    const scaleArb = fc.constantFrom<CityScale>('small', 'medium', 'large');
+    const resourcesArb = fc.subarray<CitySpecialResource>(['horses', 'ironworks']);
+
+    fc.assert(
+      fc.property(scaleArb, resourcesArb, (scale, specialResources) => {
+        const trainable = getTrainableTroopTypes({ scale, specialResources });
+
+        expect(trainable).toContain('infantry');
+        expect(trainable).toContain('archer');
+        expect(trainable.includes('cavalry')).toBe(
+          scale !== 'small' || specialResources.includes('horses')
+        );
+        expect(trainable.includes('siege')).toBe(
+          scale === 'large' || specialResources.includes('ironworks')
+        );
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should refuse to recruit troop types the city cannot train', () => {
+    const scaleArb = fc.constantFrom<CityScale>('small', 'medium', 'large');
+    const resourcesArb = fc.subarray<CitySpecialResource>(['horses', 'ironworks']);
+
+    fc.assert(
+      fc.property(scaleArb, resourcesArb, troopTypeArb, (scale, specialResources, troopType) => {
+        const resources = {
+          population: 1_000_000,
+          gold: 1_000_000,
+          grain: 0,
+          commerce: 0,
+          agriculture: 0,
+          defense: 0,
+          loyalty: 100,
+        };
+        const result = executeRecruitment(
+          { resources, scale, specialResources },
+          50,
+          50,
+          troopType
+        );
+        const trainable = getTrainableTroopTypes({ scale, specialResources }).includes(troopType);
+
+        expect(result.success).toBe(trainable);
+        if (!trainable) {
+          expect(result.error).toBe('此城无法训练该兵种');
+          expect(result.soldiersGained).toBe(0);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * 兵种系统 - 处理兵种属性、克制关系、兵种构成计算和训练条件
+ * @module systems/troops
+ */
+
+import type { City } from '../types/city';
+import type { General } from '../types/general';
+import type { TroopComposition, TroopType } from '../types/troop';
+import { TROOP_TYPES } from '../types/troop';
+
+/**
+ * 兵种属性接口
+ */
+export interface TroopTypeStats {
+  /** 攻击系数 */
+  attack: number;
+  /** 防御系数 */
+  defense: number;
+  /** 每名士兵征募金钱 */
+  goldPerSoldier: number;
+  /** 每名士兵消耗人口 */
+  populationPerSoldier: number;
+}
+
+/**
+ * 兵种属性表
+ * 步兵为基准兵种（系数1.0，征兵消耗与基础征兵公式一致）
+ */
+export const TROOP_TYPE_STATS: Record<TroopType, TroopTypeStats> = {
+  infantry: { attack: 1.0, defense: 1.0, goldPerSoldier: 2, populationPerSoldier: 1 },
+  cavalry: { attack: 1.2, defense: 0.85, goldPerSoldier: 4, populationPerSoldier: 1 },
+  archer: { attack: 1.1, defense: 0.9, goldPerSoldier: 3, populationPerSoldier: 1 },
+  siege: { attack: 0.7, defense: 0.6, goldPerSoldier: 5, populationPerSoldier: 2 },
+};
+
+/**
+ * 兵种克制关系：键克制值
+ * 骑兵克弓兵、弓兵克步兵、步兵克骑兵，器械不参与克制
+ */
+export const TROOP_COUNTERS: Record<TroopType, TroopType | null> = {
+  cavalry: 'archer',
+  archer: 'infantry',
+  infantry: 'cavalry',
+  siege: null,
+};
+
+/**
+ * 克制方伤害系数
+ */
+export const COUNTER_ADVANTAGE_MULTIPLIER = 1.25;
+
+/**
+ * 被克制方伤害系数
+ */
+export const COUNTER_DISADVANTAGE_MULTIPLIER = 0.8;
+
+/**
+ * 器械削减城防的比例（按器械占全军比例折算）
+ */
+export const SIEGE_CITY_DEFENSE_REDUCTION = 0.5;
+
+/**
+ * 创建兵种构成
+ * @param partial - 部分兵种兵力
+ * @returns 完整兵种构成（缺省兵种为0）
+ */
+export function createComposition(partial: Partial<TroopComposition> = {}): TroopComposition {
+  return {
+    infantry: partial.infantry ?? 0,
+    cavalry: partial.cavalry ?? 0,
+    archer: partial.archer ?? 0,
+    siege: partial.siege ?? 0,
+  };
+}
+
+/**
+ * 计算兵种构成总兵力
+ */
+export function sumComposition(composition: TroopComposition): number {
+  return TROOP_TYPES.reduce((sum, type) => sum + composition[type], 0);
+}
+
+/**
+ * 合并两个兵种构成
+ */
+export function addCompositions(a: TroopComposition, b: TroopComposition): TroopComposition {
+  return createComposition({
+    infantry: a.infantry + b.infantry,
+    cavalry: a.cavalry + b.cavalry,
+    archer: a.archer + b.archer,
+    siege: a.siege + b.siege,
+  });
+}
+
+/**
+ * 获取武将的兵种构成
+ * 缺省视为全部步兵；构成之和与兵力不一致时按比例校正
+ * @param general - 武将
+ * @returns 与统领兵力一致的兵种构成
+ */
+export function getTroopComposition(general: Pick<General, 'troops' | 'troopTypes'>): TroopComposition {
+  const troops = Math.max(0, general.troops);
+  if (!general.troopTypes) {
+    return createComposition({ infantry: troops });
+  }
+
+  const total = sumComposition(general.troopTypes);
+  if (total === troops) {
+    return createComposition(general.troopTypes);
+  }
+  if (total <= 0) {
+    return createComposition({ infantry: troops });
+  }
+
+  // 按比例校正，余数归入兵力最多的兵种
+  const scaled = createComposition();
+  let largest: TroopType = 'infantry';
+  for (const type of TROOP_TYPES) {
+    scaled[type] = Math.floor((general.troopTypes[type] * troops) / total);
+    if (general.troopTypes[type] > general.troopTypes[largest]) largest = type;
+  }
+  scaled[largest] += troops - sumComposition(scaled);
+  return scaled;
+}
+
+/**
+ * 按兵种比例分摊损失
+ * @param composition - 兵种构成
+ * @param loss - 总损失
+ * @returns 各兵种损失（之和等于 min(损失, 总兵力)）
+ */
+export function splitLossByType(composition: TroopComposition, loss: number): TroopComposition {
+  const total = sumComposition(composition);
+  const result = createComposition();
+  if (total <= 0 || loss <= 0) return result;
+
+  const actualLoss = Math.min(loss, total);
+  for (const type of TROOP_TYPES) {
+    result[type] = Math.floor((actualLoss * composition[type]) / total);
+  }
+
+  // 取整余数依次分摊给尚有兵力的兵种
+  let remainder = actualLoss - sumComposition(result);
+  for (const type of TROOP_TYPES) {
+    if (remainder <= 0) break;
+    const capacity = composition[type] - result[type];
+    const extra = Math.min(capacity, remainder);
+    result[type] += extra;
+    remainder -= extra;
+  }
+
+  return result;
+}
+
+/**
+ * 为武将补充指定兵种兵力
+ * @param general - 武将
+ * @param troopType - 兵种
+ * @param amount - 补充兵力
+ * @returns 武将兵力相关字段更新
+ */
+export function addTroopsOfType(
+  general: Pick<General, 'troops' | 'troopTypes'>,
+  troopType: TroopType,
+  amount: number
+): Pick<General, 'troops' | 'troopTypes'> {
+  const composition = getTroopComposition(general);
+  composition[troopType] += amount;
+  return {
+    troops: sumComposition(composition),
+    troopTypes: composition,
+  };
+}
+
+/**
+ * 扣除武将各兵种兵力
+ * @param general - 武将
+ * @param losses - 各兵种损失
+ * @returns 武将兵力相关字段更新
+ */
+export function removeTroopsByType(
+  general: Pick<General, 'troops' | 'troopTypes'>,
+  losses: TroopComposition
+): Pick<General, 'troops' | 'troopTypes'> {
+  const composition = getTroopComposition(general);
+  for (const type of TROOP_TYPES) {
+    composition[type] = Math.max(0, composition[type] - losses[type]);
+  }
+  return {
+    troops: sumComposition(composition),
+    troopTypes: composition,
+  };
+}
+
+/**
+ * 获取兵种对单一兵种的克制系数
+ * @param attackerType - 攻击兵种
+ * @param targetType - 目标兵种
+ * @returns 伤害系数
+ */
+export function getCounterMultiplier(attackerType: TroopType, targetType: TroopType): number {
+  if (TROOP_COUNTERS[attackerType] === targetType) {
+    return COUNTER_ADVANTAGE_MULTIPLIER;
+  }
+  if (TROOP_COUNTERS[targetType] === attackerType) {
+    return COUNTER_DISADVANTAGE_MULTIPLIER;
+  }
+  return 1;
+}
+
+/**
+ * 获取兵种对敌军整体的克制系数（按敌军兵种比例加权）
+ * @param attackerType - 攻击兵种
+ * @param enemy - 敌军兵种构成
+ * @returns 加权伤害系数
+ */
+export function getCounterMultiplierAgainst(
+  attackerType: TroopType,
+  enemy: TroopComposition
+): number {
+  const total = sumComposition(enemy);
+  if (total <= 0) return 1;
+
+  return TROOP_TYPES.reduce(
+    (sum, type) => sum + (enemy[type] / total) * getCounterMultiplier(attackerType, type),
+    0
+  );
+}
+
+/**
+ * 获取城市可训练的兵种
+ * 小城：步兵、弓兵；中城：加骑兵；大城：加器械
+ * 马场可训练骑兵，冶铁可打造器械
+ * @param city - 城市
+ * @returns 可训练兵种列表
+ */
+export function getTrainableTroopTypes(city: Pick<City, 'scale' | 'specialResources'>): TroopType[] {
+  const resources = city.specialResources ?? [];
+  const canTrainCavalry = city.scale !== 'small' || resources.includes('horses');
+  const canTrainSiege = city.scale === 'large' || resources.includes('ironworks');
+
+  return TROOP_TYPES.filter((type) => {
+    switch (type) {
+      case 'infantry':
+      case 'archer':
+        return true;
+      case 'cavalry':
+        return canTrainCavalry;
+      case 'siege':
+        return canTrainSiege;
+    }
+  });
+}
+
+/**
+ * 获取兵种构成中兵力最多的兵种
+ * @param composition - 兵种构成
+ * @returns 主力兵种（无兵力时为null）
+ */
+export function getDominantTroopType(composition: TroopComposition): TroopType | null {
+  let dominant: TroopType | null = null;
+  for (const type of TROOP_TYPES) {
+    if (composition[type] > 0 && (!dominant || composition[type] > composition[dominant])) {
+      dominant = type;
+    }
+  }
+  return dominant;
+}
@@ -13,6 +13,7 @@ import {
   AP_COST_CAMPAIGN,
 } from '../types/gameState';
 import { calculateMonthlyIncome, calculateYearlyGrain } from './domestic';
+import { isCityBesieged } from './siege';
 
 /**
  * 行动类型
@@ -186,6 +187,7 @@ export function getAgeIncrementRecord(
 
 /**
  * 计算并发放七月粮食收入
+ * 被围城市粮道断绝，无粮食收入
  * **Validates: Requirements 9.12**
  */
 export function distributeJulyGrain(
@@ -194,6 +196,12 @@ export function distributeJulyGrain(
   const grainIncome: Record<string, number> = {};
 
   for (const [cityId, city] of Object.entries(gameState.cities)) {
+    // 被围城市无粮食收入
+    if (isCityBesieged(gameState, cityId)) {
+      grainIncome[cityId] = 0;
+      continue;
+    }
+
     // 获取太守政治值
     let governorPol: number | null = null;
     if (city.governor && gameState.generals[city.governor]) {
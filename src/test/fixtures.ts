@@ -0,0 +1,28 @@
+/**
+ * 测试共用的游戏状态构造
+ */
+
+import type { GameState } from '../types/gameState';
+import { SCENARIO_190, createGameStateFromScenario } from '../data/scenario190';
+
+/**
+ * 以190年剧本创建玩家回合的初始状态（默认以曹操为玩家势力、选中陈留）
+ * @param factionId - 玩家势力ID
+ * @param selectedCity - 选中的城市ID
+ */
+export function createTestState(
+  factionId: string = 'caocao',
+  selectedCity: string = 'chenliu'
+): GameState {
+  const scenario = JSON.parse(
+    JSON.stringify(createGameStateFromScenario(SCENARIO_190, factionId))
+  ) as ReturnType<typeof createGameStateFromScenario>;
+  return {
+    ...scenario,
+    currentFaction: factionId,
+    actionPoints: 3,
+    phase: 'player',
+    selectedCity,
+    eventLog: [],
+  };
+}
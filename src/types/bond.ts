@@ -0,0 +1,47 @@
+/**
+ * 武将关系（自本武将视角看对方的身份）
+ * - sworn: 结义兄弟
+ * - parent: 对方为本武将之父母
+ * - child: 对方为本武将之子女
+ * - spouse: 夫妻
+ * - rival: 宿敌
+ * - mentor: 对方为本武将之师
+ * - pupil: 对方为本武将之弟子
+ */
+export type BondType = 'sworn' | 'parent' | 'child' | 'spouse' | 'rival' | 'mentor' | 'pupil';
+
+/**
+ * 武将关系（关系须双向登记，对方处登记为相应的对偶关系）
+ */
+export interface GeneralBond {
+  /** 对方武将ID */
+  generalId: string;
+  /** 关系类型 */
+  type: BondType;
+}
+
+/**
+ * 对方身份的称谓，如「张飞乃刘备之结义兄弟」
+ */
+export const BOND_LABELS: Record<BondType, string> = {
+  sworn: '结义兄弟',
+  parent: '父',
+  child: '子',
+  spouse: '配偶',
+  rival: '宿敌',
+  mentor: '师',
+  pupil: '弟子',
+};
+
+/**
+ * 对偶关系：甲视乙为某关系时，乙视甲为对偶关系
+ */
+export const BOND_INVERSES: Record<BondType, BondType> = {
+  sworn: 'sworn',
+  parent: 'child',
+  child: 'parent',
+  spouse: 'spouse',
+  rival: 'rival',
+  mentor: 'pupil',
+  pupil: 'mentor',
+};
@@ -3,6 +3,22 @@
  */
 export type CityScale = 'small' | 'medium' | 'large';
 
+/**
+ * 城市特产资源
+ * - horses: 马场，可训练骑兵
+ * - ironworks: 冶铁，可打造攻城器械
+ */
+export type CitySpecialResource = 'horses' | 'ironworks';
+
+/**
+ * 委任方针：太守每月自行动用城中钱粮经营城池
+ * - commerce: 专注商业
+ * - agriculture: 专注农业
+ * - defense: 专注城防
+ * - recruit: 专注征兵
+ */
+export type DelegationMode = 'commerce' | 'agriculture' | 'defense' | 'recruit';
+
 /**
  * 城市资源接口
  */
@@ -53,6 +69,10 @@ export interface City {
   stationedGenerals: string[];
   /** 太守ID (可为空) */
   governor: string | null;
+  /** 委任方针（未委任时缺省） */
+  delegation?: DelegationMode;
+  /** 特产资源 */
+  specialResources?: CitySpecialResource[];
 }
 
 /**
@@ -0,0 +1,78 @@
+import type { GameTimestamp } from './events';
+
+/**
+ * 停战协定接口
+ * 双方在停战期内不得互相出兵，期满后重回交战状态
+ */
+export interface Truce {
+  /** 缔约双方势力ID */
+  factions: [string, string];
+  /** 缔约日期 */
+  startedAt: GameTimestamp;
+  /** 期满日期（到达该月即失效） */
+  expiresAt: GameTimestamp;
+}
+
+/**
+ * 外交提议接口
+ * AI势力遣使向玩家提出结盟或议和，待玩家应允或回绝
+ */
+export interface DiplomacyProposal {
+  /** 唯一标识符 */
+  id: string;
+  /** 提议势力ID */
+  from: string;
+  /** 受议势力ID */
+  to: string;
+  /** 提议内容 */
+  action: 'alliance' | 'truce';
+  /** 使者武将ID */
+  envoyId: string;
+  /** 提议日期 */
+  proposedAt: GameTimestamp;
+}
+
+/**
+ * 势力关系变化原因
+ * - battle: 两军交战
+ * - gift: 馈赠钱粮
+ * - shared_enemy: 同仇敌忾（每月随共同敌人数增长）
+ * - betrayal: 背弃盟约
+ * - alliance: 缔结同盟
+ * - truce: 缔结停战
+ * - truce_expired: 停战期满
+ * - declare_war: 宣战
+ * - execution: 处斩对方武将
+ * - tribute: 被索贡赋
+ * - trade: 钱粮互市
+ * - poach: 挖角对方武将
+ */
+export type RelationChangeReason =
+  | 'battle'
+  | 'gift'
+  | 'shared_enemy'
+  | 'betrayal'
+  | 'alliance'
+  | 'truce'
+  | 'truce_expired'
+  | 'declare_war'
+  | 'execution'
+  | 'tribute'
+  | 'trade'
+  | 'poach';
+
+/**
+ * 势力关系变化记录
+ */
+export interface RelationRecord {
+  /** 双方势力ID */
+  factions: [string, string];
+  /** 变化日期 */
+  date: GameTimestamp;
+  /** 变化原因 */
+  reason: RelationChangeReason;
+  /** 变化值 */
+  delta: number;
+  /** 变化后的关系值 */
+  value: number;
+}
@@ -1,7 +1,18 @@
+import type { TroopComposition, TroopType } from './troop';
+import type { SiegeOutcome } from './siege';
+import type { SkillTrigger } from './skill';
+
 /**
  * 游戏事件类型
  */
-export type GameEventType = 'battle' | 'domestic' | 'disaster' | 'general';
+export type GameEventType =
+  | 'battle'
+  | 'domestic'
+  | 'disaster'
+  | 'general'
+  | 'stratagem'
+  | 'diplomacy'
+  | 'trade';
 
 /**
  * 事件类型对应的边框颜色
@@ -11,6 +22,9 @@ export const EVENT_BORDER_COLORS: Record<GameEventType, string> = {
   domestic: '#22c55e', // 内政 - 绿色
   disaster: '#eab308', // 灾害 - 黄色
   general: '#a855f7', // 武将 - 紫色
+  stratagem: '#06b6d4', // 计略 - 青色
+  diplomacy: '#3b82f6', // 外交 - 蓝色
+  trade: '#f59e0b', // 贸易 - 琥珀色
 };
 
 /**
@@ -40,14 +54,100 @@ export interface BattleEventData {
     attacker: number;
     defender: number;
   };
+  /** 双方各兵种伤亡 */
+  casualtiesByType?: {
+    attacker: TroopComposition;
+    defender: TroopComposition;
+  };
   /** 单挑信息 */
   duel?: {
     occurred: boolean;
     winner?: string;
     instantKill?: boolean;
+    /** 单挑回合数（玩家亲自单挑） */
+    turns?: number;
+    /** 败方是否拨马而逃 */
+    retreated?: boolean;
   };
   /** 攻占城市ID */
   cityCapture?: string;
+  /** 自相邻城市赶来救援的守方援军武将ID列表 */
+  reinforcements?: string[];
+  /** 两路夹击时另一路的出发城市ID */
+  pincerCity?: string;
+  /** 围城信息（围城开始、强攻、突围、解围及围城结束） */
+  siege?: {
+    /** 被围城市ID */
+    city: string;
+    /** 围城阶段 */
+    phase: 'start' | 'assault' | 'end';
+    /** 已围城月数 */
+    months: number;
+    /** 围城结束方式 */
+    outcome?: SiegeOutcome;
+  };
+  /** 战后双方士气 */
+  morale?: {
+    attacker: number;
+    defender: number;
+  };
+  /** 败军撤退 */
+  retreat?: BattleRetreat;
+  /** 战后被俘的败方武将ID列表 */
+  captured?: string[];
+  /** 逐回合战斗记录（用于战斗回放，旧存档可能缺省） */
+  rounds?: BattleRoundRecord[];
+  /** 双方主将发动的特技 */
+  skills?: SkillTrigger[];
+}
+
+/**
+ * 战斗回放中的单回合记录
+ */
+export interface BattleRoundRecord {
+  /** 回合序号（从1开始） */
+  round: number;
+  /** 本回合出手的攻方武将ID */
+  attackerGeneral: string;
+  /** 本回合出手的守方武将ID */
+  defenderGeneral: string;
+  /** 回合结束时攻方兵力 */
+  attackerTroops: number;
+  /** 回合结束时守方兵力 */
+  defenderTroops: number;
+  /** 攻方造成的伤害 */
+  damageToDefender: number;
+  /** 守方造成的伤害 */
+  damageToAttacker: number;
+  /** 本回合攻方伤亡 */
+  attackerCasualties: number;
+  /** 本回合守方伤亡 */
+  defenderCasualties: number;
+  /** 回合结束时攻方士气 */
+  attackerMorale: number;
+  /** 回合结束时守方士气 */
+  defenderMorale: number;
+  /** 攻方是否获得高统帅减免 */
+  attackerDamageReduced: boolean;
+  /** 守方是否获得高统帅减免 */
+  defenderDamageReduced: boolean;
+  /** 本回合发生的单挑 */
+  duel?: {
+    winner?: string;
+    instantKill: boolean;
+  };
+}
+
+/**
+ * 败军撤退记录
+ */
+export interface BattleRetreat {
+  /** 撤退方 */
+  side: 'attacker' | 'defender';
+  /** 退守城市ID（缺省表示无路可退、全军溃散） */
+  toCity?: string;
+  /** 是否因士气崩溃而溃退 */
+  routed: boolean;
 }
 
 /**
@@ -56,6 +156,7 @@ export interface BattleEventData {
 export type DomesticActionType =
   | 'develop_commerce'
   | 'develop_agriculture'
+  | 'develop_defense'
   | 'recruit'
   | 'search_talent';
 
@@ -71,12 +172,117 @@ export interface DomesticEventData {
   executor: string;
   /** 变化值 */
   value: number;
+  /** 征募兵种（仅征兵） */
+  troopType?: TroopType;
+  /** 执行武将发动的特技 */
+  skills?: SkillTrigger[];
+}
+
+/**
+ * 计略类型
+ * - rumor: 流言，降低城市民忠
+ * - discord: 离间，降低敌将忠诚
+ * - revolt: 煽动，激起民变，降低城防与民忠
+ * - fire: 火计，焚烧城中粮草
+ * - bribe: 贿赂，以重金收买敌将，大幅降低其忠诚
+ */
+export type StratagemType = 'rumor' | 'discord' | 'revolt' | 'fire' | 'bribe';
+
+/**
+ * 计略事件数据
+ */
+export interface StratagemEventData {
+  /** 目标城市ID */
+  city: string;
+  /** 计略类型 */
+  stratagem: StratagemType;
+  /** 施计武将ID */
+  executor: string;
+  /** 施计势力ID */
+  faction: string;
+  /** 目标武将ID（仅离间、贿赂） */
+  target?: string;
+  /** 计略是否得逞 */
+  succeeded: boolean;
+  /** 效果数值（民忠、忠诚、城防的降低值或焚毁的粮草） */
+  value: number;
+  /** 施计武将发动的特技 */
+  skills?: SkillTrigger[];
+}
+
+/**
+ * 外交行动类型
+ * - alliance: 遣使结盟
+ * - truce: 遣使议和，停战若干月
+ * - break_treaty: 撕毁盟约或停战协定
+ * - declare_war: 宣战
+ */
+export type DiplomacyActionType = 'alliance' | 'truce' | 'break_treaty' | 'declare_war';
+
+/**
+ * 外交事件数据
+ */
+export interface DiplomacyEventData {
+  /** 发起方势力ID */
+  faction: string;
+  /** 对方势力ID */
+  target: string;
+  /** 外交行动（truce_expired 表示停战期满） */
+  action: DiplomacyActionType | 'truce_expired';
+  /** 使者武将ID（停战期满时缺省） */
+  envoy?: string;
+  /** 对方是否应允（宣战、撕毁盟约与停战期满恒为true） */
+  accepted: boolean;
+}
+
+/**
+ * 贸易类型
+ * - gift: 馈赠钱粮以改善关系
+ * - tribute: 向较弱邻邦索取贡赋
+ * - trade: 以粮易金或以金易粮
+ */
+export type TradeKind = 'gift' | 'tribute' | 'trade';
+
+/**
+ * 钱粮数额
+ */
+export interface TradeGoods {
+  /** 金钱 */
+  gold: number;
+  /** 粮草 */
+  grain: number;
+}
+
+/**
+ * 贸易事件数据（仅记录达成的交易）
+ */
+export interface TradeEventData {
+  /** 发起方势力ID */
+  faction: string;
+  /** 对方势力ID */
+  target: string;
+  /** 贸易类型 */
+  kind: TradeKind;
+  /** 发起方付出的钱粮 */
+  give: TradeGoods;
+  /** 发起方得到的钱粮 */
+  take: TradeGoods;
 }
 
 /**
  * 武将事件类型
  */
-export type GeneralEventType = 'death' | 'defect' | 'recruited' | 'promoted';
+export type GeneralEventType =
+  | 'death'
+  | 'defect'
+  | 'recruited'
+  | 'promoted'
+  | 'released'
+  | 'come_of_age'
+  | 'succession'
+  | 'dispatched'
+  | 'appointed'
+  | 'dismissed';
 
 /**
  * 武将事件数据
@@ -101,7 +307,13 @@ export interface GameEvent {
   /** 事件时间戳 */
   timestamp: GameTimestamp;
   /** 事件数据 */
-  data: BattleEventData | DomesticEventData | GeneralEventData;
+  data:
+    | BattleEventData
+    | DomesticEventData
+    | GeneralEventData
+    | StratagemEventData
+    | DiplomacyEventData
+    | TradeEventData;
   /** LLM生成的叙事文本 */
   narrative?: string;
 }
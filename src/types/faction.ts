@@ -21,8 +21,17 @@ export interface Faction {
   generals: string[];
   /** 外交关系映射 */
   diplomacy: Record<string, DiplomacyStatus>;
+  /** 信誉 (0-100，缺省时视为默认信誉，背弃盟约会降低信誉) */
+  reputation?: number;
 }
 
+/**
+ * 信誉常量
+ */
+export const FACTION_REPUTATION_MIN = 0;
+export const FACTION_REPUTATION_MAX = 100;
+export const DEFAULT_FACTION_REPUTATION = 50;
+
 /**
  * 190年剧本势力颜色常量
  */
@@ -1,7 +1,12 @@
 import type { Faction } from './faction';
 import type { City } from './city';
-import type { General } from './general';
+import type { General, UpcomingGeneral } from './general';
 import type { GameEvent, GameTimestamp } from './events';
+import type { Siege } from './siege';
+import type { Prisoner } from './prisoner';
+import type { ScoutReport } from './scout';
+import type { Movement } from './movement';
+import type { DiplomacyProposal, RelationRecord, Truce } from './diplomacy';
 
 /**
  * 游戏阶段
@@ -30,6 +35,26 @@ export interface GameState {
   selectedCity: string | null;
   /** 事件日志 */
   eventLog: GameEvent[];
+  /** 进行中的围城（旧存档可能缺省） */
+  sieges?: Siege[];
+  /** 关押中的俘虏（旧存档可能缺省） */
+  prisoners?: Prisoner[];
+  /** 派出援军的势力下回合需扣除的行动力：势力ID → 行动力（旧存档可能缺省） */
+  reinforcementCosts?: Record<string, number>;
+  /** 各势力的侦察情报（旧存档可能缺省） */
+  scoutReports?: ScoutReport[];
+  /** 生效中的停战协定（旧存档可能缺省） */
+  truces?: Truce[];
+  /** 势力间关系值 (-100~100)：以两势力ID排序后用“:”连接为键（旧存档可能缺省，缺省时按外交关系推定） */
+  relations?: Record<string, number>;
+  /** 势力关系变化记录，最新在后（旧存档可能缺省） */
+  relationHistory?: RelationRecord[];
+  /** 待玩家答复的外交提议（旧存档可能缺省） */
+  diplomacyProposals?: DiplomacyProposal[];
+  /** 尚未成年登场的武将（旧存档可能缺省） */
+  upcomingGenerals?: UpcomingGeneral[];
+  /** 行军中的调动（旧存档可能缺省） */
+  movements?: Movement[];
 }
 
 /**
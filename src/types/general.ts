@@ -1,3 +1,7 @@
+import type { TroopComposition } from './troop';
+import type { SkillId } from './skill';
+import type { GeneralBond } from './bond';
+
 /**
  * 武将属性接口
  * 五维属性范围: 0-100
@@ -27,6 +31,16 @@ export interface General {
   faction: string;
   /** 五维属性 */
   attributes: GeneralAttributes;
+  /** 特技（缺省时无特技） */
+  skills?: SkillId[];
+  /** 各项属性积累的经验（满100点提升1点属性，缺省时为0） */
+  experience?: Partial<GeneralAttributes>;
+  /** 官阶（RANKS 序号，决定统兵上限，缺省时为0即无官） */
+  rank?: number;
+  /** 积累的功绩（授予官阶时须达到该官阶的功绩要求，缺省时为0） */
+  merit?: number;
+  /** 与其他武将的关系（结义、父子、夫妻、宿敌、师徒，缺省时无） */
+  bonds?: GeneralBond[];
   /** 年龄 */
   age: number;
   /** 存活状态 */
@@ -35,14 +49,49 @@ export interface General {
   currentCity: string;
   /** 统领兵力 */
   troops: number;
+  /** 兵种构成（各兵种之和等于统领兵力，缺省时视为全部步兵） */
+  troopTypes?: TroopComposition;
+  /** 忠诚度 (0-100，缺省时视为默认忠诚度，君主恒为满忠诚) */
+  loyalty?: number;
+  /** 相性 (0-149 环形取值，与君主相性越近越忠诚，缺省时不计相性) */
+  compatibility?: number;
+  /** 已探得此在野武将的势力ID列表（仅在野武将，缺省时无人知晓） */
+  discoveredBy?: string[];
 }
 
+/**
+ * 待登场武将（到达登场年份后成年出仕，以在野身份出现于所在城市）
+ */
+export interface UpcomingGeneral {
+  /** 登场年份 */
+  year: number;
+  /** 登场时的武将数据（所属势力为在野） */
+  general: General;
+}
+
+/**
+ * 在野武将与无主城市的势力ID
+ */
+export const FREE_FACTION_ID = '';
+
 /**
  * 属性范围常量
  */
 export const ATTRIBUTE_MIN = 0;
 export const ATTRIBUTE_MAX = 100;
 
+/**
+ * 忠诚度常量
+ */
+export const GENERAL_LOYALTY_MIN = 0;
+export const GENERAL_LOYALTY_MAX = 100;
+export const DEFAULT_GENERAL_LOYALTY = 70;
+
+/**
+ * 相性取值范围（首尾相接，0 与 149 相邻）
+ */
+export const COMPATIBILITY_RANGE = 150;
+
 /**
  * 验证武将属性是否在有效范围内
  */
@@ -1,19 +1,72 @@
 // 武将相关类型
-export type { General, GeneralAttributes } from './general';
+export type { General, GeneralAttributes, UpcomingGeneral } from './general';
 export {
   ATTRIBUTE_MIN,
   ATTRIBUTE_MAX,
+  GENERAL_LOYALTY_MIN,
+  GENERAL_LOYALTY_MAX,
+  DEFAULT_GENERAL_LOYALTY,
+  COMPATIBILITY_RANGE,
+  FREE_FACTION_ID,
   isValidAttribute,
   isValidGeneralAttributes,
 } from './general';
 
+// 兵种相关类型
+export type { TroopType, TroopComposition } from './troop';
+export { TROOP_TYPES, TROOP_TYPE_LABELS, TROOP_TYPE_ICONS } from './troop';
+
+// 特技相关类型
+export type { SkillId, SkillTrigger } from './skill';
+export { SKILL_LABELS, SKILL_DESCRIPTIONS } from './skill';
+
+// 武将关系相关类型
+export type { BondType, GeneralBond } from './bond';
+export { BOND_LABELS, BOND_INVERSES } from './bond';
+
+// 官阶相关类型
+export type { Rank } from './rank';
+export { RANKS, LORD_MAX_TROOPS } from './rank';
+
 // 城市相关类型
-export type { City, CityResources, CityPosition, CityScale } from './city';
+export type {
+  City,
+  CityResources,
+  CityPosition,
+  CityScale,
+  CitySpecialResource,
+  DelegationMode,
+} from './city';
 export { COMMERCE_MAX, AGRICULTURE_MAX, DEFENSE_MAX, LOYALTY_MAX } from './city';
 
+// 围城相关类型
+export type { Siege, SiegeOutcome } from './siege';
+
+// 俘虏相关类型
+export type { Prisoner } from './prisoner';
+
+// 侦察相关类型
+export type { ScoutReport } from './scout';
+
+// 行军相关类型
+export type { Movement } from './movement';
+
+// 外交相关类型
+export type {
+  Truce,
+  DiplomacyProposal,
+  RelationChangeReason,
+  RelationRecord,
+} from './diplomacy';
+
 // 势力相关类型
 export type { Faction, DiplomacyStatus } from './faction';
-export { FACTION_COLORS } from './faction';
+export {
+  FACTION_COLORS,
+  FACTION_REPUTATION_MIN,
+  FACTION_REPUTATION_MAX,
+  DEFAULT_FACTION_REPUTATION,
+} from './faction';
 
 // 事件相关类型
 export type {
@@ -21,10 +74,19 @@ export type {
   GameEventType,
   GameTimestamp,
   BattleEventData,
+  BattleRetreat,
+  BattleRoundRecord,
   DomesticEventData,
   DomesticActionType,
+  DiplomacyActionType,
+  DiplomacyEventData,
+  TradeKind,
+  TradeGoods,
+  TradeEventData,
   GeneralEventData,
   GeneralEventType,
+  StratagemEventData,
+  StratagemType,
 } from './events';
 export { EVENT_BORDER_COLORS } from './events';
 
@@ -0,0 +1,25 @@
+import type { GameTimestamp } from './events';
+
+/**
+ * 行军接口
+ * 跨越多座城市的调动分月行进：下令当回合抵达相邻的第一座城市，此后每月末再前进一城；
+ * 行军途中武将驻守于所经城市，随军钱粮于抵达目的城市后入库
+ */
+export interface Movement {
+  /** 唯一标识符 */
+  id: string;
+  /** 所属势力ID */
+  factionId: string;
+  /** 行军武将ID列表 */
+  generalIds: string[];
+  /** 当前所在城市ID */
+  currentCityId: string;
+  /** 尚需经过的城市ID列表（末尾为目的城市） */
+  route: string[];
+  /** 随军金钱 */
+  gold: number;
+  /** 随军粮草 */
+  grain: number;
+  /** 出发日期 */
+  departedAt: GameTimestamp;
+}
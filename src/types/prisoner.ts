@@ -0,0 +1,18 @@
+import type { GameTimestamp } from './events';
+
+/**
+ * 俘虏接口
+ * 被俘武将离开原势力的武将列表，关押于俘获方城市，等待招降、释放或处斩
+ */
+export interface Prisoner {
+  /** 被俘武将ID */
+  generalId: string;
+  /** 俘获方势力ID */
+  captorFaction: string;
+  /** 原属势力ID */
+  originalFaction: string;
+  /** 关押城市ID */
+  cityId: string;
+  /** 被俘日期 */
+  capturedAt: GameTimestamp;
+}
@@ -0,0 +1,28 @@
+/**
+ * 官阶
+ */
+export interface Rank {
+  /** 官阶名称 */
+  name: string;
+  /** 可统领的兵力上限 */
+  maxTroops: number;
+  /** 授予此官阶所需的功绩 */
+  merit: number;
+}
+
+/**
+ * 官阶序列（序号即武将的官阶，缺省为0即无官）
+ */
+export const RANKS: Rank[] = [
+  { name: '无官', maxTroops: 3000, merit: 0 },
+  { name: '校尉', maxTroops: 5000, merit: 100 },
+  { name: '中郎将', maxTroops: 8000, merit: 250 },
+  { name: '偏将军', maxTroops: 12000, merit: 500 },
+  { name: '将军', maxTroops: 16000, merit: 800 },
+  { name: '大将军', maxTroops: 20000, merit: 1200 },
+];
+
+/**
+ * 君主可统领的兵力上限（君主不受官阶限制）
+ */
+export const LORD_MAX_TROOPS = 30000;
@@ -0,0 +1,14 @@
+import type { GameTimestamp } from './events';
+
+/**
+ * 侦察情报接口
+ * 势力派出斥候侦察敌方城市后，在一段时间内可掌握该城的兵力、钱粮与守将
+ */
+export interface ScoutReport {
+  /** 侦察方势力ID */
+  factionId: string;
+  /** 被侦察城市ID */
+  cityId: string;
+  /** 侦察日期 */
+  scoutedAt: GameTimestamp;
+}
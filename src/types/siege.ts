@@ -0,0 +1,34 @@
+import type { GameTimestamp } from './events';
+
+/**
+ * 围城结束方式
+ * - captured: 城破被攻占
+ * - surrendered: 粮尽或民心崩溃，开城投降
+ * - relieved: 援军解围
+ * - broken: 守军出城突击击退围城部队
+ * - withdrawn: 围城方撤围（含补给断绝）
+ */
+export type SiegeOutcome = 'captured' | 'surrendered' | 'relieved' | 'broken' | 'withdrawn';
+
+/**
+ * 围城接口
+ * 围城部队驻扎在出发城市，每月削减目标城市的城防并断其粮道
+ */
+export interface Siege {
+  /** 唯一标识符 */
+  id: string;
+  /** 围城势力ID */
+  attackerFaction: string;
+  /** 围城部队出发（补给）城市ID */
+  campCityId: string;
+  /** 被围城市ID */
+  targetCityId: string;
+  /** 围城武将ID列表 */
+  generalIds: string[];
+  /** 开始围城的日期 */
+  startDate: GameTimestamp;
+  /** 已围城月数 */
+  months: number;
+  /** 围城部队士气（旧存档可能缺省） */
+  morale?: number;
+}
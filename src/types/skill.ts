@@ -0,0 +1,47 @@
+/**
+ * 武将特技
+ * - shensu: 神速，兵贵神速，攻击力提升
+ * - huoji: 火计，火计成功率与焚粮数额提升
+ * - tuntian: 屯田，开发农业成效提升
+ * - mingyi: 名医，救治伤兵，战斗伤亡减少
+ * - guimou: 鬼谋，施展计略成功率提升
+ * - feijiang: 飞将，单挑时武力加成
+ * - rende: 仁德，百姓踊跃应募，征兵数量提升
+ */
+export type SkillId = 'shensu' | 'huoji' | 'tuntian' | 'mingyi' | 'guimou' | 'feijiang' | 'rende';
+
+/**
+ * 特技发动记录（供战报与史官叙事）
+ */
+export interface SkillTrigger {
+  /** 发动特技的武将ID */
+  general: string;
+  /** 特技ID */
+  skill: SkillId;
+}
+
+/**
+ * 特技名称
+ */
+export const SKILL_LABELS: Record<SkillId, string> = {
+  shensu: '神速',
+  huoji: '火计',
+  tuntian: '屯田',
+  mingyi: '名医',
+  guimou: '鬼谋',
+  feijiang: '飞将',
+  rende: '仁德',
+};
+
+/**
+ * 特技效果说明
+ */
+export const SKILL_DESCRIPTIONS: Record<SkillId, string> = {
+  shensu: '兵贵神速，攻击力 +15%',
+  huoji: '火计成功率 +20%，焚粮 ×1.5',
+  tuntian: '开发农业成效 ×1.5',
+  mingyi: '救治伤兵，战斗伤亡 -20%',
+  guimou: '计略成功率 +15%',
+  feijiang: '单挑时武力 +10',
+  rende: '百姓踊跃应募，征兵数量 ×1.2',
+};
@@ -0,0 +1,35 @@
+/**
+ * 兵种类型
+ * 骑兵克弓兵、弓兵克步兵、步兵克骑兵；器械擅长攻城
+ */
+export type TroopType = 'infantry' | 'cavalry' | 'archer' | 'siege';
+
+/**
+ * 兵种构成（各兵种兵力）
+ */
+export type TroopComposition = Record<TroopType, number>;
+
+/**
+ * 所有兵种（固定顺序，用于遍历和显示）
+ */
+export const TROOP_TYPES: readonly TroopType[] = ['infantry', 'cavalry', 'archer', 'siege'];
+
+/**
+ * 兵种中文名称
+ */
+export const TROOP_TYPE_LABELS: Record<TroopType, string> = {
+  infantry: '步兵',
+  cavalry: '骑兵',
+  archer: '弓兵',
+  siege: '器械',
+};
+
+/**
+ * 兵种图标
+ */
+export const TROOP_TYPE_ICONS: Record<TroopType, string> = {
+  infantry: '🛡️',
+  cavalry: '🐎',
+  archer: '🏹',
+  siege: '🪨',
+};